@@ -0,0 +1,119 @@
+import { PlantNetAuthError, PlantNetQuotaError } from './errors';
+import type { IdentifyPlantArgs, PlantNetIdentifyResponse } from './types';
+
+export interface BatchObservation extends IdentifyPlantArgs {
+  /** Caller-supplied label for the observation; defaults to its 1-based position. */
+  id?: string;
+}
+
+export interface BatchOptions {
+  /** Maximum identifications in flight at once. */
+  concurrency: number;
+  /** Maximum API calls (cache hits excluded) the batch may spend. Unlimited when undefined. */
+  budget?: number;
+  /**
+   * Remaining daily quota across every API key, or null if unknown. Read before the
+   * batch and again after each API call, since one response only reports the key
+   * that answered it.
+   */
+  remainingQuota: () => Promise<number | null>;
+  /** Stop before remaining quota would drop below this many requests. */
+  minRemainingQuota: number;
+  identify: (args: IdentifyPlantArgs) => Promise<PlantNetIdentifyResponse>;
+}
+
+export type BatchItemResult =
+  | { id: string; status: 'ok'; result: PlantNetIdentifyResponse }
+  | { id: string; status: 'error'; error: Error }
+  | { id: string; status: 'skipped'; reason: string };
+
+export interface BatchSummary {
+  items: BatchItemResult[];
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  apiCalls: number;
+  cacheHits: number;
+  /** Why the batch stopped early, or null if every observation was attempted. */
+  stopReason: string | null;
+}
+
+/**
+ * Identify a list of observations with bounded concurrency. New identifications stop
+ * starting once the API-call budget or the remaining daily quota is used up, or after
+ * an auth or quota error that would make every later call fail too.
+ */
+export async function runBatch(
+  observations: BatchObservation[],
+  options: BatchOptions
+): Promise<BatchSummary> {
+  const items: BatchItemResult[] = new Array(observations.length);
+  let next = 0;
+  let inFlight = 0;
+  let apiCalls = 0;
+  let cacheHits = 0;
+  let remaining = await options.remainingQuota();
+  let stopReason: string | null = null;
+
+  const idOf = (i: number) => observations[i].id ?? String(i + 1);
+
+  // In-flight calls count against both limits, since each may spend one request
+  const limitReached = (): string | null => {
+    if (stopReason) return stopReason;
+    if (options.budget !== undefined && apiCalls + inFlight >= options.budget) {
+      return `quota budget of ${options.budget} API call(s) reached`;
+    }
+    if (remaining !== null && remaining - inFlight <= options.minRemainingQuota) {
+      return `remaining daily quota reached (${remaining} left, keeping ${options.minRemainingQuota} in reserve)`;
+    }
+    return null;
+  };
+
+  const worker = async () => {
+    while (next < observations.length) {
+      const i = next++;
+      const reason = limitReached();
+      if (reason) {
+        items[i] = { id: idOf(i), status: 'skipped', reason };
+        continue;
+      }
+
+      inFlight++;
+      try {
+        const { id: _id, ...args } = observations[i];
+        const result = await options.identify(args);
+        if (result.cache) {
+          cacheHits++;
+        } else {
+          apiCalls++;
+          remaining = await options.remainingQuota();
+        }
+        items[i] = { id: idOf(i), status: 'ok', result };
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error(String(err));
+        items[i] = { id: idOf(i), status: 'error', error };
+        if (err instanceof PlantNetQuotaError) {
+          stopReason = 'the Pl@ntNet daily quota was exhausted';
+        } else if (err instanceof PlantNetAuthError) {
+          stopReason = 'the API key was rejected';
+        }
+      } finally {
+        inFlight--;
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(options.concurrency, observations.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  const firstSkipped = items.find((item) => item.status === 'skipped');
+  return {
+    items,
+    succeeded: items.filter((item) => item.status === 'ok').length,
+    failed: items.filter((item) => item.status === 'error').length,
+    skipped: items.filter((item) => item.status === 'skipped').length,
+    apiCalls,
+    cacheHits,
+    stopReason: firstSkipped?.status === 'skipped' ? firstSkipped.reason : null,
+  };
+}
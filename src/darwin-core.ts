@@ -0,0 +1,198 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { Observation } from './observation-log';
+
+const DWC_NS = 'http://rs.tdwg.org/dwc/terms/';
+
+// Columns of occurrence.txt, in order; occurrenceID doubles as the archive's row id
+export const OCCURRENCE_TERMS = [
+  'occurrenceID',
+  'basisOfRecord',
+  'eventDate',
+  'scientificName',
+  'scientificNameAuthorship',
+  'taxonRank',
+  'kingdom',
+  'family',
+  'genus',
+  'vernacularName',
+  'taxonID',
+  'identifiedBy',
+  'dateIdentified',
+  'identificationVerificationStatus',
+  'identificationRemarks',
+  'decimalLatitude',
+  'decimalLongitude',
+  'geodeticDatum',
+  'locality',
+  'occurrenceRemarks',
+  'associatedMedia',
+  'dynamicProperties',
+] as const;
+
+export type OccurrenceTerm = (typeof OCCURRENCE_TERMS)[number];
+export type Occurrence = Record<OccurrenceTerm, string>;
+
+export type ExportFormat = 'dwca' | 'geojson';
+
+export interface ExportFile {
+  name: string;
+  mediaType: string;
+  content: string;
+}
+
+export interface ObservationExport {
+  files: ExportFile[];
+  /** Observations written as occurrences. */
+  exported: number;
+  /** Observation IDs left out because Pl@ntNet returned no match for them. */
+  skipped: string[];
+}
+
+function percent(score: number): string {
+  return `${(score * 100).toFixed(1)}%`;
+}
+
+/**
+ * Map a logged identification to Darwin Core occurrence terms. The top match becomes
+ * the identification; runners-up and the score go to identificationRemarks. Returns
+ * null when there is no match to report.
+ */
+export function toOccurrence(obs: Observation): Occurrence | null {
+  const [top, ...others] = obs.results;
+  if (!top) return null;
+  const remarks = [
+    `Pl@ntNet score ${percent(top.score)} (project ${obs.project})`,
+    ...(others.length > 0
+      ? [`alternatives: ${others.map((r) => `${r.scientificName} ${percent(r.score)}`).join(', ')}`]
+      : []),
+  ];
+  return {
+    occurrenceID: `urn:uuid:${obs.id}`,
+    // People took the photos; only the identification is automated
+    basisOfRecord: 'HumanObservation',
+    // Observation time from observed_at or EXIF; the identification time only when neither was known
+    eventDate: obs.observedAt ?? obs.recordedAt,
+    scientificName: top.author ? `${top.scientificName} ${top.author}` : top.scientificName,
+    scientificNameAuthorship: top.author ?? '',
+    taxonRank: 'species',
+    kingdom: 'Plantae',
+    family: top.family,
+    genus: top.genus,
+    vernacularName: top.commonNames[0] ?? '',
+    taxonID: top.gbifId ? `https://www.gbif.org/species/${top.gbifId}` : '',
+    identifiedBy: 'Pl@ntNet automated identification',
+    dateIdentified: obs.recordedAt,
+    identificationVerificationStatus: 'unverified',
+    identificationRemarks: remarks.join('; '),
+    decimalLatitude: obs.coordinates ? String(obs.coordinates.latitude) : '',
+    decimalLongitude: obs.coordinates ? String(obs.coordinates.longitude) : '',
+    geodeticDatum: obs.coordinates ? 'WGS84' : '',
+    locality: obs.location ?? '',
+    occurrenceRemarks: obs.notes ?? '',
+    // Local paths and data URIs mean nothing to a data portal
+    associatedMedia: obs.images
+      .map((image) => image.source)
+      .filter((source) => /^https?:\/\//i.test(source))
+      .join(' | '),
+    dynamicProperties: JSON.stringify({
+      plantnetScore: top.score,
+      organs: obs.images.map((image) => image.organ),
+      imageSha256: obs.images.map((image) => image.sha256),
+      plantnetProject: obs.project,
+      plantnetIdentificationId: obs.identificationId,
+    }),
+  };
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * occurrence.txt: comma-separated, double-quoted where needed, with a header row.
+ */
+export function toOccurrenceCsv(occurrences: Occurrence[]): string {
+  const rows = [[...OCCURRENCE_TERMS], ...occurrences.map((o) => OCCURRENCE_TERMS.map((term) => o[term]))];
+  return rows.map((row) => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+/**
+ * meta.xml describing occurrence.txt as the archive's Occurrence core.
+ */
+export function buildMetaXml(): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<archive xmlns="http://rs.tdwg.org/dwc/text/">',
+    '  <core encoding="UTF-8" fieldsTerminatedBy="," linesTerminatedBy="\\n" fieldsEnclosedBy="&quot;"',
+    `        ignoreHeaderLines="1" rowType="${DWC_NS}Occurrence">`,
+    '    <files>',
+    '      <location>occurrence.txt</location>',
+    '    </files>',
+    '    <id index="0"/>',
+    ...OCCURRENCE_TERMS.map((term, i) => `    <field index="${i}" term="${DWC_NS}${term}"/>`),
+    '  </core>',
+    '</archive>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * GeoJSON FeatureCollection with the occurrence terms as properties. Observations
+ * without coordinates keep a null geometry rather than being dropped.
+ */
+export function toGeoJson(occurrences: Occurrence[]): string {
+  const features = occurrences.map((o) => ({
+    type: 'Feature',
+    id: o.occurrenceID,
+    geometry: o.decimalLatitude
+      ? { type: 'Point', coordinates: [Number(o.decimalLongitude), Number(o.decimalLatitude)] }
+      : null,
+    properties: { ...o, dynamicProperties: JSON.parse(o.dynamicProperties) as unknown },
+  }));
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2) + '\n';
+}
+
+/**
+ * Convert logged observations into the requested export files.
+ */
+export function exportObservations(observations: Observation[], formats: ExportFormat[]): ObservationExport {
+  const occurrences: Occurrence[] = [];
+  const skipped: string[] = [];
+  for (const obs of observations) {
+    const occurrence = toOccurrence(obs);
+    if (occurrence) {
+      occurrences.push(occurrence);
+    } else {
+      skipped.push(obs.id);
+    }
+  }
+
+  const files: ExportFile[] = [];
+  if (formats.includes('dwca')) {
+    files.push(
+      { name: 'occurrence.txt', mediaType: 'text/csv', content: toOccurrenceCsv(occurrences) },
+      { name: 'meta.xml', mediaType: 'application/xml', content: buildMetaXml() }
+    );
+  }
+  if (formats.includes('geojson')) {
+    files.push({
+      name: 'observations.geojson',
+      mediaType: 'application/geo+json',
+      content: toGeoJson(occurrences),
+    });
+  }
+  return { files, exported: occurrences.length, skipped };
+}
+
+/**
+ * Write export files into a new timestamped subdirectory and return its path.
+ */
+export async function writeExportFiles(directory: string, files: ExportFile[], now = new Date()): Promise<string> {
+  const target = path.join(directory, `plantnet-export-${now.toISOString().replace(/[:.]/g, '-')}`);
+  await fs.mkdir(target, { recursive: true });
+  for (const file of files) {
+    await fs.writeFile(path.join(target, file.name), file.content, 'utf8');
+  }
+  return target;
+}
@@ -0,0 +1,18 @@
+import { redact } from './redact';
+
+/**
+ * True when PLANTNET_DEBUG is set to "1", "true" or "on".
+ */
+export function debugEnabled(env: NodeJS.ProcessEnv = process.env): boolean {
+  return ['1', 'true', 'on'].includes((env.PLANTNET_DEBUG ?? '').toLowerCase());
+}
+
+/**
+ * Write one line of request/response metadata to stderr when debug logging is on.
+ * stdout carries the MCP protocol, so nothing may be logged there. Fields are
+ * redacted as a whole; callers pass metadata only, never bodies or image data.
+ */
+export function debugLog(event: string, fields: Record<string, unknown>): void {
+  if (!debugEnabled()) return;
+  process.stderr.write(`[plantnet-mcp] ${event} ${redact(JSON.stringify(fields))}\n`);
+}
@@ -0,0 +1,86 @@
+import { redact } from './redact';
+
+// Typed errors thrown by PlantNetClient so callers can react to the failure kind
+
+export type PlantNetErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'not_found'
+  | 'bad_image'
+  | 'upstream'
+  | 'validation';
+
+export class PlantNetError extends Error {
+  readonly kind: PlantNetErrorKind;
+  /** HTTP status from the Pl@ntNet API, when the error came from a response. */
+  readonly status?: number;
+
+  constructor(kind: PlantNetErrorKind, message: string, status?: number) {
+    // Messages reach the model and the transcript; upstream bodies may echo the request URL
+    super(redact(message));
+    this.name = 'PlantNetError';
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+/** Missing, invalid or unauthorized API key (401/403). */
+export class PlantNetAuthError extends PlantNetError {
+  constructor(message: string, status?: number) {
+    super('auth', message, status);
+    this.name = 'PlantNetAuthError';
+  }
+}
+
+/** Daily identification quota exhausted (429). */
+export class PlantNetQuotaError extends PlantNetError {
+  constructor(message: string, status = 429) {
+    super('quota', message, status);
+    this.name = 'PlantNetQuotaError';
+  }
+}
+
+/** No species matched the images (404 "Species not found"). */
+export class PlantNetNotFoundError extends PlantNetError {
+  constructor(message: string, status = 404) {
+    super('not_found', message, status);
+    this.name = 'PlantNetNotFoundError';
+  }
+}
+
+/** An image could not be loaded, or was rejected as unreadable or too large. */
+export class PlantNetBadImageError extends PlantNetError {
+  constructor(message: string, status?: number) {
+    super('bad_image', message, status);
+    this.name = 'PlantNetBadImageError';
+  }
+}
+
+/** The Pl@ntNet API was unreachable, timed out or returned a 5xx. */
+export class PlantNetUpstreamError extends PlantNetError {
+  constructor(message: string, status?: number) {
+    super('upstream', message, status);
+    this.name = 'PlantNetUpstreamError';
+  }
+}
+
+/** Request arguments were rejected, locally or by the API (400). */
+export class PlantNetValidationError extends PlantNetError {
+  constructor(message: string, status?: number) {
+    super('validation', message, status);
+    this.name = 'PlantNetValidationError';
+  }
+}
+
+/**
+ * Map a non-ok Pl@ntNet API response to the matching typed error.
+ */
+export function errorFromResponse(status: number, detail: string): PlantNetError {
+  const message = `PlantNet API error ${status}: ${detail}`;
+  if (status === 401 || status === 403) return new PlantNetAuthError(message, status);
+  if (status === 404) return new PlantNetNotFoundError(message, status);
+  if (status === 429) return new PlantNetQuotaError(message, status);
+  if (status === 413 || status === 415) return new PlantNetBadImageError(message, status);
+  if (status >= 500) return new PlantNetUpstreamError(message, status);
+  return new PlantNetValidationError(message, status);
+}
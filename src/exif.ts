@@ -0,0 +1,156 @@
+// Minimal EXIF reader for JPEG files: orientation, GPS position and capture time only
+
+export interface GpsCoordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface ExifData {
+  /** EXIF orientation (1–8); 1 when absent. */
+  orientation: number;
+  gps: GpsCoordinates | null;
+  /**
+   * DateTimeOriginal as an ISO 8601 local time (YYYY-MM-DDTHH:MM:SS), with the
+   * OffsetTimeOriginal offset appended when the camera recorded one; null when absent.
+   */
+  takenAt: string | null;
+}
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_GPS_IFD = 0x8825;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  /** Offset of the 4-byte value/offset field. */
+  valueOffset: number;
+}
+
+/**
+ * Parse the TIFF structure inside an APP1 "Exif" segment.
+ */
+function parseTiff(buffer: Buffer, start: number, end: number): ExifData {
+  const result: ExifData = { orientation: 1, gps: null, takenAt: null };
+  if (buffer.toString('latin1', start, start + 6) !== 'Exif\0\0') return result;
+  const tiff = start + 6;
+  if (tiff + 8 > end) return result;
+
+  const little = buffer.toString('latin1', tiff, tiff + 2) === 'II';
+  const u16 = (o: number) => (little ? buffer.readUInt16LE(o) : buffer.readUInt16BE(o));
+  const u32 = (o: number) => (little ? buffer.readUInt32LE(o) : buffer.readUInt32BE(o));
+
+  const readIfd = (offset: number): Map<number, IfdEntry> => {
+    const entries = new Map<number, IfdEntry>();
+    const ifd = tiff + offset;
+    if (ifd + 2 > end) return entries;
+    const count = u16(ifd);
+    for (let i = 0; i < count; i++) {
+      const entry = ifd + 2 + i * 12;
+      if (entry + 12 > end) break;
+      entries.set(u16(entry), { type: u16(entry + 2), count: u32(entry + 4), valueOffset: entry + 8 });
+    }
+    return entries;
+  };
+
+  const readRationals = (entry: IfdEntry): number[] | null => {
+    // RATIONAL (type 5) values never fit inline; the field holds an offset
+    if (entry.type !== 5) return null;
+    const base = tiff + u32(entry.valueOffset);
+    if (base + entry.count * 8 > end) return null;
+    const values: number[] = [];
+    for (let i = 0; i < entry.count; i++) {
+      const denominator = u32(base + i * 8 + 4);
+      values.push(denominator === 0 ? 0 : u32(base + i * 8) / denominator);
+    }
+    return values;
+  };
+
+  const readAscii = (entry: IfdEntry): string | null => {
+    // ASCII (type 2) values up to 4 bytes are stored inline
+    if (entry.type !== 2) return null;
+    const base = entry.count <= 4 ? entry.valueOffset : tiff + u32(entry.valueOffset);
+    if (base + entry.count > end) return null;
+    return buffer.toString('latin1', base, base + entry.count).replace(/\0[\s\S]*$/, '');
+  };
+
+  const ifd0 = readIfd(u32(tiff + 4));
+  const orientation = ifd0.get(TAG_ORIENTATION);
+  if (orientation) {
+    const value = u16(orientation.valueOffset);
+    result.orientation = value >= 1 && value <= 8 ? value : 1;
+  }
+
+  const gpsPointer = ifd0.get(TAG_GPS_IFD);
+  if (gpsPointer) {
+    const gps = readIfd(u32(gpsPointer.valueOffset));
+    const latRef = gps.get(TAG_GPS_LATITUDE_REF);
+    const lat = gps.get(TAG_GPS_LATITUDE);
+    const lonRef = gps.get(TAG_GPS_LONGITUDE_REF);
+    const lon = gps.get(TAG_GPS_LONGITUDE);
+    const latParts = lat && readRationals(lat);
+    const lonParts = lon && readRationals(lon);
+    if (latRef && lonRef && latParts?.length === 3 && lonParts?.length === 3) {
+      const toDegrees = ([d, m, s]: number[]) => d + m / 60 + s / 3600;
+      const latitude = toDegrees(latParts) * (buffer[latRef.valueOffset] === 0x53 /* S */ ? -1 : 1);
+      const longitude = toDegrees(lonParts) * (buffer[lonRef.valueOffset] === 0x57 /* W */ ? -1 : 1);
+      if (Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180) {
+        result.gps = { latitude, longitude };
+      }
+    }
+  }
+
+  const exifPointer = ifd0.get(TAG_EXIF_IFD);
+  if (exifPointer) {
+    const exif = readIfd(u32(exifPointer.valueOffset));
+    const dateTime = exif.get(TAG_DATE_TIME_ORIGINAL);
+    const offsetTime = exif.get(TAG_OFFSET_TIME_ORIGINAL);
+    const match = dateTime && /^(\d{4}):(\d{2}):(\d{2}) (\d{2}:\d{2}:\d{2})$/.exec(readAscii(dateTime) ?? '');
+    if (match) {
+      const local = `${match[1]}-${match[2]}-${match[3]}T${match[4]}`;
+      const offset = offsetTime ? readAscii(offsetTime) : null;
+      // Unset dates are written as zeros ("0000:00:00 00:00:00")
+      if (match[1] !== '0000' && !Number.isNaN(Date.parse(`${local}Z`))) {
+        result.takenAt = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? `${local}${offset}` : local;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Read orientation, GPS position and capture time from a JPEG's EXIF segment.
+ * Returns defaults for non-JPEG data or images without EXIF.
+ */
+export function readExif(buffer: Buffer): ExifData {
+  const empty: ExifData = { orientation: 1, gps: null, takenAt: null };
+  if (buffer.length < 4 || buffer[0] !== 0xff || buffer[1] !== 0xd8) return empty;
+
+  let offset = 2;
+  while (offset + 4 <= buffer.length) {
+    if (buffer[offset] !== 0xff) return empty;
+    const marker = buffer[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // EXIF lives in APP1 before the image data; stop at SOF/SOS
+    if (marker === 0xda || (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc)) {
+      return empty;
+    }
+    const length = buffer.readUInt16BE(offset + 2);
+    if (marker === 0xe1) {
+      const exif = parseTiff(buffer, offset + 4, Math.min(offset + 2 + length, buffer.length));
+      if (exif.orientation !== 1 || exif.gps || exif.takenAt) return exif;
+    }
+    offset += 2 + length;
+  }
+  return empty;
+}
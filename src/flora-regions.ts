@@ -0,0 +1,107 @@
+// Bundled mapping from geographic regions to Pl@ntNet flora projects.
+// Bounding boxes are deliberately coarse (TDWG level-2 botanical regions rounded to
+// whole degrees); where several regions contain a point, the smallest one wins.
+// Each region lists candidate project IDs in order of preference, because the
+// project catalogue differs between API versions — the first ID actually offered
+// by /v2/projects is used.
+
+import type { GpsCoordinates } from './exif';
+
+export interface FloraRegion {
+  name: string;
+  /** [minLatitude, maxLatitude, minLongitude, maxLongitude] */
+  bbox: [number, number, number, number];
+  projects: string[];
+}
+
+export const FLORA_REGIONS: FloraRegion[] = [
+  // Europe
+  { name: 'Northern Europe', bbox: [54, 72, -25, 32], projects: ['k-northern-europe', 'weurope'] },
+  { name: 'Western Europe', bbox: [42, 55, -11, 8], projects: ['k-western-europe', 'weurope'] },
+  { name: 'Middle Europe', bbox: [45, 55, 5, 24], projects: ['k-middle-europe', 'weurope'] },
+  { name: 'Southwestern Europe', bbox: [35, 44, -10, 10], projects: ['k-southwestern-europe', 'medit', 'weurope'] },
+  { name: 'Southeastern Europe', bbox: [34, 47, 10, 30], projects: ['k-southeastern-europe', 'medit'] },
+  { name: 'Eastern Europe', bbox: [44, 70, 22, 60], projects: ['k-eastern-europe'] },
+  // Africa
+  { name: 'Northern Africa', bbox: [19, 38, -18, 36], projects: ['k-northern-africa', 'afn', 'medit'] },
+  { name: 'West Tropical Africa', bbox: [4, 19, -18, 16], projects: ['k-west-tropical-africa', 'aft'] },
+  { name: 'West-Central Tropical Africa', bbox: [-14, 8, 8, 31], projects: ['k-west-central-tropical-africa', 'aft'] },
+  { name: 'Northeast Tropical Africa', bbox: [3, 23, 22, 52], projects: ['k-northeast-tropical-africa', 'aft'] },
+  { name: 'East Tropical Africa', bbox: [-12, 5, 29, 42], projects: ['k-east-tropical-africa', 'aft'] },
+  { name: 'South Tropical Africa', bbox: [-27, -8, 11, 41], projects: ['k-south-tropical-africa', 'aft'] },
+  { name: 'Southern Africa', bbox: [-35, -17, 11, 33], projects: ['k-southern-africa'] },
+  { name: 'Western Indian Ocean', bbox: [-26, -4, 42, 64], projects: ['k-western-indian-ocean', 'reunion', 'maurice'] },
+  // Asia
+  { name: 'Western Asia', bbox: [29, 43, 26, 63], projects: ['k-western-asia', 'medit'] },
+  { name: 'Arabian Peninsula', bbox: [12, 33, 34, 60], projects: ['k-arabian-peninsula'] },
+  { name: 'Middle Asia', bbox: [35, 56, 46, 88], projects: ['k-middle-asia'] },
+  { name: 'Indian Subcontinent', bbox: [5, 37, 60, 98], projects: ['k-indian-subcontinent'] },
+  { name: 'China', bbox: [18, 54, 73, 135], projects: ['k-china'] },
+  { name: 'Japan', bbox: [24, 46, 122, 146], projects: ['k-japan'] },
+  { name: 'Indo-China', bbox: [5, 29, 92, 110], projects: ['k-indo-china'] },
+  { name: 'Malesia', bbox: [-11, 21, 95, 141], projects: ['k-malesia'] },
+  // Oceania
+  { name: 'Australia', bbox: [-44, -10, 112, 154], projects: ['k-australia'] },
+  { name: 'New Zealand', bbox: [-48, -34, 165, 179], projects: ['k-new-zealand'] },
+  { name: 'New Caledonia', bbox: [-23, -19, 163, 169], projects: ['k-southwestern-pacific', 'endemia'] },
+  { name: 'Hawaii', bbox: [18, 23, -161, -154], projects: ['k-hawaii', 'hawai'] },
+  // Americas
+  { name: 'Eastern Canada', bbox: [42, 63, -95, -52], projects: ['k-eastern-canada', 'canada', 'namerica'] },
+  { name: 'Western Canada', bbox: [48, 70, -141, -95], projects: ['k-western-canada', 'canada', 'namerica'] },
+  { name: 'Northeastern U.S.A.', bbox: [37, 48, -92, -66], projects: ['k-northeastern-u-s-a', 'namerica'] },
+  { name: 'Southeastern U.S.A.', bbox: [24, 39, -92, -75], projects: ['k-southeastern-u-s-a', 'namerica'] },
+  { name: 'North-Central U.S.A.', bbox: [36, 49, -105, -89], projects: ['k-north-central-u-s-a', 'namerica'] },
+  { name: 'South-Central U.S.A.', bbox: [25, 37, -107, -88], projects: ['k-south-central-u-s-a', 'namerica'] },
+  { name: 'Northwestern U.S.A.', bbox: [41, 49, -125, -104], projects: ['k-northwestern-u-s-a', 'namerica'] },
+  { name: 'Southwestern U.S.A.', bbox: [31, 42, -125, -109], projects: ['k-southwestern-u-s-a', 'namerica'] },
+  { name: 'Mexico', bbox: [14, 33, -118, -86], projects: ['k-mexico', 'namerica'] },
+  { name: 'Central America', bbox: [7, 18, -93, -77], projects: ['k-central-america'] },
+  { name: 'Caribbean', bbox: [10, 27, -85, -59], projects: ['k-caribbean', 'martinique', 'cuba'] },
+  { name: 'Northern South America', bbox: [0, 13, -74, -50], projects: ['k-northern-south-america', 'guyane'] },
+  { name: 'Western South America', bbox: [-23, 13, -82, -60], projects: ['k-western-south-america'] },
+  { name: 'Brazil', bbox: [-34, 6, -74, -34], projects: ['k-brazil', 'brazil'] },
+  { name: 'Southern South America', bbox: [-56, -17, -76, -48], projects: ['k-southern-south-america'] },
+];
+
+/** Project used when no regional flora applies. */
+export const GLOBAL_PROJECT = 'all';
+
+function contains(region: FloraRegion, { latitude, longitude }: GpsCoordinates): boolean {
+  const [minLat, maxLat, minLon, maxLon] = region.bbox;
+  return latitude >= minLat && latitude <= maxLat && longitude >= minLon && longitude <= maxLon;
+}
+
+function area(region: FloraRegion): number {
+  const [minLat, maxLat, minLon, maxLon] = region.bbox;
+  return (maxLat - minLat) * (maxLon - minLon);
+}
+
+/**
+ * Pick the regional flora project for a position, considering only projects the API
+ * currently offers. Falls back to the global project when no region applies.
+ */
+export function selectFloraProject(
+  coordinates: GpsCoordinates,
+  availableProjects: string[],
+  regions: FloraRegion[] = FLORA_REGIONS
+): { project: string; region: string | null; reason: string } {
+  const available = new Set(availableProjects);
+  const position = `${coordinates.latitude.toFixed(4)}, ${coordinates.longitude.toFixed(4)}`;
+  const matching = regions.filter((region) => contains(region, coordinates)).sort((a, b) => area(a) - area(b));
+
+  for (const region of matching) {
+    const project = region.projects.find((id) => available.has(id));
+    if (project) {
+      return { project, region: region.name, reason: `${position} lies in ${region.name}` };
+    }
+  }
+
+  return {
+    project: GLOBAL_PROJECT,
+    region: null,
+    reason:
+      matching.length > 0
+        ? `no project for ${matching.map((r) => r.name).join(' / ')} is available; using the global flora`
+        : `no regional flora covers ${position}; using the global flora`,
+  };
+}
@@ -0,0 +1,289 @@
+import { randomUUID, timingSafeEqual } from 'crypto';
+import * as http from 'http';
+import { isIP, type AddressInfo } from 'net';
+import * as os from 'os';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { redact } from './redact';
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** When set, every request except /health must send `Authorization: Bearer <token>`. */
+  authToken?: string;
+  /**
+   * Host header values MCP requests may carry, guarding against DNS rebinding: a
+   * hostname or IP (IPv6 in brackets), optionally with a port; without one it also
+   * matches with the listening port. Defaults to the loopback names plus the bound
+   * address, or every local interface address when bound to all interfaces.
+   */
+  allowedHosts?: string[];
+  /** Origin header values browsers may send. Defaults to http(s) origins of the allowed hosts. */
+  allowedOrigins?: string[];
+  /** Streamable HTTP sessions without a request for this long are closed. */
+  sessionIdleTimeoutMs?: number;
+  /** Builds a fresh MCP server for each session. */
+  createServer: () => Server;
+}
+
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+function parseList(value: string | undefined): string[] | undefined {
+  const entries = (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return entries.length > 0 ? entries : undefined;
+}
+
+/**
+ * Read host checks and the session idle timeout from PLANTNET_MCP_* environment variables.
+ * Unset or invalid values are omitted so they fall back to the defaults.
+ */
+export function httpServerOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): Partial<HttpServerOptions> {
+  const options: Partial<HttpServerOptions> = {};
+  const allowedHosts = parseList(env.PLANTNET_MCP_ALLOWED_HOSTS);
+  if (allowedHosts) options.allowedHosts = allowedHosts;
+  const allowedOrigins = parseList(env.PLANTNET_MCP_ALLOWED_ORIGINS);
+  if (allowedOrigins) options.allowedOrigins = allowedOrigins;
+  const idleMinutes = Number(env.PLANTNET_MCP_SESSION_IDLE_MINUTES);
+  if (idleMinutes > 0) options.sessionIdleTimeoutMs = Math.floor(idleMinutes * 60 * 1000);
+  return options;
+}
+
+const LOOPBACK_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+function hostnameOf(address: string): string {
+  return isIP(address) === 6 ? `[${address}]` : address;
+}
+
+function defaultHostnames(bindHost: string): string[] {
+  const addresses =
+    bindHost === '0.0.0.0' || bindHost === '::'
+      ? Object.values(os.networkInterfaces()).flatMap((entries) => (entries ?? []).map((entry) => entry.address))
+      : [bindHost];
+  return [...new Set([...LOOPBACK_HOSTNAMES, ...addresses.map(hostnameOf)])];
+}
+
+/**
+ * DNS-rebinding options for the SDK transports: requests must name an allowed host,
+ * and browsers an allowed origin, so a web page whose domain was rebound to this
+ * server's address cannot talk to it.
+ */
+export function dnsRebindingProtection(
+  options: Pick<HttpServerOptions, 'host' | 'allowedHosts' | 'allowedOrigins'>,
+  port: number
+): { enableDnsRebindingProtection: true; allowedHosts: string[]; allowedOrigins: string[] } {
+  const allowedHosts = (options.allowedHosts ?? defaultHostnames(options.host)).flatMap((host) =>
+    /^(\[[^\]]*\]|[^:]*):\d+$/.test(host) ? [host] : [host, `${host}:${port}`]
+  );
+  return {
+    enableDnsRebindingProtection: true,
+    allowedHosts,
+    allowedOrigins:
+      options.allowedOrigins ?? allowedHosts.flatMap((host) => [`http://${host}`, `https://${host}`]),
+  };
+}
+
+// Large enough for a request carrying five base64-encoded photos
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code: -32000, message }, id: null });
+}
+
+function isAuthorized(req: http.IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization ?? '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) return false;
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Parse error: request body is not valid JSON');
+  }
+}
+
+/**
+ * Serve MCP over Streamable HTTP at /mcp, with the legacy HTTP+SSE transport at
+ * /sse and /messages for older clients. Each session gets its own MCP server.
+ * Streamable HTTP sessions idle for sessionIdleTimeoutMs are closed; SSE sessions
+ * end with their stream.
+ */
+export function createHttpServer(options: HttpServerOptions): http.Server {
+  const streamable = new Map<string, StreamableHTTPServerTransport>();
+  const sse = new Map<string, SSEServerTransport>();
+  const idleTimers = new Map<string, NodeJS.Timeout>();
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+
+  // Restart a session's idle timer on each of its requests
+  function touch(sessionId: string) {
+    clearTimeout(idleTimers.get(sessionId));
+    const timer = setTimeout(() => {
+      streamable.get(sessionId)?.close().catch(() => undefined);
+    }, idleTimeoutMs);
+    timer.unref();
+    idleTimers.set(sessionId, timer);
+  }
+
+  // The listening port, known once the server is bound (port 0 picks one)
+  const protection = () => dnsRebindingProtection(options, (server.address() as AddressInfo).port);
+
+  async function handleStreamable(req: http.IncomingMessage, res: http.ServerResponse) {
+    const header = req.headers['mcp-session-id'];
+    const sessionId = typeof header === 'string' ? header : undefined;
+    const existing = sessionId ? streamable.get(sessionId) : undefined;
+
+    if (req.method === 'POST') {
+      const body = await readJsonBody(req);
+      if (sessionId && existing) {
+        touch(sessionId);
+        await existing.handleRequest(req, res, body);
+        return;
+      }
+      if (header || !isInitializeRequest(body)) {
+        sendJsonRpcError(res, 400, 'Bad Request: no valid session ID provided');
+        return;
+      }
+
+      const transport = new StreamableHTTPServerTransport({
+        ...protection(),
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          streamable.set(id, transport);
+          touch(id);
+        },
+      });
+      transport.onclose = () => {
+        if (!transport.sessionId) return;
+        streamable.delete(transport.sessionId);
+        clearTimeout(idleTimers.get(transport.sessionId));
+        idleTimers.delete(transport.sessionId);
+      };
+      await options.createServer().connect(transport);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (!sessionId || !existing) {
+        sendJsonRpcError(res, 400, 'Bad Request: invalid or missing session ID');
+        return;
+      }
+      touch(sessionId);
+      await existing.handleRequest(req, res);
+      return;
+    }
+
+    res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+  }
+
+  async function handleSse(req: http.IncomingMessage, res: http.ServerResponse, url: URL) {
+    if (url.pathname === '/sse' && req.method === 'GET') {
+      const transport = new SSEServerTransport('/messages', res, protection());
+      sse.set(transport.sessionId, transport);
+      res.on('close', () => sse.delete(transport.sessionId));
+      await options.createServer().connect(transport);
+      return;
+    }
+
+    if (url.pathname === '/messages' && req.method === 'POST') {
+      const transport = sse.get(url.searchParams.get('sessionId') ?? '');
+      if (!transport) {
+        sendJsonRpcError(res, 400, 'Bad Request: unknown SSE session');
+        return;
+      }
+      await transport.handlePostMessage(req, res, await readJsonBody(req));
+      return;
+    }
+
+    res.writeHead(405).end();
+  }
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    const handle = async () => {
+      if (url.pathname === '/health') {
+        sendJson(res, 200, {
+          status: 'ok',
+          sessions: { streamableHttp: streamable.size, sse: sse.size },
+        });
+        return;
+      }
+
+      if (options.authToken && !isAuthorized(req, options.authToken)) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        sendJsonRpcError(res, 401, 'Unauthorized: missing or invalid bearer token');
+        return;
+      }
+
+      if (url.pathname === '/mcp') {
+        await handleStreamable(req, res);
+      } else if (url.pathname === '/sse' || url.pathname === '/messages') {
+        await handleSse(req, res, url);
+      } else {
+        sendJson(res, 404, { error: 'Not found' });
+      }
+    };
+
+    handle().catch((err) => {
+      const status = err instanceof HttpError ? err.status : 500;
+      const message = redact(err instanceof Error ? err.message : String(err));
+      if (status === 500) console.error('HTTP transport error:', message);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, status, status === 500 ? 'Internal server error' : message);
+      } else {
+        res.end();
+      }
+    });
+  });
+  server.on('close', () => {
+    for (const timer of idleTimers.values()) clearTimeout(timer);
+  });
+  return server;
+}
+
+/**
+ * Start the HTTP transport and resolve once it is listening.
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<http.Server> {
+  const server = createHttpServer(options);
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  return server;
+}
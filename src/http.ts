@@ -0,0 +1,183 @@
+import { debugEnabled, debugLog } from './debug-log';
+import type { Dispatcher } from 'undici';
+import { PlantNetError } from './errors';
+import { redactUrl } from './redact';
+
+export interface RetryPolicy {
+  /** Per-attempt timeout covering the request and reading its body, in milliseconds. */
+  timeoutMs: number;
+  /** Retries after the first attempt; 0 disables retrying. */
+  maxRetries: number;
+  /** Base delay for exponential backoff, in milliseconds. */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay, in milliseconds. */
+  maxDelayMs: number;
+  /** Longest Retry-After the client is willing to wait; longer waits fail immediately. */
+  maxRetryAfterMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  timeoutMs: 30_000,
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8_000,
+  maxRetryAfterMs: 60_000,
+};
+
+const ENV_KEYS: Record<keyof RetryPolicy, string> = {
+  timeoutMs: 'PLANTNET_HTTP_TIMEOUT_MS',
+  maxRetries: 'PLANTNET_HTTP_MAX_RETRIES',
+  baseDelayMs: 'PLANTNET_HTTP_RETRY_BASE_MS',
+  maxDelayMs: 'PLANTNET_HTTP_RETRY_MAX_MS',
+  maxRetryAfterMs: 'PLANTNET_HTTP_MAX_RETRY_AFTER_MS',
+};
+
+/**
+ * Read retry policy overrides from PLANTNET_HTTP_* environment variables.
+ * Unset or invalid values are omitted so they fall back to the defaults.
+ */
+export function retryPolicyFromEnv(env: NodeJS.ProcessEnv = process.env): Partial<RetryPolicy> {
+  const policy: Partial<RetryPolicy> = {};
+  for (const [field, envKey] of Object.entries(ENV_KEYS) as [keyof RetryPolicy, string][]) {
+    const raw = env[envKey];
+    if (raw === undefined || raw.trim() === '') continue;
+    const value = Number(raw);
+    if (Number.isFinite(value) && value >= 0) {
+      policy[field] = Math.floor(value);
+    }
+  }
+  return policy;
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay up to base * 2^attempt, capped.
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy, random = Math.random): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.floor(random() * ceiling);
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
+}
+
+function describeTarget(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname}`;
+  } catch {
+    return 'request';
+  }
+}
+
+/** fetch() options, plus the undici dispatcher Node's fetch opens connections through. */
+export type HttpRequestInit = RequestInit & { dispatcher?: Dispatcher };
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Network failure or timeout on a single attempt; eligible for retry. */
+class TransientError extends Error {}
+
+type AttemptOutcome<T> = { response: Response; body: T } | { retryAfterMs: number | null };
+
+async function attemptOnce<T>(
+  url: string,
+  init: HttpRequestInit,
+  policy: RetryPolicy,
+  read: (response: Response) => Promise<T>,
+  attempt: number,
+  canRetry: boolean
+): Promise<AttemptOutcome<T>> {
+  const controller = new AbortController();
+  const startedAt = Date.now();
+  const meta = { method: init.method ?? 'GET', url: redactUrl(url), attempt: attempt + 1 };
+  const timer = setTimeout(() => controller.abort(), policy.timeoutMs);
+  const timeoutMessage = `Request to ${describeTarget(url)} timed out after ${policy.timeoutMs} ms`;
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal });
+    } catch (err) {
+      // A connection refused by policy (e.g. the image fetch guard's lookup) is not transient
+      if (err instanceof Error && err.cause instanceof PlantNetError) throw err.cause;
+      const reason = controller.signal.aborted ? timeoutMessage : err instanceof Error ? err.message : String(err);
+      debugLog('http.error', { ...meta, durationMs: Date.now() - startedAt, error: reason });
+      throw new TransientError(reason);
+    }
+    if (debugEnabled()) {
+      debugLog('http.response', {
+        ...meta,
+        status: response.status,
+        contentType: response.headers.get('content-type'),
+        contentLength: response.headers.get('content-length'),
+        durationMs: Date.now() - startedAt,
+      });
+    }
+
+    if (!response.ok && isRetryableStatus(response.status) && canRetry) {
+      const retryAfterMs =
+        response.status === 429 || response.status === 503
+          ? parseRetryAfter(response.headers.get('retry-after'))
+          : null;
+      // A 429 without Retry-After signals exhausted daily quota, which retrying cannot fix
+      const hopeless =
+        (response.status === 429 && retryAfterMs === null) ||
+        (retryAfterMs !== null && retryAfterMs > policy.maxRetryAfterMs);
+      if (!hopeless) {
+        await response.body?.cancel().catch(() => undefined);
+        return { retryAfterMs };
+      }
+    }
+
+    try {
+      return { response, body: await read(response) };
+    } catch (err) {
+      if (controller.signal.aborted) throw new TransientError(timeoutMessage);
+      throw err;
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * fetch() with a per-attempt timeout and retries for network errors, timeouts,
+ * 5xx, 408 and 429 responses. 429/503 honor Retry-After; other 4xx responses are
+ * returned without retrying. `read` consumes the body inside the timeout window.
+ * The final response is returned even if it is not ok, so callers can report it.
+ */
+export async function fetchWithRetry<T>(
+  url: string,
+  init: HttpRequestInit,
+  policy: RetryPolicy,
+  read: (response: Response) => Promise<T>
+): Promise<{ response: Response; body: T }> {
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = attempt < policy.maxRetries;
+    let outcome: AttemptOutcome<T>;
+    try {
+      outcome = await attemptOnce(url, init, policy, read, attempt, canRetry);
+    } catch (err) {
+      if (err instanceof TransientError && canRetry) {
+        await sleep(backoffDelay(attempt, policy));
+        continue;
+      }
+      throw err instanceof TransientError ? new Error(err.message) : err;
+    }
+
+    if ('response' in outcome) return outcome;
+    await sleep(outcome.retryAfterMs ?? backoffDelay(attempt, policy));
+  }
+}
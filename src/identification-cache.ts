@@ -0,0 +1,290 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { PlantNetIdentifyResponse } from './types';
+
+export interface CacheKeyParams {
+  organs: string[];
+  project: string;
+  lang: string;
+  nb_results: number;
+  /** Omitted (rather than false) when off, so keys from before the option existed stay valid. */
+  include_related_images?: boolean;
+}
+
+export interface IdentificationCacheOptions {
+  /** Directory holding one JSON file per cached identification. */
+  directory: string;
+  /** Time-to-live for entries, in milliseconds. */
+  ttlMs: number;
+  /** Maximum number of entries kept; least recently used entries are evicted first. */
+  maxEntries: number;
+  /** Maximum total size of the cache directory, in bytes. */
+  maxBytes: number;
+}
+
+export interface CacheEntry {
+  key: string;
+  storedAt: string;
+  expiresAt: string;
+  params: CacheKeyParams;
+  imageHashes: string[];
+  response: PlantNetIdentifyResponse;
+}
+
+export interface CacheEntrySummary {
+  key: string;
+  storedAt: string;
+  expiresAt: string;
+  bestMatch: string;
+  project: string;
+  organs: string[];
+  sizeBytes: number;
+}
+
+export interface CacheStats {
+  directory: string;
+  entries: number;
+  expiredEntries: number;
+  totalBytes: number;
+  ttlMs: number;
+  maxEntries: number;
+  maxBytes: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_CACHE_OPTIONS: IdentificationCacheOptions = {
+  directory: path.join(os.homedir(), '.cache', 'plantnet-mcp', 'identifications'),
+  ttlMs: 7 * DAY_MS,
+  maxEntries: 1000,
+  maxBytes: 50 * 1024 * 1024,
+};
+
+export function hashImage(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * Build the cache key from the SHA-256 of each image plus the request parameters
+ * that influence the API response.
+ */
+export function computeCacheKey(imageHashes: string[], params: CacheKeyParams): string {
+  return createHash('sha256')
+    .update(
+      JSON.stringify({
+        images: imageHashes,
+        organs: params.organs,
+        project: params.project,
+        lang: params.lang,
+        nb_results: params.nb_results,
+        ...(params.include_related_images && { include_related_images: true }),
+      })
+    )
+    .digest('hex');
+}
+
+/**
+ * File-based store of identification responses with TTL and size limits.
+ * Each entry is a JSON file named after its key; file mtimes track recency for eviction.
+ */
+export class IdentificationCache {
+  readonly options: IdentificationCacheOptions;
+
+  constructor(options: Partial<IdentificationCacheOptions> = {}) {
+    this.options = { ...DEFAULT_CACHE_OPTIONS, ...options };
+  }
+
+  /**
+   * Build a cache from PLANTNET_CACHE_* environment variables.
+   * Returns null when PLANTNET_CACHE is set to "off", "false" or "0".
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): IdentificationCache | null {
+    if (['off', 'false', '0'].includes((env.PLANTNET_CACHE ?? '').toLowerCase())) {
+      return null;
+    }
+    const options: Partial<IdentificationCacheOptions> = {};
+    if (env.PLANTNET_CACHE_DIR) options.directory = path.resolve(env.PLANTNET_CACHE_DIR);
+    const ttlHours = Number(env.PLANTNET_CACHE_TTL_HOURS);
+    if (ttlHours > 0) options.ttlMs = ttlHours * 60 * 60 * 1000;
+    const maxEntries = Number(env.PLANTNET_CACHE_MAX_ENTRIES);
+    if (maxEntries > 0) options.maxEntries = Math.floor(maxEntries);
+    const maxMb = Number(env.PLANTNET_CACHE_MAX_MB);
+    if (maxMb > 0) options.maxBytes = Math.floor(maxMb * 1024 * 1024);
+    return new IdentificationCache(options);
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.options.directory, `${key}.json`);
+  }
+
+  /**
+   * Return the cached entry for a key, or null if absent, expired or unreadable.
+   */
+  async get(key: string): Promise<CacheEntry | null> {
+    const file = this.entryPath(key);
+    let entry: CacheEntry;
+    try {
+      entry = JSON.parse(await fs.readFile(file, 'utf8')) as CacheEntry;
+    } catch {
+      return null;
+    }
+
+    if (Date.parse(entry.expiresAt) <= Date.now()) {
+      await fs.rm(file, { force: true });
+      return null;
+    }
+
+    // Touch the file so eviction treats it as recently used
+    const now = new Date();
+    await fs.utimes(file, now, now).catch(() => undefined);
+    return entry;
+  }
+
+  async set(
+    key: string,
+    params: CacheKeyParams,
+    imageHashes: string[],
+    response: PlantNetIdentifyResponse
+  ): Promise<void> {
+    const now = Date.now();
+    const entry: CacheEntry = {
+      key,
+      storedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.options.ttlMs).toISOString(),
+      params,
+      imageHashes,
+      response,
+    };
+    await fs.mkdir(this.options.directory, { recursive: true });
+    await fs.writeFile(this.entryPath(key), JSON.stringify(entry), 'utf8');
+    await this.prune();
+  }
+
+  /**
+   * Remove entries untouched for longer than the TTL, then evict least recently used
+   * entries until the cache fits within maxEntries and maxBytes. Works from file
+   * stats alone: an entry's mtime is never older than when it was stored, so one
+   * untouched for a whole TTL has expired. Expired entries touched more recently
+   * are dropped by get() or clear(true).
+   */
+  async prune(): Promise<void> {
+    const files = await this.statEntryFiles();
+    const cutoff = Date.now() - this.options.ttlMs;
+    const live: typeof files = [];
+
+    for (const file of files) {
+      if (file.mtimeMs <= cutoff) {
+        await fs.rm(file.path, { force: true });
+      } else {
+        live.push(file);
+      }
+    }
+
+    live.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    let totalBytes = live.reduce((sum, f) => sum + f.size, 0);
+    while (
+      live.length > 0 &&
+      (live.length > this.options.maxEntries || totalBytes > this.options.maxBytes)
+    ) {
+      const oldest = live.shift()!;
+      totalBytes -= oldest.size;
+      await fs.rm(oldest.path, { force: true });
+    }
+  }
+
+  /**
+   * Summaries of all live entries, most recently stored first.
+   */
+  async list(): Promise<CacheEntrySummary[]> {
+    const summaries: CacheEntrySummary[] = [];
+    for (const file of await this.readEntryFiles()) {
+      if (file.expiresAt <= Date.now() || !file.entry) continue;
+      const { entry } = file;
+      summaries.push({
+        key: entry.key,
+        storedAt: entry.storedAt,
+        expiresAt: entry.expiresAt,
+        bestMatch: entry.response.bestMatch,
+        project: entry.params.project,
+        organs: entry.params.organs,
+        sizeBytes: file.size,
+      });
+    }
+    return summaries.sort((a, b) => b.storedAt.localeCompare(a.storedAt));
+  }
+
+  async stats(): Promise<CacheStats> {
+    const files = await this.readEntryFiles();
+    const expired = files.filter((f) => f.expiresAt <= Date.now()).length;
+    return {
+      directory: this.options.directory,
+      entries: files.length - expired,
+      expiredEntries: expired,
+      totalBytes: files.reduce((sum, f) => sum + f.size, 0),
+      ttlMs: this.options.ttlMs,
+      maxEntries: this.options.maxEntries,
+      maxBytes: this.options.maxBytes,
+    };
+  }
+
+  /**
+   * Delete cached entries. With expiredOnly, only entries past their TTL are removed.
+   * Returns the number of entries deleted.
+   */
+  async clear(expiredOnly = false): Promise<number> {
+    let removed = 0;
+    for (const file of await this.readEntryFiles()) {
+      if (expiredOnly && file.expiresAt > Date.now()) continue;
+      await fs.rm(file.path, { force: true });
+      removed++;
+    }
+    return removed;
+  }
+
+  private async statEntryFiles(): Promise<{ path: string; size: number; mtimeMs: number }[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.options.directory);
+    } catch {
+      return [];
+    }
+
+    const files = [];
+    for (const name of names) {
+      if (!name.endsWith('.json')) continue;
+      const file = path.join(this.options.directory, name);
+      try {
+        const stat = await fs.stat(file);
+        files.push({ path: file, size: stat.size, mtimeMs: stat.mtimeMs });
+      } catch {
+        // Entry removed concurrently; skip it
+      }
+    }
+    return files;
+  }
+
+  private async readEntryFiles(): Promise<
+    { path: string; size: number; mtimeMs: number; expiresAt: number; entry: CacheEntry | null }[]
+  > {
+    const files = [];
+    for (const file of await this.statEntryFiles()) {
+      let text: string;
+      try {
+        text = await fs.readFile(file.path, 'utf8');
+      } catch {
+        // Entry removed concurrently; skip it
+        continue;
+      }
+      let entry: CacheEntry | null = null;
+      try {
+        entry = JSON.parse(text) as CacheEntry;
+      } catch {
+        // Corrupt entries are treated as expired so clear(true) removes them
+      }
+      files.push({ ...file, expiresAt: entry ? Date.parse(entry.expiresAt) : 0, entry });
+    }
+    return files;
+  }
+}
@@ -0,0 +1,308 @@
+import { promises as dns } from 'dns';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { Agent } from 'undici';
+import { PlantNetBadImageError, PlantNetValidationError } from './errors';
+
+export interface ImageFetchPolicy {
+  /** URL schemes image downloads may use, without the colon. */
+  allowedSchemes: string[];
+  /** Redirects followed per download; each hop is checked like the original URL. */
+  maxRedirects: number;
+  /** Largest image body accepted; the download is aborted once it is exceeded. */
+  maxBytes: number;
+  /** Refuse hosts resolving to private, loopback, link-local or otherwise internal addresses. */
+  blockPrivateAddresses: boolean;
+  /** Hostnames (`photos.example.org`, `*.example.org`), IPs or CIDRs exempt from the private-address block. */
+  allowHosts: string[];
+  /** Hostnames, IPs or CIDRs that are always refused; wins over allowHosts. */
+  denyHosts: string[];
+}
+
+export const DEFAULT_IMAGE_FETCH_POLICY: ImageFetchPolicy = {
+  allowedSchemes: ['https', 'http'],
+  maxRedirects: 3,
+  maxBytes: 20 * 1024 * 1024,
+  blockPrivateAddresses: true,
+  allowHosts: [],
+  denyHosts: [],
+};
+
+/** Resolves a hostname to every address it maps to. */
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+export const resolveHost: HostResolver = async (hostname) =>
+  (await dns.lookup(hostname, { all: true, verbatim: true })).map((entry) => entry.address);
+
+// Addresses no public image host should resolve to
+const INTERNAL_RANGES: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'], // "this" network
+  ['10.0.0.0', 8, 'ipv4'], // private
+  ['100.64.0.0', 10, 'ipv4'], // carrier-grade NAT
+  ['127.0.0.0', 8, 'ipv4'], // loopback
+  ['169.254.0.0', 16, 'ipv4'], // link-local, including cloud metadata endpoints
+  ['172.16.0.0', 12, 'ipv4'], // private
+  ['192.0.0.0', 24, 'ipv4'], // IETF protocol assignments
+  ['192.168.0.0', 16, 'ipv4'], // private
+  ['198.18.0.0', 15, 'ipv4'], // benchmarking
+  ['224.0.0.0', 4, 'ipv4'], // multicast
+  ['240.0.0.0', 4, 'ipv4'], // reserved and broadcast
+  ['::', 128, 'ipv6'], // unspecified
+  ['::1', 128, 'ipv6'], // loopback
+  ['::', 96, 'ipv6'], // IPv4-compatible (embeds IPv4)
+  ['64:ff9b::', 96, 'ipv6'], // NAT64 (embeds IPv4)
+  ['64:ff9b:1::', 48, 'ipv6'], // local-use NAT64 (embeds IPv4)
+  ['2001::', 32, 'ipv6'], // Teredo (embeds IPv4)
+  ['2002::', 16, 'ipv6'], // 6to4 (embeds IPv4)
+  ['fc00::', 7, 'ipv6'], // unique local
+  ['fe80::', 10, 'ipv6'], // link-local
+  ['ff00::', 8, 'ipv6'], // multicast
+];
+
+const internal = new BlockList();
+for (const [network, prefix, family] of INTERNAL_RANGES) {
+  internal.addSubnet(network, prefix, family);
+}
+
+/**
+ * Unwrap IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) so they are checked as IPv4.
+ * Other ranges embedding IPv4 (6to4, NAT64, Teredo) are blocked outright.
+ */
+function normalizeAddress(address: string): string {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  return mapped ? mapped[1] : address;
+}
+
+function familyOf(address: string): 'ipv4' | 'ipv6' {
+  return isIP(address) === 4 ? 'ipv4' : 'ipv6';
+}
+
+/**
+ * True for loopback, private, link-local, multicast and other non-public addresses.
+ */
+export function isInternalAddress(address: string): boolean {
+  const normalized = normalizeAddress(address);
+  return internal.check(normalized, familyOf(normalized));
+}
+
+/**
+ * Host list entries: IPs and CIDRs match addresses, `*.example.org` or `.example.org`
+ * matches subdomains, anything else the exact hostname.
+ */
+export class HostList {
+  private readonly networks = new BlockList();
+  private readonly names: string[] = [];
+  private hasNetworks = false;
+
+  constructor(readonly entries: string[]) {
+    for (const entry of entries) {
+      const [address, prefix] = entry.split('/');
+      const family = isIP(address);
+      if (family) {
+        const bits = prefix === undefined ? (family === 4 ? 32 : 128) : Number(prefix);
+        this.networks.addSubnet(address, bits, family === 4 ? 'ipv4' : 'ipv6');
+        this.hasNetworks = true;
+      } else {
+        this.names.push(entry.toLowerCase());
+      }
+    }
+  }
+
+  get empty(): boolean {
+    return this.entries.length === 0;
+  }
+
+  matchesName(hostname: string): boolean {
+    const host = hostname.toLowerCase();
+    return this.names.some((name) => {
+      const suffix = name.startsWith('*.') ? name.slice(1) : name.startsWith('.') ? name : null;
+      return suffix ? host.endsWith(suffix) : host === name;
+    });
+  }
+
+  matchesAddress(address: string): boolean {
+    if (!this.hasNetworks) return false;
+    const normalized = normalizeAddress(address);
+    return this.networks.check(normalized, familyOf(normalized));
+  }
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Read image download limits from PLANTNET_IMAGE_* environment variables.
+ * Unset or invalid values are omitted so they fall back to the defaults.
+ */
+export function imageFetchPolicyFromEnv(env: NodeJS.ProcessEnv = process.env): Partial<ImageFetchPolicy> {
+  const policy: Partial<ImageFetchPolicy> = {};
+  const schemes = parseList(env.PLANTNET_IMAGE_ALLOWED_SCHEMES).map((s) => s.toLowerCase().replace(/:$/, ''));
+  if (schemes.length > 0) policy.allowedSchemes = schemes;
+  const redirects = Number(env.PLANTNET_IMAGE_MAX_REDIRECTS);
+  if (env.PLANTNET_IMAGE_MAX_REDIRECTS && Number.isInteger(redirects) && redirects >= 0) {
+    policy.maxRedirects = redirects;
+  }
+  const maxMb = Number(env.PLANTNET_IMAGE_MAX_MB);
+  if (maxMb > 0) policy.maxBytes = Math.floor(maxMb * 1024 * 1024);
+  if (['1', 'true', 'on'].includes((env.PLANTNET_IMAGE_ALLOW_PRIVATE ?? '').toLowerCase())) {
+    policy.blockPrivateAddresses = false;
+  }
+  if (env.PLANTNET_IMAGE_ALLOW_HOSTS) policy.allowHosts = parseList(env.PLANTNET_IMAGE_ALLOW_HOSTS);
+  if (env.PLANTNET_IMAGE_DENY_HOSTS) policy.denyHosts = parseList(env.PLANTNET_IMAGE_DENY_HOSTS);
+  return policy;
+}
+
+/**
+ * Check one URL of a download (the original or a redirect target) against the policy,
+ * resolving its hostname. Throws PlantNetValidationError naming the rule that refused it.
+ */
+export async function checkImageUrl(
+  url: URL,
+  policy: ImageFetchPolicy,
+  resolve: HostResolver = resolveHost
+): Promise<void> {
+  const scheme = url.protocol.replace(/:$/, '').toLowerCase();
+  if (!policy.allowedSchemes.includes(scheme)) {
+    throw new PlantNetValidationError(
+      `Image URL scheme "${scheme}" is not allowed (allowed: ${policy.allowedSchemes.join(', ')}): ${url.href}`
+    );
+  }
+  if (url.username || url.password) {
+    throw new PlantNetValidationError(`Image URLs must not contain credentials: ${url.host}`);
+  }
+
+  // URL keeps IPv6 literals in brackets
+  await resolveAndCheckHost(url.hostname.replace(/^\[(.*)\]$/, '$1'), policy, resolve);
+}
+
+/**
+ * Resolve a hostname and check every address it maps to against the host lists and
+ * the private-address block. Returns the addresses that passed.
+ */
+async function resolveAndCheckHost(
+  hostname: string,
+  policy: ImageFetchPolicy,
+  resolve: HostResolver
+): Promise<string[]> {
+  const allow = new HostList(policy.allowHosts);
+  const deny = new HostList(policy.denyHosts);
+  if (deny.matchesName(hostname)) {
+    throw new PlantNetValidationError(`Image host ${hostname} is blocked by PLANTNET_IMAGE_DENY_HOSTS`);
+  }
+
+  let addresses: string[];
+  if (isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = await resolve(hostname);
+    } catch (err) {
+      const reason = (err as NodeJS.ErrnoException).code ?? (err instanceof Error ? err.message : String(err));
+      throw new PlantNetBadImageError(`Could not resolve image host ${hostname}: ${reason}`);
+    }
+    if (addresses.length === 0) {
+      throw new PlantNetBadImageError(`Could not resolve image host ${hostname}: no addresses`);
+    }
+  }
+
+  const denied = addresses.find((address) => deny.matchesAddress(address));
+  if (denied) {
+    throw new PlantNetValidationError(
+      `Image host ${hostname} resolves to ${denied}, which is blocked by PLANTNET_IMAGE_DENY_HOSTS`
+    );
+  }
+  if (!policy.blockPrivateAddresses || allow.matchesName(hostname)) return addresses;
+  // Every address must pass: the fetch may connect to any of them
+  const internalAddress = addresses.find((address) => isInternalAddress(address) && !allow.matchesAddress(address));
+  if (internalAddress) {
+    throw new PlantNetValidationError(
+      `Image host ${hostname} resolves to ${internalAddress}, a private, loopback or link-local address. ` +
+        'Use a public image URL, or add the host to PLANTNET_IMAGE_ALLOW_HOSTS.'
+    );
+  }
+  return addresses;
+}
+
+/**
+ * dns.lookup replacement for image download sockets. The connection resolves the host
+ * itself, so checkImageUrl alone would let a host re-resolve to an internal address
+ * between the check and the connect (DNS rebinding); this repeats the check on the
+ * addresses the socket actually uses.
+ */
+export function guardedLookup(policy: ImageFetchPolicy, resolve: HostResolver = resolveHost): LookupFunction {
+  return (hostname, options, callback) => {
+    resolveAndCheckHost(hostname, policy, resolve).then(
+      (addresses) => {
+        const family = options.family === 'IPv4' ? 4 : options.family === 'IPv6' ? 6 : options.family;
+        const entries = addresses
+          .map((address) => ({ address, family: isIP(address) }))
+          .filter((entry) => !family || entry.family === family);
+        if (entries.length === 0) {
+          callback(Object.assign(new Error(`No IPv${family} address for ${hostname}`), { code: 'ENOTFOUND' }), '');
+        } else if (options.all) {
+          callback(null, entries);
+        } else {
+          callback(null, entries[0].address, entries[0].family);
+        }
+      },
+      (err: Error) => callback(err, '')
+    );
+  };
+}
+
+/**
+ * fetch() dispatcher whose connections resolve hosts through guardedLookup.
+ * Destroy it once the download is done.
+ */
+export function createImageDispatcher(policy: ImageFetchPolicy, resolve: HostResolver = resolveHost): Agent {
+  return new Agent({ connect: { lookup: guardedLookup(policy, resolve) } });
+}
+
+/**
+ * Reject declared non-image content before reading the body. A missing or generic
+ * header is left to magic-byte sniffing after the download, which accepts only
+ * JPEG and PNG.
+ */
+export function checkImageContentType(contentType: string | null, url: string): void {
+  const mediaType = contentType?.split(';')[0].trim().toLowerCase();
+  if (mediaType && !mediaType.startsWith('image/') && mediaType !== 'application/octet-stream') {
+    throw new PlantNetBadImageError(`URL did not return an image (content type ${mediaType}): ${url}`);
+  }
+}
+
+/**
+ * Read a response body, aborting as soon as it grows past maxBytes.
+ */
+export async function readLimitedBody(response: Response, maxBytes: number, url: string): Promise<Buffer> {
+  const tooLarge = () =>
+    new PlantNetBadImageError(
+      `Image at ${url} is larger than the ${Math.round(maxBytes / 1024 / 1024)} MB limit (PLANTNET_IMAGE_MAX_MB)`
+    );
+  const declared = Number(response.headers.get('content-length'));
+  if (declared > maxBytes) throw tooLarge();
+
+  if (!response.body) {
+    // Empty body
+    const buffer = Buffer.from(await response.arrayBuffer());
+    if (buffer.length > maxBytes) throw tooLarge();
+    return buffer;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel().catch(() => undefined);
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks, total);
+}
@@ -0,0 +1,260 @@
+import * as jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import { PlantNetBadImageError } from './errors';
+import { readExif } from './exif';
+import { sniffImageType, type LoadedImage } from './image-source';
+
+export interface PreprocessOptions {
+  /** When false, images are uploaded exactly as loaded. */
+  enabled: boolean;
+  /** Longest edge, in pixels, after downscaling. */
+  maxEdge: number;
+  /** JPEG quality (1–100) used when an image has to be re-encoded. */
+  jpegQuality: number;
+  /** Images larger than this many bytes are rejected before decoding. */
+  maxInputBytes: number;
+  /**
+   * Images with more pixels than this (in millions, read from the header) are rejected
+   * before decoding, since a few KB of compressed data can declare gigabytes of pixels.
+   */
+  maxMegapixels: number;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  enabled: true,
+  maxEdge: 1600,
+  jpegQuality: 85,
+  maxInputBytes: 25 * 1024 * 1024,
+  maxMegapixels: 64,
+};
+
+// Decoder memory budget per pixel: RGBA output plus jpeg-js's component planes
+const DECODE_BYTES_PER_PIXEL = 8;
+
+/**
+ * Read preprocessing overrides from PLANTNET_IMAGE_* environment variables.
+ */
+export function preprocessOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): Partial<PreprocessOptions> {
+  const options: Partial<PreprocessOptions> = {};
+  if (['off', 'false', '0'].includes((env.PLANTNET_IMAGE_PREPROCESS ?? '').toLowerCase())) {
+    options.enabled = false;
+  }
+  const maxEdge = Number(env.PLANTNET_IMAGE_MAX_EDGE);
+  if (maxEdge > 0) options.maxEdge = Math.floor(maxEdge);
+  const quality = Number(env.PLANTNET_IMAGE_JPEG_QUALITY);
+  if (quality >= 1 && quality <= 100) options.jpegQuality = Math.floor(quality);
+  const maxMb = Number(env.PLANTNET_IMAGE_MAX_INPUT_MB);
+  if (maxMb > 0) options.maxInputBytes = Math.floor(maxMb * 1024 * 1024);
+  const maxMegapixels = Number(env.PLANTNET_IMAGE_MAX_MEGAPIXELS);
+  if (maxMegapixels > 0) options.maxMegapixels = maxMegapixels;
+  return options;
+}
+
+interface ImageHeader {
+  width: number;
+  height: number;
+  /** EXIF orientation (1–8); 1 when absent. */
+  orientation: number;
+}
+
+export interface RawImage {
+  width: number;
+  height: number;
+  /** RGBA pixels, row-major. */
+  data: Uint8Array;
+}
+
+function readJpegHeader(buffer: Buffer): ImageHeader | null {
+  const { orientation } = readExif(buffer);
+  let offset = 2;
+  while (offset + 4 <= buffer.length) {
+    if (buffer[offset] !== 0xff) return null;
+    const marker = buffer[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    const length = buffer.readUInt16BE(offset + 2);
+    const segmentStart = offset + 4;
+
+    // SOF0–SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      if (segmentStart + 5 > buffer.length) return null;
+      return {
+        height: buffer.readUInt16BE(segmentStart + 1),
+        width: buffer.readUInt16BE(segmentStart + 3),
+        orientation,
+      };
+    }
+    if (marker === 0xda) return null;
+    offset += 2 + length;
+  }
+  return null;
+}
+
+function readPngHeader(buffer: Buffer): ImageHeader | null {
+  if (buffer.length < 24 || buffer.toString('latin1', 12, 16) !== 'IHDR') return null;
+  return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20), orientation: 1 };
+}
+
+function decode(buffer: Buffer, contentType: string, maxMegapixels: number): RawImage {
+  try {
+    if (contentType === 'image/png') {
+      const png = PNG.sync.read(buffer);
+      return { width: png.width, height: png.height, data: png.data };
+    }
+    // Also enforced by the decoder, for frames the header scan did not reach
+    const decoded = jpeg.decode(buffer, {
+      useTArray: true,
+      formatAsRGBA: true,
+      maxResolutionInMP: maxMegapixels,
+      maxMemoryUsageInMB: Math.ceil(maxMegapixels * DECODE_BYTES_PER_PIXEL),
+    });
+    return { width: decoded.width, height: decoded.height, data: decoded.data };
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err);
+    throw new PlantNetBadImageError(`Image could not be decoded: ${reason}`);
+  }
+}
+
+// For each EXIF orientation, the source pixel that lands at upright position (x, y)
+const SOURCE_PIXEL: Record<number, (x: number, y: number, w: number, h: number) => [number, number]> = {
+  2: (x, y, w) => [w - 1 - x, y],
+  3: (x, y, w, h) => [w - 1 - x, h - 1 - y],
+  4: (x, y, _w, h) => [x, h - 1 - y],
+  5: (x, y) => [y, x],
+  6: (x, y, _w, h) => [y, h - 1 - x],
+  7: (x, y, w, h) => [w - 1 - y, h - 1 - x],
+  8: (x, y, w) => [w - 1 - y, x],
+};
+
+/**
+ * Rotate/flip pixels so that EXIF orientation 1 (upright) applies.
+ */
+export function applyOrientation(image: RawImage, orientation: number): RawImage {
+  if (orientation <= 1 || orientation > 8) return image;
+  const { width: w, height: h, data } = image;
+  const swap = orientation >= 5;
+  const outW = swap ? h : w;
+  const outH = swap ? w : h;
+  const out = new Uint8Array(outW * outH * 4);
+
+  for (let y = 0; y < outH; y++) {
+    for (let x = 0; x < outW; x++) {
+      const [sx, sy] = SOURCE_PIXEL[orientation](x, y, w, h);
+      const src = (sy * w + sx) * 4;
+      const dst = (y * outW + x) * 4;
+      out[dst] = data[src];
+      out[dst + 1] = data[src + 1];
+      out[dst + 2] = data[src + 2];
+      out[dst + 3] = data[src + 3];
+    }
+  }
+  return { width: outW, height: outH, data: out };
+}
+
+/**
+ * Downscale so the longest edge is at most maxEdge, averaging each source area.
+ */
+export function downscale(image: RawImage, maxEdge: number): RawImage {
+  const { width: w, height: h, data } = image;
+  const scale = maxEdge / Math.max(w, h);
+  if (scale >= 1) return image;
+  const outW = Math.max(1, Math.round(w * scale));
+  const outH = Math.max(1, Math.round(h * scale));
+  const out = new Uint8Array(outW * outH * 4);
+
+  for (let y = 0; y < outH; y++) {
+    const y0 = Math.floor((y * h) / outH);
+    const y1 = Math.max(y0 + 1, Math.floor(((y + 1) * h) / outH));
+    for (let x = 0; x < outW; x++) {
+      const x0 = Math.floor((x * w) / outW);
+      const x1 = Math.max(x0 + 1, Math.floor(((x + 1) * w) / outW));
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * w + sx) * 4;
+          r += data[i];
+          g += data[i + 1];
+          b += data[i + 2];
+          a += data[i + 3];
+        }
+      }
+      const count = (y1 - y0) * (x1 - x0);
+      const o = (y * outW + x) * 4;
+      out[o] = r / count;
+      out[o + 1] = g / count;
+      out[o + 2] = b / count;
+      out[o + 3] = a / count;
+    }
+  }
+  return { width: outW, height: outH, data: out };
+}
+
+function flattenAlpha(image: RawImage): RawImage {
+  // JPEG has no alpha channel; composite transparent areas onto white
+  const data = new Uint8Array(image.data);
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = data[i + 3] / 255;
+    if (alpha === 1) continue;
+    data[i] = data[i] * alpha + 255 * (1 - alpha);
+    data[i + 1] = data[i + 1] * alpha + 255 * (1 - alpha);
+    data[i + 2] = data[i + 2] * alpha + 255 * (1 - alpha);
+    data[i + 3] = 255;
+  }
+  return { ...image, data };
+}
+
+/**
+ * Prepare an image for upload: validate its format from magic bytes, enforce the
+ * input size and pixel limits, then apply EXIF orientation, downscale to maxEdge and re-encode
+ * as JPEG. Images that are already upright and small enough are passed through untouched.
+ */
+export function preprocessImage(image: LoadedImage, options: PreprocessOptions): LoadedImage {
+  if (!options.enabled) return image;
+
+  if (image.buffer.length > options.maxInputBytes) {
+    throw new PlantNetBadImageError(
+      `Image is ${(image.buffer.length / (1024 * 1024)).toFixed(1)} MB, above the ` +
+        `${(options.maxInputBytes / (1024 * 1024)).toFixed(1)} MB limit`
+    );
+  }
+
+  const contentType = sniffImageType(image.buffer);
+  if (!contentType) {
+    throw new PlantNetBadImageError('Unsupported image format (expected JPEG or PNG)');
+  }
+
+  const header =
+    contentType === 'image/png' ? readPngHeader(image.buffer) : readJpegHeader(image.buffer);
+  if (
+    header &&
+    header.orientation === 1 &&
+    Math.max(header.width, header.height) <= options.maxEdge
+  ) {
+    return { ...image, contentType, extension: contentType === 'image/png' ? 'png' : 'jpg' };
+  }
+
+  if (contentType === 'image/png' && !header) {
+    throw new PlantNetBadImageError('Image could not be decoded: PNG header is missing');
+  }
+  if (header && header.width * header.height > options.maxMegapixels * 1_000_000) {
+    throw new PlantNetBadImageError(
+      `Image is ${header.width}×${header.height} (${((header.width * header.height) / 1_000_000).toFixed(1)} MP), ` +
+        `above the ${options.maxMegapixels} MP limit (PLANTNET_IMAGE_MAX_MEGAPIXELS)`
+    );
+  }
+
+  let raw = decode(image.buffer, contentType, options.maxMegapixels);
+  raw = applyOrientation(raw, header?.orientation ?? 1);
+  raw = downscale(raw, options.maxEdge);
+  if (contentType === 'image/png') raw = flattenAlpha(raw);
+
+  const encoded = jpeg.encode(
+    { width: raw.width, height: raw.height, data: Buffer.from(raw.data.buffer, raw.data.byteOffset, raw.data.length) },
+    options.jpegQuality
+  );
+  return { buffer: encoded.data, contentType: 'image/jpeg', extension: 'jpg' };
+}
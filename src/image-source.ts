@@ -0,0 +1,230 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { PlantNetBadImageError, PlantNetError, PlantNetValidationError } from './errors';
+import { DEFAULT_RETRY_POLICY, fetchWithRetry, type RetryPolicy } from './http';
+import {
+  DEFAULT_IMAGE_FETCH_POLICY,
+  checkImageContentType,
+  checkImageUrl,
+  createImageDispatcher,
+  readLimitedBody,
+  resolveHost,
+  type HostResolver,
+  type ImageFetchPolicy,
+} from './image-fetch-guard';
+
+export type ImageSourceKind = 'url' | 'file' | 'data';
+
+export interface LoadedImage {
+  buffer: Buffer;
+  contentType: string;
+  /** File extension (without dot) matching contentType, used for the upload filename. */
+  extension: string;
+}
+
+export interface ImageSourceOptions {
+  /** Directories local image paths must live under. Local files are rejected when empty. */
+  allowedRoots?: string[];
+  /** Timeout and retry policy for downloading http(s) images. */
+  retryPolicy?: RetryPolicy;
+  /** Schemes, hosts, redirects and size allowed for http(s) images. */
+  fetchPolicy?: ImageFetchPolicy;
+  /** Hostname lookup used by the fetch policy; defaults to the system resolver. */
+  resolveHost?: HostResolver;
+}
+
+const DATA_URI_PATTERN = /^data:([\w.+-]+\/[\w.+-]+)?((?:;[\w-]+=[^;,]*)*);base64,(.*)$/is;
+
+/**
+ * Classify an image reference as an http(s) URL, a local file (file:// URL or
+ * absolute path) or a base64 data URI. Returns null for anything else.
+ */
+export function classifyImageSource(source: string): ImageSourceKind | null {
+  if (/^https?:\/\//i.test(source)) return 'url';
+  if (/^file:\/\//i.test(source)) return 'file';
+  if (/^data:/i.test(source)) return DATA_URI_PATTERN.test(source) ? 'data' : null;
+  if (path.isAbsolute(source)) return 'file';
+  return null;
+}
+
+/**
+ * Detect the image format from its leading magic bytes.
+ * Returns the MIME type, or null if the bytes are not a recognised image.
+ */
+export function sniffImageType(buffer: Buffer): string | null {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (
+    buffer.length >= 8 &&
+    buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+  ) {
+    return 'image/png';
+  }
+  return null;
+}
+
+function extensionFor(contentType: string): string {
+  return contentType.includes('png') ? 'png' : 'jpg';
+}
+
+/**
+ * Parse the comma- or path-delimiter-separated PLANTNET_ALLOWED_IMAGE_DIRS value.
+ */
+export function parseAllowedRoots(value: string | undefined): string[] {
+  if (!value) return [];
+  return value
+    .split(new RegExp(`[,${path.delimiter}]`))
+    .map((dir) => dir.trim())
+    .filter(Boolean)
+    .map((dir) => path.resolve(dir));
+}
+
+async function resolveAllowedPath(filePath: string, allowedRoots: string[]): Promise<string> {
+  if (allowedRoots.length === 0) {
+    throw new PlantNetValidationError(
+      'Local image paths are disabled. Set PLANTNET_ALLOWED_IMAGE_DIRS to allow reading images from disk.'
+    );
+  }
+
+  let realPath: string;
+  try {
+    realPath = await fs.realpath(path.resolve(filePath));
+  } catch {
+    throw new PlantNetBadImageError(`Image file not found: ${filePath}`);
+  }
+
+  for (const root of allowedRoots) {
+    let realRoot: string;
+    try {
+      realRoot = await fs.realpath(root);
+    } catch {
+      continue;
+    }
+    const relative = path.relative(realRoot, realPath);
+    if (relative && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+      return realPath;
+    }
+  }
+
+  throw new PlantNetValidationError(`Image path is outside the allowed directories: ${filePath}`);
+}
+
+function isRedirect(status: number): boolean {
+  return [301, 302, 303, 307, 308].includes(status);
+}
+
+/**
+ * Download an image under the fetch policy. Redirects are followed by hand so every
+ * hop's host is checked before it is contacted, and the connection re-checks the
+ * addresses it resolves (see guardedLookup).
+ */
+async function loadFromUrl(
+  url: string,
+  retryPolicy: RetryPolicy,
+  policy: ImageFetchPolicy,
+  resolve: HostResolver
+): Promise<LoadedImage> {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    throw new PlantNetValidationError(`Invalid image URL: ${url}`);
+  }
+  let result: { response: Response; body: Buffer | null };
+  const dispatcher = createImageDispatcher(policy, resolve);
+  try {
+    for (let redirects = 0; ; redirects++) {
+      await checkImageUrl(target, policy, resolve);
+      const current = target.href;
+      try {
+        result = await fetchWithRetry(current, { redirect: 'manual', dispatcher }, retryPolicy, async (res) => {
+          if (!res.ok) return null;
+          checkImageContentType(res.headers.get('content-type'), current);
+          return readLimitedBody(res, policy.maxBytes, current);
+        });
+      } catch (err) {
+        if (err instanceof PlantNetError) throw err;
+        const reason = err instanceof Error ? err.message : String(err);
+        throw new PlantNetBadImageError(`Failed to fetch image at ${current}: ${reason}`);
+      }
+
+      const location = isRedirect(result.response.status) ? result.response.headers.get('location') : null;
+      if (!location) break;
+      if (redirects >= policy.maxRedirects) {
+        throw new PlantNetBadImageError(
+          `Too many redirects fetching image at ${url} (limit ${policy.maxRedirects}, PLANTNET_IMAGE_MAX_REDIRECTS)`
+        );
+      }
+      target = new URL(location, target);
+    }
+  } finally {
+    await dispatcher.destroy().catch(() => undefined);
+  }
+
+  const { response, body } = result;
+  if (!body) {
+    throw new PlantNetBadImageError(`Failed to fetch image at ${url}: ${response.statusText}`);
+  }
+  const buffer = body;
+  const contentType = sniffImageType(buffer);
+  if (!contentType) {
+    throw new PlantNetBadImageError(`Unsupported image format (expected JPEG or PNG): ${url}`);
+  }
+  return { buffer, contentType, extension: extensionFor(contentType) };
+}
+
+async function loadFromFile(source: string, allowedRoots: string[]): Promise<LoadedImage> {
+  const filePath = /^file:\/\//i.test(source) ? fileURLToPath(source) : source;
+  const resolved = await resolveAllowedPath(filePath, allowedRoots);
+  const buffer = await fs.readFile(resolved);
+  const contentType = sniffImageType(buffer);
+  if (!contentType) {
+    throw new PlantNetBadImageError(`Unsupported image format (expected JPEG or PNG): ${filePath}`);
+  }
+  return { buffer, contentType, extension: extensionFor(contentType) };
+}
+
+function loadFromDataUri(source: string): LoadedImage {
+  const match = DATA_URI_PATTERN.exec(source);
+  if (!match) {
+    throw new PlantNetBadImageError('Invalid data URI: expected data:<mime>;base64,<data>');
+  }
+  const buffer = Buffer.from(match[3].replace(/\s+/g, ''), 'base64');
+  if (buffer.length === 0) {
+    throw new PlantNetBadImageError('Invalid data URI: image data is empty');
+  }
+  const contentType = sniffImageType(buffer);
+  if (!contentType) {
+    throw new PlantNetBadImageError('Unsupported image format in data URI (expected JPEG or PNG)');
+  }
+  return { buffer, contentType, extension: extensionFor(contentType) };
+}
+
+/**
+ * Load image bytes from an http(s) URL, an allowed local file, or a base64 data URI.
+ */
+export async function loadImage(
+  source: string,
+  options: ImageSourceOptions = {}
+): Promise<LoadedImage> {
+  switch (classifyImageSource(source)) {
+    case 'url':
+      return loadFromUrl(
+        source,
+        options.retryPolicy ?? DEFAULT_RETRY_POLICY,
+        options.fetchPolicy ?? DEFAULT_IMAGE_FETCH_POLICY,
+        options.resolveHost ?? resolveHost
+      );
+    case 'file':
+      return loadFromFile(source, options.allowedRoots ?? []);
+    case 'data':
+      return loadFromDataUri(source);
+    default:
+      throw new PlantNetValidationError(
+        'Unsupported image source: expected an http(s) URL, a file:// URL or absolute path, or a base64 data URI'
+      );
+  }
+}
+
@@ -1,7 +1,64 @@
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { createPlantNetServer } from './server';
+import { httpServerOptionsFromEnv, startHttpServer } from './http-server';
+import { redact } from './redact';
+import { createPlantNetContext, createPlantNetServer } from './server';
+
+interface CliOptions {
+  transport: 'stdio' | 'http';
+  host: string;
+  port: number;
+}
+
+/**
+ * Resolve transport settings from --transport/--host/--port flags, falling back to
+ * PLANTNET_MCP_TRANSPORT, PLANTNET_MCP_HOST and PLANTNET_MCP_PORT.
+ */
+function parseCliOptions(argv: string[], env: NodeJS.ProcessEnv): CliOptions {
+  const flags = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const match = /^--(transport|host|port)(?:=(.*))?$/.exec(argv[i]);
+    if (match) {
+      flags.set(match[1], match[2] ?? argv[++i] ?? '');
+    }
+  }
+
+  const transport = flags.get('transport') ?? env.PLANTNET_MCP_TRANSPORT ?? 'stdio';
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Unknown transport "${transport}" (expected "stdio" or "http")`);
+  }
+  const port = Number(flags.get('port') ?? env.PLANTNET_MCP_PORT ?? 3000);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port: ${flags.get('port') ?? env.PLANTNET_MCP_PORT}`);
+  }
+
+  return {
+    transport,
+    host: flags.get('host') ?? env.PLANTNET_MCP_HOST ?? '127.0.0.1',
+    port,
+  };
+}
 
 async function main() {
+  const options = parseCliOptions(process.argv.slice(2), process.env);
+
+  if (options.transport === 'http') {
+    // Built once, so configuration errors fail at startup and sessions share quota state
+    const context = createPlantNetContext();
+    const authToken = process.env.PLANTNET_MCP_AUTH_TOKEN || undefined;
+    await startHttpServer({
+      ...httpServerOptionsFromEnv(),
+      host: options.host,
+      port: options.port,
+      authToken,
+      createServer: () => createPlantNetServer(context),
+    });
+    console.error(
+      `PlantNet MCP server listening on http://${options.host}:${options.port}/mcp ` +
+        `(SSE fallback at /sse, health at /health${authToken ? ', bearer auth enabled' : ''})`
+    );
+    return;
+  }
+
   const server = createPlantNetServer();
   const transport = new StdioServerTransport();
   await server.connect(transport);
@@ -9,6 +66,6 @@ async function main() {
 }
 
 main().catch((err) => {
-  console.error('Fatal error:', err instanceof Error ? err.message : err);
+  console.error('Fatal error:', redact(err instanceof Error ? err.message : String(err)));
   process.exit(1);
 });
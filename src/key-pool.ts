@@ -0,0 +1,296 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PlantNetAuthError, PlantNetQuotaError } from './errors';
+import { messagesFor, type Messages } from './messages';
+import { PlantNetClient, type PlantNetClientOptions } from './plantnet-client';
+import { ProjectCatalog, projectCatalogOptionsFromEnv, type ProjectList } from './project-catalog';
+import type { IdentificationProvider } from './provider';
+import { QuotaTracker, type QuotaStatus } from './quota-tracker';
+import { maskApiKey } from './redact';
+import type {
+  IdentifyDiseaseArgs,
+  IdentifyPlantArgs,
+  PlantNetDiseaseIdentifyResponse,
+  PlantNetIdentifyResponse,
+  PlantNetSpeciesListEntry,
+} from './types';
+
+function parseKeyList(text: string): string[] {
+  return text
+    .split(/[\n,]/)
+    .map((line) => line.replace(/#.*/, '').trim())
+    .filter(Boolean);
+}
+
+/**
+ * Collect API keys from PLANTNET_API_KEYS (comma-separated), the file named by
+ * PLANTNET_API_KEYS_FILE (one key per line, `#` comments) and PLANTNET_API_KEY /
+ * PLANTNET_API, without duplicates and in that order.
+ */
+export function apiKeysFromEnv(env: NodeJS.ProcessEnv = process.env): string[] {
+  const keys = [
+    ...parseKeyList(env.PLANTNET_API_KEYS ?? ''),
+    ...(env.PLANTNET_API_KEYS_FILE
+      ? parseKeyList(fs.readFileSync(path.resolve(env.PLANTNET_API_KEYS_FILE), 'utf8'))
+      : []),
+    ...parseKeyList(env.PLANTNET_API_KEY ?? env.PLANTNET_API ?? ''),
+  ];
+  return [...new Set(keys)];
+}
+
+export type PooledKeyState = 'available' | 'exhausted' | 'rejected';
+
+export interface KeyQuotaStatus extends QuotaStatus {
+  /** Masked key, safe to display. */
+  key: string;
+  state: PooledKeyState;
+  /** Why the API refused the key, when it is rejected. */
+  rejectedReason: string | null;
+}
+
+export interface KeyPoolStatus {
+  keys: KeyQuotaStatus[];
+  /** Sum over keys that are not rejected, or null while any of them is unknown. */
+  estimatedRemaining: number | null;
+  /** Combined daily allowance of the keys that are not rejected. */
+  dailyLimit: number;
+  warnThreshold: number;
+  nextResetAt: string;
+  sessionStartedAt: string;
+  sessionCalls: number;
+  sessionCacheHits: number;
+}
+
+interface PooledKey {
+  id: string;
+  key: string;
+  masked: string;
+  tracker: QuotaTracker;
+  rejectedReason: string | null;
+}
+
+/**
+ * Set of Pl@ntNet API keys with per-key quota tracking. Requests go to the usable
+ * key with the most estimated remaining quota; keys the API rejects (401/403) are
+ * dropped for the session, keys it reports out of quota (429) until the daily reset.
+ * Keys are identified by fingerprint and only ever displayed masked.
+ */
+export class ApiKeyPool {
+  private readonly entries: PooledKey[];
+  private readonly sessionStartedAt = new Date();
+  private sessionCacheHits = 0;
+
+  constructor(
+    keys: string[],
+    createTracker: (key: string) => QuotaTracker = (key) => QuotaTracker.fromEnv(key)
+  ) {
+    if (keys.length === 0) {
+      throw new Error('An API key pool needs at least one key');
+    }
+    this.entries = keys.map((key) => {
+      const tracker = createTracker(key);
+      return { id: tracker.keyId, key, masked: maskApiKey(key), tracker, rejectedReason: null };
+    });
+  }
+
+  /**
+   * Build a pool from the keys in the environment (see apiKeysFromEnv).
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): ApiKeyPool {
+    const keys = apiKeysFromEnv(env);
+    if (keys.length === 0) {
+      throw new Error(
+        'PLANTNET_API_KEY (or PLANTNET_API) environment variable is required. ' +
+          'Get your free API key at https://my.plantnet.org/ (or set PLANTNET_PROVIDER=mock to run offline). ' +
+          'Several keys can be pooled with PLANTNET_API_KEYS or PLANTNET_API_KEYS_FILE.'
+      );
+    }
+    return new ApiKeyPool(keys, (key) => QuotaTracker.fromEnv(key, env));
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /** Fingerprint and key of every pooled key, for building per-key clients. */
+  keys(): { id: string; key: string }[] {
+    return this.entries.map(({ id, key }) => ({ id, key }));
+  }
+
+  /**
+   * The usable key with the most estimated remaining quota, skipping the given IDs.
+   * Keys whose quota is unknown count as having their full daily allowance.
+   * Returns null when no key is left to try.
+   */
+  async select(exclude: ReadonlySet<string> = new Set()): Promise<string | null> {
+    let best: { entry: PooledKey; remaining: number } | null = null;
+    for (const entry of this.entries) {
+      if (entry.rejectedReason !== null || exclude.has(entry.id)) continue;
+      const status = await entry.tracker.status();
+      const remaining = status.estimatedRemaining ?? status.dailyLimit;
+      if (remaining <= 0) continue;
+      if (!best || remaining > best.remaining) best = { entry, remaining };
+    }
+    return best?.entry.id ?? null;
+  }
+
+  /**
+   * The first key the API has not rejected, skipping the given IDs, for calls that
+   * spend no identification quota (project and species lists). Returns null when
+   * no key is left to try.
+   */
+  selectUnmetered(exclude: ReadonlySet<string> = new Set()): string | null {
+    return this.entries.find((e) => e.rejectedReason === null && !exclude.has(e.id))?.id ?? null;
+  }
+
+  /**
+   * Record remainingIdentificationRequests for the key that answered; without an ID,
+   * for the first key (single-key pools and providers that do not report one).
+   */
+  async record(remaining: number, keyId?: string): Promise<void> {
+    await this.entry(keyId).tracker.record(remaining);
+  }
+
+  recordCacheHit(): void {
+    this.sessionCacheHits++;
+  }
+
+  async markExhausted(keyId: string): Promise<void> {
+    await this.entry(keyId).tracker.markExhausted();
+  }
+
+  markRejected(keyId: string, reason: string): void {
+    this.entry(keyId).rejectedReason = reason;
+  }
+
+  async status(now = new Date()): Promise<KeyPoolStatus> {
+    const keys: KeyQuotaStatus[] = [];
+    for (const entry of this.entries) {
+      const status = await entry.tracker.status(now);
+      keys.push({
+        ...status,
+        key: entry.masked,
+        state:
+          entry.rejectedReason !== null
+            ? 'rejected'
+            : status.estimatedRemaining === 0
+              ? 'exhausted'
+              : 'available',
+        rejectedReason: entry.rejectedReason,
+      });
+    }
+    const usable = keys.filter((k) => k.state !== 'rejected');
+    return {
+      keys,
+      estimatedRemaining: usable.some((k) => k.estimatedRemaining === null)
+        ? null
+        : usable.reduce((sum, k) => sum + (k.estimatedRemaining ?? 0), 0),
+      dailyLimit: usable.reduce((sum, k) => sum + k.dailyLimit, 0),
+      warnThreshold: keys[0].warnThreshold,
+      nextResetAt: keys[0].nextResetAt,
+      sessionStartedAt: this.sessionStartedAt.toISOString(),
+      sessionCalls: keys.reduce((sum, k) => sum + k.sessionCalls, 0),
+      sessionCacheHits: this.sessionCacheHits,
+    };
+  }
+
+  /**
+   * Warning text when the pool's combined remaining quota is below the threshold.
+   */
+  async lowQuotaWarning(now = new Date(), m: Messages = messagesFor('en')): Promise<string | null> {
+    const { estimatedRemaining, warnThreshold, nextResetAt, keys } = await this.status(now);
+    if (estimatedRemaining === null || estimatedRemaining >= warnThreshold) return null;
+    return m.quota.lowQuota(estimatedRemaining, keys.length, warnThreshold, nextResetAt);
+  }
+
+  private entry(keyId: string | undefined): PooledKey {
+    return this.entries.find((e) => e.id === keyId) ?? this.entries[0];
+  }
+}
+
+/**
+ * Pl@ntNet backend spreading requests over an ApiKeyPool, failing over to the
+ * next key when one is rejected or out of quota. Results carry `apiKeyId` so the
+ * caller can record quota against the key that answered.
+ */
+export class KeyPoolProvider implements IdentificationProvider {
+  readonly projects: ProjectCatalog;
+  private readonly clients = new Map<string, PlantNetClient>();
+
+  constructor(
+    readonly pool: ApiKeyPool,
+    options: PlantNetClientOptions = {}
+  ) {
+    this.projects = new ProjectCatalog((lang) => this.listProjects(lang), {
+      ...projectCatalogOptionsFromEnv(),
+      ...options.projectCatalog,
+    });
+    // Clients pick project "auto" floras from the pool's catalog rather than their own
+    for (const { id, key } of pool.keys()) {
+      this.clients.set(id, new PlantNetClient(key, { ...options, projects: this.projects }));
+    }
+  }
+
+  identifyPlant(args: IdentifyPlantArgs): Promise<PlantNetIdentifyResponse> {
+    return this.withKey(async (client, apiKeyId) => ({ ...(await client.identifyPlant(args)), apiKeyId }));
+  }
+
+  identifyDisease(args: IdentifyDiseaseArgs): Promise<PlantNetDiseaseIdentifyResponse> {
+    return this.withKey(async (client, apiKeyId) => ({ ...(await client.identifyDisease(args)), apiKeyId }));
+  }
+
+  /** Listing spends no identification quota, so keys that ran out still answer. */
+  listProjects(lang?: string): Promise<ProjectList> {
+    return this.withKey((client) => client.listProjects(lang), (tried) => this.pool.selectUnmetered(tried));
+  }
+
+  /** Like listProjects, any key not rejected may answer. */
+  listSpecies(project: string, lang?: string): Promise<PlantNetSpeciesListEntry[]> {
+    return this.withKey(
+      (client) => client.listSpecies(project, lang),
+      (tried) => this.pool.selectUnmetered(tried)
+    );
+  }
+
+  private async withKey<T>(
+    call: (client: PlantNetClient, apiKeyId: string) => Promise<T>,
+    select: (tried: ReadonlySet<string>) => Promise<string | null> | string | null = (tried) =>
+      this.pool.select(tried)
+  ): Promise<T> {
+    const tried = new Set<string>();
+    let lastError: Error | null = null;
+    for (;;) {
+      const keyId = await select(tried);
+      const client = keyId === null ? undefined : this.clients.get(keyId);
+      if (keyId === null || !client) {
+        throw lastError ?? (await this.exhaustedError());
+      }
+      tried.add(keyId);
+      try {
+        return await call(client, keyId);
+      } catch (err) {
+        if (err instanceof PlantNetAuthError) {
+          this.pool.markRejected(keyId, err.message);
+        } else if (err instanceof PlantNetQuotaError) {
+          await this.pool.markExhausted(keyId);
+        } else {
+          throw err;
+        }
+        lastError = err;
+      }
+    }
+  }
+
+  private async exhaustedError(): Promise<Error> {
+    const { keys } = await this.pool.status();
+    const rejected = keys.filter((k) => k.state === 'rejected');
+    if (rejected.length === keys.length) {
+      return new PlantNetAuthError(
+        `Pl@ntNet rejected every configured API key: ${rejected.map((k) => `${k.key} (${k.rejectedReason})`).join('; ')}`
+      );
+    }
+    return new PlantNetQuotaError(
+      `All ${keys.length} API key(s) are out of quota or were rejected; the quota resets daily.`
+    );
+  }
+}
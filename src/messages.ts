@@ -0,0 +1,1226 @@
+import type { PooledKeyState } from './key-pool';
+import type { ToxicSubject } from './safety';
+import type { ReconcileRank, Reconciliation, TaxonVerdict } from './reconcile';
+import type { InvasiveFlag, PlantNetResult, ResultAnalysis, TaxonGroup, TaxonStatus, ToxicityLevel } from './types';
+
+/** Languages the server's own output is translated into. */
+export const MESSAGE_LANGUAGES = ['en', 'fr', 'es', 'de', 'he'] as const;
+export type MessageLanguage = (typeof MESSAGE_LANGUAGES)[number];
+
+/**
+ * Text of identify_plant, list_projects, reconcile_identifications and check_quota output. Scientific names,
+ * IDs, dates and text from Pl@ntNet or the local datasets are not translated.
+ */
+export interface Messages {
+  language: MessageLanguage;
+  /** Join items as a sentence list: "a, b and c". */
+  list(items: string[]): string;
+  warning: string;
+  caution: string;
+  unknown: string;
+  identify: {
+    title: string;
+    bestMatch(name: string): string;
+    cached(storedAt: string): string;
+    remaining(count: number): string;
+    remainingCached(count: number): string;
+    autoProject(project: string, reason: string): string;
+    engineVersion(version: string): string;
+    resultResource(uri: string): string;
+    interpretation: string;
+    outcome(label: string, summary: string): string;
+    outcomeLabels: Record<ResultAnalysis['outcome'], string>;
+    nextPhoto(text: string): string;
+    topMatches(count: number): string;
+    match(rank: number, name: string, confidence: string): string;
+    author: string;
+    family: string;
+    genus: string;
+    commonNames: string;
+    /** Common names shown in English because none exist in the requested language. */
+    englishFallback(names: string): string;
+    /** Shown when no common name is known in any language. */
+    scientificFallback(name: string): string;
+    referenceImages: string;
+    tip: string;
+  };
+  analysis: {
+    summary(analysis: ResultAnalysis): string;
+    recommendation(analysis: ResultAnalysis): string | null;
+  };
+  taxonomy: {
+    orderClass: string;
+    nameStatus: string;
+    statuses: Record<TaxonStatus, string>;
+    synonymOf(name: string): string;
+    nativeRange: string;
+  };
+  safety: {
+    toxicity: string;
+    toxicTo(subjects: string): string;
+    nonToxic: string;
+    subjects: Record<ToxicSubject, string>;
+    levels: Record<ToxicityLevel, string>;
+    invasiveStatus: string;
+    invasiveIn(status: string, region: string): string;
+    invasiveStatuses: Record<InvasiveFlag['status'], string>;
+    conservation: string;
+    iucn: Record<string, string>;
+    global: string;
+    legallyProtected: string;
+    sources: string;
+    regulatedWeedIn(regions: string): string;
+    invasiveInRegions(regions: string): string;
+    globally: string;
+    inScope(scope: string): string;
+    /** A threatened category or legal protection and where it applies. */
+    applies(status: string, where: string): string;
+    caution(name: string, concerns: string): string;
+  };
+  projects: {
+    title: string;
+    intro: string;
+    tableHeader: string;
+  };
+  reconcile: {
+    title: string;
+    summary(reconciliation: Reconciliation): string;
+    summaryLine(summary: string): string;
+    tableHeader: string;
+    givenAsJson: string;
+    agreement: string;
+    agreementHeader: string;
+    ranks: Record<ReconcileRank, string>;
+    verdicts: Record<TaxonVerdict['agreement'], string>;
+    fusedCandidates: string;
+    candidatesHeader(labels: string[]): string;
+    including(synonyms: string): string;
+    moreCandidates(count: number): string;
+    /** How candidate scores are combined, reported with every reconciliation. */
+    fusionRule: string;
+    fusionNote(rule: string): string;
+  };
+  quota: {
+    title: string;
+    dailyLimit(limit: number): string;
+    lastUnknown: string;
+    learnedNext: string;
+    lastKnown(remaining: number, observedAt: string): string;
+    estimatedAfterReset(remaining: number): string;
+    nextReset(at: string): string;
+    session(calls: number, cacheHits: number, since: string): string;
+    projected(at: string, beforeReset: boolean): string;
+    notProjected: string;
+    belowThreshold(threshold: number): string;
+    lowQuota(remaining: number, keyCount: number, threshold: number, resetAt: string): string;
+    limitNote: string;
+    increase: string;
+    pooledKeys(count: number): string;
+    poolRemaining(remaining: number | null, limit: number): string;
+    keyTableHeader: string;
+    keyStates: Record<PooledKeyState, string>;
+    resetSince: string;
+    rejected(key: string, reason: string): string;
+    failoverNote: string;
+  };
+}
+
+const SETTINGS_URL = 'https://my.plantnet.org/account/settings';
+
+function percent(score: number): string {
+  return `${(score * 100).toFixed(1)}%`;
+}
+
+function joinList(items: string[], conjunction: string): string {
+  return items.length <= 1 ? (items[0] ?? '') : `${items.slice(0, -1).join(', ')}${conjunction}${items[items.length - 1]}`;
+}
+
+function candidateList(analysis: ResultAnalysis): string {
+  return analysis.candidates.map((c) => `${c.scientificName} ${percent(c.score)}`).join(', ');
+}
+
+function totalScore(analysis: ResultAnalysis): number {
+  return analysis.candidates.reduce((sum, c) => sum + c.score, 0);
+}
+
+// Groups worth naming besides the taxon every candidate shares
+function subgroups(analysis: ResultAnalysis): TaxonGroup[] {
+  const shared = analysis.sharedTaxon;
+  return analysis.taxonGroups.filter((g) => g.rank !== shared?.rank || g.name !== shared?.name);
+}
+
+function groupList(groups: TaxonGroup[], ranks: Record<TaxonGroup['rank'], string>): string {
+  return groups.map((g) => `${ranks[g.rank]} ${g.name} ${percent(g.combinedScore)} (${g.members.join(', ')})`).join(', ');
+}
+
+// Levels whose top matches contradict each other, lowest rank first
+function contradictions(reconciliation: Reconciliation): TaxonVerdict[] {
+  return reconciliation.levels.filter((level) => level.agreement === 'contradict');
+}
+
+/** "Quercus robur in #1, #3; Quercus petraea in #2", with `joiner` between taxon and labels. */
+function taxaList(verdict: TaxonVerdict, joiner: string): string {
+  return verdict.taxa.map((taxon) => `${taxon.name}${joiner}${taxon.identifications.join(', ')}`).join('; ');
+}
+
+const TABLE_RULE = (columns: number) => `|${'---|'.repeat(columns)}`;
+
+// English is the source text: analysis sentences come from result-analysis as they are
+
+const en: Messages = {
+  language: 'en',
+  list: (items) => joinList(items, ' and '),
+  warning: 'Warning',
+  caution: 'Caution',
+  unknown: 'unknown',
+  identify: {
+    title: '## Plant Identification Results',
+    bestMatch: (name) => `**Best match:** ${name}`,
+    cached: (storedAt) =>
+      `**Cached result:** served from the local cache (identified ${storedAt}); no quota was used`,
+    remaining: (count) => `**Remaining daily quota:** ${count} requests`,
+    remainingCached: (count) => `**Remaining daily quota:** ${count} requests (as of the cached call)`,
+    autoProject: (project, reason) => `**Project:** \`${project}\` (chosen automatically: ${reason})`,
+    engineVersion: (version) => `**AI engine version:** ${version}`,
+    resultResource: (uri) => `**Result resource:** \`${uri}\``,
+    interpretation: '### Interpretation',
+    outcome: (label, summary) => `**Outcome:** ${label} — ${summary}`,
+    outcomeLabels: { confident: 'Confident', ambiguous: 'Ambiguous', inconclusive: 'Inconclusive' },
+    nextPhoto: (text) => `**Next photo:** ${text}`,
+    topMatches: (count) => `### Top ${count} Species Matches`,
+    match: (rank, name, confidence) => `**${rank}. ${name}** — ${confidence}% confidence`,
+    author: 'Author',
+    family: 'Family',
+    genus: 'Genus',
+    commonNames: 'Common names',
+    englishFallback: (names) => names,
+    scientificFallback: (name) => `none known (*${name}*)`,
+    referenceImages: 'Reference images',
+    tip: '*Tip: For better accuracy, use clear photos of a single plant part and specify the correct organ.*',
+  },
+  analysis: {
+    summary: (analysis) => analysis.summary,
+    recommendation: (analysis) => analysis.recommendation,
+  },
+  taxonomy: {
+    orderClass: 'Order / class',
+    nameStatus: 'Name status',
+    statuses: {
+      accepted: 'accepted',
+      synonym: 'synonym',
+      doubtful: 'doubtful',
+      unplaced: 'unplaced',
+      misapplied: 'misapplied',
+      unknown: 'unknown',
+    },
+    synonymOf: (name) => `synonym of *${name}*`,
+    nativeRange: 'Native range',
+  },
+  safety: {
+    toxicity: 'Toxicity',
+    toxicTo: (subjects) => `toxic to ${subjects}`,
+    nonToxic: 'non-toxic to humans and pets',
+    subjects: { humans: 'humans', dogs: 'dogs', cats: 'cats', horses: 'horses' },
+    levels: { 'non-toxic': 'non-toxic', toxic: 'toxic', mild: 'mild', moderate: 'moderate', severe: 'severe' },
+    invasiveStatus: 'Invasive status',
+    invasiveIn: (status, region) => `${status} in ${region}`,
+    invasiveStatuses: { invasive: 'invasive', naturalised: 'naturalised', regulated: 'regulated' },
+    conservation: 'Conservation status',
+    iucn: {
+      LC: 'Least Concern',
+      NT: 'Near Threatened',
+      VU: 'Vulnerable',
+      EN: 'Endangered',
+      CR: 'Critically Endangered',
+      EW: 'Extinct in the Wild',
+      EX: 'Extinct',
+      DD: 'Data Deficient',
+    },
+    global: 'global',
+    legallyProtected: 'legally protected',
+    sources: 'Safety sources',
+    regulatedWeedIn: (regions) => `a regulated weed in ${regions}`,
+    invasiveInRegions: (regions) => `invasive in ${regions}`,
+    globally: 'globally',
+    inScope: (scope) => `in ${scope}`,
+    applies: (status, where) => `${status} ${where}`,
+    caution: (name, concerns) =>
+      `${name} is ${concerns}. ` +
+      'Confirm the identification and check the cited sources before handling, planting or removing it.',
+  },
+  projects: {
+    title: '## Available Pl@ntNet Flora Projects',
+    intro:
+      'Use the **Project ID** as the `project` argument in `identify_plant` for regional accuracy. ' +
+      'The same list is available as the `plantnet://projects` resource.',
+    tableHeader: '| Project ID | Name |\n|-----------|------|',
+  },
+  reconcile: {
+    title: '## Reconciled Identifications',
+    summary: (reconciliation) => {
+      const [leader] = reconciliation.candidates;
+      const leads = `${leader.scientificName} leads after fusion at ${percent(leader.fusedScore)}`;
+      const contradicted = contradictions(reconciliation);
+      const consensus = reconciliation.consensus;
+      if (consensus?.rank === 'species') {
+        return `All ${reconciliation.identifications.length} identifications agree on ${consensus.name}; ${leads}.`;
+      }
+      if (consensus) {
+        return (
+          `The identifications disagree on the ${joinList(contradicted.map((level) => level.rank), ' and ')} ` +
+          `(${taxaList(contradicted[0], ' in ')}) but agree on ${consensus.rank} ${consensus.name}; ${leads}.`
+        );
+      }
+      if (contradicted.length > 0) {
+        return (
+          `The identifications disagree even at family level (${taxaList(contradicted[contradicted.length - 1], ' in ')}); ` +
+          `${leads}. Check that the photos show the same plant.`
+        );
+      }
+      return `${leads}; the identifications give too little taxonomy to compare.`;
+    },
+    summaryLine: (summary) => `**Summary:** ${summary}`,
+    tableHeader:
+      '| # | Identification | Project | Organs | Top match | Score |\n' +
+      '|---|----------------|---------|--------|-----------|-------|',
+    givenAsJson: 'given as JSON',
+    agreement: '### Agreement',
+    agreementHeader:
+      '| Rank | Verdict | Top match per identification |\n' + '|------|---------|------------------------------|',
+    ranks: { species: 'species', genus: 'genus', family: 'family' },
+    verdicts: { agree: 'agree', contradict: '**contradict**', unknown: 'unknown' },
+    fusedCandidates: '### Fused Candidates',
+    candidatesHeader: (labels) =>
+      `| Rank | Species | Family | Fused score | ${labels.join(' | ')} |\n` +
+      `|------|---------|--------|-------------|${labels.map(() => '----|').join('')}`,
+    including: (synonyms) => `incl. ${synonyms}`,
+    moreCandidates: (count) => `*${count} more candidate(s) not shown.*`,
+    fusionRule:
+      'Fused score = geometric mean of the scores a species gets in each identification. Where an ' +
+      'identification does not list the species, half of its lowest listed score stands in, since the species ' +
+      'ranked below every listed candidate. Species that score well in every identification rise; a species ' +
+      'backed by only one photo is pulled down by the others.',
+    fusionNote: (rule) => `*Score fusion: ${rule}*`,
+  },
+  quota: {
+    title: '## Pl@ntNet API Quota Status',
+    dailyLimit: (limit) => `**Daily limit:** ${limit} identifications per API key`,
+    lastUnknown: '**Last known remaining:** unknown — no identification has been recorded for this API key yet.',
+    learnedNext: 'The remaining count is learned from the next `identify_plant` call.',
+    lastKnown: (remaining, observedAt) => `**Last known remaining:** ${remaining} requests (observed ${observedAt})`,
+    estimatedAfterReset: (remaining) =>
+      `**Estimated remaining:** ${remaining} requests — the daily quota has reset since that observation.`,
+    nextReset: (at) => `**Next reset:** ${at}`,
+    session: (calls, cacheHits, since) =>
+      `**This session:** ${calls} API identification call(s), ${cacheHits} served from cache (since ${since})`,
+    projected: (at, beforeReset) =>
+      `**Projected exhaustion:** ${at} at this session's rate` +
+      (beforeReset ? ' — before the next reset' : ' — after the next reset, so quota should last today'),
+    notProjected: '**Projected exhaustion:** not enough calls this session to project.',
+    belowThreshold: (threshold) => `> **Warning:** remaining quota is below the warning threshold of ${threshold}.`,
+    lowQuota: (remaining, keyCount, threshold, resetAt) =>
+      `Low quota: about ${remaining} identification requests remain today` +
+      (keyCount > 1 ? ` across ${keyCount} API keys` : '') +
+      ` (warning threshold ${threshold}); the quota resets at ${resetAt}.`,
+    limitNote: 'If you exceed the daily limit, the API returns a 429 Too Many Requests error.',
+    increase: `To increase your quota, visit: ${SETTINGS_URL}`,
+    pooledKeys: (count) => `**API keys:** ${count} pooled — requests go to the key with the most remaining quota`,
+    poolRemaining: (remaining, limit) =>
+      '**Estimated remaining (all keys):** ' +
+      (remaining === null
+        ? 'unknown until every key has answered an identification'
+        : `${remaining} of ${limit} requests`),
+    keyTableHeader:
+      '| Key | State | Remaining | Last observed | Calls this session |\n' +
+      '|-----|-------|-----------|---------------|--------------------|',
+    keyStates: { available: 'available', exhausted: 'exhausted', rejected: 'rejected' },
+    resetSince: ' (reset since)',
+    rejected: (key, reason) => `> **Rejected:** \`${key}\` — ${reason}`,
+    failoverNote: 'When a key is rejected (401) or out of quota (429), requests fail over to the next key.',
+  },
+};
+
+const fr: Messages = {
+  language: 'fr',
+  list: (items) => joinList(items, ' et '),
+  warning: 'Avertissement',
+  caution: 'Attention',
+  unknown: 'inconnu',
+  identify: {
+    title: "## Résultats de l'identification",
+    bestMatch: (name) => `**Meilleure correspondance :** ${name}`,
+    cached: (storedAt) =>
+      `**Résultat en cache :** servi depuis le cache local (identifié le ${storedAt}) ; aucun quota utilisé`,
+    remaining: (count) => `**Quota journalier restant :** ${count} requêtes`,
+    remainingCached: (count) => `**Quota journalier restant :** ${count} requêtes (lors de l'appel mis en cache)`,
+    autoProject: (project, reason) => `**Projet :** \`${project}\` (choisi automatiquement : ${reason})`,
+    engineVersion: (version) => `**Version du moteur d'IA :** ${version}`,
+    resultResource: (uri) => `**Ressource du résultat :** \`${uri}\``,
+    interpretation: '### Interprétation',
+    outcome: (label, summary) => `**Verdict :** ${label} — ${summary}`,
+    outcomeLabels: { confident: 'Fiable', ambiguous: 'Ambigu', inconclusive: 'Non concluant' },
+    nextPhoto: (text) => `**Photo suivante :** ${text}`,
+    topMatches: (count) => `### Les ${count} meilleures correspondances`,
+    match: (rank, name, confidence) => `**${rank}. ${name}** — confiance ${confidence} %`,
+    author: 'Auteur',
+    family: 'Famille',
+    genus: 'Genre',
+    commonNames: 'Noms communs',
+    englishFallback: (names) => `${names} (en anglais)`,
+    scientificFallback: (name) => `aucun connu (*${name}*)`,
+    referenceImages: 'Images de référence',
+    tip:
+      "*Astuce : pour plus de précision, utilisez des photos nettes d'une seule partie de la plante " +
+      "et indiquez l'organe correspondant.*",
+  },
+  analysis: {
+    summary: (analysis) => {
+      const [top] = analysis.candidates;
+      if (!top) return "Pl@ntNet n'a renvoyé aucune espèce candidate.";
+      if (analysis.outcome === 'confident') {
+        return `${top.scientificName} correspond clairement, à ${percent(top.score)}.`;
+      }
+      if (analysis.outcome === 'ambiguous') {
+        const shared = analysis.sharedTaxon;
+        const groups = subgroups(analysis);
+        return (
+          `Hésitation entre ${analysis.candidates.length} candidats (${candidateList(analysis)})` +
+          (shared
+            ? `, tous ${shared.rank === 'genus' ? 'du genre' : 'de la famille'} ${shared.name} ` +
+              `(${percent(totalScore(analysis))} au total)`
+            : groups.length > 0
+              ? ''
+              : ', de familles différentes') +
+          (groups.length > 0 ? ` ; regroupements : ${groupList(groups, { genus: 'genre', family: 'famille' })}` : '') +
+          '.'
+        );
+      }
+      return `Aucune correspondance fiable : la meilleure, ${top.scientificName}, n'obtient que ${percent(top.score)}.`;
+    },
+    recommendation: (analysis) => {
+      if (!analysis.recommendation) return null;
+      const organ = analysis.recommendedOrgan;
+      if (!organ) {
+        return (
+          'Tous les organes utiles ont déjà été soumis ; reprenez le plus net de plus près, ' +
+          'bien mis au point et sur un fond uni.'
+        );
+      }
+      const reasons: Record<string, string> = {
+        flower: 'des fleurs : elles portent le plus de caractères distinctifs entre espèces proches',
+        fruit: "des fruits : ils séparent souvent des espèces semblables par la fleur et la feuille",
+        leaf: 'des feuilles : leur forme et leur bord séparent la plupart des candidats éloignés',
+        habit: "du port de la plante : sa silhouette d'ensemble départage les candidats éloignés",
+        bark: "de l'écorce : sa texture aide à distinguer les arbres sans fleurs ni fruits",
+      };
+      return `Ajoutez une photo ${reasons[organ] ?? organ}.`;
+    },
+  },
+  taxonomy: {
+    orderClass: 'Ordre / classe',
+    nameStatus: 'Statut du nom',
+    statuses: {
+      accepted: 'accepté',
+      synonym: 'synonyme',
+      doubtful: 'douteux',
+      unplaced: 'non placé',
+      misapplied: 'mal appliqué',
+      unknown: 'inconnu',
+    },
+    synonymOf: (name) => `synonyme de *${name}*`,
+    nativeRange: "Aire d'origine",
+  },
+  safety: {
+    toxicity: 'Toxicité',
+    toxicTo: (subjects) => `toxique pour ${subjects}`,
+    nonToxic: "non toxique pour l'humain et les animaux de compagnie",
+    subjects: { humans: "l'humain", dogs: 'les chiens', cats: 'les chats', horses: 'les chevaux' },
+    levels: { 'non-toxic': 'non toxique', toxic: 'toxique', mild: 'légère', moderate: 'modérée', severe: 'grave' },
+    invasiveStatus: 'Statut invasif',
+    invasiveIn: (status, region) => `${status} : ${region}`,
+    invasiveStatuses: { invasive: 'invasive', naturalised: 'naturalisée', regulated: 'réglementée' },
+    conservation: 'Statut de conservation',
+    iucn: {
+      LC: 'Préoccupation mineure',
+      NT: 'Quasi menacée',
+      VU: 'Vulnérable',
+      EN: 'En danger',
+      CR: 'En danger critique',
+      EW: "Éteinte à l'état sauvage",
+      EX: 'Éteinte',
+      DD: 'Données insuffisantes',
+    },
+    global: 'mondial',
+    legallyProtected: 'protégée par la loi',
+    sources: 'Sources (sécurité)',
+    regulatedWeedIn: (regions) => `une mauvaise herbe réglementée : ${regions}`,
+    invasiveInRegions: (regions) => `invasive : ${regions}`,
+    globally: 'au niveau mondial',
+    inScope: (scope) => `en ${scope}`,
+    applies: (status, where) => `${status} ${where}`,
+    caution: (name, concerns) =>
+      `${name} est ${concerns}. ` +
+      "Confirmez l'identification et consultez les sources citées avant de la manipuler, la planter ou l'arracher.",
+  },
+  projects: {
+    title: '## Projets de flore Pl@ntNet disponibles',
+    intro:
+      "Utilisez l'**ID du projet** comme argument `project` de `identify_plant` pour une identification " +
+      'adaptée à la région. La même liste est disponible via la ressource `plantnet://projects`.',
+    tableHeader: `| ID du projet | Nom |\n${TABLE_RULE(2)}`,
+  },
+  reconcile: {
+    title: '## Identifications rapprochées',
+    summary: (reconciliation) => {
+      const [leader] = reconciliation.candidates;
+      const leads = `${leader.scientificName} arrive en tête après fusion avec ${percent(leader.fusedScore)}`;
+      const contradicted = contradictions(reconciliation);
+      const consensus = reconciliation.consensus;
+      const ranks = { species: 'espèce', genus: 'genre', family: 'famille' };
+      if (consensus?.rank === 'species') {
+        return `Les ${reconciliation.identifications.length} identifications concordent sur ${consensus.name} ; ${leads}.`;
+      }
+      if (consensus) {
+        return (
+          `Les identifications divergent au rang ${joinList(contradicted.map((level) => ranks[level.rank]), ' et ')} ` +
+          `(${taxaList(contradicted[0], ' dans ')}) mais concordent sur ${consensus.rank === 'genus' ? 'le genre' : 'la famille'} ` +
+          `${consensus.name} ; ${leads}.`
+        );
+      }
+      if (contradicted.length > 0) {
+        return (
+          `Les identifications divergent même au rang de la famille (${taxaList(contradicted[contradicted.length - 1], ' dans ')}) ; ` +
+          `${leads}. Vérifiez que les photos montrent la même plante.`
+        );
+      }
+      return `${leads} ; les identifications donnent trop peu de taxonomie pour être comparées.`;
+    },
+    summaryLine: (summary) => `**Résumé :** ${summary}`,
+    tableHeader: `| # | Identification | Projet | Organes | Meilleure correspondance | Score |\n${TABLE_RULE(6)}`,
+    givenAsJson: 'fournie en JSON',
+    agreement: '### Concordance',
+    agreementHeader: `| Rang | Verdict | Meilleure correspondance par identification |\n${TABLE_RULE(3)}`,
+    ranks: { species: 'espèce', genus: 'genre', family: 'famille' },
+    verdicts: { agree: 'concordent', contradict: '**divergent**', unknown: 'inconnu' },
+    fusedCandidates: '### Candidats fusionnés',
+    candidatesHeader: (labels) =>
+      `| Rang | Espèce | Famille | Score fusionné | ${labels.join(' | ')} |\n${TABLE_RULE(4 + labels.length)}`,
+    including: (synonyms) => `y compris ${synonyms}`,
+    moreCandidates: (count) => `*${count} autre(s) candidat(s) non affiché(s).*`,
+    fusionRule:
+      "Score fusionné = moyenne géométrique des scores qu'une espèce obtient dans chaque identification. " +
+      "Quand une identification ne cite pas l'espèce, la moitié de son plus faible score cité la remplace, " +
+      "puisque l'espèce s'y classait sous tous les candidats cités. Les espèces bien notées dans toutes les " +
+      'identifications remontent ; une espèce soutenue par une seule photo est tirée vers le bas par les autres.',
+    fusionNote: (rule) => `*Fusion des scores : ${rule}*`,
+  },
+  quota: {
+    title: "## État du quota de l'API Pl@ntNet",
+    dailyLimit: (limit) => `**Limite journalière :** ${limit} identifications par clé d'API`,
+    lastUnknown:
+      "**Dernier solde connu :** inconnu — aucune identification n'a encore été enregistrée pour cette clé d'API.",
+    learnedNext: 'Le solde sera connu au prochain appel à `identify_plant`.',
+    lastKnown: (remaining, observedAt) => `**Dernier solde connu :** ${remaining} requêtes (relevé le ${observedAt})`,
+    estimatedAfterReset: (remaining) =>
+      `**Solde estimé :** ${remaining} requêtes — le quota journalier a été réinitialisé depuis ce relevé.`,
+    nextReset: (at) => `**Prochaine réinitialisation :** ${at}`,
+    session: (calls, cacheHits, since) =>
+      `**Cette session :** ${calls} appel(s) d'identification à l'API, ${cacheHits} servi(s) depuis le cache ` +
+      `(depuis ${since})`,
+    projected: (at, beforeReset) =>
+      `**Épuisement prévu :** ${at} au rythme de cette session` +
+      (beforeReset
+        ? ' — avant la prochaine réinitialisation'
+        : " — après la prochaine réinitialisation, le quota devrait donc suffire aujourd'hui"),
+    notProjected: "**Épuisement prévu :** pas assez d'appels dans cette session pour une estimation.",
+    belowThreshold: (threshold) => `> **Avertissement :** le quota restant est sous le seuil d'alerte de ${threshold}.`,
+    lowQuota: (remaining, keyCount, threshold, resetAt) =>
+      `Quota bas : il reste environ ${remaining} requêtes d'identification aujourd'hui` +
+      (keyCount > 1 ? ` sur ${keyCount} clés d'API` : '') +
+      ` (seuil d'alerte ${threshold}) ; le quota sera réinitialisé à ${resetAt}.`,
+    limitNote: "Au-delà de la limite journalière, l'API renvoie une erreur 429 Too Many Requests.",
+    increase: `Pour augmenter votre quota, rendez-vous sur : ${SETTINGS_URL}`,
+    pooledKeys: (count) =>
+      `**Clés d'API :** ${count} mutualisées — chaque requête part vers la clé au plus grand quota restant`,
+    poolRemaining: (remaining, limit) =>
+      '**Solde estimé (toutes les clés) :** ' +
+      (remaining === null
+        ? "inconnu tant que chaque clé n'a pas répondu à une identification"
+        : `${remaining} sur ${limit} requêtes`),
+    keyTableHeader: `| Clé | État | Restant | Dernier relevé | Appels cette session |\n${TABLE_RULE(5)}`,
+    keyStates: { available: 'disponible', exhausted: 'épuisée', rejected: 'rejetée' },
+    resetSince: ' (réinitialisé depuis)',
+    rejected: (key, reason) => `> **Rejetée :** \`${key}\` — ${reason}`,
+    failoverNote:
+      'Quand une clé est rejetée (401) ou à court de quota (429), les requêtes basculent sur la clé suivante.',
+  },
+};
+
+const es: Messages = {
+  language: 'es',
+  list: (items) => joinList(items, ' y '),
+  warning: 'Aviso',
+  caution: 'Precaución',
+  unknown: 'desconocido',
+  identify: {
+    title: '## Resultados de la identificación',
+    bestMatch: (name) => `**Mejor coincidencia:** ${name}`,
+    cached: (storedAt) =>
+      `**Resultado en caché:** servido desde la caché local (identificado el ${storedAt}); no se usó cuota`,
+    remaining: (count) => `**Cuota diaria restante:** ${count} solicitudes`,
+    remainingCached: (count) => `**Cuota diaria restante:** ${count} solicitudes (en la llamada almacenada)`,
+    autoProject: (project, reason) => `**Proyecto:** \`${project}\` (elegido automáticamente: ${reason})`,
+    engineVersion: (version) => `**Versión del motor de IA:** ${version}`,
+    resultResource: (uri) => `**Recurso del resultado:** \`${uri}\``,
+    interpretation: '### Interpretación',
+    outcome: (label, summary) => `**Resultado:** ${label} — ${summary}`,
+    outcomeLabels: { confident: 'Fiable', ambiguous: 'Ambiguo', inconclusive: 'No concluyente' },
+    nextPhoto: (text) => `**Siguiente foto:** ${text}`,
+    topMatches: (count) => `### Las ${count} mejores coincidencias`,
+    match: (rank, name, confidence) => `**${rank}. ${name}** — confianza del ${confidence} %`,
+    author: 'Autor',
+    family: 'Familia',
+    genus: 'Género',
+    commonNames: 'Nombres comunes',
+    englishFallback: (names) => `${names} (en inglés)`,
+    scientificFallback: (name) => `ninguno conocido (*${name}*)`,
+    referenceImages: 'Imágenes de referencia',
+    tip:
+      '*Consejo: para mayor precisión, usa fotos nítidas de una sola parte de la planta ' +
+      'e indica el órgano correcto.*',
+  },
+  analysis: {
+    summary: (analysis) => {
+      const [top] = analysis.candidates;
+      if (!top) return 'Pl@ntNet no devolvió ninguna especie candidata.';
+      if (analysis.outcome === 'confident') {
+        return `${top.scientificName} es una coincidencia clara, con ${percent(top.score)}.`;
+      }
+      if (analysis.outcome === 'ambiguous') {
+        const shared = analysis.sharedTaxon;
+        const groups = subgroups(analysis);
+        return (
+          `Ambiguo entre ${analysis.candidates.length} candidatos (${candidateList(analysis)})` +
+          (shared
+            ? `, todos ${shared.rank === 'genus' ? 'del género' : 'de la familia'} ${shared.name} ` +
+              `(${percent(totalScore(analysis))} en conjunto)`
+            : groups.length > 0
+              ? ''
+              : ', de familias distintas') +
+          (groups.length > 0 ? `; grupos: ${groupList(groups, { genus: 'género', family: 'familia' })}` : '') +
+          '.'
+        );
+      }
+      return `Sin coincidencia fiable: la mejor, ${top.scientificName}, solo alcanza ${percent(top.score)}.`;
+    },
+    recommendation: (analysis) => {
+      if (!analysis.recommendation) return null;
+      const organ = analysis.recommendedOrgan;
+      if (!organ) {
+        return (
+          'Ya se han enviado todos los órganos útiles; repite la foto más clara de más cerca, ' +
+          'enfocada y sobre un fondo liso.'
+        );
+      }
+      const reasons: Record<string, string> = {
+        flower: 'de la flor: las flores tienen más caracteres distintivos entre especies cercanas',
+        fruit: 'del fruto: los frutos suelen separar especies parecidas en flor y hoja',
+        leaf: 'de la hoja: su forma y su borde separan la mayoría de candidatos no emparentados',
+        habit: 'del porte de la planta: su forma general acota los candidatos no emparentados',
+        bark: 'de la corteza: su textura ayuda a distinguir árboles sin flores ni frutos',
+      };
+      return `Añade una foto ${reasons[organ] ?? organ}.`;
+    },
+  },
+  taxonomy: {
+    orderClass: 'Orden / clase',
+    nameStatus: 'Estado del nombre',
+    statuses: {
+      accepted: 'aceptado',
+      synonym: 'sinónimo',
+      doubtful: 'dudoso',
+      unplaced: 'sin ubicar',
+      misapplied: 'mal aplicado',
+      unknown: 'desconocido',
+    },
+    synonymOf: (name) => `sinónimo de *${name}*`,
+    nativeRange: 'Área nativa',
+  },
+  safety: {
+    toxicity: 'Toxicidad',
+    toxicTo: (subjects) => `tóxica para ${subjects}`,
+    nonToxic: 'no tóxica para personas ni mascotas',
+    subjects: { humans: 'personas', dogs: 'perros', cats: 'gatos', horses: 'caballos' },
+    levels: { 'non-toxic': 'no tóxica', toxic: 'tóxica', mild: 'leve', moderate: 'moderada', severe: 'grave' },
+    invasiveStatus: 'Estado invasor',
+    invasiveIn: (status, region) => `${status} en ${region}`,
+    invasiveStatuses: { invasive: 'invasora', naturalised: 'naturalizada', regulated: 'regulada' },
+    conservation: 'Estado de conservación',
+    iucn: {
+      LC: 'Preocupación menor',
+      NT: 'Casi amenazada',
+      VU: 'Vulnerable',
+      EN: 'En peligro',
+      CR: 'En peligro crítico',
+      EW: 'Extinta en estado silvestre',
+      EX: 'Extinta',
+      DD: 'Datos insuficientes',
+    },
+    global: 'mundial',
+    legallyProtected: 'protegida por ley',
+    sources: 'Fuentes (seguridad)',
+    regulatedWeedIn: (regions) => `una mala hierba regulada en ${regions}`,
+    invasiveInRegions: (regions) => `invasora en ${regions}`,
+    globally: 'a nivel mundial',
+    inScope: (scope) => `en ${scope}`,
+    applies: (status, where) => `${status} ${where}`,
+    caution: (name, concerns) =>
+      `${name} es ${concerns}. ` +
+      'Confirma la identificación y consulta las fuentes citadas antes de manipularla, plantarla o retirarla.',
+  },
+  projects: {
+    title: '## Proyectos de flora de Pl@ntNet disponibles',
+    intro:
+      'Usa el **ID del proyecto** como argumento `project` de `identify_plant` para mayor precisión regional. ' +
+      'La misma lista está disponible como recurso `plantnet://projects`.',
+    tableHeader: `| ID del proyecto | Nombre |\n${TABLE_RULE(2)}`,
+  },
+  reconcile: {
+    title: '## Identificaciones conciliadas',
+    summary: (reconciliation) => {
+      const [leader] = reconciliation.candidates;
+      const leads = `${leader.scientificName} encabeza tras la fusión con ${percent(leader.fusedScore)}`;
+      const contradicted = contradictions(reconciliation);
+      const consensus = reconciliation.consensus;
+      const ranks = { species: 'especie', genus: 'género', family: 'familia' };
+      if (consensus?.rank === 'species') {
+        return `Las ${reconciliation.identifications.length} identificaciones coinciden en ${consensus.name}; ${leads}.`;
+      }
+      if (consensus) {
+        return (
+          `Las identificaciones discrepan en ${joinList(contradicted.map((level) => ranks[level.rank]), ' y ')} ` +
+          `(${taxaList(contradicted[0], ' en ')}) pero coinciden en ${consensus.rank === 'genus' ? 'el género' : 'la familia'} ` +
+          `${consensus.name}; ${leads}.`
+        );
+      }
+      if (contradicted.length > 0) {
+        return (
+          `Las identificaciones discrepan incluso en la familia (${taxaList(contradicted[contradicted.length - 1], ' en ')}); ` +
+          `${leads}. Compruebe que las fotos muestran la misma planta.`
+        );
+      }
+      return `${leads}; las identificaciones aportan muy poca taxonomía para compararlas.`;
+    },
+    summaryLine: (summary) => `**Resumen:** ${summary}`,
+    tableHeader: `| # | Identificación | Proyecto | Órganos | Mejor coincidencia | Puntuación |\n${TABLE_RULE(6)}`,
+    givenAsJson: 'proporcionada como JSON',
+    agreement: '### Concordancia',
+    agreementHeader: `| Rango | Veredicto | Mejor coincidencia por identificación |\n${TABLE_RULE(3)}`,
+    ranks: { species: 'especie', genus: 'género', family: 'familia' },
+    verdicts: { agree: 'coinciden', contradict: '**discrepan**', unknown: 'desconocido' },
+    fusedCandidates: '### Candidatos fusionados',
+    candidatesHeader: (labels) =>
+      `| Puesto | Especie | Familia | Puntuación fusionada | ${labels.join(' | ')} |\n${TABLE_RULE(4 + labels.length)}`,
+    including: (synonyms) => `incl. ${synonyms}`,
+    moreCandidates: (count) => `*${count} candidato(s) más sin mostrar.*`,
+    fusionRule:
+      'Puntuación fusionada = media geométrica de las puntuaciones que obtiene una especie en cada identificación. ' +
+      'Cuando una identificación no incluye la especie, se usa la mitad de su puntuación más baja, ya que la ' +
+      'especie quedó por debajo de todos los candidatos listados. Las especies bien puntuadas en todas las ' +
+      'identificaciones suben; una especie respaldada por una sola foto queda rebajada por las demás.',
+    fusionNote: (rule) => `*Fusión de puntuaciones: ${rule}*`,
+  },
+  quota: {
+    title: '## Estado de la cuota de la API de Pl@ntNet',
+    dailyLimit: (limit) => `**Límite diario:** ${limit} identificaciones por clave de API`,
+    lastUnknown:
+      '**Último saldo conocido:** desconocido — aún no se ha registrado ninguna identificación con esta clave de API.',
+    learnedNext: 'El saldo se conocerá en la próxima llamada a `identify_plant`.',
+    lastKnown: (remaining, observedAt) =>
+      `**Último saldo conocido:** ${remaining} solicitudes (observado el ${observedAt})`,
+    estimatedAfterReset: (remaining) =>
+      `**Saldo estimado:** ${remaining} solicitudes — la cuota diaria se ha reiniciado desde esa observación.`,
+    nextReset: (at) => `**Próximo reinicio:** ${at}`,
+    session: (calls, cacheHits, since) =>
+      `**Esta sesión:** ${calls} llamada(s) de identificación a la API, ${cacheHits} servida(s) desde la caché ` +
+      `(desde ${since})`,
+    projected: (at, beforeReset) =>
+      `**Agotamiento previsto:** ${at} al ritmo de esta sesión` +
+      (beforeReset ? ' — antes del próximo reinicio' : ' — después del próximo reinicio, así que la cuota debería bastar hoy'),
+    notProjected: '**Agotamiento previsto:** no hay suficientes llamadas en esta sesión para estimarlo.',
+    belowThreshold: (threshold) => `> **Aviso:** la cuota restante está por debajo del umbral de aviso de ${threshold}.`,
+    lowQuota: (remaining, keyCount, threshold, resetAt) =>
+      `Cuota baja: quedan unas ${remaining} solicitudes de identificación hoy` +
+      (keyCount > 1 ? ` entre ${keyCount} claves de API` : '') +
+      ` (umbral de aviso ${threshold}); la cuota se reinicia a las ${resetAt}.`,
+    limitNote: 'Si superas el límite diario, la API devuelve un error 429 Too Many Requests.',
+    increase: `Para aumentar tu cuota, visita: ${SETTINGS_URL}`,
+    pooledKeys: (count) =>
+      `**Claves de API:** ${count} agrupadas — cada solicitud va a la clave con más cuota restante`,
+    poolRemaining: (remaining, limit) =>
+      '**Saldo estimado (todas las claves):** ' +
+      (remaining === null
+        ? 'desconocido hasta que cada clave haya respondido una identificación'
+        : `${remaining} de ${limit} solicitudes`),
+    keyTableHeader: `| Clave | Estado | Restante | Última observación | Llamadas esta sesión |\n${TABLE_RULE(5)}`,
+    keyStates: { available: 'disponible', exhausted: 'agotada', rejected: 'rechazada' },
+    resetSince: ' (reiniciada desde entonces)',
+    rejected: (key, reason) => `> **Rechazada:** \`${key}\` — ${reason}`,
+    failoverNote:
+      'Cuando una clave es rechazada (401) o se queda sin cuota (429), las solicitudes pasan a la siguiente clave.',
+  },
+};
+
+const de: Messages = {
+  language: 'de',
+  list: (items) => joinList(items, ' und '),
+  warning: 'Warnung',
+  caution: 'Vorsicht',
+  unknown: 'unbekannt',
+  identify: {
+    title: '## Ergebnisse der Pflanzenbestimmung',
+    bestMatch: (name) => `**Beste Übereinstimmung:** ${name}`,
+    cached: (storedAt) =>
+      `**Zwischengespeichertes Ergebnis:** aus dem lokalen Cache (bestimmt am ${storedAt}); kein Kontingent verbraucht`,
+    remaining: (count) => `**Verbleibendes Tageskontingent:** ${count} Anfragen`,
+    remainingCached: (count) => `**Verbleibendes Tageskontingent:** ${count} Anfragen (Stand des gespeicherten Aufrufs)`,
+    autoProject: (project, reason) => `**Projekt:** \`${project}\` (automatisch gewählt: ${reason})`,
+    engineVersion: (version) => `**Version der KI-Engine:** ${version}`,
+    resultResource: (uri) => `**Ergebnis-Ressource:** \`${uri}\``,
+    interpretation: '### Einordnung',
+    outcome: (label, summary) => `**Bewertung:** ${label} — ${summary}`,
+    outcomeLabels: { confident: 'Eindeutig', ambiguous: 'Mehrdeutig', inconclusive: 'Nicht eindeutig' },
+    nextPhoto: (text) => `**Nächstes Foto:** ${text}`,
+    topMatches: (count) => `### Die ${count} besten Übereinstimmungen`,
+    match: (rank, name, confidence) => `**${rank}. ${name}** — ${confidence} % Konfidenz`,
+    author: 'Autor',
+    family: 'Familie',
+    genus: 'Gattung',
+    commonNames: 'Trivialnamen',
+    englishFallback: (names) => `${names} (englisch)`,
+    scientificFallback: (name) => `keine bekannt (*${name}*)`,
+    referenceImages: 'Referenzbilder',
+    tip:
+      '*Tipp: Für genauere Ergebnisse scharfe Fotos eines einzelnen Pflanzenteils verwenden ' +
+      'und das richtige Organ angeben.*',
+  },
+  analysis: {
+    summary: (analysis) => {
+      const [top] = analysis.candidates;
+      if (!top) return 'Pl@ntNet hat keine Kandidatenart geliefert.';
+      if (analysis.outcome === 'confident') {
+        return `${top.scientificName} ist mit ${percent(top.score)} eine klare Übereinstimmung.`;
+      }
+      if (analysis.outcome === 'ambiguous') {
+        const shared = analysis.sharedTaxon;
+        const groups = subgroups(analysis);
+        return (
+          `Mehrdeutig zwischen ${analysis.candidates.length} Kandidaten (${candidateList(analysis)})` +
+          (shared
+            ? `, alle aus der ${shared.rank === 'genus' ? 'Gattung' : 'Familie'} ${shared.name} ` +
+              `(zusammen ${percent(totalScore(analysis))})`
+            : groups.length > 0
+              ? ''
+              : ', aus verschiedenen Familien') +
+          (groups.length > 0 ? `; Gruppen: ${groupList(groups, { genus: 'Gattung', family: 'Familie' })}` : '') +
+          '.'
+        );
+      }
+      return `Keine sichere Übereinstimmung: Die beste, ${top.scientificName}, erreicht nur ${percent(top.score)}.`;
+    },
+    recommendation: (analysis) => {
+      if (!analysis.recommendation) return null;
+      const organ = analysis.recommendedOrgan;
+      if (!organ) {
+        return (
+          'Alle nützlichen Organe wurden bereits eingereicht; das deutlichste noch einmal näher, ' +
+          'scharf und vor ruhigem Hintergrund aufnehmen.'
+        );
+      }
+      const reasons: Record<string, string> = {
+        flower: 'der Blüte hinzufügen: Blüten tragen die meisten Unterscheidungsmerkmale zwischen nahen Verwandten',
+        fruit: 'der Frucht hinzufügen: Früchte trennen oft Arten, die sich in Blüte und Blatt ähneln',
+        leaf: 'des Blatts hinzufügen: Blattform und -rand trennen die meisten nicht verwandten Kandidaten',
+        habit: 'des Wuchses hinzufügen: die Gesamtgestalt grenzt nicht verwandte Kandidaten ein',
+        bark: 'der Rinde hinzufügen: ihre Struktur hilft, Bäume ohne Blüten und Früchte zu unterscheiden',
+      };
+      return `Ein Foto ${reasons[organ] ?? organ}.`;
+    },
+  },
+  taxonomy: {
+    orderClass: 'Ordnung / Klasse',
+    nameStatus: 'Namensstatus',
+    statuses: {
+      accepted: 'akzeptiert',
+      synonym: 'Synonym',
+      doubtful: 'zweifelhaft',
+      unplaced: 'nicht zugeordnet',
+      misapplied: 'fehlangewendet',
+      unknown: 'unbekannt',
+    },
+    synonymOf: (name) => `Synonym von *${name}*`,
+    nativeRange: 'Heimatgebiet',
+  },
+  safety: {
+    toxicity: 'Giftigkeit',
+    toxicTo: (subjects) => `giftig für ${subjects}`,
+    nonToxic: 'ungiftig für Menschen und Haustiere',
+    subjects: { humans: 'Menschen', dogs: 'Hunde', cats: 'Katzen', horses: 'Pferde' },
+    levels: { 'non-toxic': 'ungiftig', toxic: 'giftig', mild: 'leicht', moderate: 'mäßig', severe: 'schwer' },
+    invasiveStatus: 'Invasivität',
+    invasiveIn: (status, region) => `${status} in ${region}`,
+    invasiveStatuses: { invasive: 'invasiv', naturalised: 'eingebürgert', regulated: 'gesetzlich geregelt' },
+    conservation: 'Schutzstatus',
+    iucn: {
+      LC: 'Nicht gefährdet',
+      NT: 'Potenziell gefährdet',
+      VU: 'Gefährdet',
+      EN: 'Stark gefährdet',
+      CR: 'Vom Aussterben bedroht',
+      EW: 'In der Natur ausgestorben',
+      EX: 'Ausgestorben',
+      DD: 'Unzureichende Datenlage',
+    },
+    global: 'weltweit',
+    legallyProtected: 'gesetzlich geschützt',
+    sources: 'Quellen (Sicherheit)',
+    regulatedWeedIn: (regions) => `ein gesetzlich geregeltes Unkraut in ${regions}`,
+    invasiveInRegions: (regions) => `invasiv in ${regions}`,
+    globally: 'weltweit',
+    inScope: (scope) => `in ${scope}`,
+    applies: (status, where) => `${where} ${status}`,
+    caution: (name, concerns) =>
+      `${name} ist ${concerns}. ` +
+      'Vor dem Anfassen, Pflanzen oder Entfernen die Bestimmung bestätigen und die genannten Quellen prüfen.',
+  },
+  projects: {
+    title: '## Verfügbare Pl@ntNet-Florenprojekte',
+    intro:
+      'Die **Projekt-ID** als `project`-Argument von `identify_plant` angeben, um regional genauer zu bestimmen. ' +
+      'Dieselbe Liste gibt es als Ressource `plantnet://projects`.',
+    tableHeader: `| Projekt-ID | Name |\n${TABLE_RULE(2)}`,
+  },
+  reconcile: {
+    title: '## Zusammengeführte Bestimmungen',
+    summary: (reconciliation) => {
+      const [leader] = reconciliation.candidates;
+      const leads = `${leader.scientificName} führt nach der Kombination mit ${percent(leader.fusedScore)}`;
+      const contradicted = contradictions(reconciliation);
+      const consensus = reconciliation.consensus;
+      const ranks = { species: 'Art', genus: 'Gattung', family: 'Familie' };
+      if (consensus?.rank === 'species') {
+        return `Alle ${reconciliation.identifications.length} Bestimmungen stimmen in ${consensus.name} überein; ${leads}.`;
+      }
+      if (consensus) {
+        return (
+          `Die Bestimmungen widersprechen sich bei ${joinList(contradicted.map((level) => ranks[level.rank]), ' und ')} ` +
+          `(${taxaList(contradicted[0], ' in ')}), stimmen aber in der ${ranks[consensus.rank]} ${consensus.name} überein; ` +
+          `${leads}.`
+        );
+      }
+      if (contradicted.length > 0) {
+        return (
+          `Die Bestimmungen widersprechen sich sogar bei der Familie (${taxaList(contradicted[contradicted.length - 1], ' in ')}); ` +
+          `${leads}. Prüfen Sie, ob die Fotos dieselbe Pflanze zeigen.`
+        );
+      }
+      return `${leads}; die Bestimmungen enthalten zu wenig Taxonomie für einen Vergleich.`;
+    },
+    summaryLine: (summary) => `**Zusammenfassung:** ${summary}`,
+    tableHeader: `| # | Bestimmung | Projekt | Organe | Beste Übereinstimmung | Score |\n${TABLE_RULE(6)}`,
+    givenAsJson: 'als JSON übergeben',
+    agreement: '### Übereinstimmung',
+    agreementHeader: `| Rang | Urteil | Beste Übereinstimmung je Bestimmung |\n${TABLE_RULE(3)}`,
+    ranks: { species: 'Art', genus: 'Gattung', family: 'Familie' },
+    verdicts: { agree: 'einig', contradict: '**widersprüchlich**', unknown: 'unbekannt' },
+    fusedCandidates: '### Kombinierte Kandidaten',
+    candidatesHeader: (labels) =>
+      `| Rang | Art | Familie | Kombinierter Score | ${labels.join(' | ')} |\n${TABLE_RULE(4 + labels.length)}`,
+    including: (synonyms) => `inkl. ${synonyms}`,
+    moreCandidates: (count) => `*${count} weitere(r) Kandidat(en) nicht angezeigt.*`,
+    fusionRule:
+      'Kombinierter Score = geometrisches Mittel der Scores, die eine Art in jeder Bestimmung erhält. Führt eine ' +
+      'Bestimmung die Art nicht auf, zählt stattdessen die Hälfte ihres niedrigsten aufgeführten Scores, da die Art ' +
+      'unter allen aufgeführten Kandidaten lag. Arten, die in jeder Bestimmung gut abschneiden, steigen auf; eine ' +
+      'nur von einem Foto gestützte Art wird von den anderen heruntergezogen.',
+    fusionNote: (rule) => `*Score-Kombination: ${rule}*`,
+  },
+  quota: {
+    title: '## Kontingentstatus der Pl@ntNet-API',
+    dailyLimit: (limit) => `**Tageslimit:** ${limit} Bestimmungen pro API-Schlüssel`,
+    lastUnknown:
+      '**Zuletzt bekannter Rest:** unbekannt — für diesen API-Schlüssel wurde noch keine Bestimmung erfasst.',
+    learnedNext: 'Der Rest wird beim nächsten Aufruf von `identify_plant` ermittelt.',
+    lastKnown: (remaining, observedAt) => `**Zuletzt bekannter Rest:** ${remaining} Anfragen (Stand ${observedAt})`,
+    estimatedAfterReset: (remaining) =>
+      `**Geschätzter Rest:** ${remaining} Anfragen — das Tageskontingent wurde seitdem zurückgesetzt.`,
+    nextReset: (at) => `**Nächste Zurücksetzung:** ${at}`,
+    session: (calls, cacheHits, since) =>
+      `**Diese Sitzung:** ${calls} Bestimmungsaufruf(e) an die API, ${cacheHits} aus dem Cache (seit ${since})`,
+    projected: (at, beforeReset) =>
+      `**Voraussichtlich aufgebraucht:** ${at} beim Tempo dieser Sitzung` +
+      (beforeReset
+        ? ' — vor der nächsten Zurücksetzung'
+        : ' — nach der nächsten Zurücksetzung, das Kontingent sollte heute also reichen'),
+    notProjected: '**Voraussichtlich aufgebraucht:** zu wenige Aufrufe in dieser Sitzung für eine Prognose.',
+    belowThreshold: (threshold) => `> **Warnung:** Das verbleibende Kontingent liegt unter der Warnschwelle von ${threshold}.`,
+    lowQuota: (remaining, keyCount, threshold, resetAt) =>
+      `Kontingent knapp: heute verbleiben etwa ${remaining} Bestimmungsanfragen` +
+      (keyCount > 1 ? ` über ${keyCount} API-Schlüssel` : '') +
+      ` (Warnschwelle ${threshold}); das Kontingent wird um ${resetAt} zurückgesetzt.`,
+    limitNote: 'Wird das Tageslimit überschritten, antwortet die API mit dem Fehler 429 Too Many Requests.',
+    increase: `Kontingent erhöhen: ${SETTINGS_URL}`,
+    pooledKeys: (count) =>
+      `**API-Schlüssel:** ${count} im Pool — Anfragen gehen an den Schlüssel mit dem größten Restkontingent`,
+    poolRemaining: (remaining, limit) =>
+      '**Geschätzter Rest (alle Schlüssel):** ' +
+      (remaining === null
+        ? 'unbekannt, bis jeder Schlüssel eine Bestimmung beantwortet hat'
+        : `${remaining} von ${limit} Anfragen`),
+    keyTableHeader: `| Schlüssel | Status | Rest | Zuletzt gesehen | Aufrufe dieser Sitzung |\n${TABLE_RULE(5)}`,
+    keyStates: { available: 'verfügbar', exhausted: 'aufgebraucht', rejected: 'abgelehnt' },
+    resetSince: ' (seitdem zurückgesetzt)',
+    rejected: (key, reason) => `> **Abgelehnt:** \`${key}\` — ${reason}`,
+    failoverNote:
+      'Wird ein Schlüssel abgelehnt (401) oder ist sein Kontingent erschöpft (429), übernimmt der nächste Schlüssel.',
+  },
+};
+
+const he: Messages = {
+  language: 'he',
+  // Hebrew attaches "and" to the last item as a prefix
+  list: (items) => joinList(items, ' ו'),
+  warning: 'אזהרה',
+  caution: 'זהירות',
+  unknown: 'לא ידוע',
+  identify: {
+    title: '## תוצאות זיהוי הצמח',
+    bestMatch: (name) => `**ההתאמה הטובה ביותר:** ${name}`,
+    cached: (storedAt) => `**תוצאה שמורה:** הוגשה מהמטמון המקומי (זוהתה ב-${storedAt}); לא נוצלה מכסה`,
+    remaining: (count) => `**מכסה יומית שנותרה:** ${count} בקשות`,
+    remainingCached: (count) => `**מכסה יומית שנותרה:** ${count} בקשות (נכון לקריאה השמורה)`,
+    autoProject: (project, reason) => `**פרויקט:** \`${project}\` (נבחר אוטומטית: ${reason})`,
+    engineVersion: (version) => `**גרסת מנוע הבינה המלאכותית:** ${version}`,
+    resultResource: (uri) => `**משאב התוצאה:** \`${uri}\``,
+    interpretation: '### פרשנות',
+    outcome: (label, summary) => `**הערכה:** ${label} — ${summary}`,
+    outcomeLabels: { confident: 'ודאי', ambiguous: 'דו-משמעי', inconclusive: 'לא חד-משמעי' },
+    nextPhoto: (text) => `**התמונה הבאה:** ${text}`,
+    topMatches: (count) => `### ${count} ההתאמות המובילות`,
+    match: (rank, name, confidence) => `**${rank}. ${name}** — ודאות ${confidence}%`,
+    author: 'מחבר',
+    family: 'משפחה',
+    genus: 'סוג',
+    commonNames: 'שמות עממיים',
+    englishFallback: (names) => `${names} (באנגלית)`,
+    scientificFallback: (name) => `לא ידועים (*${name}*)`,
+    referenceImages: 'תמונות ייחוס',
+    tip: '*טיפ: לדיוק רב יותר, צלמו בבירור חלק אחד של הצמח וציינו את האיבר הנכון.*',
+  },
+  analysis: {
+    summary: (analysis) => {
+      const [top] = analysis.candidates;
+      if (!top) return 'Pl@ntNet לא החזיר אף מין מועמד.';
+      if (analysis.outcome === 'confident') {
+        return `${top.scientificName} היא התאמה ברורה (${percent(top.score)}).`;
+      }
+      if (analysis.outcome === 'ambiguous') {
+        const shared = analysis.sharedTaxon;
+        const groups = subgroups(analysis);
+        return (
+          `דו-משמעי בין ${analysis.candidates.length} מועמדים (${candidateList(analysis)})` +
+          (shared
+            ? `, כולם ב${shared.rank === 'genus' ? 'סוג' : 'משפחה'} ${shared.name} (יחד ${percent(totalScore(analysis))})`
+            : groups.length > 0
+              ? ''
+              : ', ממשפחות שונות') +
+          (groups.length > 0 ? `; קבוצות: ${groupList(groups, { genus: 'סוג', family: 'משפחה' })}` : '') +
+          '.'
+        );
+      }
+      return `אין התאמה ודאית: הטובה ביותר, ${top.scientificName}, מגיעה רק ל-${percent(top.score)}.`;
+    },
+    recommendation: (analysis) => {
+      if (!analysis.recommendation) return null;
+      const organ = analysis.recommendedOrgan;
+      if (!organ) {
+        return 'כל האיברים המועילים כבר נשלחו; צלמו שוב את הברור שבהם מקרוב, בפוקוס ועל רקע אחיד.';
+      }
+      const reasons: Record<string, string> = {
+        flower: 'הפרח: בפרחים יש הכי הרבה סימני הבחנה בין מינים קרובים',
+        fruit: 'הפרי: פירות מבדילים לעיתים קרובות בין מינים שנראים דומים בפרח ובעלה',
+        leaf: 'העלה: צורת העלה ושוליו מבדילים בין רוב המועמדים שאינם קרובים',
+        habit: 'הצמח כולו: צורת הגידול הכללית מצמצמת את המועמדים שאינם קרובים',
+        bark: 'הקליפה: מרקם הקליפה עוזר להבדיל בין עצים כשאין פרחים או פירות',
+      };
+      return `הוסיפו תמונה של ${reasons[organ] ?? organ}.`;
+    },
+  },
+  taxonomy: {
+    orderClass: 'סדרה / מחלקה',
+    nameStatus: 'מעמד השם',
+    statuses: {
+      accepted: 'מקובל',
+      synonym: 'שם נרדף',
+      doubtful: 'מפוקפק',
+      unplaced: 'לא משויך',
+      misapplied: 'בשימוש שגוי',
+      unknown: 'לא ידוע',
+    },
+    synonymOf: (name) => `שם נרדף של *${name}*`,
+    nativeRange: 'תפוצה מקורית',
+  },
+  safety: {
+    toxicity: 'רעילות',
+    toxicTo: (subjects) => `רעיל ל${subjects}`,
+    nonToxic: 'לא רעיל לבני אדם ולחיות מחמד',
+    subjects: { humans: 'בני אדם', dogs: 'כלבים', cats: 'חתולים', horses: 'סוסים' },
+    levels: { 'non-toxic': 'לא רעיל', toxic: 'רעיל', mild: 'רעילות קלה', moderate: 'רעילות בינונית', severe: 'רעילות חמורה' },
+    invasiveStatus: 'מעמד פולשני',
+    invasiveIn: (status, region) => `${status} ב-${region}`,
+    invasiveStatuses: { invasive: 'פולש', naturalised: 'מתאזרח', regulated: 'מוסדר בחוק' },
+    conservation: 'מצב שימור',
+    iucn: {
+      LC: 'ללא חשש',
+      NT: 'קרוב לסיכון',
+      VU: 'פגיע',
+      EN: 'בסכנת הכחדה',
+      CR: 'בסכנת הכחדה חמורה',
+      EW: 'נכחד בטבע',
+      EX: 'נכחד',
+      DD: 'חסר מידע',
+    },
+    global: 'עולמי',
+    legallyProtected: 'מוגן בחוק',
+    sources: 'מקורות (בטיחות)',
+    regulatedWeedIn: (regions) => `עשב רע מוסדר בחוק ב-${regions}`,
+    invasiveInRegions: (regions) => `מין פולש ב-${regions}`,
+    globally: 'ברמה העולמית',
+    inScope: (scope) => `ב-${scope}`,
+    applies: (status, where) => `${status} ${where}`,
+    caution: (name, concerns) =>
+      `${name}: ${concerns}. ` + 'אמתו את הזיהוי ובדקו את המקורות המצוטטים לפני מגע, שתילה או עקירה.',
+  },
+  projects: {
+    title: '## פרויקטי צומח זמינים ב-Pl@ntNet',
+    intro:
+      'השתמשו ב**מזהה הפרויקט** כארגומנט `project` של `identify_plant` לזיהוי מדויק יותר לאזור. ' +
+      'אותה רשימה זמינה גם כמשאב `plantnet://projects`.',
+    tableHeader: `| מזהה פרויקט | שם |\n${TABLE_RULE(2)}`,
+  },
+  reconcile: {
+    title: '## זיהויים מאוחדים',
+    summary: (reconciliation) => {
+      const [leader] = reconciliation.candidates;
+      const leads = `${leader.scientificName} מוביל לאחר השילוב עם ${percent(leader.fusedScore)}`;
+      const contradicted = contradictions(reconciliation);
+      const consensus = reconciliation.consensus;
+      const ranks = { species: 'מין', genus: 'סוג', family: 'משפחה' };
+      if (consensus?.rank === 'species') {
+        return `כל ${reconciliation.identifications.length} הזיהויים מסכימים על ${consensus.name}; ${leads}.`;
+      }
+      if (consensus) {
+        return (
+          `הזיהויים חלוקים ברמת ה${joinList(contradicted.map((level) => ranks[level.rank]), ' וה')} ` +
+          `(${taxaList(contradicted[0], ' ב-')}) אך מסכימים על ה${ranks[consensus.rank]} ${consensus.name}; ${leads}.`
+        );
+      }
+      if (contradicted.length > 0) {
+        return (
+          `הזיהויים חלוקים אפילו ברמת המשפחה (${taxaList(contradicted[contradicted.length - 1], ' ב-')}); ` +
+          `${leads}. ודאו שהתמונות מציגות את אותו הצמח.`
+        );
+      }
+      return `${leads}; בזיהויים יש מעט מדי מידע טקסונומי להשוואה.`;
+    },
+    summaryLine: (summary) => `**סיכום:** ${summary}`,
+    tableHeader: `| # | זיהוי | פרויקט | איברים | ההתאמה המובילה | ציון |\n${TABLE_RULE(6)}`,
+    givenAsJson: 'סופק כ-JSON',
+    agreement: '### הסכמה',
+    agreementHeader: `| דרגה | הכרעה | ההתאמה המובילה בכל זיהוי |\n${TABLE_RULE(3)}`,
+    ranks: { species: 'מין', genus: 'סוג', family: 'משפחה' },
+    verdicts: { agree: 'מסכימים', contradict: '**סותרים**', unknown: 'לא ידוע' },
+    fusedCandidates: '### מועמדים משולבים',
+    candidatesHeader: (labels) =>
+      `| דירוג | מין | משפחה | ציון משולב | ${labels.join(' | ')} |\n${TABLE_RULE(4 + labels.length)}`,
+    including: (synonyms) => `כולל ${synonyms}`,
+    moreCandidates: (count) => `*${count} מועמדים נוספים לא מוצגים.*`,
+    fusionRule:
+      'ציון משולב = הממוצע הגאומטרי של הציונים שמין מקבל בכל זיהוי. כאשר זיהוי אינו מציג את המין, מחצית ' +
+      'הציון הנמוך ביותר שהוצג בו באה במקומו, שכן המין דורג מתחת לכל המועמדים שהוצגו. מינים שמקבלים ציון ' +
+      'טוב בכל הזיהויים עולים; מין שנתמך בתמונה אחת בלבד נמשך מטה על ידי האחרות.',
+    fusionNote: (rule) => `*שילוב ציונים: ${rule}*`,
+  },
+  quota: {
+    title: '## מצב המכסה ב-API של Pl@ntNet',
+    dailyLimit: (limit) => `**מגבלה יומית:** ${limit} זיהויים לכל מפתח API`,
+    lastUnknown: '**יתרה אחרונה ידועה:** לא ידועה — טרם נרשם זיהוי עבור מפתח ה-API הזה.',
+    learnedNext: 'היתרה תתעדכן בקריאה הבאה ל-`identify_plant`.',
+    lastKnown: (remaining, observedAt) => `**יתרה אחרונה ידועה:** ${remaining} בקשות (נצפתה ב-${observedAt})`,
+    estimatedAfterReset: (remaining) => `**יתרה משוערת:** ${remaining} בקשות — המכסה היומית התאפסה מאז אותה תצפית.`,
+    nextReset: (at) => `**האיפוס הבא:** ${at}`,
+    session: (calls, cacheHits, since) =>
+      `**הפעלה זו:** ${calls} קריאות זיהוי ל-API, ${cacheHits} הוגשו מהמטמון (מאז ${since})`,
+    projected: (at, beforeReset) =>
+      `**צפי למיצוי:** ${at} בקצב של הפעלה זו` +
+      (beforeReset ? ' — לפני האיפוס הבא' : ' — אחרי האיפוס הבא, כך שהמכסה אמורה להספיק להיום'),
+    notProjected: '**צפי למיצוי:** אין מספיק קריאות בהפעלה זו לחישוב צפי.',
+    belowThreshold: (threshold) => `> **אזהרה:** המכסה שנותרה נמוכה מסף האזהרה (${threshold}).`,
+    lowQuota: (remaining, keyCount, threshold, resetAt) =>
+      `מכסה נמוכה: נותרו היום כ-${remaining} בקשות זיהוי` +
+      (keyCount > 1 ? ` ב-${keyCount} מפתחות API` : '') +
+      ` (סף אזהרה ${threshold}); המכסה מתאפסת ב-${resetAt}.`,
+    limitNote: 'בחריגה מהמגבלה היומית ה-API מחזיר שגיאת 429 Too Many Requests.',
+    increase: `להגדלת המכסה: ${SETTINGS_URL}`,
+    pooledKeys: (count) => `**מפתחות API:** ${count} במאגר — כל בקשה נשלחת למפתח עם המכסה הגדולה ביותר שנותרה`,
+    poolRemaining: (remaining, limit) =>
+      '**יתרה משוערת (כל המפתחות):** ' +
+      (remaining === null ? 'לא ידועה עד שכל מפתח יענה על זיהוי' : `${remaining} מתוך ${limit} בקשות`),
+    keyTableHeader: `| מפתח | מצב | נותרו | נצפה לאחרונה | קריאות בהפעלה זו |\n${TABLE_RULE(5)}`,
+    keyStates: { available: 'זמין', exhausted: 'מוצה', rejected: 'נדחה' },
+    resetSince: ' (התאפס מאז)',
+    rejected: (key, reason) => `> **נדחה:** \`${key}\` — ${reason}`,
+    failoverNote: 'כאשר מפתח נדחה (401) או שמכסתו נוצלה (429), הבקשות עוברות למפתח הבא.',
+  },
+};
+
+const CATALOGS: Record<MessageLanguage, Messages> = { en, fr, es, de, he };
+
+/** Primary subtag of a language tag: "fr-CA" → "fr". */
+function primaryLanguage(lang: string): string {
+  return lang.trim().toLowerCase().split(/[-_]/)[0];
+}
+
+/**
+ * Server default for `lang`, from PLANTNET_DEFAULT_LANG; "en" when unset.
+ */
+export function defaultLanguageFromEnv(env: NodeJS.ProcessEnv = process.env): string {
+  return env.PLANTNET_DEFAULT_LANG?.trim() || 'en';
+}
+
+/**
+ * Catalog for a `lang` value such as "fr" or "de-AT". Languages without a catalog
+ * get English.
+ */
+export function messagesFor(lang: string): Messages {
+  return CATALOGS[primaryLanguage(lang) as MessageLanguage] ?? en;
+}
+
+/**
+ * Common names of a match, falling back from the requested language (Pl@ntNet,
+ * then the taxonomy snapshot) to English from the snapshot, then to the scientific
+ * name. `language` is null when the scientific name is used.
+ */
+export function resolveCommonNames(
+  result: PlantNetResult,
+  lang: string
+): { names: string[]; language: string | null } {
+  const requested = primaryLanguage(lang);
+  if (result.species.commonNames.length > 0) {
+    return { names: result.species.commonNames, language: requested };
+  }
+  const vernacular = result.taxonomy?.vernacularNames ?? {};
+  if (vernacular[requested]?.length) return { names: vernacular[requested], language: requested };
+  if (vernacular.en?.length) return { names: vernacular.en, language: 'en' };
+  return { names: [result.species.scientificNameWithoutAuthor], language: null };
+}
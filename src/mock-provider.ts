@@ -0,0 +1,181 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { PlantNetNotFoundError, errorFromResponse } from './errors';
+import { GLOBAL_PROJECT, selectFloraProject } from './flora-regions';
+import { ProjectCatalog, normalizeProjectList, type ProjectList } from './project-catalog';
+import {
+  validateCoordinates,
+  validateImageCount,
+  type IdentificationProvider,
+} from './provider';
+import type {
+  IdentifyDiseaseArgs,
+  IdentifyPlantArgs,
+  PlantNetDiseaseIdentifyResponse,
+  PlantNetIdentifyResponse,
+  PlantNetSpeciesListEntry,
+  ProjectSelection,
+} from './types';
+
+/** Fixtures shipped with the package, used unless PLANTNET_MOCK_FIXTURES points elsewhere. */
+export const DEFAULT_MOCK_FIXTURES_DIR = path.resolve(__dirname, '..', 'fixtures', 'mock');
+
+/** A fixture may stand for an API error instead of a response. */
+interface ErrorFixture {
+  error: { status: number; message: string };
+}
+
+/**
+ * Identification backend that answers from recorded JSON instead of the network.
+ *
+ * Fixture directory layout:
+ * - `projects.json`: the /v2/projects response
+ * - `species/<project>.json`: species lists, falling back to `species/all.json`
+ * - `identify/*.json` and `diseases/*.json`: recorded responses, or `{ "error": { status, message } }`
+ *
+ * A request uses the fixture named after an image's file name (`.../quercus-robur.jpg`
+ * → `identify/quercus-robur.json`); otherwise one is chosen from a hash of the image
+ * sources and organs, so the same request always gets the same answer. Images are
+ * never downloaded or read.
+ */
+export class MockProvider implements IdentificationProvider {
+  readonly projects: ProjectCatalog;
+
+  constructor(readonly fixturesDir: string = DEFAULT_MOCK_FIXTURES_DIR) {
+    this.projects = new ProjectCatalog(() => this.listProjects());
+  }
+
+  /**
+   * Build a mock provider reading fixtures from PLANTNET_MOCK_FIXTURES, if set.
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): MockProvider {
+    return new MockProvider(
+      env.PLANTNET_MOCK_FIXTURES ? path.resolve(env.PLANTNET_MOCK_FIXTURES) : DEFAULT_MOCK_FIXTURES_DIR
+    );
+  }
+
+  async identifyPlant(args: IdentifyPlantArgs): Promise<PlantNetIdentifyResponse> {
+    const { image_urls, organs, lang = 'en', nb_results = 5 } = args;
+    const include_related_images = args.include_related_images ?? false;
+    validateImageCount(image_urls, organs);
+    const coordinates = validateCoordinates(args.latitude, args.longitude);
+
+    let project = args.project ?? (coordinates ? 'auto' : GLOBAL_PROJECT);
+    let projectSelection: ProjectSelection | undefined;
+    if (project === 'auto') {
+      if (coordinates) {
+        const available = Object.keys(await this.projects.get());
+        const { project: selected, reason } = selectFloraProject(coordinates, available);
+        projectSelection = { project: selected, reason, source: 'coordinates', coordinates };
+      } else {
+        projectSelection = {
+          project: GLOBAL_PROJECT,
+          reason: 'no coordinates given (the mock provider does not read EXIF); using the global flora',
+          source: 'default',
+          coordinates: null,
+        };
+      }
+      project = projectSelection.project;
+    }
+
+    const request = { image_urls, organs, project, lang, nb_results, include_related_images };
+    const fixture = await this.pick<PlantNetIdentifyResponse>('identify', image_urls, request);
+    return {
+      ...fixture,
+      query: { project, images: image_urls, organs, includeRelatedImages: include_related_images },
+      language: lang,
+      results: fixture.results.slice(0, nb_results).map(({ images, ...result }) =>
+        include_related_images && images ? { ...result, images } : result
+      ),
+      identificationId: createHash('sha256').update(JSON.stringify({ mock: request })).digest('hex'),
+      ...(projectSelection && { projectSelection }),
+    };
+  }
+
+  async identifyDisease(args: IdentifyDiseaseArgs): Promise<PlantNetDiseaseIdentifyResponse> {
+    const { image_urls, organs, lang = 'en', nb_results = 5, include_related_images = false } = args;
+    validateImageCount(image_urls, organs);
+
+    const fixture = await this.pick<PlantNetDiseaseIdentifyResponse>('diseases', image_urls, {
+      image_urls,
+      organs,
+    });
+    return {
+      ...fixture,
+      query: { images: image_urls, organs, includeRelatedImages: include_related_images },
+      language: lang,
+      results: fixture.results.slice(0, nb_results).map(({ images, ...result }) =>
+        include_related_images && images ? { ...result, images } : result
+      ),
+    };
+  }
+
+  async listProjects(): Promise<ProjectList> {
+    return normalizeProjectList(await this.readFixture<unknown>('projects.json'));
+  }
+
+  async listSpecies(project: string): Promise<PlantNetSpeciesListEntry[]> {
+    const projects = await this.projects.get();
+    if (!projects[project]) {
+      throw new PlantNetNotFoundError(`Mock project not found: ${project}`);
+    }
+    try {
+      return await this.readFixture<PlantNetSpeciesListEntry[]>(path.join('species', `${project}.json`));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+      return this.readFixture<PlantNetSpeciesListEntry[]>(path.join('species', 'all.json'));
+    }
+  }
+
+  private async readFixture<T>(relative: string): Promise<T> {
+    return JSON.parse(await fs.readFile(path.join(this.fixturesDir, relative), 'utf8')) as T;
+  }
+
+  /**
+   * Choose the fixture for a request: by image file name, else by a stable hash.
+   */
+  private async pick<T>(kind: 'identify' | 'diseases', sources: string[], seed: unknown): Promise<T> {
+    const dir = path.join(this.fixturesDir, kind);
+    const names = (await fs.readdir(dir).catch(() => [] as string[]))
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => file.slice(0, -'.json'.length))
+      .sort();
+    if (names.length === 0) {
+      throw new Error(`No mock fixtures found in ${dir}`);
+    }
+
+    const fixtures = new Map<string, T | ErrorFixture>();
+    for (const name of names) {
+      fixtures.set(name, await this.readFixture<T | ErrorFixture>(path.join(kind, `${name}.json`)));
+    }
+
+    let fixture = fixtures.get(sources.map(sourceBaseName).find((name) => name && fixtures.has(name)) ?? '');
+    if (!fixture) {
+      // Error fixtures are only used when asked for by name
+      const responses = names.filter((name) => !isErrorFixture(fixtures.get(name)));
+      const hash = createHash('sha256').update(JSON.stringify(seed)).digest();
+      fixture = fixtures.get(responses[hash.readUInt32BE(0) % responses.length] ?? names[0]);
+    }
+    if (isErrorFixture(fixture)) {
+      throw errorFromResponse(fixture.error.status, fixture.error.message);
+    }
+    return fixture as T;
+  }
+}
+
+function isErrorFixture(value: unknown): value is ErrorFixture {
+  return typeof value === 'object' && value !== null && 'error' in value;
+}
+
+function sourceBaseName(source: string): string | null {
+  if (source.startsWith('data:')) return null;
+  let pathname = source;
+  try {
+    pathname = new URL(source).pathname;
+  } catch {
+    // Plain local path
+  }
+  const base = path.basename(pathname);
+  return base ? base.replace(/\.[^.]*$/, '').toLowerCase() : null;
+}
@@ -0,0 +1,244 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PlantNetValidationError } from './errors';
+import type { GpsCoordinates } from './exif';
+import type { IdentifyPlantArgs, PlantNetIdentifyResponse } from './types';
+
+export interface ObservationLogOptions {
+  /** JSONL file every identification is appended to. */
+  file: string;
+  /** Candidates kept per observation, best first. */
+  maxResults: number;
+}
+
+export interface ObservationMatch {
+  scientificName: string;
+  author: string | null;
+  commonNames: string[];
+  genus: string;
+  family: string;
+  score: number;
+  gbifId: string | null;
+}
+
+export interface ObservationImage {
+  /** URL or path as given; data URIs are shortened to their media type. */
+  source: string;
+  organ: string;
+  /** SHA-256 of the image bytes, or null when the provider never read the image. */
+  sha256: string | null;
+}
+
+export interface Observation {
+  id: string;
+  recordedAt: string;
+  identificationId: string | null;
+  images: ObservationImage[];
+  project: string;
+  language: string;
+  bestMatch: string;
+  results: ObservationMatch[];
+  notes: string | null;
+  location: string | null;
+  /** Coordinates given with the request, or read from the photos' EXIF GPS. */
+  coordinates: GpsCoordinates | null;
+  /**
+   * When the plant was observed: observed_at given with the request, or the photos'
+   * EXIF capture time; null when neither is known. Absent from entries logged before
+   * it was recorded.
+   */
+  observedAt: string | null;
+  fromCache: boolean;
+}
+
+export interface ObservationQuery {
+  /** Only these observation IDs. */
+  ids?: string[];
+  /** Substring of the top match's scientific or common names. */
+  species?: string;
+  /** Substring of the top match's family. */
+  family?: string;
+  /** Earliest recording time; a bare date starts at midnight UTC. */
+  from?: string;
+  /** Latest recording time; a bare date includes that whole day (UTC). */
+  to?: string;
+  /** Minimum score of the top match, 0–1. */
+  minScore?: number;
+  /** Words that must all appear in the notes, location, project, image sources or any candidate name. */
+  text?: string;
+  limit?: number;
+}
+
+export interface ObservationSearchResult {
+  /** Matching observations before the limit was applied. */
+  total: number;
+  observations: Observation[];
+}
+
+export const DEFAULT_OBSERVATION_LOG_OPTIONS: ObservationLogOptions = {
+  // Kept apart from ~/.cache: this is a record of field work, not data that can be refetched
+  file: path.join(os.homedir(), '.local', 'share', 'plantnet-mcp', 'observations.jsonl'),
+  maxResults: 5,
+};
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseBound(value: string | undefined, endOfDay: boolean): number | null {
+  if (value === undefined) return null;
+  const time = Date.parse(DATE_ONLY.test(value) ? `${value}T00:00:00Z` : value);
+  if (Number.isNaN(time)) {
+    throw new PlantNetValidationError(`Invalid date: ${value} (expected YYYY-MM-DD or an ISO timestamp)`);
+  }
+  return endOfDay && DATE_ONLY.test(value) ? time + DAY_MS - 1 : time;
+}
+
+function describeSource(source: string): string {
+  return source.startsWith('data:') ? `${source.slice(0, source.indexOf(',') + 1)}…` : source;
+}
+
+/**
+ * Build the log entry for a finished identification.
+ */
+export function toObservation(
+  args: IdentifyPlantArgs,
+  result: PlantNetIdentifyResponse,
+  maxResults = DEFAULT_OBSERVATION_LOG_OPTIONS.maxResults,
+  now = new Date()
+): Observation {
+  const coordinates =
+    args.latitude !== undefined && args.longitude !== undefined
+      ? { latitude: args.latitude, longitude: args.longitude }
+      : (result.projectSelection?.coordinates ?? null);
+  return {
+    id: randomUUID(),
+    recordedAt: now.toISOString(),
+    identificationId: result.identificationId ?? null,
+    images: args.image_urls.map((source, i) => ({
+      source: describeSource(source),
+      organ: args.organs[i],
+      sha256: result.imageHashes?.[i] ?? null,
+    })),
+    project: result.query.project,
+    language: result.language,
+    bestMatch: result.bestMatch,
+    results: result.results.slice(0, maxResults).map((r) => ({
+      scientificName: r.species.scientificNameWithoutAuthor,
+      author: r.species.scientificNameAuthorship || null,
+      commonNames: r.species.commonNames ?? [],
+      genus: r.species.genus.scientificNameWithoutAuthor,
+      family: r.species.family.scientificNameWithoutAuthor,
+      score: r.score,
+      gbifId: r.gbif?.id ?? null,
+    })),
+    notes: args.notes?.trim() || null,
+    location: args.location?.trim() || null,
+    coordinates,
+    observedAt: args.observed_at ?? result.photoTakenAt ?? null,
+    fromCache: Boolean(result.cache),
+  };
+}
+
+/**
+ * Append-only JSONL log of identifications, searchable by species, family, date,
+ * score and free text. Unreadable lines are skipped rather than failing a search.
+ */
+export class ObservationLog {
+  readonly options: ObservationLogOptions;
+
+  constructor(options: Partial<ObservationLogOptions> = {}) {
+    this.options = { ...DEFAULT_OBSERVATION_LOG_OPTIONS, ...options };
+  }
+
+  /**
+   * Build a log from PLANTNET_OBSERVATIONS_* environment variables.
+   * Returns null when PLANTNET_OBSERVATIONS is set to "off", "false" or "0".
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): ObservationLog | null {
+    if (['off', 'false', '0'].includes((env.PLANTNET_OBSERVATIONS ?? '').toLowerCase())) {
+      return null;
+    }
+    const options: Partial<ObservationLogOptions> = {};
+    if (env.PLANTNET_OBSERVATIONS_FILE) options.file = path.resolve(env.PLANTNET_OBSERVATIONS_FILE);
+    return new ObservationLog(options);
+  }
+
+  async record(args: IdentifyPlantArgs, result: PlantNetIdentifyResponse): Promise<Observation> {
+    const observation = toObservation(args, result, this.options.maxResults);
+    await fs.mkdir(path.dirname(this.options.file), { recursive: true });
+    await fs.appendFile(this.options.file, JSON.stringify(observation) + '\n', 'utf8');
+    return observation;
+  }
+
+  /**
+   * Observations matching every given filter, newest first.
+   */
+  async search(query: ObservationQuery = {}): Promise<ObservationSearchResult> {
+    const from = parseBound(query.from, false);
+    const to = parseBound(query.to, true);
+    const species = query.species?.toLowerCase();
+    const family = query.family?.toLowerCase();
+    const words = (query.text ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+
+    const ids = query.ids && new Set(query.ids);
+
+    const matches = (await this.readAll()).filter((obs) => {
+      const top = obs.results[0];
+      if (ids && !ids.has(obs.id)) return false;
+      const time = Date.parse(obs.recordedAt);
+      if (from !== null && time < from) return false;
+      if (to !== null && time > to) return false;
+      if (query.minScore !== undefined && !(top && top.score >= query.minScore)) return false;
+      if (
+        species &&
+        !(top && [top.scientificName, ...top.commonNames].some((n) => n.toLowerCase().includes(species)))
+      ) {
+        return false;
+      }
+      if (family && !top?.family.toLowerCase().includes(family)) return false;
+      if (words.length > 0) {
+        const haystack = [
+          obs.notes,
+          obs.location,
+          obs.project,
+          obs.bestMatch,
+          ...obs.images.map((i) => i.source),
+          ...obs.results.flatMap((r) => [r.scientificName, r.genus, r.family, ...r.commonNames]),
+        ]
+          .filter(Boolean)
+          .join('\n')
+          .toLowerCase();
+        if (!words.every((word) => haystack.includes(word))) return false;
+      }
+      return true;
+    });
+
+    matches.sort((a, b) => b.recordedAt.localeCompare(a.recordedAt));
+    return {
+      total: matches.length,
+      observations: query.limit === undefined ? matches : matches.slice(0, query.limit),
+    };
+  }
+
+  private async readAll(): Promise<Observation[]> {
+    let text: string;
+    try {
+      text = await fs.readFile(this.options.file, 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw err;
+    }
+    const observations: Observation[] = [];
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        observations.push(JSON.parse(line) as Observation);
+      } catch {
+        // A torn or hand-edited line; keep the rest of the log searchable
+      }
+    }
+    return observations;
+  }
+}
@@ -1,104 +1,368 @@
 import FormData from 'form-data';
-import type { PlantNetIdentifyResponse, IdentifyPlantArgs } from './types';
+import { debugLog } from './debug-log';
+import { PlantNetUpstreamError, errorFromResponse } from './errors';
+import { readExif, type GpsCoordinates } from './exif';
+import { GLOBAL_PROJECT, selectFloraProject } from './flora-regions';
+import {
+  DEFAULT_RETRY_POLICY,
+  fetchWithRetry,
+  retryPolicyFromEnv,
+  type RetryPolicy,
+} from './http';
+import {
+  computeCacheKey,
+  hashImage,
+  type IdentificationCache,
+} from './identification-cache';
+import {
+  DEFAULT_PREPROCESS_OPTIONS,
+  preprocessImage,
+  preprocessOptionsFromEnv,
+  type PreprocessOptions,
+} from './image-preprocess';
+import {
+  DEFAULT_IMAGE_FETCH_POLICY,
+  imageFetchPolicyFromEnv,
+  type HostResolver,
+  type ImageFetchPolicy,
+} from './image-fetch-guard';
+import { loadImage, parseAllowedRoots, type LoadedImage } from './image-source';
+import {
+  ProjectCatalog,
+  normalizeProjectList,
+  projectCatalogOptionsFromEnv,
+  type ProjectCatalogOptions,
+  type ProjectList,
+} from './project-catalog';
+import {
+  validateCoordinates,
+  validateImageCount,
+  type IdentificationProvider,
+} from './provider';
+import { registerSecret } from './redact';
+import type {
+  IdentifyDiseaseArgs,
+  IdentifyPlantArgs,
+  PlantNetDiseaseIdentifyResponse,
+  PlantNetIdentifyResponse,
+  PlantNetSpeciesListEntry,
+  ProjectSelection,
+} from './types';
 
-const BASE_URL = 'https://my-api.plantnet.org';
+export const DEFAULT_BASE_URL = 'https://my-api.plantnet.org';
 
-export class PlantNetClient {
+export interface PlantNetClientOptions {
+  /** API root; defaults to PLANTNET_API_BASE_URL, then the public Pl@ntNet API. */
+  baseUrl?: string;
+  /**
+   * Directories local image paths may be read from.
+   * Defaults to PLANTNET_ALLOWED_IMAGE_DIRS; local files are rejected when empty.
+   */
+  allowedImageRoots?: string[];
+  /** Cache consulted before calling the API; identical requests are served locally. */
+  cache?: IdentificationCache | null;
+  /**
+   * Timeout and retry settings for image downloads and API calls.
+   * Overrides PLANTNET_HTTP_* environment variables, which override the defaults.
+   */
+  retry?: Partial<RetryPolicy>;
+  /**
+   * Resize/re-encode settings applied to images before upload.
+   * Overrides PLANTNET_IMAGE_* environment variables, which override the defaults.
+   */
+  preprocess?: Partial<PreprocessOptions>;
+  /**
+   * Schemes, hosts, redirects and size allowed for http(s) image downloads.
+   * Overrides PLANTNET_IMAGE_* environment variables, which override the defaults.
+   */
+  imageFetch?: Partial<ImageFetchPolicy>;
+  /** Hostname lookup for the image fetch guard; defaults to the system resolver. */
+  resolveHost?: HostResolver;
+  /**
+   * Settings for the in-memory project list cache (see `projects`).
+   * Overrides PLANTNET_PROJECTS_* environment variables, which override the defaults.
+   */
+  projectCatalog?: Partial<ProjectCatalogOptions>;
+  /** Catalog to share instead of building one, e.g. across the clients of a key pool. */
+  projects?: ProjectCatalog;
+}
+
+export class PlantNetClient implements IdentificationProvider {
   private readonly apiKey: string;
+  private readonly baseUrl: string;
+  private readonly allowedImageRoots: string[];
+  private readonly cache: IdentificationCache | null;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly preprocessOptions: PreprocessOptions;
+  private readonly imageFetchPolicy: ImageFetchPolicy;
+  private readonly resolveHost: HostResolver | undefined;
+  /** Cached project lists, shared by project "auto" and callers such as MCP resources. */
+  readonly projects: ProjectCatalog;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, options: PlantNetClientOptions = {}) {
     if (!apiKey) {
       throw new Error('PLANTNET_API_KEY is required');
     }
     this.apiKey = apiKey;
+    registerSecret(apiKey);
+    this.baseUrl = options.baseUrl ?? (process.env.PLANTNET_API_BASE_URL || DEFAULT_BASE_URL);
+    this.allowedImageRoots =
+      options.allowedImageRoots ?? parseAllowedRoots(process.env.PLANTNET_ALLOWED_IMAGE_DIRS);
+    this.cache = options.cache ?? null;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...retryPolicyFromEnv(), ...options.retry };
+    this.preprocessOptions = {
+      ...DEFAULT_PREPROCESS_OPTIONS,
+      ...preprocessOptionsFromEnv(),
+      ...options.preprocess,
+    };
+    this.imageFetchPolicy = {
+      ...DEFAULT_IMAGE_FETCH_POLICY,
+      ...imageFetchPolicyFromEnv(),
+      ...options.imageFetch,
+    };
+    this.resolveHost = options.resolveHost;
+    this.projects =
+      options.projects ??
+      new ProjectCatalog((lang) => this.listProjects(lang), {
+        ...projectCatalogOptionsFromEnv(),
+        ...options.projectCatalog,
+      });
   }
 
   /**
-   * Identify plant species from one or more image URLs.
-   * Downloads each image and sends as multipart form data to the Pl@ntNet API.
+   * Identify plant species from one or more images.
+   * Each image may be an http(s) URL, a local file within the allowed roots, or a
+   * base64 data URI. Images are loaded and sent as multipart form data to the Pl@ntNet API.
+   * When a cache is configured, a request with identical image bytes and parameters
+   * is answered from the cache without spending quota.
+   * With project "auto" (or latitude/longitude and no project), the regional flora is
+   * chosen from the given coordinates or the first image's EXIF GPS position.
    */
   async identifyPlant(args: IdentifyPlantArgs): Promise<PlantNetIdentifyResponse> {
-    const {
-      image_urls,
-      organs,
-      project = 'all',
-      lang = 'en',
-      nb_results = 5,
-    } = args;
+    const { image_urls, organs, lang = 'en', nb_results = 5 } = args;
+    const include_related_images = args.include_related_images ?? false;
 
-    if (image_urls.length === 0) {
-      throw new Error('At least one image URL is required');
-    }
-    if (image_urls.length !== organs.length) {
-      throw new Error('Number of image_urls must match number of organs');
+    validateImageCount(image_urls, organs);
+    const coordinates = validateCoordinates(args.latitude, args.longitude);
+    const images = await this.loadImages(image_urls);
+
+    let project = args.project ?? (coordinates ? 'auto' : GLOBAL_PROJECT);
+    let projectSelection: ProjectSelection | undefined;
+    if (project === 'auto') {
+      projectSelection = await this.selectProject(coordinates, images);
+      project = projectSelection.project;
     }
-    if (image_urls.length > 5) {
-      throw new Error('Maximum 5 images per request');
+
+    const cacheParams = {
+      organs,
+      project,
+      lang,
+      nb_results,
+      ...(include_related_images && { include_related_images }),
+    };
+    const imageHashes = images.map((image) => hashImage(image.buffer));
+    const photoTakenAt = images.map((image) => readExif(image.buffer).takenAt).find(Boolean);
+    const cacheKey = computeCacheKey(imageHashes, cacheParams);
+    if (this.cache) {
+      const cached = await this.cache.get(cacheKey);
+      if (cached) {
+        return {
+          ...cached.response,
+          identificationId: cacheKey,
+          imageHashes,
+          cache: { hit: true, key: cacheKey, storedAt: cached.storedAt },
+          ...(projectSelection && { projectSelection }),
+          ...(photoTakenAt && { photoTakenAt }),
+        };
+      }
     }
 
-    const form = new FormData();
+    const url = this.endpoint(`v2/identify/${encodeURIComponent(project)}`);
+    url.searchParams.set('api-key', this.apiKey);
+    url.searchParams.set('lang', lang);
+    url.searchParams.set('nb-results', String(nb_results));
+    url.searchParams.set('include-related-images', String(include_related_images));
+
+    const data = await this.postImages<PlantNetIdentifyResponse>(url, images, organs);
 
-    // Download each image and attach as binary
-    for (let i = 0; i < image_urls.length; i++) {
-      const imgResponse = await fetch(image_urls[i]);
-      if (!imgResponse.ok) {
-        throw new Error(
-          `Failed to fetch image at ${image_urls[i]}: ${imgResponse.statusText}`
-        );
+    if (this.cache) {
+      // The quota is already spent, so a failed cache write must not lose the result
+      try {
+        await this.cache.set(cacheKey, cacheParams, imageHashes, data);
+      } catch (err) {
+        debugLog('cache.error', { key: cacheKey, error: err instanceof Error ? err.message : String(err) });
       }
-      const buffer = Buffer.from(await imgResponse.arrayBuffer());
-      const contentType = imgResponse.headers.get('content-type') || 'image/jpeg';
-      const ext = contentType.includes('png') ? 'png' : 'jpg';
-      form.append('images', buffer, {
-        filename: `image${i}.${ext}`,
-        contentType,
-      });
-      form.append('organs', organs[i]);
     }
 
-    const url = new URL(`/v2/identify/${encodeURIComponent(project)}`, BASE_URL);
+    return {
+      ...data,
+      identificationId: cacheKey,
+      imageHashes,
+      ...(projectSelection && { projectSelection }),
+      ...(photoTakenAt && { photoTakenAt }),
+    };
+  }
+
+  /**
+   * Resolve project "auto": explicit coordinates win over EXIF GPS, and the global
+   * flora is used when neither is available.
+   */
+  private async selectProject(
+    coordinates: GpsCoordinates | null,
+    images: LoadedImage[]
+  ): Promise<ProjectSelection> {
+    let source: ProjectSelection['source'] = 'coordinates';
+    if (!coordinates) {
+      // Read from the original bytes; preprocessing re-encodes without EXIF
+      coordinates = images.map((image) => readExif(image.buffer).gps).find(Boolean) ?? null;
+      source = 'exif-gps';
+    }
+    if (!coordinates) {
+      return {
+        project: GLOBAL_PROJECT,
+        reason: 'no coordinates given and no GPS position in the images; using the global flora',
+        source: 'default',
+        coordinates: null,
+      };
+    }
+
+    const available = Object.keys(await this.projects.get());
+    const { project, reason } = selectFloraProject(coordinates, available);
+    return { project, reason, source, coordinates };
+  }
+
+  /**
+   * Identify plant diseases and pests from one or more images of affected plants.
+   * Uses the same image sources and preprocessing as identifyPlant; organs are optional.
+   */
+  async identifyDisease(args: IdentifyDiseaseArgs): Promise<PlantNetDiseaseIdentifyResponse> {
+    const { image_urls, organs, lang = 'en', nb_results = 5, include_related_images = false } = args;
+    validateImageCount(image_urls, organs);
+    const images = await this.loadImages(image_urls);
+
+    const url = this.endpoint('v2/diseases/identify');
     url.searchParams.set('api-key', this.apiKey);
     url.searchParams.set('lang', lang);
     url.searchParams.set('nb-results', String(nb_results));
-    url.searchParams.set('include-related-images', 'false');
+    url.searchParams.set('include-related-images', String(include_related_images));
 
-    const response = await fetch(url.toString(), {
-      method: 'POST',
-      // Buffer extends Uint8Array; cast needed for native fetch types
-      body: form.getBuffer() as unknown as BodyInit,
-      headers: form.getHeaders() as Record<string, string>,
-    });
+    return this.postImages<PlantNetDiseaseIdentifyResponse>(url, images, organs);
+  }
 
-    const data = (await response.json()) as PlantNetIdentifyResponse;
+  /**
+   * Fetch the species a flora project can identify.
+   */
+  async listSpecies(project: string, lang = 'en'): Promise<PlantNetSpeciesListEntry[]> {
+    const url = this.endpoint(`v2/projects/${encodeURIComponent(project)}/species`);
+    url.searchParams.set('api-key', this.apiKey);
+    url.searchParams.set('lang', lang);
 
+    const { response, body } = await this.request(url.toString(), {}, async (res) =>
+      res.ok ? ((await res.json()) as PlantNetSpeciesListEntry[]) : null
+    );
     if (!response.ok) {
-      throw new Error(
-        `PlantNet API error ${response.status}: ${JSON.stringify(data)}`
-      );
+      throw errorFromResponse(response.status, response.statusText);
+    }
+    if (!Array.isArray(body)) {
+      throw new PlantNetUpstreamError('PlantNet API returned an invalid species list');
     }
 
-    return data;
+    return body;
   }
 
   /**
    * Fetch list of available flora projects/referentials.
+   * Always calls the API; use `projects` for the cached list.
    */
-  async listProjects(
-    lang = 'en'
-  ): Promise<Record<string, { id: string; name: string }>> {
-    const url = new URL('/v2/projects', BASE_URL);
+  async listProjects(lang = 'en'): Promise<ProjectList> {
+    const url = this.endpoint('v2/projects');
     url.searchParams.set('api-key', this.apiKey);
     url.searchParams.set('lang', lang);
 
-    const response = await fetch(url.toString());
+    const { response, body } = await this.request(url.toString(), {}, async (res) =>
+      res.ok ? ((await res.json()) as unknown) : null
+    );
     if (!response.ok) {
-      throw new Error(
-        `PlantNet API error ${response.status}: ${response.statusText}`
+      throw errorFromResponse(response.status, response.statusText);
+    }
+    if (!body) {
+      throw new PlantNetUpstreamError('PlantNet API returned an empty project list');
+    }
+
+    return normalizeProjectList(body);
+  }
+
+  /**
+   * Resolve an API path against the base URL, keeping any path prefix it has.
+   */
+  private endpoint(path: string): URL {
+    return new URL(path, this.baseUrl.endsWith('/') ? this.baseUrl : `${this.baseUrl}/`);
+  }
+
+  private async loadImages(sources: string[]): Promise<LoadedImage[]> {
+    const images: LoadedImage[] = [];
+    for (const source of sources) {
+      images.push(
+        await loadImage(source, {
+          allowedRoots: this.allowedImageRoots,
+          retryPolicy: this.retryPolicy,
+          fetchPolicy: this.imageFetchPolicy,
+          resolveHost: this.resolveHost,
+        })
       );
     }
+    return images;
+  }
+
+  /**
+   * Preprocess and upload images as multipart form data, returning the parsed JSON body.
+   */
+  private async postImages<T>(url: URL, images: LoadedImage[], organs?: string[]): Promise<T> {
+    const form = new FormData();
+
+    // Downscale/re-encode each image and attach as binary
+    for (let i = 0; i < images.length; i++) {
+      const { buffer, contentType, extension } = preprocessImage(images[i], this.preprocessOptions);
+      form.append('images', buffer, {
+        filename: `image${i}.${extension}`,
+        contentType,
+      });
+      if (organs) form.append('organs', organs[i]);
+    }
+
+    const { response, body: data } = await this.request(
+      url.toString(),
+      {
+        method: 'POST',
+        // Buffer extends Uint8Array; cast needed for native fetch types
+        body: form.getBuffer() as unknown as BodyInit,
+        headers: form.getHeaders() as Record<string, string>,
+      },
+      (res) => res.json().catch(() => null) as Promise<T | null>
+    );
 
-    return response.json() as Promise<
-      Record<string, { id: string; name: string }>
-    >;
+    if (!response.ok) {
+      throw errorFromResponse(response.status, JSON.stringify(data));
+    }
+    if (!data) {
+      throw new PlantNetUpstreamError('PlantNet API returned an invalid JSON response');
+    }
+    return data;
+  }
+
+  /**
+   * Call the Pl@ntNet API under the retry policy; transport failures become PlantNetUpstreamError.
+   */
+  private async request<T>(
+    url: string,
+    init: RequestInit,
+    read: (response: Response) => Promise<T>
+  ): Promise<{ response: Response; body: T }> {
+    try {
+      return await fetchWithRetry(url, init, this.retryPolicy, read);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      throw new PlantNetUpstreamError(`PlantNet API request failed: ${reason}`);
+    }
   }
 }
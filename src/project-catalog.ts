@@ -0,0 +1,124 @@
+export interface ProjectInfo {
+  id: string;
+  name?: string;
+  [field: string]: unknown;
+}
+
+export type ProjectList = Record<string, ProjectInfo>;
+
+export interface ProjectCatalogOptions {
+  /** How long a fetched project list is reused before it is fetched again. */
+  ttlMs: number;
+}
+
+export const DEFAULT_PROJECT_CATALOG_OPTIONS: ProjectCatalogOptions = {
+  ttlMs: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Read catalog overrides from PLANTNET_PROJECTS_* environment variables.
+ */
+export function projectCatalogOptionsFromEnv(
+  env: NodeJS.ProcessEnv = process.env
+): Partial<ProjectCatalogOptions> {
+  const options: Partial<ProjectCatalogOptions> = {};
+  const ttlHours = Number(env.PLANTNET_PROJECTS_TTL_HOURS);
+  if (ttlHours > 0) options.ttlMs = ttlHours * 60 * 60 * 1000;
+  return options;
+}
+
+/**
+ * Bring a project list into the ProjectList shape. Besides an object keyed by
+ * project ID, the API may answer with an array of projects carrying `title`
+ * instead of `name`; either way entries come back keyed by their `id` with a
+ * `name`. Entries without an ID are dropped.
+ */
+export function normalizeProjectList(raw: unknown): ProjectList {
+  const entries: [string | undefined, unknown][] = Array.isArray(raw)
+    ? raw.map((info) => [undefined, info])
+    : Object.entries(raw && typeof raw === 'object' ? raw : {});
+
+  const projects: ProjectList = {};
+  for (const [key, info] of entries) {
+    const fields = info && typeof info === 'object' ? (info as Record<string, unknown>) : {};
+    const id = typeof fields.id === 'string' && fields.id ? fields.id : key;
+    if (!id) continue;
+    const name = typeof fields.name === 'string' ? fields.name : fields.title;
+    projects[id] = { ...fields, id, ...(typeof name === 'string' ? { name } : {}) };
+  }
+  return projects;
+}
+
+interface CatalogEntry {
+  projects: ProjectList;
+  fetchedAt: number;
+}
+
+/**
+ * In-memory, per-language cache of the Pl@ntNet project list.
+ * Concurrent lookups for the same language share one request.
+ */
+export class ProjectCatalog {
+  readonly options: ProjectCatalogOptions;
+  private readonly entries = new Map<string, CatalogEntry>();
+  private readonly pending = new Map<string, Promise<ProjectList>>();
+  private readonly listeners = new Set<(lang: string) => void>();
+
+  constructor(
+    private readonly fetchProjects: (lang: string) => Promise<unknown>,
+    options: Partial<ProjectCatalogOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_PROJECT_CATALOG_OPTIONS, ...options };
+  }
+
+  /**
+   * Return the project list for a language, fetching it when absent or stale.
+   */
+  async get(lang = 'en', now = Date.now()): Promise<ProjectList> {
+    const entry = this.entries.get(lang);
+    if (entry && now - entry.fetchedAt < this.options.ttlMs) {
+      return entry.projects;
+    }
+
+    let request = this.pending.get(lang);
+    if (!request) {
+      request = this.fetchProjects(lang)
+        .then((raw) => {
+          const projects = normalizeProjectList(raw);
+          this.entries.set(lang, { projects, fetchedAt: Date.now() });
+          for (const listener of this.listeners) listener(lang);
+          return projects;
+        })
+        .finally(() => this.pending.delete(lang));
+      this.pending.set(lang, request);
+    }
+    return request;
+  }
+
+  /**
+   * Call a listener after each project list fetch (first load or refresh).
+   * Returns a function that removes the listener.
+   */
+  onRefresh(listener: (lang: string) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Look up one project by ID in the list for a language.
+   */
+  async find(id: string, lang = 'en'): Promise<ProjectInfo | null> {
+    return (await this.get(lang))[id] ?? null;
+  }
+
+  /**
+   * Project lists already fetched, without triggering a request.
+   */
+  cached(): { lang: string; projects: ProjectList; fetchedAt: string }[] {
+    return [...this.entries].map(([lang, entry]) => ({
+      lang,
+      projects: entry.projects,
+      fetchedAt: new Date(entry.fetchedAt).toISOString(),
+    }));
+  }
+}
@@ -0,0 +1,245 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  McpError,
+  type GetPromptResult,
+  type Prompt,
+} from '@modelcontextprotocol/sdk/types.js';
+
+type PromptArgs = Record<string, string | undefined>;
+
+interface PromptDefinition extends Prompt {
+  build: (args: PromptArgs) => string;
+}
+
+const ORGANS = ['flower', 'fruit', 'leaf', 'bark', 'habit', 'other'] as const;
+
+// Ordered by how much each organ usually helps Pl@ntNet tell species apart
+const ORGAN_ADVICE: Record<(typeof ORGANS)[number], string> = {
+  flower: 'the most discriminating organ; photograph one flower head-on and in focus',
+  fruit: 'very discriminating, especially outside the flowering season',
+  leaf: 'usable all year; photograph a single leaf against a plain background, upper side',
+  bark: 'useful for trees, least so for young or smooth-barked ones; fill the frame with the trunk',
+  habit: 'the whole plant; helps with growth form but rarely decides on its own',
+  other: 'anything else (stems, buds, thorns); weakest signal, use only as an extra image',
+};
+
+const ARGUMENTS = {
+  location: {
+    name: 'location',
+    description: 'Where the plant was seen: a place name or "latitude,longitude" in decimal degrees.',
+  },
+  organs: {
+    name: 'organs_available',
+    description: `Comma-separated organs you can photograph: ${ORGANS.join(', ')}.`,
+  },
+  images: {
+    name: 'image_sources',
+    description: 'Comma-separated image URLs, local paths or data URIs already taken.',
+  },
+};
+
+function parseList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function parseCoordinates(value: string): { latitude: number; longitude: number } | null {
+  const match = /^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/.exec(value);
+  if (!match) return null;
+  const latitude = Number(match[1]);
+  const longitude = Number(match[2]);
+  return Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180 ? { latitude, longitude } : null;
+}
+
+/** Step explaining how to pick the project for a location. */
+function projectStep(location: string | undefined): string {
+  if (!location) {
+    return (
+      'Choose the flora: the location is unknown, so pass `project: "auto"`. It uses the GPS ' +
+      'position embedded in the photos when present and otherwise searches the global flora ("all"). ' +
+      'If the user can tell you roughly where the plant grows, prefer passing `latitude`/`longitude`.'
+    );
+  }
+  const coordinates = parseCoordinates(location);
+  if (coordinates) {
+    return (
+      `Choose the flora: pass \`latitude: ${coordinates.latitude}\` and \`longitude: ${coordinates.longitude}\` ` +
+      'and leave `project` unset; the server picks the matching regional flora and reports why.'
+    );
+  }
+  return (
+    `Choose the flora: call \`list_projects\` (or read the \`plantnet://projects\` resource) and pick the ` +
+    `regional project that covers "${location}". Regional floras are more accurate than "all"; ` +
+    'if none fits, use "all". If you can convert the place to coordinates, pass `latitude`/`longitude` instead.'
+  );
+}
+
+/** Step listing the organs to photograph, best first, and flagging unknown names. */
+function organStep(available: string[]): string {
+  const known = ORGANS.filter((organ) => available.includes(organ));
+  const unknown = available.filter((organ) => !(ORGANS as readonly string[]).includes(organ));
+  const candidates = known.length > 0 ? known : ORGANS.slice(0, 4);
+  const lines = [
+    known.length > 0
+      ? 'Select organs: use these, in order of usefulness (one organ per photo):'
+      : 'Select organs: ask the user which of these they can photograph, in order of usefulness:',
+    ...candidates.map((organ) => `   - \`${organ}\`: ${ORGAN_ADVICE[organ]}`),
+    '   Set each `organs` entry to what the photo actually shows. Use "auto" only when you cannot tell.',
+  ];
+  if (unknown.length > 0) {
+    lines.push(`   Not recognized as organs: ${unknown.join(', ')}; map them to the closest organ or "other".`);
+  }
+  return lines.join('\n');
+}
+
+function numbered(steps: string[]): string {
+  return steps.map((step, i) => `${i + 1}. ${step}`).join('\n');
+}
+
+const INTERPRET_STEP =
+  'Judge the result before answering: a top score above 0.5 with a clear gap to the second match is a ' +
+  'confident identification. If the top scores are close or all low, say so, name the competing species ' +
+  'and ask for a photo of the organ that separates them (often the flower or fruit). Never present a ' +
+  'low-confidence best match as certain.';
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'identify-unknown-plant',
+    description:
+      'Identify a plant from scratch: pick the regional flora, choose which organs to photograph and ' +
+      'send them together in one identify_plant call.',
+    arguments: [ARGUMENTS.location, ARGUMENTS.organs, ARGUMENTS.images],
+    build: (args) => {
+      const images = parseList(args.image_sources);
+      return [
+        'Identify an unknown plant with the Pl@ntNet tools. Follow these steps:',
+        '',
+        numbered([
+          projectStep(args.location),
+          organStep(parseList(args.organs_available)),
+          images.length > 0
+            ? `Call \`identify_plant\` once with all ${images.length} image(s): ${images.join(', ')}. ` +
+              'Add photos of further organs (up to 5 images) rather than making separate calls; ' +
+              'several organs in one request are far more accurate than one photo.'
+            : 'Collect 2–5 photos of different organs of the same plant, then call `identify_plant` ' +
+              'once with all of them and the matching `organs` list.',
+          INTERPRET_STEP,
+        ]),
+      ].join('\n');
+    },
+  },
+  {
+    name: 'confirm-species-with-more-photos',
+    description:
+      'Confirm or reject a suspected species by adding photos of organs that were not used yet ' +
+      'and re-running identify_plant with all images together.',
+    arguments: [
+      {
+        name: 'candidate_species',
+        description: 'Species to confirm, e.g. "Quercus robur", or several separated by commas.',
+        required: true,
+      },
+      {
+        name: 'identification_id',
+        description: 'identificationId of the earlier identify_plant result, if any.',
+      },
+      ARGUMENTS.organs,
+      ARGUMENTS.location,
+    ],
+    build: (args) => {
+      const candidates = parseList(args.candidate_species);
+      const used = args.identification_id
+        ? `Read \`plantnet://identifications/${args.identification_id}\` to see the earlier matches, ` +
+          'scores and which organs were already photographed.'
+        : 'Find out which photos and organs the earlier identification used.';
+      return [
+        `Confirm whether the plant is ${candidates.join(' or ')}. Follow these steps:`,
+        '',
+        numbered([
+          used,
+          'Work out which organ separates the candidates (usually the flower or fruit for related species) ' +
+            'and which organs are still missing.',
+          organStep(parseList(args.organs_available)),
+          projectStep(args.location),
+          'Call `identify_plant` once with the earlier images plus the new ones (up to 5 in total), ' +
+            'so all organs are scored together.',
+          `Compare the new ranking with the candidates. Confirm ${candidates.length > 1 ? 'one of them' : 'it'} ` +
+            'only if it is now the clear top match; otherwise report the new leading species or that the ' +
+            'result is still inconclusive.',
+        ]),
+      ].join('\n');
+    },
+  },
+  {
+    name: 'regional-survey-identification',
+    description:
+      'Identify many observations from one area (a plot, transect or garden survey) with a single ' +
+      'regional flora, a quota check and batch_identify.',
+    arguments: [
+      {
+        name: 'region',
+        description: 'Survey area: a place name or "latitude,longitude" in decimal degrees.',
+        required: true,
+      },
+      {
+        name: 'observation_count',
+        description: 'Roughly how many plants will be identified.',
+      },
+      ARGUMENTS.organs,
+    ],
+    build: (args) => {
+      const count = Number(args.observation_count);
+      const sized = Number.isInteger(count) && count > 0;
+      return [
+        `Run a plant identification survey in ${args.region}. Follow these steps:`,
+        '',
+        numbered([
+          projectStep(args.region),
+          `Call \`check_quota\` and make sure enough daily requests remain${sized ? ` for ${count} observations` : ''}; ` +
+            'each observation costs one request unless it is cached.',
+          organStep(parseList(args.organs_available)),
+          'Group the photos by plant: one observation per individual, 1–5 images each, with an `id` label ' +
+            '(plot or specimen number) and the chosen `project` (or coordinates) on every observation.',
+          'Call `batch_identify` with the observations' +
+            (sized && count > 100 ? ' in chunks of at most 100' : '') +
+            ', `concurrency` 2 and a `quota_budget` that leaves a reserve for follow-up checks.',
+          'Review the summary table: re-photograph and re-identify observations with low scores, ' +
+            'and report skipped or failed observations instead of dropping them.',
+        ]),
+      ].join('\n');
+    },
+  },
+];
+
+/**
+ * Advertise guided identification workflows as MCP prompts.
+ */
+export function registerPrompts(server: Server): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: PROMPTS.map(({ build: _build, ...prompt }) => prompt),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request): Promise<GetPromptResult> => {
+    const { name, arguments: args = {} } = request.params;
+    const prompt = PROMPTS.find((p) => p.name === name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+    const missing = (prompt.arguments ?? []).filter((arg) => arg.required && !args[arg.name]?.trim());
+    if (missing.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Missing required argument(s) for ${name}: ${missing.map((arg) => arg.name).join(', ')}`
+      );
+    }
+    return {
+      description: prompt.description,
+      messages: [{ role: 'user', content: { type: 'text', text: prompt.build(args) } }],
+    };
+  });
+}
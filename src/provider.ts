@@ -0,0 +1,66 @@
+import { PlantNetValidationError } from './errors';
+import type { GpsCoordinates } from './exif';
+import type { ProjectCatalog, ProjectList } from './project-catalog';
+import type {
+  IdentifyDiseaseArgs,
+  IdentifyPlantArgs,
+  PlantNetDiseaseIdentifyResponse,
+  PlantNetIdentifyResponse,
+  PlantNetSpeciesListEntry,
+} from './types';
+
+/**
+ * Backend the MCP server identifies plants with. PlantNetClient talks to the
+ * Pl@ntNet API; MockProvider answers from recorded fixtures without network.
+ */
+export interface IdentificationProvider {
+  /** Cached project lists; list_projects and the plantnet://projects resources read from it. */
+  readonly projects: ProjectCatalog;
+  identifyPlant(args: IdentifyPlantArgs): Promise<PlantNetIdentifyResponse>;
+  identifyDisease(args: IdentifyDiseaseArgs): Promise<PlantNetDiseaseIdentifyResponse>;
+  listProjects(lang?: string): Promise<ProjectList>;
+  listSpecies(project: string, lang?: string): Promise<PlantNetSpeciesListEntry[]>;
+}
+
+export type ProviderName = 'plantnet' | 'mock';
+
+/**
+ * Read the backend from PLANTNET_PROVIDER ("plantnet" by default, or "mock").
+ */
+export function providerNameFromEnv(env: NodeJS.ProcessEnv = process.env): ProviderName {
+  const name = (env.PLANTNET_PROVIDER ?? 'plantnet').toLowerCase();
+  if (name !== 'plantnet' && name !== 'mock') {
+    throw new Error(`Unknown PLANTNET_PROVIDER "${env.PLANTNET_PROVIDER}" (expected "plantnet" or "mock")`);
+  }
+  return name;
+}
+
+// Argument checks shared by every provider, so they reject the same requests
+
+export function validateImageCount(imageUrls: string[], organs?: string[]): void {
+  if (imageUrls.length === 0) {
+    throw new PlantNetValidationError('At least one image URL is required');
+  }
+  if (organs && imageUrls.length !== organs.length) {
+    throw new PlantNetValidationError('Number of image_urls must match number of organs');
+  }
+  if (imageUrls.length > 5) {
+    throw new PlantNetValidationError('Maximum 5 images per request');
+  }
+}
+
+export function validateCoordinates(
+  latitude: number | undefined,
+  longitude: number | undefined
+): GpsCoordinates | null {
+  if (latitude === undefined && longitude === undefined) return null;
+  if (latitude === undefined || longitude === undefined) {
+    throw new PlantNetValidationError('latitude and longitude must be given together');
+  }
+  if (!(Math.abs(latitude) <= 90) || !(Math.abs(longitude) <= 180)) {
+    throw new PlantNetValidationError(
+      'latitude must be within ±90 and longitude within ±180 degrees'
+    );
+  }
+  return { latitude, longitude };
+}
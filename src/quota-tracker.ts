@@ -0,0 +1,194 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export interface QuotaTrackerOptions {
+  /** JSON file the last observation per API key is persisted to; null keeps it in memory only. */
+  file: string | null;
+  /** Daily identification allowance for the key. */
+  dailyLimit: number;
+  /** UTC hour (0–23) at which the daily quota resets. */
+  resetHourUtc: number;
+  /** identify_plant output carries a warning when remaining quota drops below this. */
+  warnThreshold: number;
+}
+
+export interface QuotaObservation {
+  remaining: number;
+  observedAt: string;
+  /** Start of the next quota day after the observation. */
+  resetAt: string;
+}
+
+export interface QuotaStatus {
+  dailyLimit: number;
+  warnThreshold: number;
+  /** Last persisted observation, or null if none has been recorded for this key. */
+  last: QuotaObservation | null;
+  /** True when the last observation predates the most recent daily reset. */
+  stale: boolean;
+  /** Best estimate of remaining requests right now. */
+  estimatedRemaining: number | null;
+  nextResetAt: string;
+  sessionStartedAt: string;
+  sessionCalls: number;
+  /**
+   * Projected time the quota runs out at the rate observed this session, or null
+   * until at least two observations with quota consumed between them exist.
+   */
+  projectedExhaustionAt: string | null;
+}
+
+type QuotaFile = Record<string, QuotaObservation>;
+
+export const DEFAULT_QUOTA_OPTIONS: QuotaTrackerOptions = {
+  file: path.join(os.homedir(), '.cache', 'plantnet-mcp', 'quota.json'),
+  dailyLimit: 500,
+  resetHourUtc: 0,
+  warnThreshold: 50,
+};
+
+// Pending write per quota file, so concurrent updates for different keys are not lost
+const fileWrites = new Map<string, Promise<void>>();
+
+/**
+ * Start of the next quota day strictly after the given time.
+ */
+export function nextResetAfter(time: Date, resetHourUtc: number): Date {
+  const reset = new Date(
+    Date.UTC(time.getUTCFullYear(), time.getUTCMonth(), time.getUTCDate(), resetHourUtc)
+  );
+  if (reset.getTime() <= time.getTime()) {
+    reset.setUTCDate(reset.getUTCDate() + 1);
+  }
+  return reset;
+}
+
+/**
+ * Tracks remaining Pl@ntNet identification quota from API responses.
+ * The latest observation is persisted per API key (stored by fingerprint, never in
+ * clear) so the count survives restarts; call counts are kept for the current session.
+ */
+export class QuotaTracker {
+  readonly options: QuotaTrackerOptions;
+  /** Fingerprint the key's observations are stored under. */
+  readonly keyId: string;
+  private readonly sessionStartedAt = new Date();
+  private sessionCalls = 0;
+  private firstSessionObservation: { remaining: number; at: number } | null = null;
+  private last: QuotaObservation | null = null;
+  private loaded = false;
+
+  constructor(apiKey: string, options: Partial<QuotaTrackerOptions> = {}) {
+    this.options = { ...DEFAULT_QUOTA_OPTIONS, ...options };
+    this.keyId = createHash('sha256').update(apiKey).digest('hex').slice(0, 16);
+  }
+
+  /**
+   * Build a tracker from PLANTNET_QUOTA_* and PLANTNET_DAILY_QUOTA environment variables.
+   */
+  static fromEnv(apiKey: string, env: NodeJS.ProcessEnv = process.env): QuotaTracker {
+    const options: Partial<QuotaTrackerOptions> = {};
+    if (env.PLANTNET_QUOTA_FILE) options.file = path.resolve(env.PLANTNET_QUOTA_FILE);
+    const dailyLimit = Number(env.PLANTNET_DAILY_QUOTA);
+    if (dailyLimit > 0) options.dailyLimit = Math.floor(dailyLimit);
+    const resetHour = Number(env.PLANTNET_QUOTA_RESET_HOUR_UTC);
+    if (env.PLANTNET_QUOTA_RESET_HOUR_UTC && resetHour >= 0 && resetHour < 24) {
+      options.resetHourUtc = Math.floor(resetHour);
+    }
+    const threshold = Number(env.PLANTNET_QUOTA_WARN_THRESHOLD);
+    if (env.PLANTNET_QUOTA_WARN_THRESHOLD && threshold >= 0) {
+      options.warnThreshold = Math.floor(threshold);
+    }
+    return new QuotaTracker(apiKey, options);
+  }
+
+  private async readFile(): Promise<QuotaFile> {
+    if (this.options.file === null) return {};
+    try {
+      return JSON.parse(await fs.readFile(this.options.file, 'utf8')) as QuotaFile;
+    } catch {
+      return {};
+    }
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) return;
+    this.last = (await this.readFile())[this.keyId] ?? null;
+    this.loaded = true;
+  }
+
+  /**
+   * Record the remainingIdentificationRequests value from an API response.
+   */
+  async record(remaining: number, now = new Date()): Promise<void> {
+    await this.load();
+    this.sessionCalls++;
+    if (!this.firstSessionObservation) {
+      this.firstSessionObservation = { remaining, at: now.getTime() };
+    }
+    await this.observe(remaining, now);
+  }
+
+  /**
+   * Note that the API refused a request for lack of quota (429): nothing remains until the reset.
+   */
+  async markExhausted(now = new Date()): Promise<void> {
+    await this.load();
+    await this.observe(0, now);
+  }
+
+  private async observe(remaining: number, now: Date): Promise<void> {
+    this.last = {
+      remaining,
+      observedAt: now.toISOString(),
+      resetAt: nextResetAfter(now, this.options.resetHourUtc).toISOString(),
+    };
+    const last = this.last;
+    const file = this.options.file;
+    if (file === null) return;
+
+    // Trackers for several keys share the file; serialize read-modify-write cycles
+    const write = (fileWrites.get(file) ?? Promise.resolve()).then(async () => {
+      const data = await this.readFile();
+      data[this.keyId] = last;
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, JSON.stringify(data, null, 2), 'utf8');
+    });
+    fileWrites.set(file, write.catch(() => undefined));
+    await write;
+  }
+
+  async status(now = new Date()): Promise<QuotaStatus> {
+    await this.load();
+    const last = this.last;
+    const stale = last !== null && Date.parse(last.resetAt) <= now.getTime();
+    const estimatedRemaining = last === null ? null : stale ? this.options.dailyLimit : last.remaining;
+    const nextResetAt = nextResetAfter(now, this.options.resetHourUtc).toISOString();
+
+    let projectedExhaustionAt: string | null = null;
+    if (last && !stale && this.firstSessionObservation) {
+      const used = this.firstSessionObservation.remaining - last.remaining;
+      const elapsed = Date.parse(last.observedAt) - this.firstSessionObservation.at;
+      if (used > 0 && elapsed > 0) {
+        const msPerCall = elapsed / used;
+        projectedExhaustionAt = new Date(
+          Date.parse(last.observedAt) + last.remaining * msPerCall
+        ).toISOString();
+      }
+    }
+
+    return {
+      dailyLimit: this.options.dailyLimit,
+      warnThreshold: this.options.warnThreshold,
+      last,
+      stale,
+      estimatedRemaining,
+      nextResetAt,
+      sessionStartedAt: this.sessionStartedAt.toISOString(),
+      sessionCalls: this.sessionCalls,
+      projectedExhaustionAt,
+    };
+  }
+}
@@ -0,0 +1,239 @@
+import { z } from 'zod';
+import { PlantNetValidationError } from './errors';
+import { normalizeName } from './taxonomy';
+import type { PlantNetIdentifyResponse, PlantNetResult } from './types';
+
+// Stand-in for a species an identification did not list, as a fraction of its lowest listed score
+const MISSING_SCORE_FACTOR = 0.5;
+
+export type ReconcileRank = 'species' | 'genus' | 'family';
+
+export interface ReconcileInput {
+  /** Short label used in the report, e.g. "#1". */
+  label: string;
+  result: PlantNetIdentifyResponse;
+}
+
+export interface ReconciledCandidate {
+  scientificName: string;
+  genus: string | null;
+  family: string | null;
+  fusedScore: number;
+  /** Score in each identification, in input order; null where the species was not listed. */
+  scores: (number | null)[];
+  /** Number of identifications that listed the species. */
+  support: number;
+  /** Other names merged into this species because the taxonomy snapshot marks them as synonyms. */
+  synonyms: string[];
+}
+
+export interface TaxonVerdict {
+  rank: ReconcileRank;
+  /** "unknown" when fewer than two identifications name a taxon at this rank. */
+  agreement: 'agree' | 'contradict' | 'unknown';
+  /** Each identification's top match at this rank, grouped by taxon, most-supported first. */
+  taxa: { name: string; identifications: string[] }[];
+}
+
+export interface Reconciliation {
+  identifications: {
+    label: string;
+    identificationId: string | null;
+    project: string;
+    organs: string[];
+    topMatch: string;
+    topScore: number;
+  }[];
+  candidates: ReconciledCandidate[];
+  levels: TaxonVerdict[];
+  /** Lowest rank at which every identification's top match agrees. */
+  consensus: { rank: ReconcileRank; name: string } | null;
+}
+
+// --- Raw response input ---
+
+const TaxonNameSchema = z.object({ scientificNameWithoutAuthor: z.string() });
+
+const RawResultSchema = z.object({
+  score: z.number().min(0).max(1),
+  species: z
+    .object({
+      scientificNameWithoutAuthor: z.string().min(1),
+      scientificNameAuthorship: z.string().optional().default(''),
+      scientificName: z.string().optional(),
+      genus: TaxonNameSchema,
+      family: TaxonNameSchema,
+      commonNames: z.array(z.string()).optional().default([]),
+    })
+    .transform((species) => ({
+      ...species,
+      scientificName: species.scientificName ?? species.scientificNameWithoutAuthor,
+    })),
+  gbif: z.object({ id: z.union([z.string(), z.number()]).transform(String) }).optional(),
+  powo: z.object({ id: z.union([z.string(), z.number()]).transform(String) }).optional(),
+});
+
+const RawResponseSchema = z.object({
+  query: z
+    .object({
+      project: z.string().optional().default('unknown'),
+      images: z.array(z.string()).optional().default([]),
+      organs: z.array(z.string()).optional().default([]),
+      includeRelatedImages: z.boolean().optional().default(false),
+    })
+    .optional()
+    .default({}),
+  language: z.string().optional().default('en'),
+  preferedReferential: z.string().optional().default(''),
+  bestMatch: z.string().optional().default(''),
+  results: z.array(RawResultSchema).min(1, 'No candidate species'),
+  remainingIdentificationRequests: z.number().optional().default(0),
+  version: z.string().optional().default(''),
+  identificationId: z.string().optional(),
+});
+
+/**
+ * Validate a raw Pl@ntNet identify response, given as an object or JSON text.
+ * Throws a PlantNetValidationError naming the input and field on failure.
+ */
+export function parseIdentifyResponse(value: unknown, label: string): PlantNetIdentifyResponse {
+  let raw = value;
+  if (typeof value === 'string') {
+    try {
+      raw = JSON.parse(value);
+    } catch {
+      throw new PlantNetValidationError(`Identification ${label} is not valid JSON`);
+    }
+  }
+  const parsed = RawResponseSchema.safeParse(raw);
+  if (!parsed.success) {
+    const reason = parsed.error.issues
+      .map((issue) => `${issue.path.join('.') || 'response'}: ${issue.message}`)
+      .join('; ');
+    throw new PlantNetValidationError(`Identification ${label} is not a Pl@ntNet identify response: ${reason}`);
+  }
+  return parsed.data;
+}
+
+// --- Reconciliation ---
+
+/** Species name a match is merged under: the accepted binomial for known synonyms. */
+function speciesName(result: PlantNetResult): string {
+  const info = result.taxonomy;
+  if (info?.status === 'synonym' && info.acceptedName) {
+    // The accepted name carries its authorship; keep the binomial
+    return info.acceptedName.split(/\s+/).slice(0, 2).join(' ');
+  }
+  return result.species.scientificNameWithoutAuthor;
+}
+
+function genusOf(result: PlantNetResult): string | null {
+  return result.taxonomy?.classification.genus || result.species.genus.scientificNameWithoutAuthor || null;
+}
+
+function familyOf(result: PlantNetResult): string | null {
+  return result.taxonomy?.classification.family || result.species.family.scientificNameWithoutAuthor || null;
+}
+
+function topResult(result: PlantNetIdentifyResponse): PlantNetResult {
+  return result.results.reduce((best, r) => (r.score > best.score ? r : best));
+}
+
+function verdict(
+  rank: ReconcileRank,
+  inputs: ReconcileInput[],
+  taxonOf: (result: PlantNetResult) => string | null
+): TaxonVerdict {
+  const groups = new Map<string, { name: string; identifications: string[] }>();
+  for (const { label, result } of inputs) {
+    const name = taxonOf(topResult(result));
+    if (!name) continue;
+    const key = normalizeName(name);
+    const group = groups.get(key) ?? { name, identifications: [] };
+    group.identifications.push(label);
+    groups.set(key, group);
+  }
+  const taxa = [...groups.values()].sort((a, b) => b.identifications.length - a.identifications.length);
+  const named = taxa.reduce((n, taxon) => n + taxon.identifications.length, 0);
+  return {
+    rank,
+    agreement: named < 2 ? 'unknown' : taxa.length === 1 ? 'agree' : 'contradict',
+    taxa,
+  };
+}
+
+/**
+ * Merge the candidate lists of several identifications of the same plant (e.g. a
+ * leaf photo and a later flower photo) by species, and compare their top matches at
+ * species, genus and family level. Candidates are ranked by the geometric mean of
+ * their scores, with half an identification's lowest listed score standing in where
+ * it did not list the species (Messages.reconcile.fusionRule explains this to users).
+ */
+export function reconcileIdentifications(inputs: ReconcileInput[]): Reconciliation {
+  if (inputs.length < 2) {
+    throw new PlantNetValidationError('Reconciling needs at least two identifications');
+  }
+
+  const merged = new Map<string, ReconciledCandidate>();
+  inputs.forEach(({ result }, i) => {
+    for (const match of result.results) {
+      const name = speciesName(match);
+      const key = normalizeName(name);
+      let candidate = merged.get(key);
+      if (!candidate) {
+        candidate = {
+          scientificName: name,
+          genus: genusOf(match),
+          family: familyOf(match),
+          fusedScore: 0,
+          scores: inputs.map(() => null),
+          support: 0,
+          synonyms: [],
+        };
+        merged.set(key, candidate);
+      }
+      const listedAs = match.species.scientificNameWithoutAuthor;
+      if (normalizeName(listedAs) !== key && !candidate.synonyms.includes(listedAs)) {
+        candidate.synonyms.push(listedAs);
+      }
+      // A species listed twice (e.g. under a synonym) counts with its best score
+      candidate.scores[i] = Math.max(candidate.scores[i] ?? 0, match.score);
+    }
+  });
+
+  const floors = inputs.map(({ result }) => Math.min(...result.results.map((r) => r.score)) * MISSING_SCORE_FACTOR);
+  // Geometric mean, summed in log space
+  const fuse = (scores: (number | null)[]) =>
+    Math.exp(scores.reduce((sum: number, s, i) => sum + Math.log(s ?? floors[i]), 0) / scores.length);
+  const candidates = [...merged.values()].map((candidate) => ({
+    ...candidate,
+    fusedScore: fuse(candidate.scores),
+    support: candidate.scores.filter((s) => s !== null).length,
+  }));
+  candidates.sort((a, b) => b.fusedScore - a.fusedScore || b.support - a.support);
+
+  const levels = [
+    verdict('species', inputs, speciesName),
+    verdict('genus', inputs, genusOf),
+    verdict('family', inputs, familyOf),
+  ];
+  const agreed = levels.find((level) => level.agreement === 'agree');
+  const consensus = agreed ? { rank: agreed.rank, name: agreed.taxa[0].name } : null;
+
+  return {
+    identifications: inputs.map(({ label, result }) => {
+      const top = topResult(result);
+      return {
+        label,
+        identificationId: result.identificationId ?? null,
+        project: result.query.project,
+        organs: result.query.organs,
+        topMatch: top.species.scientificNameWithoutAuthor,
+        topScore: top.score,
+      };
+    }),
+    candidates,
+    levels,
+    consensus,
+  };
+}
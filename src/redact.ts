@@ -0,0 +1,48 @@
+// Keeps API keys out of error messages, tool output and logs
+
+const SECRET_PARAMS = /([?&](?:api[-_]?key|key|token|access_token)=)[^&#\s"'<>]+/gi;
+const BEARER = /(\bBearer\s+)[\w.~+/-]+=*/gi;
+
+const secrets = new Set<string>();
+
+/**
+ * Shorten an API key to something recognizable but useless: "2b10…9fQe".
+ * Short keys are hidden entirely.
+ */
+export function maskApiKey(key: string): string {
+  return key.length >= 12 ? `${key.slice(0, 4)}…${key.slice(-4)}` : '****';
+}
+
+/**
+ * Remember a secret so redact() masks it wherever it appears, not only in URLs.
+ */
+export function registerSecret(secret: string): void {
+  // Very short values would mask ordinary words
+  if (secret.length >= 4) secrets.add(secret);
+}
+
+/**
+ * Mask registered secrets, secret-looking query parameters (api-key=…) and bearer tokens.
+ */
+export function redact(text: string): string {
+  let result = text;
+  // Longest first, so a key that contains another is masked whole
+  for (const secret of [...secrets].sort((a, b) => b.length - a.length)) {
+    result = result.split(secret).join(maskApiKey(secret));
+  }
+  return result.replace(SECRET_PARAMS, '$1<redacted>').replace(BEARER, '$1<redacted>');
+}
+
+/**
+ * A URL safe to log: secret query parameters masked, credentials in the authority removed.
+ */
+export function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.username = '';
+    parsed.password = '';
+    return redact(parsed.toString());
+  } catch {
+    return redact(url);
+  }
+}
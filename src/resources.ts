@@ -0,0 +1,218 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  type Resource,
+} from '@modelcontextprotocol/sdk/types.js';
+import { PlantNetError } from './errors';
+import { FLORA_REGIONS } from './flora-regions';
+import type { IdentificationCache } from './identification-cache';
+import type { IdentificationProvider } from './provider';
+import { toStructuredResult } from './structured-result';
+import type { PlantNetIdentifyResponse } from './types';
+
+// Identification IDs are SHA-256 cache keys; anything else never names a result
+const IDENTIFICATION_ID = /^[0-9a-f]{64}$/;
+
+// Past identifications listed by resources/list, newest first
+const MAX_LISTED_IDENTIFICATIONS = 50;
+
+/**
+ * Identifications made by this server, kept in memory so they stay readable as
+ * resources even when the disk cache is disabled. Oldest entries are dropped first.
+ */
+export class IdentificationHistory {
+  private readonly entries = new Map<string, { result: PlantNetIdentifyResponse; at: string }>();
+
+  constructor(private readonly maxEntries = 100) {}
+
+  add(result: PlantNetIdentifyResponse, now = new Date()): void {
+    if (!result.identificationId) return;
+    this.entries.delete(result.identificationId);
+    this.entries.set(result.identificationId, { result, at: now.toISOString() });
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  get(id: string): PlantNetIdentifyResponse | null {
+    return this.entries.get(id)?.result ?? null;
+  }
+
+  /** Most recent first. */
+  list(): { id: string; bestMatch: string; at: string }[] {
+    return [...this.entries]
+      .reverse()
+      .map(([id, { result, at }]) => ({ id, bestMatch: result.bestMatch, at }));
+  }
+}
+
+export interface ResourceContext {
+  provider: IdentificationProvider;
+  cache: IdentificationCache | null;
+  history: IdentificationHistory;
+  /** Language of project resources whose URI has no ?lang, as for the tools. */
+  defaultLang: string;
+}
+
+function json(uri: string, value: unknown) {
+  return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(value, null, 2) }] };
+}
+
+async function readProjects(context: ResourceContext, uri: string, lang: string) {
+  const projects = await context.provider.projects.get(lang);
+  return json(uri, {
+    language: lang,
+    projects: Object.values(projects),
+  });
+}
+
+async function readProject(context: ResourceContext, uri: string, id: string, lang: string) {
+  const project = await context.provider.projects.find(id, lang);
+  if (!project) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown project: ${id}`);
+  }
+  return json(uri, {
+    ...project,
+    language: lang,
+    // Regions for which project "auto" would pick this project
+    regions: FLORA_REGIONS.filter((region) => region.projects.includes(id)).map((region) => ({
+      name: region.name,
+      bbox: region.bbox,
+    })),
+  });
+}
+
+/**
+ * A past identification from this session's history or the disk cache; null when
+ * the ID is unknown, expired or malformed.
+ */
+export async function findIdentification(
+  context: Pick<ResourceContext, 'history' | 'cache'>,
+  id: string
+): Promise<PlantNetIdentifyResponse | null> {
+  if (!IDENTIFICATION_ID.test(id)) return null;
+  const remembered = context.history.get(id);
+  if (remembered || !context.cache) return remembered;
+  const entry = await context.cache.get(id);
+  return entry
+    ? {
+        ...entry.response,
+        identificationId: id,
+        cache: { hit: true, key: id, storedAt: entry.storedAt },
+      }
+    : null;
+}
+
+async function readIdentification(context: ResourceContext, uri: string, id: string) {
+  if (!IDENTIFICATION_ID.test(id)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid identification ID: ${id}`);
+  }
+  const result = await findIdentification(context, id);
+  if (!result) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown or expired identification: ${id}`);
+  }
+  return json(uri, toStructuredResult(result));
+}
+
+async function listIdentifications(context: ResourceContext): Promise<Resource[]> {
+  const seen = new Map<string, Resource>();
+  for (const entry of context.history.list()) {
+    seen.set(entry.id, {
+      uri: `plantnet://identifications/${entry.id}`,
+      name: `${entry.bestMatch} (${entry.at})`,
+      mimeType: 'application/json',
+    });
+  }
+  for (const entry of context.cache ? await context.cache.list() : []) {
+    if (seen.has(entry.key)) continue;
+    seen.set(entry.key, {
+      uri: `plantnet://identifications/${entry.key}`,
+      name: `${entry.bestMatch} (${entry.storedAt})`,
+      mimeType: 'application/json',
+    });
+  }
+  return [...seen.values()].slice(0, MAX_LISTED_IDENTIFICATIONS);
+}
+
+/**
+ * Serve the project list, single projects and past identifications as MCP resources:
+ * plantnet://projects{?lang}, plantnet://projects/{id}{?lang} and plantnet://identifications/{id}.
+ * Project resources are listed once a project list has been fetched.
+ */
+export function registerResources(server: Server, context: ResourceContext): void {
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    const resources: Resource[] = [
+      {
+        uri: 'plantnet://projects',
+        name: 'Pl@ntNet flora projects',
+        description: 'Available flora projects (add ?lang=fr etc. for localized names).',
+        mimeType: 'application/json',
+      },
+    ];
+    const catalog = context.provider.projects.cached();
+    const listed = catalog.find((entry) => entry.lang === context.defaultLang) ?? catalog[0];
+    for (const [key, info] of Object.entries(listed?.projects ?? {})) {
+      const id = info?.id ?? key;
+      resources.push({
+        uri: `plantnet://projects/${encodeURIComponent(id)}`,
+        name: info?.name ?? id,
+        mimeType: 'application/json',
+      });
+    }
+    resources.push(...(await listIdentifications(context)));
+    return { resources };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: [
+      {
+        uriTemplate: 'plantnet://projects{?lang}',
+        name: 'Flora projects by language',
+        mimeType: 'application/json',
+      },
+      {
+        uriTemplate: 'plantnet://projects/{id}{?lang}',
+        name: 'Flora project details',
+        description: 'One project with the geographic regions it is chosen for by project "auto".',
+        mimeType: 'application/json',
+      },
+      {
+        uriTemplate: 'plantnet://identifications/{id}',
+        name: 'Past identification',
+        description: 'A previous identify_plant result, by its identificationId.',
+        mimeType: 'application/json',
+      },
+    ],
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+    let parsed: URL;
+    try {
+      parsed = new URL(uri);
+    } catch {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI: ${uri}`);
+    }
+    const lang = parsed.searchParams.get('lang') || context.defaultLang;
+    const id = decodeURIComponent(parsed.pathname.replace(/^\//, ''));
+
+    try {
+      if (parsed.protocol === 'plantnet:' && parsed.host === 'projects') {
+        return id ? await readProject(context, uri, id, lang) : await readProjects(context, uri, lang);
+      }
+      if (parsed.protocol === 'plantnet:' && parsed.host === 'identifications' && id) {
+        return await readIdentification(context, uri, id);
+      }
+    } catch (err) {
+      if (err instanceof PlantNetError) {
+        throw new McpError(ErrorCode.InternalError, `PlantNet ${err.kind} error: ${err.message}`);
+      }
+      throw err;
+    }
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+  });
+}
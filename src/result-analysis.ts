@@ -0,0 +1,184 @@
+import type { PlantNetIdentifyResponse, ResultAnalysis, TaxonGroup } from './types';
+
+export interface AnalysisThresholds {
+  /** A lone top match at or above this score is confident. */
+  confidentScore: number;
+  /** Below this top score the result is inconclusive whatever the spread. */
+  inconclusiveScore: number;
+  /** Candidates scoring at least this fraction of the top score are near-tied with it. */
+  tieRatio: number;
+}
+
+export const DEFAULT_ANALYSIS_THRESHOLDS: AnalysisThresholds = {
+  confidentScore: 0.5,
+  inconclusiveScore: 0.2,
+  tieRatio: 0.5,
+};
+
+// Organs to ask for next, best first, depending on how closely the candidates are related.
+// Congeneric species mostly differ in flowers and fruits; unrelated ones are told apart by leaves and habit.
+const ORGAN_PREFERENCE: Record<'genus' | 'family' | 'none', string[]> = {
+  genus: ['flower', 'fruit', 'leaf', 'bark'],
+  family: ['flower', 'leaf', 'fruit', 'bark'],
+  none: ['leaf', 'flower', 'fruit', 'habit', 'bark'],
+};
+
+const ORGAN_REASON: Record<string, string> = {
+  flower: 'flowers carry the most distinguishing characters between close relatives',
+  fruit: 'fruits often separate species that look alike in flower and leaf',
+  leaf: 'leaf shape and margin separate most unrelated candidates',
+  habit: 'the overall growth form narrows down unrelated candidates',
+  bark: 'bark texture helps separate trees when flowers and fruits are unavailable',
+};
+
+type Ranked = { result: PlantNetIdentifyResponse['results'][number]; rank: number };
+
+function percent(score: number): string {
+  return `${(score * 100).toFixed(1)}%`;
+}
+
+/**
+ * Classify an identification from its score distribution: confident (one clear
+ * match), ambiguous (several near-tied candidates) or inconclusive (all scores low).
+ * Near-tied candidates are grouped by genus and family with their combined score, and the organ photo
+ * most likely to separate them is recommended, skipping organs already submitted.
+ */
+export function analyzeResult(
+  data: PlantNetIdentifyResponse,
+  thresholds: AnalysisThresholds = DEFAULT_ANALYSIS_THRESHOLDS
+): ResultAnalysis {
+  const ranked = data.results
+    .map((result, i) => ({ result, rank: i + 1 }))
+    .sort((a, b) => b.result.score - a.result.score);
+  const top = ranked[0];
+
+  if (!top || top.result.score < thresholds.inconclusiveScore) {
+    const candidates = ranked.slice(0, 3);
+    return withRecommendation(data, {
+      outcome: 'inconclusive',
+      summary: top
+        ? `No match reaches ${percent(thresholds.inconclusiveScore)}; the best, ` +
+          `${top.result.species.scientificNameWithoutAuthor}, scores ${percent(top.result.score)}.`
+        : 'Pl@ntNet returned no candidate species.',
+      candidates: candidates.map(toCandidate),
+      sharedTaxon: sharedTaxon(candidates),
+      taxonGroups: taxonGroups(candidates),
+    });
+  }
+
+  const contenders = ranked.filter((c) => c.result.score >= top.result.score * thresholds.tieRatio);
+  if (contenders.length > 1) {
+    const shared = sharedTaxon(contenders);
+    const groups = taxonGroups(contenders);
+    const subgroups = groups.filter((g) => g.rank !== shared?.rank || g.name !== shared?.name);
+    const total = contenders.reduce((sum, c) => sum + c.result.score, 0);
+    return withRecommendation(data, {
+      outcome: 'ambiguous',
+      summary:
+        `Ambiguous between ${contenders.length} candidates ` +
+        `(${contenders.map((c) => `${c.result.species.scientificNameWithoutAuthor} ${percent(c.result.score)}`).join(', ')})` +
+        (shared
+          ? `, all in ${shared.rank} ${shared.name} (together ${percent(total)})`
+          : subgroups.length > 0
+            ? ''
+            : ' from different families') +
+        (subgroups.length > 0
+          ? `; groups: ${subgroups.map((g) => `${g.rank} ${g.name} ${percent(g.combinedScore)} (${g.members.join(', ')})`).join(', ')}`
+          : '') +
+        '.',
+      candidates: contenders.map(toCandidate),
+      sharedTaxon: shared,
+      taxonGroups: groups,
+    });
+  }
+
+  if (top.result.score < thresholds.confidentScore) {
+    return withRecommendation(data, {
+      outcome: 'inconclusive',
+      summary:
+        `${top.result.species.scientificNameWithoutAuthor} leads with ${percent(top.result.score)}, ` +
+        `below the ${percent(thresholds.confidentScore)} needed for a confident identification.`,
+      candidates: [toCandidate(top)],
+      sharedTaxon: null,
+      taxonGroups: [],
+    });
+  }
+
+  return {
+    outcome: 'confident',
+    summary:
+      `${top.result.species.scientificNameWithoutAuthor} is a clear match at ${percent(top.result.score)}.`,
+    candidates: [toCandidate(top)],
+    sharedTaxon: null,
+    taxonGroups: [],
+    recommendedOrgan: null,
+    recommendation: null,
+  };
+}
+
+function toCandidate({ result, rank }: Ranked): ResultAnalysis['candidates'][number] {
+  return {
+    rank,
+    scientificName: result.species.scientificNameWithoutAuthor,
+    score: result.score,
+    genus: result.species.genus.scientificNameWithoutAuthor,
+    family: result.species.family.scientificNameWithoutAuthor,
+  };
+}
+
+function sharedTaxon(candidates: Ranked[]): ResultAnalysis['sharedTaxon'] {
+  if (candidates.length < 2) return null;
+  const genera = new Set(candidates.map((c) => c.result.species.genus.scientificNameWithoutAuthor));
+  if (genera.size === 1) return { rank: 'genus', name: [...genera][0] };
+  const families = new Set(candidates.map((c) => c.result.species.family.scientificNameWithoutAuthor));
+  if (families.size === 1) return { rank: 'family', name: [...families][0] };
+  return null;
+}
+
+function taxonGroups(candidates: Ranked[]): TaxonGroup[] {
+  const collect = (rank: TaxonGroup['rank']) => {
+    const byName = new Map<string, Ranked[]>();
+    for (const c of candidates) {
+      const name = c.result.species[rank].scientificNameWithoutAuthor;
+      byName.set(name, [...(byName.get(name) ?? []), c]);
+    }
+    return [...byName].filter(([, members]) => members.length > 1);
+  };
+  const toGroup = (rank: TaxonGroup['rank'], name: string, members: Ranked[]): TaxonGroup => ({
+    rank,
+    name,
+    members: members.map((c) => c.result.species.scientificNameWithoutAuthor),
+    combinedScore: members.reduce((sum, c) => sum + c.result.score, 0),
+  });
+
+  const genera = collect('genus').map(([name, members]) => toGroup('genus', name, members));
+  // A family adds nothing over a genus group holding the same candidates
+  const families = collect('family')
+    .filter(([, members]) => new Set(members.map((c) => c.result.species.genus.scientificNameWithoutAuthor)).size > 1)
+    .map(([name, members]) => toGroup('family', name, members));
+  const byScore = (a: TaxonGroup, b: TaxonGroup) => b.combinedScore - a.combinedScore;
+  return [...genera.sort(byScore), ...families.sort(byScore)];
+}
+
+function withRecommendation(
+  data: PlantNetIdentifyResponse,
+  analysis: Omit<ResultAnalysis, 'recommendedOrgan' | 'recommendation'>
+): ResultAnalysis {
+  const used = new Set(data.query.organs);
+  const preference = ORGAN_PREFERENCE[analysis.sharedTaxon?.rank ?? 'none'];
+  const organ = preference.find((o) => !used.has(o));
+  if (!organ) {
+    return {
+      ...analysis,
+      recommendedOrgan: null,
+      recommendation:
+        'Every useful organ has already been submitted; retake the clearest one closer up, ' +
+        'in focus and against a plain background.',
+    };
+  }
+  return {
+    ...analysis,
+    recommendedOrgan: organ,
+    recommendation: `Add a photo of the ${organ}: ${ORGAN_REASON[organ]}.`,
+  };
+}
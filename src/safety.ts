@@ -0,0 +1,309 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { messagesFor, type Messages } from './messages';
+import { nameKeys, normalizeName } from './taxonomy';
+import type {
+  PlantNetIdentifyResponse,
+  PlantNetResult,
+  SafetyAnnotations,
+  SafetySource,
+  ToxicityLevel,
+} from './types';
+
+/** Datasets shipped with the package, used unless PLANTNET_SAFETY_DIR points elsewhere. */
+export const DEFAULT_SAFETY_DIR = path.resolve(__dirname, '..', 'data', 'safety');
+
+// IUCN Red List categories worth a caution: threatened or extinct in the wild
+const THREATENED_CATEGORIES = new Set(['VU', 'EN', 'CR', 'EW', 'EX']);
+
+// --- Dataset file format ---
+
+const SourceSchema = z.object({
+  name: z.string().min(1),
+  url: z.string().nullish(),
+  license: z.string().nullish(),
+});
+
+const LevelSchema = z.enum(['non-toxic', 'toxic', 'mild', 'moderate', 'severe']);
+
+const EntrySchema = z.object({
+  scientificName: z.string().min(1),
+  gbifId: z.union([z.string().min(1), z.number().int()]).transform(String).optional(),
+  notes: z.string().optional(),
+  /** Overrides the dataset's source for this entry. */
+  source: SourceSchema.optional(),
+});
+
+const DatasetSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('toxicity'),
+    source: SourceSchema,
+    entries: z.array(
+      EntrySchema.extend({
+        humans: LevelSchema.optional(),
+        pets: z
+          .object({ dogs: LevelSchema.optional(), cats: LevelSchema.optional(), horses: LevelSchema.optional() })
+          .optional(),
+      })
+    ),
+  }),
+  z.object({
+    type: z.literal('invasive'),
+    source: SourceSchema,
+    entries: z.array(
+      EntrySchema.extend({
+        region: z.string().min(1),
+        status: z.enum(['invasive', 'naturalised', 'regulated']),
+      })
+    ),
+  }),
+  z.object({
+    type: z.literal('conservation'),
+    source: SourceSchema,
+    entries: z.array(
+      EntrySchema.extend({
+        scope: z.string().min(1).optional().default('global'),
+        category: z.string().min(1),
+        legallyProtected: z.boolean().optional().default(false),
+      })
+    ),
+  }),
+]);
+
+export type SafetyDataset = z.input<typeof DatasetSchema>;
+
+function emptyAnnotations(): SafetyAnnotations {
+  return { toxicity: [], invasive: [], conservation: [] };
+}
+
+function toSource(source: z.infer<typeof SourceSchema>): SafetySource {
+  return { name: source.name, url: source.url ?? null, license: source.license ?? null };
+}
+
+/**
+ * Curated toxicity, invasiveness and conservation flags, keyed by GBIF ID and
+ * scientific name.
+ */
+export class SafetyDatasets {
+  private readonly byGbifId = new Map<string, SafetyAnnotations>();
+  private readonly byName = new Map<string, SafetyAnnotations>();
+
+  constructor(datasets: SafetyDataset[] = []) {
+    for (const dataset of datasets) this.add(DatasetSchema.parse(dataset));
+  }
+
+  /**
+   * Load every `*.json` dataset in a directory. Throws naming the file when one is
+   * malformed, or when there is none.
+   */
+  static async load(dir: string): Promise<SafetyDatasets> {
+    const files = (await fs.readdir(dir)).filter((file) => file.endsWith('.json')).sort();
+    if (files.length === 0) {
+      throw new Error(`No safety datasets (*.json) in ${dir}`);
+    }
+    const datasets = new SafetyDatasets();
+    for (const file of files) {
+      let dataset: z.infer<typeof DatasetSchema>;
+      try {
+        dataset = DatasetSchema.parse(JSON.parse(await fs.readFile(path.join(dir, file), 'utf8')));
+      } catch (err) {
+        const reason =
+          err instanceof z.ZodError
+            ? err.issues.map((issue) => `${issue.path.join('.') || 'file'}: ${issue.message}`).join('; ')
+            : err instanceof Error
+              ? err.message
+              : String(err);
+        throw new Error(`Invalid safety dataset ${path.join(dir, file)}: ${reason}`);
+      }
+      datasets.add(dataset);
+    }
+    return datasets;
+  }
+
+  /** Number of species with at least one flag. */
+  get size(): number {
+    return this.byName.size;
+  }
+
+  /**
+   * Flags for a species by GBIF ID and/or name (authorship is ignored), merged
+   * without duplicates. Empty lists when nothing matches.
+   */
+  lookup(query: { name?: string; gbifId?: string; names?: string[] }): SafetyAnnotations {
+    const matches: SafetyAnnotations[] = [];
+    if (query.gbifId) {
+      const byId = this.byGbifId.get(query.gbifId);
+      if (byId) matches.push(byId);
+    }
+    for (const name of [query.name, ...(query.names ?? [])]) {
+      if (!name) continue;
+      const key = nameKeys(name).find((k) => this.byName.has(k));
+      if (key) matches.push(this.byName.get(key)!);
+    }
+    const merged = emptyAnnotations();
+    // A species' GBIF ID and name usually lead to the same flags
+    for (const match of new Set(matches)) {
+      merged.toxicity.push(...match.toxicity);
+      merged.invasive.push(...match.invasive);
+      merged.conservation.push(...match.conservation);
+    }
+    return merged;
+  }
+
+  /**
+   * Flags for a Pl@ntNet match, also trying the accepted name when the taxonomy
+   * snapshot reports the match as a synonym.
+   */
+  lookupResult(result: PlantNetResult): SafetyAnnotations {
+    return this.lookup({
+      gbifId: result.gbif?.id,
+      name: result.species.scientificNameWithoutAuthor,
+      names: result.taxonomy?.acceptedName ? [result.taxonomy.acceptedName] : [],
+    });
+  }
+
+  private entryFor(scientificName: string, gbifId: string | undefined): SafetyAnnotations {
+    const key = normalizeName(scientificName);
+    let annotations = this.byName.get(key);
+    if (!annotations) {
+      annotations = emptyAnnotations();
+      this.byName.set(key, annotations);
+    }
+    if (gbifId && !this.byGbifId.has(gbifId)) this.byGbifId.set(gbifId, annotations);
+    return annotations;
+  }
+
+  private add(dataset: z.infer<typeof DatasetSchema>): void {
+    const sourceOf = (entry: { source?: z.infer<typeof SourceSchema> }) => toSource(entry.source ?? dataset.source);
+    if (dataset.type === 'toxicity') {
+      for (const entry of dataset.entries) {
+        this.entryFor(entry.scientificName, entry.gbifId).toxicity.push({
+          humans: entry.humans ?? null,
+          pets: { dogs: entry.pets?.dogs ?? null, cats: entry.pets?.cats ?? null, horses: entry.pets?.horses ?? null },
+          notes: entry.notes ?? null,
+          source: sourceOf(entry),
+        });
+      }
+    } else if (dataset.type === 'invasive') {
+      for (const entry of dataset.entries) {
+        this.entryFor(entry.scientificName, entry.gbifId).invasive.push({
+          region: entry.region,
+          status: entry.status,
+          notes: entry.notes ?? null,
+          source: sourceOf(entry),
+        });
+      }
+    } else {
+      for (const entry of dataset.entries) {
+        this.entryFor(entry.scientificName, entry.gbifId).conservation.push({
+          scope: entry.scope,
+          category: entry.category,
+          legallyProtected: entry.legallyProtected,
+          notes: entry.notes ?? null,
+          source: sourceOf(entry),
+        });
+      }
+    }
+  }
+}
+
+/**
+ * "Vulnerable (VU)" for IUCN codes, the category as given otherwise.
+ */
+export function conservationLabel(category: string, m: Messages = messagesFor('en')): string {
+  const label = m.safety.iucn[category.toUpperCase()];
+  return label ? `${label} (${category.toUpperCase()})` : category;
+}
+
+export type ToxicSubject = 'humans' | 'dogs' | 'cats' | 'horses';
+
+/** Each subject some flag marks as toxic to, with the first graded level found. */
+export function toxicSubjects(safety: SafetyAnnotations): { subject: ToxicSubject; level: ToxicityLevel }[] {
+  const subjects: { subject: ToxicSubject; level: ToxicityLevel }[] = [];
+  for (const subject of ['humans', 'dogs', 'cats', 'horses'] as const) {
+    const level = safety.toxicity
+      .map((flag): ToxicityLevel | null => (subject === 'humans' ? flag.humans : flag.pets[subject]))
+      .find((l) => l && l !== 'non-toxic');
+    if (level) subjects.push({ subject, level });
+  }
+  return subjects;
+}
+
+/** Who a species is toxic to, e.g. "humans (mild), dogs and cats"; null when no flag says toxic. */
+export function toxicityTargets(safety: SafetyAnnotations, m: Messages = messagesFor('en')): string | null {
+  const targets = toxicSubjects(safety).map(({ subject, level }) =>
+    level === 'toxic' ? m.safety.subjects[subject] : `${m.safety.subjects[subject]} (${m.safety.levels[level]})`
+  );
+  return targets.length > 0 ? m.list(targets) : null;
+}
+
+/**
+ * One-line caution for a match that is toxic, invasive or regulated somewhere,
+ * threatened or legally protected; null when none applies.
+ */
+export function safetyWarning(result: PlantNetResult, m: Messages = messagesFor('en')): string | null {
+  const safety = result.safety;
+  if (!safety) return null;
+  const concerns: string[] = [];
+  const toxicTo = toxicityTargets(safety, m);
+  if (toxicTo) concerns.push(m.safety.toxicTo(toxicTo));
+  for (const status of ['invasive', 'regulated'] as const) {
+    const regions = safety.invasive.filter((flag) => flag.status === status).map((flag) => flag.region);
+    if (regions.length > 0) {
+      const where = regions.join('; ');
+      concerns.push(status === 'regulated' ? m.safety.regulatedWeedIn(where) : m.safety.invasiveInRegions(where));
+    }
+  }
+  for (const flag of safety.conservation) {
+    const where = flag.scope === 'global' ? m.safety.globally : m.safety.inScope(flag.scope);
+    if (THREATENED_CATEGORIES.has(flag.category.toUpperCase())) {
+      concerns.push(m.safety.applies(conservationLabel(flag.category, m), where));
+    }
+    if (flag.legallyProtected) concerns.push(m.safety.applies(m.safety.legallyProtected, where));
+  }
+  if (concerns.length === 0) return null;
+  return m.safety.caution(result.species.scientificNameWithoutAuthor, concerns.join('; '));
+}
+
+/**
+ * Lazily loaded datasets, so the files are read on first use rather than at startup.
+ */
+export class SafetyIndex {
+  private datasets: Promise<SafetyDatasets> | null = null;
+
+  constructor(readonly dir: string = DEFAULT_SAFETY_DIR) {}
+
+  /**
+   * Build an index from PLANTNET_SAFETY_DIR, if set.
+   * Returns null when PLANTNET_SAFETY is set to "off", "false" or "0".
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): SafetyIndex | null {
+    if (['off', 'false', '0'].includes((env.PLANTNET_SAFETY ?? '').toLowerCase())) {
+      return null;
+    }
+    return new SafetyIndex(env.PLANTNET_SAFETY_DIR ? path.resolve(env.PLANTNET_SAFETY_DIR) : DEFAULT_SAFETY_DIR);
+  }
+
+  get(): Promise<SafetyDatasets> {
+    if (!this.datasets) {
+      this.datasets = SafetyDatasets.load(this.dir);
+      // Let a later call retry after a failed load
+      this.datasets.catch(() => {
+        this.datasets = null;
+      });
+    }
+    return this.datasets;
+  }
+
+  /**
+   * Attach flags to each match as `safety`.
+   */
+  async annotate(data: PlantNetIdentifyResponse): Promise<PlantNetIdentifyResponse> {
+    const datasets = await this.get();
+    return {
+      ...data,
+      results: data.results.map((result) => ({ ...result, safety: datasets.lookupResult(result) })),
+    };
+  }
+}
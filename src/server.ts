@@ -5,85 +5,938 @@ import {
   ErrorCode,
   McpError,
 } from '@modelcontextprotocol/sdk/types.js';
-import { z } from 'zod';
-import { PlantNetClient } from './plantnet-client';
-import type { PlantNetIdentifyResponse, PlantNetResult } from './types';
+import { z, ZodError } from 'zod';
+import * as path from 'path';
+import { runBatch, type BatchSummary } from './batch';
+import { exportObservations, writeExportFiles, type ObservationExport } from './darwin-core';
+import { PlantNetError, PlantNetValidationError } from './errors';
+import { IdentificationCache } from './identification-cache';
+import { classifyImageSource } from './image-source';
+import { ApiKeyPool, KeyPoolProvider, type KeyPoolStatus, type KeyQuotaStatus } from './key-pool';
+import { defaultLanguageFromEnv, messagesFor, resolveCommonNames, type Messages } from './messages';
+import { MockProvider } from './mock-provider';
+import { ObservationLog, type ObservationSearchResult } from './observation-log';
+import { registerPrompts } from './prompts';
+import { providerNameFromEnv, type IdentificationProvider } from './provider';
+import { QuotaTracker, type QuotaStatus } from './quota-tracker';
+import { redact } from './redact';
+import {
+  parseIdentifyResponse,
+  reconcileIdentifications,
+  type ReconcileInput,
+  type Reconciliation,
+} from './reconcile';
+import { IdentificationHistory, findIdentification, registerResources } from './resources';
+import { analyzeResult } from './result-analysis';
+import { SafetyIndex, conservationLabel, safetyWarning, toxicityTargets } from './safety';
+import { IDENTIFY_OUTPUT_SCHEMA, toStructuredImage, toStructuredResult } from './structured-result';
+import { TaxonomyIndex } from './taxonomy';
+import type {
+  IdentifyPlantArgs,
+  PlantNetDiseaseIdentifyResponse,
+  PlantNetIdentifyResponse,
+  PlantNetRelatedImage,
+  PlantNetResult,
+  PlantNetSpeciesListEntry,
+  SafetyAnnotations,
+  SpeciesInfo,
+} from './types';
 
 // --- Input validation schemas ---
 
-const IdentifyPlantSchema = z.object({
+// ISO 8601 date, or date and time with an optional Z or ±hh:mm offset
+const ISO_DATE_TIME = /^(\d{4}-\d{2}-\d{2})(?:T(\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)(Z|[+-]\d{2}:\d{2})?)?$/;
+
+/**
+ * Normalize an observation time to the form EXIF capture times are logged in:
+ * YYYY-MM-DD, or a timestamp to the second keeping its offset (if any). Returns
+ * null for anything else, including impossible dates such as 2025-02-30.
+ */
+function normalizeObservedAt(value: string): string | null {
+  const match = ISO_DATE_TIME.exec(value);
+  if (!match) return null;
+  const [, date, time, offset] = match;
+  const wallClock = new Date(`${date}T${time ?? '00:00'}Z`);
+  if (Number.isNaN(wallClock.getTime()) || wallClock.toISOString().slice(0, 10) !== date) return null;
+  return time === undefined ? date : `${wallClock.toISOString().slice(0, 19)}${offset ?? ''}`;
+}
+
+const ObservationSchema = z.object({
   image_urls: z
-    .array(z.string().url())
+    .array(
+      z.string().refine((s) => classifyImageSource(s) !== null, {
+        message: 'Each image must be an http(s) URL, a file:// URL or absolute path, or a base64 data URI',
+      })
+    )
     .min(1, 'At least one image URL required')
     .max(5, 'Maximum 5 images'),
   organs: z.array(
     z.enum(['leaf', 'flower', 'fruit', 'bark', 'auto', 'habit', 'other'])
   ).min(1),
-  project: z.string().optional().default('all'),
-  lang: z.string().optional().default('en'),
+  // Left unset so latitude/longitude alone can imply "auto"; the provider defaults to "all"
+  project: z.string().optional(),
+  lang: z.string().optional(),
   nb_results: z.number().int().min(1).max(25).optional().default(5),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  include_related_images: z.boolean().optional().default(false),
+  notes: z.string().max(2000).optional(),
+  location: z.string().max(200).optional(),
+  observed_at: z
+    .string()
+    .transform((s, ctx) => {
+      const normalized = normalizeObservedAt(s);
+      if (normalized === null) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Expected a date (YYYY-MM-DD) or an ISO timestamp' });
+        return z.NEVER;
+      }
+      return normalized;
+    })
+    .optional(),
+});
+
+const IdentifyPlantSchema = ObservationSchema.extend({
+  output_format: z.enum(['markdown', 'json', 'both']).optional().default('markdown'),
+});
+
+const BatchIdentifySchema = z.object({
+  observations: z
+    .array(ObservationSchema.extend({ id: z.string().optional() }))
+    .min(1, 'At least one observation required')
+    .max(100, 'Maximum 100 observations per batch'),
+  concurrency: z.number().int().min(1).max(5).optional().default(2),
+  quota_budget: z.number().int().min(1).optional(),
+  min_remaining_quota: z.number().int().min(0).optional().default(0),
+});
+
+const IdentifyDiseaseSchema = z.object({
+  image_urls: ObservationSchema.shape.image_urls,
+  organs: ObservationSchema.shape.organs.optional(),
+  lang: z.string().optional(),
+  nb_results: z.number().int().min(1).max(25).optional().default(5),
+  include_related_images: z.boolean().optional().default(false),
+});
+
+const ListSpeciesSchema = z.object({
+  project: z.string().min(1),
+  lang: z.string().optional(),
+  filter: z.string().optional(),
+  limit: z.number().int().min(1).max(500).optional().default(50),
+});
+
+const DateBoundSchema = z.string().refine((s) => !Number.isNaN(Date.parse(s)), {
+  message: 'Expected a date (YYYY-MM-DD) or an ISO timestamp',
+});
+
+const SearchObservationsSchema = z.object({
+  species: z.string().optional(),
+  family: z.string().optional(),
+  from: DateBoundSchema.optional(),
+  to: DateBoundSchema.optional(),
+  min_score: z.number().min(0).max(1).optional(),
+  text: z.string().optional(),
+  limit: z.number().int().min(1).max(200).optional().default(20),
+});
+
+const ExportObservationsSchema = SearchObservationsSchema.omit({ limit: true }).extend({
+  observation_ids: z.array(z.string()).min(1).optional(),
+  format: z.enum(['dwca', 'geojson', 'both']).optional().default('both'),
 });
 
 const ListProjectsSchema = z.object({
-  lang: z.string().optional().default('en'),
+  lang: z.string().optional(),
+});
+
+const CheckQuotaSchema = z.object({
+  lang: z.string().optional(),
+});
+
+const GetSpeciesInfoSchema = z
+  .object({
+    name: z.string().min(1).optional(),
+    gbif_id: z.union([z.string().min(1), z.number().int().positive()]).transform(String).optional(),
+  })
+  .refine((v) => v.name !== undefined || v.gbif_id !== undefined, {
+    message: 'Provide a name or a gbif_id',
+  });
+
+const ReconcileIdentificationsSchema = z
+  .object({
+    identification_ids: z.array(z.string().min(1)).optional().default([]),
+    results: z.array(z.unknown()).optional().default([]),
+    max_candidates: z.number().int().min(1).max(50).optional().default(10),
+    lang: z.string().optional(),
+  })
+  .refine((v) => v.identification_ids.length + v.results.length >= 2, {
+    message: 'Provide at least two identifications in total (identification_ids and/or results)',
+  })
+  .refine((v) => v.identification_ids.length + v.results.length <= 10, {
+    message: 'Maximum 10 identifications per reconciliation',
+  });
+
+const ManageCacheSchema = z.object({
+  action: z.enum(['inspect', 'clear']).optional().default('inspect'),
+  expired_only: z.boolean().optional().default(false),
+  limit: z.number().int().min(1).max(100).optional().default(20),
 });
 
+// --- Tool input schemas (JSON Schema) ---
+
+// Per-observation identify_plant arguments, shared with batch_identify
+const IDENTIFY_INPUT_PROPERTIES = {
+  image_urls: {
+    type: 'array',
+    items: { type: 'string' },
+    description:
+      'List of images (JPG or PNG). Each entry may be a publicly accessible http(s) URL, ' +
+      'a file:// URL or absolute path to a local file inside the server\'s allowed image directories, ' +
+      'or a base64 data URI (data:image/jpeg;base64,...). ' +
+      'Using multiple images of different organs improves identification accuracy. ' +
+      'Maximum 5 images.',
+    minItems: 1,
+    maxItems: 5,
+  },
+  organs: {
+    type: 'array',
+    items: {
+      type: 'string',
+      enum: ['leaf', 'flower', 'fruit', 'bark', 'auto', 'habit', 'other'],
+    },
+    description:
+      'Plant organ shown in each image. Must have the same count as image_urls. ' +
+      '"leaf", "flower", "fruit", "bark" — specific organ types. ' +
+      '"habit" — the whole plant. ' +
+      '"auto" — let PlantNet detect automatically. ' +
+      '"other" — unclassified plant part.',
+  },
+  project: {
+    type: 'string',
+    description:
+      'Flora database to search. "all" (default) searches the global database. ' +
+      'Use a regional project ID (e.g. "weurope" for Western Europe) for higher accuracy ' +
+      'when you know the plant\'s geographic origin. ' +
+      '"auto" picks the regional flora from latitude/longitude or, failing that, from the ' +
+      'GPS position embedded in the photos\' EXIF data; the chosen project and the reason ' +
+      'are reported in the result. ' +
+      'Use the list_projects tool to discover available projects.',
+    default: 'all',
+  },
+  lang: {
+    type: 'string',
+    description:
+      'Language code for common names and for the Markdown output. ' +
+      'Examples: "en" (English), "fr" (French), "es" (Spanish), "de" (German), "he" (Hebrew). ' +
+      'Output text is translated into en, fr, es, de and he; other languages get English text. ' +
+      'Missing common names fall back to English, then to the scientific name. ' +
+      'Default: the server default (PLANTNET_DEFAULT_LANG, "en" unless set).',
+  },
+  nb_results: {
+    type: 'number',
+    description:
+      'Number of species results to return (1–25). ' +
+      'Higher values give more alternatives but the top result is usually most accurate. Default: 5.',
+    default: 5,
+    minimum: 1,
+    maximum: 25,
+  },
+  include_related_images: {
+    type: 'boolean',
+    description:
+      'Also return reference photos of each matched species (with URLs, authors and licenses) ' +
+      'to compare against the plant. Default: false.',
+    default: false,
+  },
+  latitude: {
+    type: 'number',
+    description:
+      'Latitude (decimal degrees) where the photos were taken. Must be given with longitude. ' +
+      'When no project is given, the regional flora is chosen automatically.',
+    minimum: -90,
+    maximum: 90,
+  },
+  longitude: {
+    type: 'number',
+    description: 'Longitude (decimal degrees) where the photos were taken. Must be given with latitude.',
+    minimum: -180,
+    maximum: 180,
+  },
+  notes: {
+    type: 'string',
+    description:
+      'Free-text field notes (habitat, specimen number, observer) saved with the observation log entry. ' +
+      'Not sent to Pl@ntNet.',
+  },
+  location: {
+    type: 'string',
+    description:
+      'Place name saved with the observation log entry, e.g. "site B" or "north meadow". ' +
+      'Not sent to Pl@ntNet; use latitude/longitude for regional flora selection.',
+  },
+  observed_at: {
+    type: 'string',
+    description:
+      'When the plant was observed (YYYY-MM-DD or ISO 8601 timestamp), saved with the observation log entry ' +
+      'and exported as the Darwin Core eventDate. Defaults to the photos\' EXIF capture time, if any. ' +
+      'Not sent to Pl@ntNet.',
+  },
+};
+
+// Observation log filters, shared by search_observations and export_observations
+const OBSERVATION_FILTER_PROPERTIES = {
+  species: {
+    type: 'string',
+    description: 'Case-insensitive substring of the top match\'s scientific or common name.',
+  },
+  family: {
+    type: 'string',
+    description: 'Case-insensitive substring of the top match\'s family, e.g. "Fagaceae".',
+  },
+  from: {
+    type: 'string',
+    description: 'Earliest date (YYYY-MM-DD, UTC) or ISO timestamp, inclusive.',
+  },
+  to: {
+    type: 'string',
+    description: 'Latest date (YYYY-MM-DD, UTC, whole day included) or ISO timestamp.',
+  },
+  min_score: {
+    type: 'number',
+    description: 'Minimum top-match score between 0 and 1, e.g. 0.5.',
+    minimum: 0,
+    maximum: 1,
+  },
+  text: {
+    type: 'string',
+    description: 'Words that must all appear, e.g. "site B" or "hedge north".',
+  },
+};
+
 // --- Result formatting ---
 
-function formatIdentifyResult(data: PlantNetIdentifyResponse): string {
+function formatCommonNames(result: PlantNetResult, lang: string, m: Messages): string {
+  const { names, language } = resolveCommonNames(result, lang);
+  if (language === null) return m.identify.scientificFallback(names[0]);
+  const listed = names.slice(0, 3).join(', ');
+  return language === 'en' && m.language !== 'en' ? m.identify.englishFallback(listed) : listed;
+}
+
+function formatIdentifyResult(data: PlantNetIdentifyResponse, lang: string): string {
+  const m = messagesFor(lang);
+  const analysis = analyzeResult(data);
+  const recommendation = m.analysis.recommendation(analysis);
   const lines: string[] = [
-    '## Plant Identification Results',
+    m.identify.title,
     '',
-    `**Best match:** ${data.bestMatch}`,
-    `**Remaining daily quota:** ${data.remainingIdentificationRequests} requests`,
-    `**AI engine version:** ${data.version}`,
+    m.identify.bestMatch(data.bestMatch),
+    ...(data.cache
+      ? [
+          m.identify.cached(data.cache.storedAt),
+          m.identify.remainingCached(data.remainingIdentificationRequests),
+        ]
+      : [m.identify.remaining(data.remainingIdentificationRequests)]),
+    ...(data.projectSelection
+      ? [m.identify.autoProject(data.projectSelection.project, data.projectSelection.reason)]
+      : []),
+    m.identify.engineVersion(data.version),
+    ...(data.identificationId
+      ? [m.identify.resultResource(`plantnet://identifications/${data.identificationId}`)]
+      : []),
     '',
-    `### Top ${data.results.length} Species Matches`,
+    m.identify.interpretation,
+    '',
+    m.identify.outcome(m.identify.outcomeLabels[analysis.outcome], m.analysis.summary(analysis)),
+    ...(recommendation ? [m.identify.nextPhoto(recommendation)] : []),
+    '',
+    m.identify.topMatches(data.results.length),
     '',
   ];
 
   data.results.forEach((result: PlantNetResult, i: number) => {
     const confidence = (result.score * 100).toFixed(1);
-    const commonNames =
-      result.species.commonNames.slice(0, 3).join(', ') || 'none known';
     lines.push(
-      `**${i + 1}. ${result.species.scientificNameWithoutAuthor}** — ${confidence}% confidence`,
-      `   - Author: ${result.species.scientificNameAuthorship || 'unknown'}`,
-      `   - Family: ${result.species.family.scientificNameWithoutAuthor}`,
-      `   - Genus: ${result.species.genus.scientificNameWithoutAuthor}`,
-      `   - Common names: ${commonNames}`,
+      m.identify.match(i + 1, result.species.scientificNameWithoutAuthor, confidence),
+      `   - ${m.identify.author}: ${result.species.scientificNameAuthorship || m.unknown}`,
+      `   - ${m.identify.family}: ${result.species.family.scientificNameWithoutAuthor}`,
+      `   - ${m.identify.genus}: ${result.species.genus.scientificNameWithoutAuthor}`,
+      `   - ${m.identify.commonNames}: ${formatCommonNames(result, lang, m)}`,
       ...(result.gbif ? [`   - GBIF ID: ${result.gbif.id}`] : []),
       ...(result.powo ? [`   - POWO ID: ${result.powo.id}`] : []),
+      ...(result.taxonomy ? formatTaxonomyNotes(result.taxonomy, m) : []),
+      ...(result.safety ? formatSafetyNotes(result.safety, m) : []),
+      ...formatRelatedImages(result.images, m),
       ''
     );
   });
 
+  lines.push('---', m.identify.tip);
+
+  return lines.join('\n');
+}
+
+function formatNameStatus(info: SpeciesInfo, m: Messages = messagesFor('en')): string {
+  return info.status === 'synonym' && info.acceptedName
+    ? m.taxonomy.synonymOf(info.acceptedName)
+    : m.taxonomy.statuses[info.status];
+}
+
+function formatTaxonomyNotes(info: SpeciesInfo, m: Messages): string[] {
+  const { order, class: className } = info.classification;
+  return [
+    ...(order || className
+      ? [`   - ${m.taxonomy.orderClass}: ${order ?? m.unknown} / ${className ?? m.unknown}`]
+      : []),
+    `   - ${m.taxonomy.nameStatus}: ${formatNameStatus(info, m)}`,
+    ...(info.nativeRange ? [`   - ${m.taxonomy.nativeRange}: ${info.nativeRange}`] : []),
+  ];
+}
+
+function formatSafetyNotes(safety: SafetyAnnotations, m: Messages): string[] {
+  const lines: string[] = [];
+  if (safety.toxicity.length > 0) {
+    const toxicTo = toxicityTargets(safety, m);
+    const notes = safety.toxicity.map((flag) => flag.notes).filter(Boolean);
+    lines.push(
+      `   - ${m.safety.toxicity}: ${toxicTo ? m.safety.toxicTo(toxicTo) : m.safety.nonToxic}` +
+        (notes.length > 0 ? ` — ${notes.join(' ')}` : '')
+    );
+  }
+  if (safety.invasive.length > 0) {
+    const statuses = safety.invasive.map((flag) =>
+      m.safety.invasiveIn(m.safety.invasiveStatuses[flag.status], flag.region)
+    );
+    lines.push(`   - ${m.safety.invasiveStatus}: ${statuses.join('; ')}`);
+  }
+  if (safety.conservation.length > 0) {
+    const statuses = safety.conservation.map(
+      (flag) =>
+        `${conservationLabel(flag.category, m)}, ${flag.scope === 'global' ? m.safety.global : flag.scope}` +
+        (flag.legallyProtected ? `, ${m.safety.legallyProtected}` : '')
+    );
+    lines.push(`   - ${m.safety.conservation}: ${statuses.join('; ')}`);
+  }
+  const sources = new Map<string, string>();
+  for (const flag of [...safety.toxicity, ...safety.invasive, ...safety.conservation]) {
+    sources.set(flag.source.name, flag.source.url ? `[${flag.source.name}](${flag.source.url})` : flag.source.name);
+  }
+  if (sources.size > 0) lines.push(`   - ${m.safety.sources}: ${[...sources.values()].join('; ')}`);
+  return lines;
+}
+
+function formatSpeciesInfo(info: SpeciesInfo): string {
+  const c = info.classification;
+  const lines = [
+    `## ${info.scientificName}${info.authorship ? ` ${info.authorship}` : ''}`,
+    '',
+    `**Rank:** ${info.rank}`,
+    `**Name status:** ${formatNameStatus(info)}`,
+    ...(Object.keys(info.vernacularNames).length > 0
+      ? [
+          `**Common names:** ${Object.entries(info.vernacularNames)
+            .map(([language, names]) => `${names.join(', ')} (${language})`)
+            .join('; ')}`,
+        ]
+      : []),
+    '',
+    '| Kingdom | Phylum | Class | Order | Family | Genus |',
+    '|---------|--------|-------|-------|--------|-------|',
+    `| ${[c.kingdom, c.phylum, c.class, c.order, c.family, c.genus].map((v) => v ?? '—').join(' | ')} |`,
+    '',
+    `**Native range:** ${info.nativeRange ?? 'not recorded'}`,
+  ];
+  if (info.distribution.native.length > 0) {
+    lines.push(`**Native in:** ${info.distribution.native.join(', ')}`);
+  }
+  if (info.distribution.introduced.length > 0) {
+    lines.push(`**Introduced in:** ${info.distribution.introduced.join(', ')}`);
+  }
+  lines.push(
+    ...(info.ids.gbif ? [`**GBIF ID:** ${info.ids.gbif}`] : []),
+    ...(info.ids.powo ? [`**POWO ID:** ${info.ids.powo}`] : []),
+    '',
+    `*Source: local ${info.sources.map((source) => (source === 'gbif' ? 'GBIF Backbone' : 'WCVP')).join(' and ')} snapshot.*`
+  );
+  return lines.join('\n');
+}
+
+function formatReconciliation(
+  reconciliation: Reconciliation,
+  maxCandidates: number,
+  m: Messages = messagesFor('en')
+): string {
+  const labels = reconciliation.identifications.map((i) => i.label);
+  const lines = [
+    m.reconcile.title,
+    '',
+    m.reconcile.summaryLine(m.reconcile.summary(reconciliation)),
+    '',
+    m.reconcile.tableHeader,
+    ...reconciliation.identifications.map(
+      (i) =>
+        `| ${i.label} | ${i.identificationId ? `\`${i.identificationId.slice(0, 12)}…\`` : m.reconcile.givenAsJson} | ` +
+        `${i.project} | ${i.organs.join(', ') || '—'} | *${i.topMatch}* | ${(i.topScore * 100).toFixed(1)}% |`
+    ),
+    '',
+    m.reconcile.agreement,
+    '',
+    m.reconcile.agreementHeader,
+    ...reconciliation.levels.map(
+      (level) =>
+        `| ${m.reconcile.ranks[level.rank]} | ${m.reconcile.verdicts[level.agreement]} | ` +
+        `${level.taxa.map((taxon) => `${taxon.name} (${taxon.identifications.join(', ')})`).join('; ') || '—'} |`
+    ),
+    '',
+    m.reconcile.fusedCandidates,
+    '',
+    m.reconcile.candidatesHeader(labels),
+  ];
+  reconciliation.candidates.slice(0, maxCandidates).forEach((candidate, i) => {
+    const name =
+      `*${candidate.scientificName}*` +
+      (candidate.synonyms.length > 0
+        ? ` (${m.reconcile.including(candidate.synonyms.map((s) => `*${s}*`).join(', '))})`
+        : '');
+    const scores = candidate.scores.map((score) => (score === null ? '—' : `${(score * 100).toFixed(1)}%`));
+    lines.push(
+      `| ${i + 1} | ${name} | ${candidate.family ?? '—'} | ${(candidate.fusedScore * 100).toFixed(1)}% | ` +
+        `${scores.join(' | ')} |`
+    );
+  });
+  if (reconciliation.candidates.length > maxCandidates) {
+    lines.push('', m.reconcile.moreCandidates(reconciliation.candidates.length - maxCandidates));
+  }
+  lines.push('', m.reconcile.fusionNote(m.reconcile.fusionRule));
+  return lines.join('\n');
+}
+
+function formatRelatedImages(
+  images: PlantNetRelatedImage[] | undefined,
+  m: Messages = messagesFor('en'),
+  max = 3
+): string[] {
+  if (!images?.length) return [];
+  return [
+    `   - ${m.identify.referenceImages}:`,
+    ...images
+      .slice(0, max)
+      .map((image) => `     - [${image.organ}](${image.url.m}) — ${image.author}, ${image.license}`),
+  ];
+}
+
+function formatDiseaseResult(data: PlantNetDiseaseIdentifyResponse): string {
+  const lines = [
+    '## Plant Disease Identification Results',
+    '',
+    `**Remaining daily quota:** ${data.remainingIdentificationRequests} requests`,
+    `**AI engine version:** ${data.version}`,
+    '',
+  ];
+  if (data.results.length === 0) {
+    lines.push('No disease or pest matched these images.');
+  }
+  data.results.forEach((result, i) => {
+    lines.push(
+      `**${i + 1}. ${result.description || result.name}** (EPPO \`${result.name}\`) — ` +
+        `${(result.score * 100).toFixed(1)}% confidence`,
+      ...formatRelatedImages(result.images),
+      ''
+    );
+  });
   lines.push(
     '---',
-    '*Tip: For better accuracy, use clear photos of a single plant part and specify the correct organ.*'
+    '*Tip: Photograph the symptoms (spots, lesions, discoloration) up close; EPPO codes can be ' +
+      'looked up at https://gd.eppo.int.*'
   );
+  return lines.join('\n');
+}
 
+function formatSpeciesList(
+  project: string,
+  species: PlantNetSpeciesListEntry[],
+  filter: string | undefined,
+  limit: number
+): string {
+  const needle = filter?.toLowerCase();
+  const matching = needle
+    ? species.filter(
+        (s) =>
+          s.scientificNameWithoutAuthor.toLowerCase().includes(needle) ||
+          (s.commonNames ?? []).some((name) => name.toLowerCase().includes(needle))
+      )
+    : species;
+  const lines = [
+    `## Species in \`${project}\``,
+    '',
+    `**Species:** ${species.length}` +
+      (needle ? ` (${matching.length} matching "${filter}")` : '') +
+      (matching.length > limit ? `; showing the first ${limit}` : ''),
+    '',
+    '| Scientific name | Common names | GBIF ID | IUCN |',
+    '|-----------------|--------------|---------|------|',
+  ];
+  for (const s of matching.slice(0, limit)) {
+    const name = `*${s.scientificNameWithoutAuthor}*${s.scientificNameAuthorship ? ` ${s.scientificNameAuthorship}` : ''}`;
+    lines.push(
+      `| ${name} | ${(s.commonNames ?? []).slice(0, 3).join(', ') || '—'} | ` +
+        `${s.gbifId ?? '—'} | ${s.iucnCategory ?? '—'} |`
+    );
+  }
   return lines.join('\n');
 }
 
-// --- Server factory ---
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+async function formatCacheInspection(cache: IdentificationCache, limit: number): Promise<string> {
+  const stats = await cache.stats();
+  const entries = await cache.list();
+  const lines = [
+    '## Identification Cache',
+    '',
+    `**Directory:** ${stats.directory}`,
+    `**Entries:** ${stats.entries} (${stats.expiredEntries} expired awaiting cleanup)`,
+    `**Size:** ${formatBytes(stats.totalBytes)} of ${formatBytes(stats.maxBytes)} max`,
+    `**Max entries:** ${stats.maxEntries}`,
+    `**TTL:** ${(stats.ttlMs / 3_600_000).toFixed(1)} hours`,
+    '',
+  ];
+
+  if (entries.length === 0) {
+    lines.push('The cache is empty.');
+    return lines.join('\n');
+  }
+
+  lines.push(
+    `### ${Math.min(limit, entries.length)} Most Recent Entries`,
+    '',
+    '| Key | Best match | Project | Organs | Stored | Expires |',
+    '|-----|-----------|---------|--------|--------|---------|'
+  );
+  for (const entry of entries.slice(0, limit)) {
+    lines.push(
+      `| \`${entry.key.slice(0, 12)}\` | ${entry.bestMatch} | ${entry.project} | ` +
+        `${entry.organs.join(', ')} | ${entry.storedAt} | ${entry.expiresAt} |`
+    );
+  }
+  return lines.join('\n');
+}
+
+function formatObservations(search: ObservationSearchResult): string {
+  if (search.total === 0) {
+    return 'No logged observations match these filters.';
+  }
+  const lines = [
+    '## Observation Log',
+    '',
+    `**Matches:** ${search.total}` +
+      (search.total > search.observations.length ? `; showing the ${search.observations.length} most recent` : ''),
+    '',
+    '| Recorded | Best match | Score | Family | Project | Location | Notes |',
+    '|----------|------------|-------|--------|---------|----------|-------|',
+  ];
+  for (const obs of search.observations) {
+    const top = obs.results[0];
+    const place = [
+      obs.location,
+      obs.coordinates && `${obs.coordinates.latitude.toFixed(5)}, ${obs.coordinates.longitude.toFixed(5)}`,
+    ]
+      .filter(Boolean)
+      .join(' — ');
+    lines.push(
+      `| ${obs.recordedAt.slice(0, 16).replace('T', ' ')} | ${top ? `*${top.scientificName}*` : '—'} | ` +
+        `${top ? `${(top.score * 100).toFixed(1)}%` : '—'} | ${top?.family ?? '—'} | \`${obs.project}\` | ` +
+        `${place || '—'} | ${obs.notes?.replace(/\s+/g, ' ').replace(/\|/g, '\\|') ?? '—'} |`
+    );
+  }
+  return lines.join('\n');
+}
+
+// Code fence language per export file, for rendering in Markdown
+const EXPORT_FENCE: Record<string, string> = {
+  'occurrence.txt': 'csv',
+  'meta.xml': 'xml',
+  'observations.geojson': 'json',
+};
 
-export function createPlantNetServer(): Server {
-  const apiKey = process.env.PLANTNET_API_KEY ?? process.env.PLANTNET_API;
-  if (!apiKey) {
-    throw new Error(
-      'PLANTNET_API_KEY (or PLANTNET_API) environment variable is required. ' +
-        'Get your free API key at https://my.plantnet.org/'
+function formatExportSummary(exported: ObservationExport, directory: string | null): string {
+  const lines = [
+    '## Darwin Core Export',
+    '',
+    `**Occurrences:** ${exported.exported}` +
+      (exported.skipped.length > 0 ? ` (${exported.skipped.length} observation(s) without a match skipped)` : ''),
+    `**Files:** ${exported.files.map((f) => `\`${f.name}\``).join(', ')}`,
+  ];
+  if (directory) {
+    lines.push(`**Written to:** \`${directory}\``);
+  }
+  if (exported.files.some((f) => f.name === 'meta.xml')) {
+    lines.push(
+      '',
+      'Zip `occurrence.txt` and `meta.xml` together (at the root of the zip) to obtain a Darwin Core Archive ' +
+        'for GBIF. Identifications are marked `unverified`; review them before publishing.'
     );
   }
+  return lines.join('\n');
+}
 
-  const client = new PlantNetClient(apiKey);
+function formatQuotaStatus(status: QuotaStatus, sessionCacheHits: number, m: Messages): string {
+  const lines = [m.quota.title, '', m.quota.dailyLimit(status.dailyLimit)];
+
+  if (!status.last) {
+    lines.push(m.quota.lastUnknown, '', m.quota.learnedNext);
+  } else if (status.stale) {
+    lines.push(
+      m.quota.lastKnown(status.last.remaining, status.last.observedAt),
+      m.quota.estimatedAfterReset(status.estimatedRemaining ?? status.last.remaining)
+    );
+  } else {
+    lines.push(m.quota.lastKnown(status.last.remaining, status.last.observedAt));
+  }
+
+  lines.push(
+    m.quota.nextReset(status.nextResetAt),
+    m.quota.session(status.sessionCalls, sessionCacheHits, status.sessionStartedAt)
+  );
+
+  if (status.projectedExhaustionAt) {
+    const beforeReset = Date.parse(status.projectedExhaustionAt) < Date.parse(status.nextResetAt);
+    lines.push(m.quota.projected(status.projectedExhaustionAt, beforeReset));
+  } else {
+    lines.push(m.quota.notProjected);
+  }
+
+  if (status.estimatedRemaining !== null && status.estimatedRemaining < status.warnThreshold) {
+    lines.push('', m.quota.belowThreshold(status.warnThreshold));
+  }
+
+  lines.push('', m.quota.limitNote, m.quota.increase);
+
+  return lines.join('\n');
+}
+
+function formatPoolStatus(pool: KeyPoolStatus, m: Messages): string {
+  if (pool.keys.length === 1) {
+    return formatQuotaStatus(pool.keys[0], pool.sessionCacheHits, m);
+  }
+
+  const lines = [
+    m.quota.title,
+    '',
+    m.quota.pooledKeys(pool.keys.length),
+    m.quota.poolRemaining(pool.estimatedRemaining, pool.dailyLimit),
+    m.quota.nextReset(pool.nextResetAt),
+    m.quota.session(pool.sessionCalls, pool.sessionCacheHits, pool.sessionStartedAt),
+    '',
+    m.quota.keyTableHeader,
+  ];
+  for (const key of pool.keys) {
+    const remaining =
+      key.estimatedRemaining === null
+        ? m.unknown
+        : `${key.estimatedRemaining}${key.stale ? m.quota.resetSince : ''}`;
+    lines.push(
+      `| \`${key.key}\` | ${m.quota.keyStates[key.state]} | ${remaining} | ${key.last?.observedAt ?? '—'} | ${key.sessionCalls} |`
+    );
+  }
+
+  const rejected = pool.keys.filter(
+    (k): k is KeyQuotaStatus & { rejectedReason: string } => k.rejectedReason !== null
+  );
+  if (rejected.length > 0) {
+    lines.push('', ...rejected.map((k) => m.quota.rejected(k.key, k.rejectedReason)));
+  }
+  if (pool.estimatedRemaining !== null && pool.estimatedRemaining < pool.warnThreshold) {
+    lines.push('', m.quota.belowThreshold(pool.warnThreshold));
+  }
+
+  lines.push('', m.quota.failoverNote, m.quota.increase);
+
+  return lines.join('\n');
+}
+
+// PlantNetError messages are redacted when built; anything else may echo a URL or key
+function batchErrorMessage(error: Error): string {
+  return error instanceof PlantNetError ? error.message : redact(error.message);
+}
+
+function formatBatchSummary(summary: BatchSummary): string {
+  const lines = [
+    '## Batch Identification Results',
+    '',
+    `**Observations:** ${summary.items.length} — ${summary.succeeded} identified, ` +
+      `${summary.failed} failed, ${summary.skipped} skipped`,
+    `**Quota used:** ${summary.apiCalls} API call(s); ${summary.cacheHits} served from cache`,
+    ...(summary.stopReason ? [`**Stopped early:** ${summary.stopReason}`] : []),
+    '',
+    '| # | Status | Best match | Score | Family | Details |',
+    '|---|--------|-----------|-------|--------|---------|',
+  ];
+
+  for (const item of summary.items) {
+    if (item.status === 'ok') {
+      const top = item.result.results[0];
+      lines.push(
+        `| ${item.id} | ok | ${top ? top.species.scientificNameWithoutAuthor : 'no match'} | ` +
+          `${top ? `${(top.score * 100).toFixed(1)}%` : '—'} | ` +
+          `${top ? top.species.family.scientificNameWithoutAuthor : '—'} | ` +
+          `${item.result.cache ? 'cached' : ''} |`
+      );
+    } else if (item.status === 'error') {
+      const kind = item.error instanceof PlantNetError ? item.error.kind : 'error';
+      lines.push(`| ${item.id} | ${kind} | — | — | — | ${batchErrorMessage(item.error).replace(/\|/g, '\\|')} |`);
+    } else {
+      lines.push(`| ${item.id} | skipped | — | — | — | ${item.reason} |`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+// --- Error mapping ---
+
+const ERROR_GUIDANCE: Record<Exclude<PlantNetError['kind'], 'validation'>, string> = {
+  auth:
+    'The Pl@ntNet API key was rejected. Do not retry; ask the user to check PLANTNET_API_KEY ' +
+    '(get or renew a key at https://my.plantnet.org/).',
+  quota:
+    'The daily identification quota is exhausted. Do not retry today; use check_quota to see ' +
+    'when it resets, or ask the user to raise the quota at https://my.plantnet.org/account/settings.',
+  not_found:
+    'No species matched these images. Try clearer photos of a single plant part, set the correct ' +
+    'organ instead of "auto", add photos of other organs, or search project "all" instead of a regional flora.',
+  bad_image:
+    'An image could not be used. Check that each URL is publicly reachable, each local path exists, ' +
+    'and each image is a JPEG or PNG, then retry with corrected images.',
+  upstream:
+    'The Pl@ntNet service is temporarily unavailable or timed out. Wait a moment and retry once; ' +
+    'if it keeps failing, try again later.',
+};
+
+function formatZodError(err: ZodError): string {
+  return err.issues
+    .map((issue) => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+    .join('; ');
+}
+
+/**
+ * Map a tool failure to the MCP response agents can act on: invalid arguments become
+ * InvalidParams protocol errors; Pl@ntNet failures become isError tool results with guidance.
+ */
+function toToolError(err: unknown): { content: { type: 'text'; text: string }[]; isError: true } {
+  if (err instanceof McpError) throw err;
+  if (err instanceof ZodError) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid arguments: ${formatZodError(err)}`);
+  }
+  if (err instanceof PlantNetError) {
+    if (err.kind === 'validation') {
+      throw new McpError(ErrorCode.InvalidParams, err.message);
+    }
+    return {
+      content: [{ type: 'text', text: `**Error (${err.kind}):** ${err.message}\n\n${ERROR_GUIDANCE[err.kind]}` }],
+      isError: true,
+    };
+  }
+  const message = err instanceof Error ? err.message : String(err);
+  throw new McpError(ErrorCode.InternalError, `Tool execution failed: ${redact(message)}`);
+}
+
+// --- Server factory ---
+
+/**
+ * Process-wide state behind the MCP servers: the backend with its key pool and quota
+ * trackers, the identification cache, the observation log and the taxonomy and safety
+ * indexes. The HTTP transport builds a server per session on one shared context, so
+ * key selection and quota estimates see the calls of every session.
+ */
+export interface PlantNetContext {
+  provider: IdentificationProvider;
+  cache: IdentificationCache | null;
+  quota: ApiKeyPool;
+  observations: ObservationLog | null;
+  taxonomy: TaxonomyIndex | null;
+  safety: SafetyIndex | null;
+  defaultLang: string;
+}
+
+/**
+ * Build the shared context from the environment. Throws on configuration errors
+ * such as a missing API key.
+ */
+export function createPlantNetContext(): PlantNetContext {
+  let provider: IdentificationProvider;
+  let cache: IdentificationCache | null = null;
+  let quota: ApiKeyPool;
+  if (providerNameFromEnv() === 'mock') {
+    // Answers come from local fixtures, so no API key or identification cache is needed,
+    // and the fake key's quota is not persisted next to real keys
+    provider = MockProvider.fromEnv();
+    quota = new ApiKeyPool(['mock'], (key) => new QuotaTracker(key, { file: null }));
+  } else {
+    quota = ApiKeyPool.fromEnv();
+    cache = IdentificationCache.fromEnv();
+    provider = new KeyPoolProvider(quota, { cache });
+  }
+  return {
+    provider,
+    cache,
+    quota,
+    observations: ObservationLog.fromEnv(),
+    taxonomy: TaxonomyIndex.fromEnv(),
+    safety: SafetyIndex.fromEnv(),
+    defaultLang: defaultLanguageFromEnv(),
+  };
+}
+
+/**
+ * Create an MCP server on a context; identifications made through it are listed in
+ * its own history. Without a context, one is built from the environment.
+ */
+export function createPlantNetServer(context: PlantNetContext = createPlantNetContext()): Server {
+  const { provider, cache, quota, observations, taxonomy, safety, defaultLang } = context;
+  const history = new IdentificationHistory();
+
+  // Identify, record quota usage from the response and remember and log the result
+  async function identify(args: IdentifyPlantArgs): Promise<PlantNetIdentifyResponse> {
+    args = { ...args, lang: args.lang ?? defaultLang };
+    let result = await provider.identifyPlant(args);
+    if (taxonomy) {
+      // Enrichment is optional; a missing or unreadable snapshot leaves the result as it was
+      const plain = result;
+      result = await taxonomy.enrich(plain).catch(() => plain);
+    }
+    if (safety) {
+      // After taxonomy, so synonyms are also matched by their accepted name
+      const plain = result;
+      result = await safety.annotate(plain).catch(() => plain);
+    }
+    if (result.cache) {
+      quota.recordCacheHit();
+    } else {
+      await quota.record(result.remainingIdentificationRequests, result.apiKeyId);
+    }
+    history.add(result);
+    // The identification already used quota; a log write failure must not lose it
+    await observations?.record(args, result).catch(() => undefined);
+    return result;
+  }
 
   const server = new Server(
     { name: 'plantnet-mcp', version: '1.0.0' },
-    { capabilities: { tools: {} } }
+    { capabilities: { tools: {}, resources: { listChanged: true }, prompts: {} } }
   );
 
+  // New project resources become listable whenever the cached list is (re)fetched
+  const stopRefreshNotices = provider.projects.onRefresh(() => {
+    server.sendResourceListChanged().catch(() => undefined);
+  });
+  // The catalog outlives this server when the context is shared
+  server.onclose = stopRefreshNotices;
+
+  registerResources(server, { provider, cache, history, defaultLang });
+  registerPrompts(server);
+
   // List available tools
   server.setRequestHandler(ListToolsRequestSchema, async () => ({
     tools: [
@@ -91,64 +944,86 @@ export function createPlantNetServer(): Server {
         name: 'identify_plant',
         description:
           'Identify plant species from one or more photos using the Pl@ntNet AI. ' +
-          'Provide image URLs and specify which plant organ appears in each photo. ' +
+          'Provide image URLs, local file paths or base64 data URIs and specify which plant organ appears in each photo. ' +
           'Returns ranked species matches with confidence scores, scientific and common names, ' +
-          'taxonomic classification (genus, family), GBIF and POWO identifiers, ' +
+          'taxonomic classification (genus, family; order, class, name status and native range from a local ' +
+          'taxonomy snapshot), GBIF and POWO identifiers, toxicity, invasive-status and conservation flags with ' +
+          'their sources (and a caution when the best match is toxic, invasive or protected), ' +
           'and remaining daily API quota. Supports up to 5 images per request for improved accuracy. ' +
+          'Each result is classified as confident, ambiguous or inconclusive, with near-tied candidates ' +
+          'grouped by genus/family and the organ photo to add next when the result is not confident. ' +
+          'Repeated requests for the same images and parameters are answered from a local cache without using quota. ' +
+          'Every identification, with optional notes and location, is saved to a local log searchable with search_observations. ' +
           'Example: identify a rose from a flower photo, or an oak from a leaf photo.',
         inputSchema: {
           type: 'object',
           properties: {
-            image_urls: {
-              type: 'array',
-              items: { type: 'string', format: 'uri' },
+            ...IDENTIFY_INPUT_PROPERTIES,
+            output_format: {
+              type: 'string',
+              enum: ['markdown', 'json', 'both'],
               description:
-                'List of publicly accessible image URLs (JPG or PNG). ' +
-                'Using multiple images of different organs improves identification accuracy. ' +
-                'Maximum 5 images.',
-              minItems: 1,
-              maxItems: 5,
+                'Text rendering of the result. "markdown" (default) is a readable summary; ' +
+                '"json" is the normalized result object serialized as JSON; "both" returns both. ' +
+                'The normalized result is always available as structured content.',
+              default: 'markdown',
             },
-            organs: {
+          },
+          required: ['image_urls', 'organs'],
+        },
+        outputSchema: IDENTIFY_OUTPUT_SCHEMA,
+      },
+      {
+        name: 'batch_identify',
+        description:
+          'Identify many observations (e.g. a survey) in one call. Each observation is one plant with ' +
+          '1–5 images and the same arguments as identify_plant. Observations run concurrently, and ' +
+          'the batch stops starting new identifications once quota_budget API calls are spent or the ' +
+          'remaining daily quota is reached. Returns a summary table plus per-observation results and errors. ' +
+          'Cached observations do not use quota.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            observations: {
               type: 'array',
+              description: 'Observations to identify (1–100).',
+              minItems: 1,
+              maxItems: 100,
               items: {
-                type: 'string',
-                enum: ['leaf', 'flower', 'fruit', 'bark', 'auto', 'habit', 'other'],
+                type: 'object',
+                properties: {
+                  id: {
+                    type: 'string',
+                    description: 'Optional label for the observation (e.g. a plot or specimen ID).',
+                  },
+                  ...IDENTIFY_INPUT_PROPERTIES,
+                },
+                required: ['image_urls', 'organs'],
               },
-              description:
-                'Plant organ shown in each image. Must have the same count as image_urls. ' +
-                '"leaf", "flower", "fruit", "bark" — specific organ types. ' +
-                '"habit" — the whole plant. ' +
-                '"auto" — let PlantNet detect automatically. ' +
-                '"other" — unclassified plant part.',
             },
-            project: {
-              type: 'string',
-              description:
-                'Flora database to search. "all" (default) searches the global database. ' +
-                'Use a regional project ID (e.g. "weurope" for Western Europe) for higher accuracy ' +
-                'when you know the plant\'s geographic origin. ' +
-                'Use the list_projects tool to discover available projects.',
-              default: 'all',
+            concurrency: {
+              type: 'number',
+              description: 'Maximum identifications in flight at once (1–5). Default: 2.',
+              default: 2,
+              minimum: 1,
+              maximum: 5,
             },
-            lang: {
-              type: 'string',
+            quota_budget: {
+              type: 'number',
               description:
-                'Language code for common names in results. ' +
-                'Examples: "en" (English), "fr" (French), "es" (Spanish), "de" (German). Default: "en".',
-              default: 'en',
+                'Maximum API calls this batch may spend. Observations beyond the budget are skipped. ' +
+                'Default: no limit other than the remaining daily quota.',
+              minimum: 1,
             },
-            nb_results: {
+            min_remaining_quota: {
               type: 'number',
               description:
-                'Number of species results to return (1–25). ' +
-                'Higher values give more alternatives but the top result is usually most accurate. Default: 5.',
-              default: 5,
-              minimum: 1,
-              maximum: 25,
+                'Stop before the remaining daily quota drops to this many requests, keeping them in reserve. Default: 0.',
+              default: 0,
+              minimum: 0,
             },
           },
-          required: ['image_urls', 'organs'],
+          required: ['observations'],
         },
       },
       {
@@ -165,8 +1040,183 @@ export function createPlantNetServer(): Server {
             lang: {
               type: 'string',
               description:
-                'Language for project names in the response. Default: "en".',
-              default: 'en',
+                'Language for project names and the response text. Default: the server default ' +
+                '(PLANTNET_DEFAULT_LANG, "en" unless set).',
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'list_species',
+        description:
+          'List the species a Pl@ntNet flora project can identify, with common names, GBIF IDs and ' +
+          'IUCN categories. Use it to check whether a suspected species occurs in a regional flora ' +
+          'before choosing that project for identify_plant. Filter by scientific or common name.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            project: {
+              type: 'string',
+              description: 'Project ID from list_projects, e.g. "weurope" or "all".',
+            },
+            lang: {
+              type: 'string',
+              description:
+                'Language for common names. Default: the server default (PLANTNET_DEFAULT_LANG, "en" unless set).',
+            },
+            filter: {
+              type: 'string',
+              description: 'Case-insensitive substring matched against scientific and common names.',
+            },
+            limit: {
+              type: 'number',
+              description: 'Maximum species to list (1–500). Default: 50.',
+              default: 50,
+              minimum: 1,
+              maximum: 500,
+            },
+          },
+          required: ['project'],
+        },
+      },
+      {
+        name: 'identify_disease',
+        description:
+          'Identify plant diseases and pests from photos of symptoms (leaf spots, lesions, mildew, ' +
+          'insect damage) using the Pl@ntNet disease model. Returns ranked EPPO-coded diseases with ' +
+          'confidence scores and, optionally, reference images. Uses the same image sources as ' +
+          'identify_plant and counts against the daily quota.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            image_urls: IDENTIFY_INPUT_PROPERTIES.image_urls,
+            organs: {
+              ...IDENTIFY_INPUT_PROPERTIES.organs,
+              description:
+                'Optional plant organ shown in each image (same count as image_urls), e.g. "leaf" for leaf spots.',
+            },
+            lang: IDENTIFY_INPUT_PROPERTIES.lang,
+            nb_results: IDENTIFY_INPUT_PROPERTIES.nb_results,
+            include_related_images: {
+              type: 'boolean',
+              description: 'Also return reference photos of each disease. Default: false.',
+              default: false,
+            },
+          },
+          required: ['image_urls'],
+        },
+      },
+      {
+        name: 'search_observations',
+        description:
+          'Search the local log of past identify_plant and batch_identify results, e.g. "what did we ' +
+          'identify last week near site B". Every identification is logged with its images, organs, ' +
+          'project, top matches and any notes/location given with it. Filters combine: species, family ' +
+          'and min_score apply to the top match; text matches notes, location, project, image sources ' +
+          'and all candidate names. Results are newest first.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...OBSERVATION_FILTER_PROPERTIES,
+            limit: {
+              type: 'number',
+              description: 'Maximum observations to list (1–200). Default: 20.',
+              default: 20,
+              minimum: 1,
+              maximum: 200,
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'export_observations',
+        description:
+          'Export logged identifications as GBIF-ready Darwin Core occurrence records: a Darwin Core ' +
+          'Archive (occurrence.txt as CSV plus meta.xml) and/or GeoJSON. The top match maps to ' +
+          'scientificName, family, genus, vernacularName and taxonID (GBIF); the score and runners-up to ' +
+          'identificationRemarks; coordinates to decimalLatitude/decimalLongitude; notes and location to ' +
+          'occurrenceRemarks and locality; organs and image hashes to dynamicProperties. Select observations ' +
+          'with the same filters as search_observations or by observation_ids; with no filter, the whole log ' +
+          'is exported.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...OBSERVATION_FILTER_PROPERTIES,
+            observation_ids: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Export only these observations (the id field of search_observations results).',
+            },
+            format: {
+              type: 'string',
+              enum: ['dwca', 'geojson', 'both'],
+              description: '"dwca" (occurrence.txt + meta.xml), "geojson", or "both" (default).',
+              default: 'both',
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'get_species_info',
+        description:
+          'Look up a plant species in the local taxonomy snapshot (GBIF Backbone and/or WCVP): full ' +
+          'classification including order and class, whether the name is accepted or a synonym (and of ' +
+          'what), and its native range with areas where it is native or introduced. Works offline and ' +
+          'uses no Pl@ntNet quota. identify_plant adds the same details to each match it finds.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Scientific name, with or without author, e.g. "Quercus robur" or "Quercus robur L.".',
+            },
+            gbif_id: {
+              type: 'string',
+              description: 'GBIF taxon key, e.g. "2878688" (the gbif ID in identify_plant results).',
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'reconcile_identifications',
+        description:
+          'Combine the evidence of several identifications of the same plant, e.g. a leaf photo and a later ' +
+          'flower photo sent in separate identify_plant calls. Takes two or more identificationIds from earlier ' +
+          'results and/or raw Pl@ntNet identify responses. Candidates are merged by species (synonyms folded ' +
+          'into their accepted name via the taxonomy snapshot) and re-ranked by a fused score: the geometric ' +
+          'mean of each species\' scores, with half an identification\'s lowest listed score standing in where ' +
+          'it did not list the species. Reports where the top matches agree or contradict each other at ' +
+          'species, genus and family level. Uses no quota.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            identification_ids: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'identificationId values of earlier identify_plant or batch_identify results.',
+            },
+            results: {
+              type: 'array',
+              items: { type: ['object', 'string'] },
+              description:
+                'Raw Pl@ntNet identify responses (as returned by the /v2/identify API), as objects or JSON text.',
+            },
+            max_candidates: {
+              type: 'number',
+              description: 'Fused candidates to list (1–50). Default: 10.',
+              default: 10,
+              minimum: 1,
+              maximum: 50,
+            },
+            lang: {
+              type: 'string',
+              description:
+                'Language of the report (en, fr, es, de or he). Default: the server default ' +
+                '(PLANTNET_DEFAULT_LANG, "en" unless set).',
             },
           },
           required: [],
@@ -175,13 +1225,54 @@ export function createPlantNetServer(): Server {
       {
         name: 'check_quota',
         description:
-          'Get information about Pl@ntNet API rate limits and quota. ' +
-          'The free Pl@ntNet API allows 500 identifications per day per API key. ' +
-          'The exact remaining count for today is returned as part of every identify_plant response. ' +
-          'Use this tool when you need to understand quota constraints before batch processing.',
+          'Report Pl@ntNet API quota usage for the configured API key, or per key (masked) when several are pooled. ' +
+          'Shows the last known remaining daily identification count and when it was observed, ' +
+          'the next daily reset time, identification calls made this session, and a projected ' +
+          'exhaustion time at the current rate. The free tier allows 500 identifications per day. ' +
+          'Use this tool before batch processing to check whether enough quota remains.',
         inputSchema: {
           type: 'object',
-          properties: {},
+          properties: {
+            lang: {
+              type: 'string',
+              description:
+                'Language of the report (en, fr, es, de or he). Default: the server default ' +
+                '(PLANTNET_DEFAULT_LANG, "en" unless set).',
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'manage_cache',
+        description:
+          'Inspect or clear the local identification cache. ' +
+          'identify_plant caches results keyed by the image contents and request parameters, ' +
+          'so asking about the same photo again does not use daily quota. ' +
+          'Use "inspect" to see cache size and recent entries, or "clear" to delete entries ' +
+          '(e.g. to force a fresh identification).',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            action: {
+              type: 'string',
+              enum: ['inspect', 'clear'],
+              description: '"inspect" (default) shows cache statistics and entries; "clear" deletes entries.',
+              default: 'inspect',
+            },
+            expired_only: {
+              type: 'boolean',
+              description: 'With "clear", only delete entries past their time-to-live. Default: false.',
+              default: false,
+            },
+            limit: {
+              type: 'number',
+              description: 'With "inspect", maximum number of entries to list (1–100). Default: 20.',
+              default: 20,
+              minimum: 1,
+              maximum: 100,
+            },
+          },
           required: [],
         },
       },
@@ -195,62 +1286,272 @@ export function createPlantNetServer(): Server {
     try {
       if (name === 'identify_plant') {
         const parsed = IdentifyPlantSchema.parse(args);
-        const result = await client.identifyPlant(parsed);
+        const lang = parsed.lang ?? defaultLang;
+        const result = await identify({ ...parsed, lang });
+        const warning = await quota.lowQuotaWarning();
+        const caution = result.results[0] ? safetyWarning(result.results[0]) : null;
+        // Structured warnings stay in English; only the Markdown is localized
+        const structured = toStructuredResult(
+          result,
+          [warning, caution].filter((w): w is string => w !== null)
+        );
+        const content: { type: 'text'; text: string }[] = [];
+        if (parsed.output_format !== 'json') {
+          const m = messagesFor(lang);
+          const localizedWarning = warning ? await quota.lowQuotaWarning(new Date(), m) : null;
+          const localizedCaution = result.results[0] ? safetyWarning(result.results[0], m) : null;
+          const notices = [
+            ...(localizedWarning ? [`> **${m.warning}:** ${localizedWarning}`] : []),
+            ...(localizedCaution ? [`> **${m.caution}:** ${localizedCaution}`] : []),
+          ];
+          const text = formatIdentifyResult(result, lang);
+          content.push({ type: 'text', text: [...notices, text].join('\n\n') });
+        }
+        if (parsed.output_format !== 'markdown') {
+          content.push({ type: 'text', text: JSON.stringify(structured, null, 2) });
+        }
+        return { content, structuredContent: structured };
+      }
+
+      if (name === 'batch_identify') {
+        const parsed = BatchIdentifySchema.parse(args);
+        const summary = await runBatch(parsed.observations, {
+          concurrency: parsed.concurrency,
+          budget: parsed.quota_budget,
+          remainingQuota: async () => (await quota.status()).estimatedRemaining,
+          minRemainingQuota: parsed.min_remaining_quota,
+          identify,
+        });
         return {
-          content: [{ type: 'text', text: formatIdentifyResult(result) }],
+          content: [{ type: 'text', text: formatBatchSummary(summary) }],
+          structuredContent: {
+            succeeded: summary.succeeded,
+            failed: summary.failed,
+            skipped: summary.skipped,
+            apiCalls: summary.apiCalls,
+            cacheHits: summary.cacheHits,
+            stopReason: summary.stopReason,
+            observations: summary.items.map((item) =>
+              item.status === 'ok'
+                ? { id: item.id, status: item.status, result: toStructuredResult(item.result) }
+                : item.status === 'error'
+                  ? {
+                      id: item.id,
+                      status: item.status,
+                      error: {
+                        kind: item.error instanceof PlantNetError ? item.error.kind : 'internal',
+                        message: batchErrorMessage(item.error),
+                      },
+                    }
+                  : { id: item.id, status: item.status, reason: item.reason }
+            ),
+          },
         };
       }
 
       if (name === 'list_projects') {
         const parsed = ListProjectsSchema.parse(args);
-        const projects = await client.listProjects(parsed.lang);
-        const lines = [
-          '## Available Pl@ntNet Flora Projects',
-          '',
-          'Use the **Project ID** as the `project` argument in `identify_plant` for regional accuracy.',
-          '',
-          '| Project ID | Name |',
-          '|-----------|------|',
-        ];
-        for (const [id, info] of Object.entries(projects)) {
-          const p = info as { id?: string; name?: string };
-          lines.push(`| \`${p.id ?? id}\` | ${p.name ?? id} |`);
+        const lang = parsed.lang ?? defaultLang;
+        const projects = await provider.projects.get(lang);
+        const m = messagesFor(lang);
+        const lines = [m.projects.title, '', m.projects.intro, '', m.projects.tableHeader];
+        for (const { id, name } of Object.values(projects)) {
+          lines.push(`| \`${id}\` | ${name ?? id} |`);
         }
         return {
           content: [{ type: 'text', text: lines.join('\n') }],
         };
       }
 
-      if (name === 'check_quota') {
+      if (name === 'list_species') {
+        const parsed = ListSpeciesSchema.parse(args);
+        const species = await provider.listSpecies(parsed.project, parsed.lang ?? defaultLang);
+        return {
+          content: [
+            { type: 'text', text: formatSpeciesList(parsed.project, species, parsed.filter, parsed.limit) },
+          ],
+        };
+      }
+
+      if (name === 'identify_disease') {
+        const parsed = IdentifyDiseaseSchema.parse(args);
+        const result = await provider.identifyDisease({ ...parsed, lang: parsed.lang ?? defaultLang });
+        await quota.record(result.remainingIdentificationRequests, result.apiKeyId);
+        return {
+          content: [{ type: 'text', text: formatDiseaseResult(result) }],
+          structuredContent: {
+            results: result.results.map((r, i) => ({
+              rank: i + 1,
+              eppoCode: r.name,
+              description: r.description,
+              score: r.score,
+              relatedImages: (r.images ?? []).map(toStructuredImage),
+            })),
+            remainingDailyRequests: result.remainingIdentificationRequests,
+            engineVersion: result.version,
+          },
+        };
+      }
+
+      if (name === 'search_observations') {
+        const parsed = SearchObservationsSchema.parse(args ?? {});
+        if (!observations) {
+          return {
+            content: [
+              { type: 'text', text: 'The observation log is disabled (PLANTNET_OBSERVATIONS=off).' },
+            ],
+          };
+        }
+        const search = await observations.search({
+          species: parsed.species,
+          family: parsed.family,
+          from: parsed.from,
+          to: parsed.to,
+          minScore: parsed.min_score,
+          text: parsed.text,
+          limit: parsed.limit,
+        });
+        return {
+          content: [{ type: 'text', text: formatObservations(search) }],
+          structuredContent: { total: search.total, observations: search.observations },
+        };
+      }
+
+      if (name === 'export_observations') {
+        const parsed = ExportObservationsSchema.parse(args ?? {});
+        if (!observations) {
+          return {
+            content: [
+              { type: 'text', text: 'The observation log is disabled (PLANTNET_OBSERVATIONS=off).' },
+            ],
+          };
+        }
+        const search = await observations.search({
+          ids: parsed.observation_ids,
+          species: parsed.species,
+          family: parsed.family,
+          from: parsed.from,
+          to: parsed.to,
+          minScore: parsed.min_score,
+          text: parsed.text,
+        });
+        const exported = exportObservations(
+          search.observations,
+          parsed.format === 'both' ? ['dwca', 'geojson'] : [parsed.format]
+        );
+        const exportDir = process.env.PLANTNET_EXPORT_DIR;
+        const directory = exportDir ? await writeExportFiles(path.resolve(exportDir), exported.files) : null;
+        return {
+          content: [
+            { type: 'text', text: formatExportSummary(exported, directory) },
+            ...exported.files.map((file) => ({
+              type: 'text' as const,
+              text: `### ${file.name}\n\n\`\`\`${EXPORT_FENCE[file.name] ?? ''}\n${file.content}\`\`\``,
+            })),
+          ],
+          structuredContent: { ...exported, directory },
+        };
+      }
+
+      if (name === 'get_species_info') {
+        const parsed = GetSpeciesInfoSchema.parse(args ?? {});
+        if (!taxonomy) {
+          return {
+            content: [{ type: 'text', text: 'The taxonomy snapshot is disabled (PLANTNET_TAXONOMY=off).' }],
+          };
+        }
+        const snapshot = await taxonomy.get();
+        const info = snapshot.lookup({ name: parsed.name, gbifId: parsed.gbif_id });
+        const query = parsed.gbif_id ? `GBIF ID ${parsed.gbif_id}` : `"${parsed.name}"`;
         return {
           content: [
             {
               type: 'text',
-              text: [
-                '## Pl@ntNet API Quota Information',
-                '',
-                '**Free tier limit:** 500 identifications per day per API key.',
-                '',
-                'The exact number of remaining requests for today is returned in every `identify_plant` response ' +
-                  'as the `remainingIdentificationRequests` field.',
-                '',
-                'To check your current quota, make any `identify_plant` request and note the value shown in:',
-                '  **Remaining daily quota:** N requests',
-                '',
-                'If you exceed the daily limit, the API returns a 429 Too Many Requests error.',
-                '',
-                'To increase your quota, visit: https://my.plantnet.org/account/settings',
-              ].join('\n'),
+              text: info
+                ? formatSpeciesInfo(info)
+                : `No species matching ${query} in the taxonomy snapshot (${taxonomy.dir}).`,
             },
           ],
+          structuredContent: { found: info !== null, species: info },
+        };
+      }
+
+      if (name === 'reconcile_identifications') {
+        const parsed = ReconcileIdentificationsSchema.parse(args ?? {});
+        const inputs: ReconcileInput[] = [];
+        for (const id of parsed.identification_ids) {
+          const result = await findIdentification({ history, cache }, id);
+          if (!result) {
+            throw new PlantNetValidationError(`Unknown or expired identification: ${id}`);
+          }
+          inputs.push({ label: `#${inputs.length + 1}`, result });
+        }
+        for (const raw of parsed.results) {
+          const label = `#${inputs.length + 1}`;
+          inputs.push({ label, result: parseIdentifyResponse(raw, label) });
+        }
+        if (taxonomy) {
+          // Cached and raw results have not been enriched; the snapshot lets synonyms merge
+          for (const input of inputs) {
+            const plain = input.result;
+            input.result = await taxonomy.enrich(plain).catch(() => plain);
+          }
+        }
+        const reconciliation = reconcileIdentifications(inputs);
+        const m = messagesFor(parsed.lang ?? defaultLang);
+        // Structured content stays in English, like identify_plant's
+        const english = messagesFor('en');
+        return {
+          content: [{ type: 'text', text: formatReconciliation(reconciliation, parsed.max_candidates, m) }],
+          structuredContent: {
+            ...reconciliation,
+            candidates: reconciliation.candidates.slice(0, parsed.max_candidates),
+            fusionRule: english.reconcile.fusionRule,
+            summary: english.reconcile.summary(reconciliation),
+          },
+        };
+      }
+
+      if (name === 'check_quota') {
+        const parsed = CheckQuotaSchema.parse(args ?? {});
+        return {
+          content: [
+            { type: 'text', text: formatPoolStatus(await quota.status(), messagesFor(parsed.lang ?? defaultLang)) },
+          ],
+        };
+      }
+
+      if (name === 'manage_cache') {
+        const parsed = ManageCacheSchema.parse(args ?? {});
+        if (!cache) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: 'The identification cache is disabled (PLANTNET_CACHE=off).',
+              },
+            ],
+          };
+        }
+        if (parsed.action === 'clear') {
+          const removed = await cache.clear(parsed.expired_only);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Removed ${removed} ${parsed.expired_only ? 'expired ' : ''}cache ${removed === 1 ? 'entry' : 'entries'}.`,
+              },
+            ],
+          };
+        }
+        return {
+          content: [{ type: 'text', text: await formatCacheInspection(cache, parsed.limit) }],
         };
       }
 
       throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
     } catch (err) {
-      if (err instanceof McpError) throw err;
-      const message = err instanceof Error ? err.message : String(err);
-      throw new McpError(ErrorCode.InternalError, `Tool execution failed: ${message}`);
+      return toToolError(err);
     }
   });
 
@@ -0,0 +1,370 @@
+import { resolveCommonNames } from './messages';
+import { analyzeResult } from './result-analysis';
+import type {
+  PlantNetIdentifyResponse,
+  PlantNetRelatedImage,
+  StructuredIdentifyResult,
+  StructuredRelatedImage,
+} from './types';
+
+/** Bumped whenever the shape of StructuredIdentifyResult changes incompatibly. */
+export const STRUCTURED_RESULT_VERSION = '1.0';
+
+/**
+ * Flatten a related image to the fields agents need for display and attribution.
+ */
+export function toStructuredImage(image: PlantNetRelatedImage): StructuredRelatedImage {
+  return {
+    organ: image.organ,
+    url: image.url.o,
+    thumbnailUrl: image.url.s,
+    author: image.author,
+    license: image.license,
+    citation: image.citation,
+  };
+}
+
+/**
+ * Normalize a Pl@ntNet identify response into the versioned structured result.
+ */
+export function toStructuredResult(
+  data: PlantNetIdentifyResponse,
+  warnings: string[] = []
+): StructuredIdentifyResult {
+  return {
+    schemaVersion: STRUCTURED_RESULT_VERSION,
+    identificationId: data.identificationId ?? null,
+    bestMatch: data.bestMatch,
+    query: {
+      project: data.query.project,
+      organs: data.query.organs,
+      language: data.language,
+    },
+    matches: data.results.map((result, i) => {
+      const { names, language } = resolveCommonNames(result, data.language);
+      return {
+        rank: i + 1,
+        score: result.score,
+        scientificName: result.species.scientificName,
+        scientificNameWithoutAuthor: result.species.scientificNameWithoutAuthor,
+        author: result.species.scientificNameAuthorship || null,
+        genus: result.species.genus.scientificNameWithoutAuthor,
+        family: result.species.family.scientificNameWithoutAuthor,
+        commonNames: result.species.commonNames,
+        commonName: { name: names[0], language },
+        externalIds: {
+          gbif: result.gbif?.id ?? null,
+          powo: result.powo?.id ?? null,
+        },
+        relatedImages: (result.images ?? []).map(toStructuredImage),
+        taxonomy: result.taxonomy ?? null,
+        safety: result.safety ?? null,
+      };
+    }),
+    analysis: analyzeResult(data),
+    quota: {
+      remainingDailyRequests: data.remainingIdentificationRequests,
+      fromCache: Boolean(data.cache),
+    },
+    engineVersion: data.version,
+    cache: {
+      hit: Boolean(data.cache),
+      storedAt: data.cache?.storedAt ?? null,
+    },
+    projectSelection: data.projectSelection ?? null,
+    warnings,
+  };
+}
+
+const nullableString = { type: ['string', 'null'] };
+
+export const RELATED_IMAGE_SCHEMA = {
+  type: 'object',
+  properties: {
+    organ: { type: 'string' },
+    url: { type: 'string' },
+    thumbnailUrl: { type: 'string' },
+    author: { type: 'string' },
+    license: { type: 'string' },
+    citation: { type: 'string' },
+  },
+  required: ['organ', 'url', 'thumbnailUrl', 'author', 'license', 'citation'],
+};
+
+export const SPECIES_INFO_SCHEMA = {
+  type: 'object',
+  properties: {
+    scientificName: { type: 'string' },
+    authorship: nullableString,
+    rank: { type: 'string' },
+    status: { type: 'string', enum: ['accepted', 'synonym', 'doubtful', 'unplaced', 'misapplied', 'unknown'] },
+    acceptedName: nullableString,
+    classification: {
+      type: 'object',
+      properties: {
+        kingdom: nullableString,
+        phylum: nullableString,
+        class: nullableString,
+        order: nullableString,
+        family: nullableString,
+        genus: nullableString,
+      },
+      required: ['kingdom', 'phylum', 'class', 'order', 'family', 'genus'],
+    },
+    nativeRange: nullableString,
+    distribution: {
+      type: 'object',
+      properties: {
+        native: { type: 'array', items: { type: 'string' } },
+        introduced: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['native', 'introduced'],
+    },
+    vernacularNames: {
+      type: 'object',
+      description: 'GBIF common names by ISO 639-1 language code.',
+      additionalProperties: { type: 'array', items: { type: 'string' } },
+    },
+    ids: {
+      type: 'object',
+      properties: { gbif: nullableString, powo: nullableString },
+      required: ['gbif', 'powo'],
+    },
+    sources: { type: 'array', items: { type: 'string', enum: ['gbif', 'wcvp'] } },
+  },
+  required: [
+    'scientificName',
+    'authorship',
+    'rank',
+    'status',
+    'acceptedName',
+    'classification',
+    'nativeRange',
+    'distribution',
+    'vernacularNames',
+    'ids',
+    'sources',
+  ],
+};
+
+const SAFETY_SOURCE_SCHEMA = {
+  type: 'object',
+  properties: { name: { type: 'string' }, url: nullableString, license: nullableString },
+  required: ['name', 'url', 'license'],
+};
+
+const TOXICITY_LEVEL_SCHEMA = {
+  type: ['string', 'null'],
+  enum: ['non-toxic', 'toxic', 'mild', 'moderate', 'severe', null],
+};
+
+export const SAFETY_SCHEMA = {
+  type: 'object',
+  properties: {
+    toxicity: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          humans: TOXICITY_LEVEL_SCHEMA,
+          pets: {
+            type: 'object',
+            properties: { dogs: TOXICITY_LEVEL_SCHEMA, cats: TOXICITY_LEVEL_SCHEMA, horses: TOXICITY_LEVEL_SCHEMA },
+            required: ['dogs', 'cats', 'horses'],
+          },
+          notes: nullableString,
+          source: SAFETY_SOURCE_SCHEMA,
+        },
+        required: ['humans', 'pets', 'notes', 'source'],
+      },
+    },
+    invasive: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          region: { type: 'string' },
+          status: { type: 'string', enum: ['invasive', 'naturalised', 'regulated'] },
+          notes: nullableString,
+          source: SAFETY_SOURCE_SCHEMA,
+        },
+        required: ['region', 'status', 'notes', 'source'],
+      },
+    },
+    conservation: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          scope: { type: 'string' },
+          category: { type: 'string' },
+          legallyProtected: { type: 'boolean' },
+          notes: nullableString,
+          source: SAFETY_SOURCE_SCHEMA,
+        },
+        required: ['scope', 'category', 'legallyProtected', 'notes', 'source'],
+      },
+    },
+  },
+  required: ['toxicity', 'invasive', 'conservation'],
+};
+
+/**
+ * JSON Schema for StructuredIdentifyResult, declared as identify_plant's outputSchema.
+ */
+export const IDENTIFY_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    schemaVersion: { type: 'string', description: 'Version of this result format.' },
+    identificationId: {
+      ...nullableString,
+      description: 'ID of this identification; read it again via plantnet://identifications/{id}.',
+    },
+    bestMatch: { type: 'string', description: 'Scientific name (with author) of the top match.' },
+    query: {
+      type: 'object',
+      properties: {
+        project: { type: 'string' },
+        organs: { type: 'array', items: { type: 'string' } },
+        language: { type: 'string' },
+      },
+      required: ['project', 'organs', 'language'],
+    },
+    matches: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          rank: { type: 'integer', minimum: 1 },
+          score: { type: 'number', minimum: 0, maximum: 1 },
+          scientificName: { type: 'string' },
+          scientificNameWithoutAuthor: { type: 'string' },
+          author: nullableString,
+          genus: { type: 'string' },
+          family: { type: 'string' },
+          commonNames: { type: 'array', items: { type: 'string' } },
+          commonName: {
+            type: 'object',
+            description:
+              'Name to display: a common name in the requested language, else in English from the taxonomy ' +
+              'snapshot, else the scientific name with language null.',
+            properties: { name: { type: 'string' }, language: nullableString },
+            required: ['name', 'language'],
+          },
+          externalIds: {
+            type: 'object',
+            properties: { gbif: nullableString, powo: nullableString },
+            required: ['gbif', 'powo'],
+          },
+          relatedImages: {
+            type: 'array',
+            description: 'Reference photos of the species; empty unless include_related_images was set.',
+            items: RELATED_IMAGE_SCHEMA,
+          },
+          taxonomy: {
+            ...SPECIES_INFO_SCHEMA,
+            type: ['object', 'null'],
+            description: 'Order, class, name status and native range from the local taxonomy snapshot; null when unknown.',
+          },
+          safety: {
+            ...SAFETY_SCHEMA,
+            type: ['object', 'null'],
+            description:
+              'Toxicity, invasive status per region and conservation status from the curated safety datasets, ' +
+              'each with its source; null when the datasets are disabled.',
+          },
+        },
+        required: [
+          'rank',
+          'score',
+          'scientificName',
+          'scientificNameWithoutAuthor',
+          'author',
+          'genus',
+          'family',
+          'commonNames',
+          'commonName',
+          'externalIds',
+          'relatedImages',
+          'taxonomy',
+          'safety',
+        ],
+      },
+    },
+    analysis: {
+      type: 'object',
+      description: 'Interpretation of the score distribution and the next photo to take.',
+      properties: {
+        outcome: { type: 'string', enum: ['confident', 'ambiguous', 'inconclusive'] },
+        summary: { type: 'string' },
+        candidates: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              rank: { type: 'integer', minimum: 1 },
+              scientificName: { type: 'string' },
+              score: { type: 'number' },
+              genus: { type: 'string' },
+              family: { type: 'string' },
+            },
+            required: ['rank', 'scientificName', 'score', 'genus', 'family'],
+          },
+        },
+        sharedTaxon: {
+          type: ['object', 'null'],
+          properties: { rank: { type: 'string', enum: ['genus', 'family'] }, name: { type: 'string' } },
+          required: ['rank', 'name'],
+        },
+        taxonGroups: {
+          type: 'array',
+          description: 'Genera and families holding several candidates, with their combined score.',
+          items: {
+            type: 'object',
+            properties: {
+              rank: { type: 'string', enum: ['genus', 'family'] },
+              name: { type: 'string' },
+              members: { type: 'array', items: { type: 'string' } },
+              combinedScore: { type: 'number' },
+            },
+            required: ['rank', 'name', 'members', 'combinedScore'],
+          },
+        },
+        recommendedOrgan: nullableString,
+        recommendation: nullableString,
+      },
+      required: ['outcome', 'summary', 'candidates', 'sharedTaxon', 'taxonGroups', 'recommendedOrgan', 'recommendation'],
+    },
+    quota: {
+      type: 'object',
+      properties: {
+        remainingDailyRequests: { type: 'integer' },
+        fromCache: { type: 'boolean' },
+      },
+      required: ['remainingDailyRequests', 'fromCache'],
+    },
+    engineVersion: { type: 'string' },
+    cache: {
+      type: 'object',
+      properties: { hit: { type: 'boolean' }, storedAt: nullableString },
+      required: ['hit', 'storedAt'],
+    },
+    projectSelection: {
+      type: ['object', 'null'],
+      description: 'How the project was chosen when project "auto" or coordinates were used.',
+      properties: {
+        project: { type: 'string' },
+        reason: { type: 'string' },
+        source: { type: 'string', enum: ['coordinates', 'exif-gps', 'default'] },
+        coordinates: {
+          type: ['object', 'null'],
+          properties: { latitude: { type: 'number' }, longitude: { type: 'number' } },
+          required: ['latitude', 'longitude'],
+        },
+      },
+      required: ['project', 'reason', 'source', 'coordinates'],
+    },
+    warnings: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['schemaVersion', 'identificationId', 'bestMatch', 'query', 'matches', 'analysis', 'quota', 'engineVersion', 'cache', 'projectSelection', 'warnings'],
+};
@@ -0,0 +1,378 @@
+import { createReadStream, promises as fs } from 'fs';
+import * as path from 'path';
+import { createInterface } from 'readline';
+import type {
+  Classification,
+  PlantNetIdentifyResponse,
+  PlantNetResult,
+  SpeciesInfo,
+  TaxonStatus,
+} from './types';
+
+/** Snapshot shipped with the package, used unless PLANTNET_TAXONOMY_DIR points elsewhere. */
+export const DEFAULT_TAXONOMY_DIR = path.resolve(__dirname, '..', 'data', 'taxonomy');
+
+export type TaxonomySource = SpeciesInfo['sources'][number];
+
+/** One name from a snapshot file, as loaded. */
+export interface TaxonRecord {
+  source: TaxonomySource;
+  /** ID within its source: GBIF taxon key or WCVP plant_name_id. */
+  id: string;
+  name: string;
+  authorship: string | null;
+  rank: string;
+  status: TaxonStatus;
+  /** ID of the accepted name when this one is a synonym. */
+  acceptedId: string | null;
+  classification: Classification;
+  powoId: string | null;
+  /** WCVP's one-line native range summary. */
+  geographicArea: string | null;
+}
+
+export interface SpeciesQuery {
+  name?: string;
+  gbifId?: string;
+  powoId?: string;
+}
+
+const EMPTY_CLASSIFICATION: Classification = {
+  kingdom: null,
+  phylum: null,
+  class: null,
+  order: null,
+  family: null,
+  genus: null,
+};
+
+export function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[×]/g, 'x').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Lookup keys for a name, longest first, so "Quercus robur L." also tries "quercus robur".
+ * Stops at binomials: a genus alone never matches a species.
+ */
+export function nameKeys(name: string): string[] {
+  const words = normalizeName(name).split(' ');
+  const keys: string[] = [];
+  for (let n = words.length; n >= 2; n--) keys.push(words.slice(0, n).join(' '));
+  return keys;
+}
+
+function gbifStatus(value: string): TaxonStatus {
+  const status = value.toLowerCase();
+  if (status === 'accepted') return 'accepted';
+  if (status.includes('synonym')) return 'synonym';
+  if (status === 'doubtful') return 'doubtful';
+  if (status === 'misapplied') return 'misapplied';
+  return 'unknown';
+}
+
+function wcvpStatus(value: string): TaxonStatus {
+  const status = value.toLowerCase();
+  if (status === 'accepted' || status === 'artificial hybrid') return 'accepted';
+  if (status === 'synonym' || status === 'illegitimate' || status === 'invalid') return 'synonym';
+  if (status === 'unplaced') return 'unplaced';
+  if (status === 'misapplied') return 'misapplied';
+  return 'unknown';
+}
+
+/**
+ * Stream a delimited file with a header row, yielding rows keyed by column name.
+ * Quotes are not interpreted: GBIF and WCVP exports use tabs and pipes without quoting.
+ */
+async function* readRows(file: string, delimiter: string): AsyncGenerator<Record<string, string>> {
+  const lines = createInterface({ input: createReadStream(file, 'utf8'), crlfDelay: Infinity });
+  let header: string[] | null = null;
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    const cells = line.split(delimiter);
+    if (!header) {
+      header = cells.map((cell) => cell.trim().replace(/^﻿/, ''));
+      continue;
+    }
+    const row: Record<string, string> = {};
+    header.forEach((column, i) => {
+      row[column] = (cells[i] ?? '').trim();
+    });
+    yield row;
+  }
+}
+
+async function exists(file: string): Promise<boolean> {
+  return fs.access(file).then(
+    () => true,
+    () => false
+  );
+}
+
+/**
+ * Local taxonomy snapshot: a GBIF Backbone Taxonomy `Taxon.tsv` and/or WCVP
+ * `wcvp_names.csv` (plus optional `wcvp_distribution.csv`) subset. GBIF supplies the
+ * classification, WCVP the name status and native range; a species found in both is
+ * merged by canonical name.
+ */
+export class TaxonomySnapshot {
+  private readonly byId = new Map<string, TaxonRecord>();
+  private readonly byName = new Map<TaxonomySource, Map<string, TaxonRecord>>([
+    ['gbif', new Map()],
+    ['wcvp', new Map()],
+  ]);
+  private readonly byPowoId = new Map<string, TaxonRecord>();
+  private readonly distribution = new Map<string, { native: string[]; introduced: string[] }>();
+  private readonly vernacular = new Map<string, Record<string, string[]>>();
+
+  constructor(records: TaxonRecord[] = [], distribution: [string, string, boolean][] = []) {
+    for (const record of records) this.add(record);
+    for (const [plantNameId, area, introduced] of distribution) {
+      this.addDistribution(plantNameId, area, introduced);
+    }
+  }
+
+  /**
+   * Load every recognised file in a directory. Throws when there is none.
+   */
+  static async load(dir: string): Promise<TaxonomySnapshot> {
+    const snapshot = new TaxonomySnapshot();
+    const gbifFile = path.join(dir, 'Taxon.tsv');
+    const wcvpFile = path.join(dir, 'wcvp_names.csv');
+    const distributionFile = path.join(dir, 'wcvp_distribution.csv');
+    const vernacularFile = path.join(dir, 'VernacularName.tsv');
+    const found = { gbif: await exists(gbifFile), wcvp: await exists(wcvpFile) };
+    if (!found.gbif && !found.wcvp) {
+      throw new Error(`No taxonomy snapshot in ${dir}: expected Taxon.tsv (GBIF) or wcvp_names.csv (WCVP)`);
+    }
+
+    if (found.gbif) {
+      for await (const row of readRows(gbifFile, '\t')) {
+        const name = row.canonicalName || row.scientificName;
+        if (!row.taxonID || !name) continue;
+        snapshot.add({
+          source: 'gbif',
+          id: row.taxonID,
+          name: row.canonicalName || name.replace(` ${row.scientificNameAuthorship}`, ''),
+          authorship: row.scientificNameAuthorship || null,
+          rank: (row.taxonRank || 'unknown').toLowerCase(),
+          status: gbifStatus(row.taxonomicStatus ?? ''),
+          acceptedId: row.acceptedNameUsageID || null,
+          classification: {
+            kingdom: row.kingdom || null,
+            phylum: row.phylum || null,
+            class: row.class || null,
+            order: row.order || null,
+            family: row.family || null,
+            genus: row.genus || null,
+          },
+          powoId: null,
+          geographicArea: null,
+        });
+      }
+      if (await exists(vernacularFile)) {
+        for await (const row of readRows(vernacularFile, '\t')) {
+          if (!row.taxonID || !row.vernacularName || !row.language) continue;
+          snapshot.addVernacularName(row.taxonID, row.language, row.vernacularName);
+        }
+      }
+    }
+
+    if (found.wcvp) {
+      for await (const row of readRows(wcvpFile, '|')) {
+        if (!row.plant_name_id || !row.taxon_name) continue;
+        snapshot.add({
+          source: 'wcvp',
+          id: row.plant_name_id,
+          name: row.taxon_name,
+          authorship: row.taxon_authors || null,
+          rank: (row.taxon_rank || 'unknown').toLowerCase(),
+          status: wcvpStatus(row.taxon_status ?? ''),
+          acceptedId:
+            row.accepted_plant_name_id && row.accepted_plant_name_id !== row.plant_name_id
+              ? row.accepted_plant_name_id
+              : null,
+          classification: { ...EMPTY_CLASSIFICATION, family: row.family || null, genus: row.genus || null },
+          powoId: row.powo_id || null,
+          geographicArea: row.geographic_area || null,
+        });
+      }
+      if (await exists(distributionFile)) {
+        for await (const row of readRows(distributionFile, '|')) {
+          // Extinct and doubtful occurrences are not part of the current range
+          if (!row.plant_name_id || !row.area || row.extinct === '1' || row.location_doubtful === '1') continue;
+          snapshot.addDistribution(row.plant_name_id, row.area, row.introduced === '1');
+        }
+      }
+    }
+    return snapshot;
+  }
+
+  get size(): number {
+    return this.byId.size;
+  }
+
+  /**
+   * Look a species up by GBIF key, POWO ID or name (authorship is ignored).
+   * Returns null when no snapshot knows it.
+   */
+  lookup(query: SpeciesQuery): SpeciesInfo | null {
+    let gbif = query.gbifId ? (this.byId.get(`gbif:${query.gbifId}`) ?? null) : null;
+    let wcvp = query.powoId ? (this.byPowoId.get(query.powoId) ?? null) : null;
+    if (!gbif && !wcvp && query.name) {
+      gbif = this.findByName('gbif', query.name);
+      wcvp = this.findByName('wcvp', query.name);
+    }
+    // Complete the pair by canonical name
+    gbif ??= wcvp && this.findByName('gbif', wcvp.name);
+    wcvp ??= gbif && this.findByName('wcvp', gbif.name);
+    const primary = wcvp ?? gbif;
+    if (!primary) return null;
+
+    const acceptedWcvp = wcvp && this.accepted(wcvp);
+    const acceptedGbif = gbif ? this.accepted(gbif) : acceptedWcvp && this.findByName('gbif', acceptedWcvp.name);
+    const accepted = acceptedWcvp ?? acceptedGbif;
+    const status = wcvp?.status ?? gbif!.status;
+    const classification = { ...(acceptedGbif ?? gbif)?.classification ?? EMPTY_CLASSIFICATION };
+    // WCVP is the reference for vascular plant families
+    const wcvpClassification = (acceptedWcvp ?? wcvp)?.classification;
+    classification.family = wcvpClassification?.family ?? classification.family;
+    classification.genus ??= wcvpClassification?.genus ?? null;
+
+    return {
+      scientificName: primary.name,
+      authorship: primary.authorship,
+      rank: primary.rank,
+      status,
+      acceptedName:
+        status === 'synonym' && accepted
+          ? [accepted.name, accepted.authorship].filter(Boolean).join(' ')
+          : null,
+      classification,
+      nativeRange: (acceptedWcvp ?? wcvp)?.geographicArea ?? null,
+      distribution: this.distributionOf((acceptedWcvp ?? wcvp)?.id),
+      // Common names belong to the accepted taxon
+      vernacularNames: this.vernacularNamesOf((acceptedGbif ?? gbif)?.id),
+      // A synonym missing from one snapshot is reported with the accepted name's ID there
+      ids: {
+        gbif: (gbif ?? acceptedGbif)?.id ?? null,
+        powo: (acceptedWcvp ?? wcvp)?.powoId ?? null,
+      },
+      sources: [...(gbif || acceptedGbif ? ['gbif' as const] : []), ...(wcvp ? ['wcvp' as const] : [])],
+    };
+  }
+
+  /**
+   * Look up a Pl@ntNet match by its GBIF and POWO IDs, then by name.
+   */
+  lookupResult(result: PlantNetResult): SpeciesInfo | null {
+    return (
+      (result.gbif && this.lookup({ gbifId: result.gbif.id })) ||
+      (result.powo && this.lookup({ powoId: result.powo.id })) ||
+      this.lookup({ name: result.species.scientificNameWithoutAuthor })
+    );
+  }
+
+  private add(record: TaxonRecord): void {
+    this.byId.set(`${record.source}:${record.id}`, record);
+    const key = normalizeName(record.name);
+    const names = this.byName.get(record.source)!;
+    const existing = names.get(key);
+    // Prefer the accepted record when a name occurs more than once
+    if (!existing || (existing.status !== 'accepted' && record.status === 'accepted')) {
+      names.set(key, record);
+    }
+    if (record.powoId) this.byPowoId.set(record.powoId, record);
+  }
+
+  private addDistribution(plantNameId: string, area: string, introduced: boolean): void {
+    let entry = this.distribution.get(plantNameId);
+    if (!entry) {
+      entry = { native: [], introduced: [] };
+      this.distribution.set(plantNameId, entry);
+    }
+    const list = introduced ? entry.introduced : entry.native;
+    if (!list.includes(area)) list.push(area);
+  }
+
+  /** Record a GBIF common name; `language` is an ISO 639-1 code such as "en". */
+  addVernacularName(taxonId: string, language: string, name: string): void {
+    let names = this.vernacular.get(taxonId);
+    if (!names) {
+      names = {};
+      this.vernacular.set(taxonId, names);
+    }
+    const list = (names[language.toLowerCase()] ??= []);
+    if (!list.includes(name)) list.push(name);
+  }
+
+  private vernacularNamesOf(taxonId: string | undefined): Record<string, string[]> {
+    const names = taxonId ? this.vernacular.get(taxonId) : undefined;
+    return Object.fromEntries(Object.entries(names ?? {}).map(([language, list]) => [language, [...list]]));
+  }
+
+  private distributionOf(plantNameId: string | undefined): SpeciesInfo['distribution'] {
+    const entry = plantNameId ? this.distribution.get(plantNameId) : undefined;
+    return { native: [...(entry?.native ?? [])], introduced: [...(entry?.introduced ?? [])] };
+  }
+
+  /**
+   * Match a name with or without authorship: "Quercus robur L." finds "Quercus robur".
+   */
+  private findByName(source: TaxonomySource, name: string): TaxonRecord | null {
+    const names = this.byName.get(source)!;
+    for (const key of nameKeys(name)) {
+      const record = names.get(key);
+      if (record) return record;
+    }
+    return null;
+  }
+
+  private accepted(record: TaxonRecord): TaxonRecord | null {
+    if (record.status !== 'synonym' || !record.acceptedId) return null;
+    return this.byId.get(`${record.source}:${record.acceptedId}`) ?? null;
+  }
+}
+
+/**
+ * Lazily loaded snapshot, so the files are read on first use rather than at startup.
+ */
+export class TaxonomyIndex {
+  private snapshot: Promise<TaxonomySnapshot> | null = null;
+
+  constructor(readonly dir: string = DEFAULT_TAXONOMY_DIR) {}
+
+  /**
+   * Build an index from PLANTNET_TAXONOMY_DIR, if set.
+   * Returns null when PLANTNET_TAXONOMY is set to "off", "false" or "0".
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): TaxonomyIndex | null {
+    if (['off', 'false', '0'].includes((env.PLANTNET_TAXONOMY ?? '').toLowerCase())) {
+      return null;
+    }
+    return new TaxonomyIndex(
+      env.PLANTNET_TAXONOMY_DIR ? path.resolve(env.PLANTNET_TAXONOMY_DIR) : DEFAULT_TAXONOMY_DIR
+    );
+  }
+
+  get(): Promise<TaxonomySnapshot> {
+    if (!this.snapshot) {
+      this.snapshot = TaxonomySnapshot.load(this.dir);
+      // Let a later call retry after a failed load
+      this.snapshot.catch(() => {
+        this.snapshot = null;
+      });
+    }
+    return this.snapshot;
+  }
+
+  /**
+   * Attach snapshot information to each match as `taxonomy` (null when unknown).
+   */
+  async enrich(data: PlantNetIdentifyResponse): Promise<PlantNetIdentifyResponse> {
+    const snapshot = await this.get();
+    return {
+      ...data,
+      results: data.results.map((result) => ({ ...result, taxonomy: snapshot.lookupResult(result) })),
+    };
+  }
+}
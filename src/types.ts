@@ -9,11 +9,27 @@ export interface PlantNetSpecies {
   commonNames: string[];
 }
 
+export interface PlantNetRelatedImage {
+  organ: string;
+  author: string;
+  license: string;
+  date: { timestamp: number; string: string };
+  citation: string;
+  /** Original, medium and small renditions. */
+  url: { o: string; m: string; s: string };
+}
+
 export interface PlantNetResult {
   score: number;
   species: PlantNetSpecies;
   gbif?: { id: string };
   powo?: { id: string };
+  /** Reference photos of the species; only present with include-related-images. */
+  images?: PlantNetRelatedImage[];
+  /** Set locally from the taxonomy snapshot; null when the snapshot does not know the species. */
+  taxonomy?: SpeciesInfo | null;
+  /** Set locally from the curated safety datasets. */
+  safety?: SafetyAnnotations;
 }
 
 export interface PlantNetIdentifyResponse {
@@ -29,12 +45,259 @@ export interface PlantNetIdentifyResponse {
   results: PlantNetResult[];
   remainingIdentificationRequests: number;
   version: string;
+  /** Set locally when the response was served from the identification cache. */
+  cache?: {
+    hit: true;
+    key: string;
+    storedAt: string;
+  };
+  /**
+   * Set locally: stable ID for this identification (the cache key), usable with the
+   * plantnet://identifications/{id} resource.
+   */
+  identificationId?: string;
+  /** Set locally when the project was chosen automatically from a position. */
+  projectSelection?: ProjectSelection;
+  /** Set locally: SHA-256 of each submitted image as loaded, in request order. */
+  imageHashes?: string[];
+  /** Set locally: EXIF capture time of the first image that has one (see ExifData.takenAt). */
+  photoTakenAt?: string;
+  /** Set locally: fingerprint of the pooled API key that answered (never the key itself). */
+  apiKeyId?: string;
+}
+
+export interface ProjectSelection {
+  project: string;
+  reason: string;
+  /** Where the position came from; "default" when none was available. */
+  source: 'coordinates' | 'exif-gps' | 'default';
+  coordinates: { latitude: number; longitude: number } | null;
+}
+
+export type TaxonStatus = 'accepted' | 'synonym' | 'doubtful' | 'unplaced' | 'misapplied' | 'unknown';
+
+export interface Classification {
+  kingdom: string | null;
+  phylum: string | null;
+  class: string | null;
+  order: string | null;
+  family: string | null;
+  genus: string | null;
+}
+
+/** A species as described by the local GBIF/WCVP taxonomy snapshot. */
+export interface SpeciesInfo {
+  scientificName: string;
+  authorship: string | null;
+  rank: string;
+  status: TaxonStatus;
+  /** Accepted name (with authorship) when this name is a synonym. */
+  acceptedName: string | null;
+  classification: Classification;
+  /** Native range summary, e.g. "Europe to Caucasus". */
+  nativeRange: string | null;
+  /** Areas where the accepted taxon is native or introduced, from the WCVP distribution. */
+  distribution: { native: string[]; introduced: string[] };
+  /** GBIF common names by ISO 639-1 language code. */
+  vernacularNames: Record<string, string[]>;
+  ids: { gbif: string | null; powo: string | null };
+  /** Snapshots the information came from. */
+  sources: ('gbif' | 'wcvp')[];
+}
+
+export interface SafetySource {
+  name: string;
+  url: string | null;
+  license: string | null;
+}
+
+/** "toxic" when a source does not grade severity. */
+export type ToxicityLevel = 'non-toxic' | 'toxic' | 'mild' | 'moderate' | 'severe';
+
+export interface ToxicityFlag {
+  humans: ToxicityLevel | null;
+  pets: { dogs: ToxicityLevel | null; cats: ToxicityLevel | null; horses: ToxicityLevel | null };
+  notes: string | null;
+  source: SafetySource;
+}
+
+export interface InvasiveFlag {
+  region: string;
+  /** "regulated": legally listed as a noxious or prohibited weed. */
+  status: 'invasive' | 'naturalised' | 'regulated';
+  notes: string | null;
+  source: SafetySource;
+}
+
+export interface ConservationFlag {
+  /** "global" or the region the assessment applies to. */
+  scope: string;
+  /** IUCN Red List code (LC, NT, VU, EN, CR, EW, EX, DD) or a national category. */
+  category: string;
+  legallyProtected: boolean;
+  notes: string | null;
+  source: SafetySource;
+}
+
+/** Flags from the curated safety datasets; empty lists when none apply. */
+export interface SafetyAnnotations {
+  toxicity: ToxicityFlag[];
+  invasive: InvasiveFlag[];
+  conservation: ConservationFlag[];
+}
+
+/** One species of a flora project, from /v2/projects/{project}/species. */
+export interface PlantNetSpeciesListEntry {
+  scientificNameWithoutAuthor: string;
+  scientificNameAuthorship: string;
+  gbifId?: number;
+  powoId?: string;
+  iucnCategory?: string;
+  commonNames?: string[];
+}
+
+export interface PlantNetDiseaseResult {
+  /** EPPO code of the disease or pest. */
+  name: string;
+  description: string;
+  score: number;
+  images?: PlantNetRelatedImage[];
+}
+
+export interface PlantNetDiseaseIdentifyResponse {
+  query: {
+    images: string[];
+    organs?: string[];
+    includeRelatedImages: boolean;
+  };
+  language: string;
+  bestMatch?: string;
+  results: PlantNetDiseaseResult[];
+  remainingIdentificationRequests: number;
+  version: string;
+  /** Set locally: fingerprint of the pooled API key that answered (never the key itself). */
+  apiKeyId?: string;
 }
 
 export interface IdentifyPlantArgs {
   image_urls: string[];
   organs: string[];
+  /** Project ID, or "auto" to choose a regional flora from GPS/coordinates. */
   project?: string;
   lang?: string;
   nb_results?: number;
+  /** Where the photos were taken; implies project "auto" when no project is given. */
+  latitude?: number;
+  longitude?: number;
+  /** Ask for reference photos of each matched species. */
+  include_related_images?: boolean;
+  /** Free-text notes kept with the observation log entry; not sent to Pl@ntNet. */
+  notes?: string;
+  /** Place name kept with the observation log entry, e.g. "site B"; not sent to Pl@ntNet. */
+  location?: string;
+  /** When the plant was observed (ISO 8601), kept with the observation log entry; not sent to Pl@ntNet. */
+  observed_at?: string;
+}
+
+export interface IdentifyDiseaseArgs {
+  image_urls: string[];
+  /** Optional; when given, one per image. */
+  organs?: string[];
+  lang?: string;
+  nb_results?: number;
+  include_related_images?: boolean;
+}
+
+// Normalized identify_plant result returned as MCP structured content
+
+export type OutputFormat = 'markdown' | 'json' | 'both';
+
+export interface StructuredSpeciesMatch {
+  rank: number;
+  score: number;
+  scientificName: string;
+  scientificNameWithoutAuthor: string;
+  author: string | null;
+  genus: string;
+  family: string;
+  commonNames: string[];
+  /**
+   * Display name after falling back from the requested language to English, then to
+   * the scientific name (language null).
+   */
+  commonName: { name: string; language: string | null };
+  externalIds: {
+    gbif: string | null;
+    powo: string | null;
+  };
+  /** Empty unless related images were requested. */
+  relatedImages: StructuredRelatedImage[];
+  /** Order, class, name status and native range from the taxonomy snapshot, when known. */
+  taxonomy: SpeciesInfo | null;
+  /** Toxicity, invasiveness and conservation flags; null when the safety datasets are disabled. */
+  safety: SafetyAnnotations | null;
+}
+
+export interface StructuredRelatedImage {
+  organ: string;
+  url: string;
+  thumbnailUrl: string;
+  author: string;
+  license: string;
+  citation: string;
+}
+
+export interface TaxonGroup {
+  rank: 'genus' | 'family';
+  name: string;
+  /** Scientific names of the candidates in the group, best first. */
+  members: string[];
+  combinedScore: number;
+}
+
+export interface ResultAnalysis {
+  outcome: 'confident' | 'ambiguous' | 'inconclusive';
+  summary: string;
+  /** The confident match, the near-tied contenders, or the top few when inconclusive. */
+  candidates: {
+    rank: number;
+    scientificName: string;
+    score: number;
+    genus: string;
+    family: string;
+  }[];
+  /** Lowest taxon all candidates share, when there are several. */
+  sharedTaxon: { rank: 'genus' | 'family'; name: string } | null;
+  /**
+   * Genera, then families spanning several genera, that hold at least two of the
+   * candidates, each with the candidates' combined score; strongest first.
+   */
+  taxonGroups: TaxonGroup[];
+  recommendedOrgan: string | null;
+  recommendation: string | null;
+}
+
+export interface StructuredIdentifyResult {
+  schemaVersion: string;
+  identificationId: string | null;
+  bestMatch: string;
+  query: {
+    project: string;
+    organs: string[];
+    language: string;
+  };
+  matches: StructuredSpeciesMatch[];
+  analysis: ResultAnalysis;
+  quota: {
+    remainingDailyRequests: number;
+    /** True when the count comes from a cached response rather than this call. */
+    fromCache: boolean;
+  };
+  engineVersion: string;
+  cache: {
+    hit: boolean;
+    storedAt: string | null;
+  };
+  projectSelection: ProjectSelection | null;
+  warnings: string[];
 }
@@ -5,6 +5,8 @@
  *
  * Example:
  *   PLANTNET_API_KEY=abc123 npx ts-node test-live.ts C:/Users/me/plant.jpg fruit
+ *
+ * The same scenarios run offline in tests/live-scenarios.test.ts from recorded fixtures.
  */
 
 import * as fs from 'fs';
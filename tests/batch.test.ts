@@ -0,0 +1,143 @@
+import { runBatch, type BatchObservation } from '../src/batch';
+import { PlantNetNotFoundError, PlantNetQuotaError } from '../src/errors';
+import type { PlantNetIdentifyResponse } from '../src/types';
+
+function makeResponse(remaining: number, cached = false): PlantNetIdentifyResponse {
+  return {
+    query: { project: 'all', images: [], organs: ['leaf'], includeRelatedImages: false },
+    language: 'en',
+    preferedReferential: 'all',
+    bestMatch: 'Quercus robur L.',
+    results: [],
+    remainingIdentificationRequests: remaining,
+    version: '2.1',
+    ...(cached ? { cache: { hit: true as const, key: 'k', storedAt: '2026-03-01T00:00:00.000Z' } } : {}),
+  };
+}
+
+function observations(count: number): BatchObservation[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `obs-${i + 1}`,
+    image_urls: [`http://example.com/${i}.jpg`],
+    organs: ['leaf'],
+  }));
+}
+
+const BASE = { concurrency: 2, remainingQuota: async () => null, minRemainingQuota: 0 };
+
+describe('runBatch', () => {
+  it('identifies every observation and preserves order', async () => {
+    let remaining = 100;
+    const identify = jest.fn(async () => makeResponse(--remaining));
+
+    const summary = await runBatch(observations(5), { ...BASE, identify });
+
+    expect(summary.items.map((item) => item.id)).toEqual(['obs-1', 'obs-2', 'obs-3', 'obs-4', 'obs-5']);
+    expect(summary.succeeded).toBe(5);
+    expect(summary.apiCalls).toBe(5);
+    expect(summary.stopReason).toBeNull();
+    expect(identify).toHaveBeenCalledWith({ image_urls: ['http://example.com/0.jpg'], organs: ['leaf'] });
+  });
+
+  it('never runs more than the configured concurrency', async () => {
+    let active = 0;
+    let peak = 0;
+    const identify = async () => {
+      peak = Math.max(peak, ++active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return makeResponse(100);
+    };
+
+    await runBatch(observations(8), { ...BASE, concurrency: 3, identify });
+    expect(peak).toBe(3);
+  });
+
+  it('stops at the caller-supplied budget but does not count cache hits', async () => {
+    const identify = jest
+      .fn()
+      .mockResolvedValueOnce(makeResponse(100, true))
+      .mockResolvedValue(makeResponse(99));
+
+    const summary = await runBatch(observations(5), {
+      ...BASE,
+      concurrency: 1,
+      budget: 2,
+      identify,
+    });
+
+    expect(summary.succeeded).toBe(3);
+    expect(summary.cacheHits).toBe(1);
+    expect(summary.apiCalls).toBe(2);
+    expect(summary.skipped).toBe(2);
+    expect(summary.stopReason).toBe('quota budget of 2 API call(s) reached');
+  });
+
+  it('stops when the remaining daily quota reaches the reserve', async () => {
+    let remaining = 3;
+    const identify = jest.fn(async () => makeResponse(--remaining));
+
+    const summary = await runBatch(observations(5), {
+      ...BASE,
+      concurrency: 1,
+      remainingQuota: async () => remaining,
+      minRemainingQuota: 1,
+      identify,
+    });
+
+    expect(summary.apiCalls).toBe(2);
+    expect(summary.skipped).toBe(3);
+    expect(summary.stopReason).toContain('remaining daily quota reached');
+  });
+
+  it('reads the pooled remaining quota, not the count of the key that answered', async () => {
+    // Two keys: the one answering has 1 request left, the pool 101
+    let pooled = 102;
+    const identify = jest.fn(async () => {
+      pooled--;
+      return makeResponse(1);
+    });
+
+    const summary = await runBatch(observations(4), {
+      ...BASE,
+      concurrency: 1,
+      remainingQuota: async () => pooled,
+      minRemainingQuota: 10,
+      identify,
+    });
+
+    expect(summary.apiCalls).toBe(4);
+    expect(summary.stopReason).toBeNull();
+  });
+
+  it('records per-observation errors and keeps going', async () => {
+    const identify = jest
+      .fn()
+      .mockRejectedValueOnce(new PlantNetNotFoundError('PlantNet API error 404: Species not found'))
+      .mockResolvedValue(makeResponse(50));
+
+    const summary = await runBatch(observations(3), { ...BASE, concurrency: 1, identify });
+
+    expect(summary.items[0]).toMatchObject({ status: 'error', id: 'obs-1' });
+    expect(summary.succeeded).toBe(2);
+    expect(summary.failed).toBe(1);
+  });
+
+  it('stops after a quota error', async () => {
+    const identify = jest.fn().mockRejectedValue(new PlantNetQuotaError('PlantNet API error 429: {}'));
+
+    const summary = await runBatch(observations(3), { ...BASE, concurrency: 1, identify });
+
+    expect(identify).toHaveBeenCalledTimes(1);
+    expect(summary.skipped).toBe(2);
+    expect(summary.stopReason).toBe('the Pl@ntNet daily quota was exhausted');
+  });
+
+  it('labels observations by position when no id is given', async () => {
+    const summary = await runBatch(
+      [{ image_urls: ['http://example.com/a.jpg'], organs: ['leaf'] }],
+      { ...BASE, identify: async () => makeResponse(10) }
+    );
+    expect(summary.items[0].id).toBe('1');
+  });
+});
@@ -0,0 +1,157 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  OCCURRENCE_TERMS,
+  buildMetaXml,
+  exportObservations,
+  toOccurrence,
+  toOccurrenceCsv,
+  writeExportFiles,
+} from '../src/darwin-core';
+import type { Observation } from '../src/observation-log';
+
+function makeObservation(overrides: Partial<Observation> = {}): Observation {
+  return {
+    id: '6f1c1a52-8f5e-4b7a-9d61-0c2b8f7e4a10',
+    recordedAt: '2026-10-12T09:00:00.000Z',
+    identificationId: 'a'.repeat(64),
+    images: [
+      { source: 'https://example.com/oak-leaf.jpg', organ: 'leaf', sha256: 'b'.repeat(64) },
+      { source: '/data/photos/oak-bark.jpg', organ: 'bark', sha256: 'c'.repeat(64) },
+    ],
+    project: 'k-western-europe',
+    language: 'en',
+    bestMatch: 'Quercus robur L.',
+    results: [
+      {
+        scientificName: 'Quercus robur',
+        author: 'L.',
+        commonNames: ['English oak', 'Pedunculate oak'],
+        genus: 'Quercus',
+        family: 'Fagaceae',
+        score: 0.8734,
+        gbifId: '2878688',
+      },
+      {
+        scientificName: 'Quercus petraea',
+        author: '(Matt.) Liebl.',
+        commonNames: [],
+        genus: 'Quercus',
+        family: 'Fagaceae',
+        score: 0.0612,
+        gbifId: null,
+      },
+    ],
+    notes: 'Hedgerow, "old" pollard',
+    location: 'site B',
+    coordinates: { latitude: 48.8566, longitude: 2.3522 },
+    observedAt: null,
+    fromCache: false,
+    ...overrides,
+  };
+}
+
+describe('toOccurrence', () => {
+  it('maps the top match, score, organs and coordinates to Darwin Core terms', () => {
+    const occurrence = toOccurrence(makeObservation());
+
+    expect(occurrence).toMatchObject({
+      occurrenceID: 'urn:uuid:6f1c1a52-8f5e-4b7a-9d61-0c2b8f7e4a10',
+      basisOfRecord: 'HumanObservation',
+      eventDate: '2026-10-12T09:00:00.000Z',
+      scientificName: 'Quercus robur L.',
+      scientificNameAuthorship: 'L.',
+      taxonRank: 'species',
+      kingdom: 'Plantae',
+      family: 'Fagaceae',
+      genus: 'Quercus',
+      vernacularName: 'English oak',
+      taxonID: 'https://www.gbif.org/species/2878688',
+      identificationVerificationStatus: 'unverified',
+      identificationRemarks:
+        'Pl@ntNet score 87.3% (project k-western-europe); alternatives: Quercus petraea 6.1%',
+      decimalLatitude: '48.8566',
+      decimalLongitude: '2.3522',
+      geodeticDatum: 'WGS84',
+      locality: 'site B',
+      occurrenceRemarks: 'Hedgerow, "old" pollard',
+      associatedMedia: 'https://example.com/oak-leaf.jpg',
+    });
+    expect(JSON.parse(occurrence!.dynamicProperties)).toEqual({
+      plantnetScore: 0.8734,
+      organs: ['leaf', 'bark'],
+      imageSha256: ['b'.repeat(64), 'c'.repeat(64)],
+      plantnetProject: 'k-western-europe',
+      plantnetIdentificationId: 'a'.repeat(64),
+    });
+  });
+
+  it('leaves optional terms empty and skips observations without a match', () => {
+    const bare = toOccurrence(makeObservation({ coordinates: null, notes: null, location: null }));
+
+    expect(bare).toMatchObject({ decimalLatitude: '', geodeticDatum: '', locality: '', occurrenceRemarks: '' });
+    expect(toOccurrence(makeObservation({ results: [] }))).toBeNull();
+  });
+
+  it('uses the observation time as eventDate and the log time only when it is unknown', () => {
+    const dated = toOccurrence(makeObservation({ observedAt: '2026-10-11T17:45:00+02:00' }));
+
+    expect(dated).toMatchObject({ eventDate: '2026-10-11T17:45:00+02:00', dateIdentified: '2026-10-12T09:00:00.000Z' });
+    expect(toOccurrence(makeObservation())?.eventDate).toBe('2026-10-12T09:00:00.000Z');
+  });
+});
+
+describe('Darwin Core Archive files', () => {
+  it('writes a header row and quotes fields containing commas or quotes', () => {
+    const csv = toOccurrenceCsv([toOccurrence(makeObservation())!]);
+    const [header, row] = csv.trimEnd().split('\n');
+
+    expect(header).toBe(OCCURRENCE_TERMS.join(','));
+    expect(row).toContain('"Hedgerow, ""old"" pollard"');
+    expect(row.startsWith('urn:uuid:6f1c1a52')).toBe(true);
+  });
+
+  it('declares every column in meta.xml in file order', () => {
+    const meta = buildMetaXml();
+
+    expect(meta).toContain('rowType="http://rs.tdwg.org/dwc/terms/Occurrence"');
+    expect(meta).toContain('<location>occurrence.txt</location>');
+    expect(meta).toContain('<id index="0"/>');
+    OCCURRENCE_TERMS.forEach((term, i) => {
+      expect(meta).toContain(`<field index="${i}" term="http://rs.tdwg.org/dwc/terms/${term}"/>`);
+    });
+  });
+});
+
+describe('exportObservations', () => {
+  it('builds the requested files and reports skipped observations', () => {
+    const unmatched = makeObservation({ id: 'no-match', results: [] });
+    const nowhere = makeObservation({ id: 'nowhere', coordinates: null });
+
+    const exported = exportObservations([makeObservation(), nowhere, unmatched], ['dwca', 'geojson']);
+    const geojson = JSON.parse(exported.files.find((f) => f.name === 'observations.geojson')!.content);
+
+    expect(exported.files.map((f) => f.name)).toEqual(['occurrence.txt', 'meta.xml', 'observations.geojson']);
+    expect(exported.exported).toBe(2);
+    expect(exported.skipped).toEqual(['no-match']);
+    expect(geojson.type).toBe('FeatureCollection');
+    expect(geojson.features[0].geometry).toEqual({ type: 'Point', coordinates: [2.3522, 48.8566] });
+    expect(geojson.features[0].properties.dynamicProperties.organs).toEqual(['leaf', 'bark']);
+    expect(geojson.features[1].geometry).toBeNull();
+    expect(exportObservations([], ['geojson']).files.map((f) => f.name)).toEqual(['observations.geojson']);
+  });
+
+  it('writes the files into a timestamped directory', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plantnet-export-'));
+    try {
+      const { files } = exportObservations([makeObservation()], ['dwca']);
+      const target = await writeExportFiles(dir, files, new Date('2026-10-12T09:30:00Z'));
+
+      expect(path.basename(target)).toBe('plantnet-export-2026-10-12T09-30-00-000Z');
+      expect(fs.readdirSync(target).sort()).toEqual(['meta.xml', 'occurrence.txt']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,30 @@
+import {
+  PlantNetAuthError,
+  PlantNetBadImageError,
+  PlantNetError,
+  PlantNetNotFoundError,
+  PlantNetQuotaError,
+  PlantNetUpstreamError,
+  PlantNetValidationError,
+  errorFromResponse,
+} from '../src/errors';
+
+describe('errorFromResponse', () => {
+  it.each([
+    [401, PlantNetAuthError, 'auth'],
+    [403, PlantNetAuthError, 'auth'],
+    [404, PlantNetNotFoundError, 'not_found'],
+    [413, PlantNetBadImageError, 'bad_image'],
+    [429, PlantNetQuotaError, 'quota'],
+    [500, PlantNetUpstreamError, 'upstream'],
+    [503, PlantNetUpstreamError, 'upstream'],
+    [400, PlantNetValidationError, 'validation'],
+  ])('maps %i to %p', (status, ErrorClass, kind) => {
+    const err = errorFromResponse(status, '{"message":"detail"}');
+    expect(err).toBeInstanceOf(ErrorClass);
+    expect(err).toBeInstanceOf(PlantNetError);
+    expect(err.kind).toBe(kind);
+    expect(err.status).toBe(status);
+    expect(err.message).toBe(`PlantNet API error ${status}: {"message":"detail"}`);
+  });
+});
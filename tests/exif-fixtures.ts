@@ -0,0 +1,97 @@
+// Builders for JPEGs carrying EXIF segments, shared by several test files
+
+function rational(value: number): Buffer {
+  const buffer = Buffer.alloc(8);
+  buffer.writeUInt32BE(Math.round(value * 10000), 0);
+  buffer.writeUInt32BE(10000, 4);
+  return buffer;
+}
+
+function degreesMinutesSeconds(value: number): Buffer {
+  const abs = Math.abs(value);
+  const degrees = Math.floor(abs);
+  const minutes = Math.floor((abs - degrees) * 60);
+  const seconds = (abs - degrees - minutes / 60) * 3600;
+  return Buffer.concat([rational(degrees), rational(minutes), rational(seconds)]);
+}
+
+function entry(tag: number, type: number, count: number, value: Buffer): Buffer {
+  const buffer = Buffer.alloc(12);
+  buffer.writeUInt16BE(tag, 0);
+  buffer.writeUInt16BE(type, 2);
+  buffer.writeUInt32BE(count, 4);
+  value.copy(buffer, 8, 0, 4);
+  return buffer;
+}
+
+function u32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(value, 0);
+  return buffer;
+}
+
+/**
+ * Insert a big-endian EXIF APP1 segment right after SOI, with a GPS IFD holding the
+ * given position, an Exif IFD holding the capture time (EXIF format, e.g.
+ * "2026:05:01 14:03:22", and optional offset such as "+02:00"), and optionally an
+ * orientation tag in IFD0.
+ */
+export function withExif(
+  jpeg: Buffer,
+  {
+    latitude,
+    longitude,
+    orientation,
+    takenAt,
+    takenAtOffset,
+  }: { latitude?: number; longitude?: number; orientation?: number; takenAt?: string; takenAtOffset?: string }
+): Buffer {
+  const hasGps = latitude !== undefined && longitude !== undefined;
+  const ifd0Entries = (orientation ? 1 : 0) + (hasGps ? 1 : 0) + (takenAt ? 1 : 0);
+  const ifd0Size = 2 + ifd0Entries * 12 + 4;
+  const gpsOffset = 8 + ifd0Size;
+  const gpsSize = 2 + 4 * 12 + 4;
+  const latOffset = gpsOffset + gpsSize;
+  const lonOffset = latOffset + 24;
+  const exifOffset = hasGps ? lonOffset + 24 : gpsOffset;
+  const exifEntries = takenAtOffset ? 2 : 1;
+  const dateOffset = exifOffset + 2 + exifEntries * 12 + 4;
+  const date = Buffer.from(`${takenAt}\0`, 'latin1');
+  const offset = Buffer.from(`${takenAtOffset}\0`, 'latin1');
+
+  const ifd0 = Buffer.concat([
+    Buffer.from([0, ifd0Entries]),
+    ...(orientation ? [entry(0x0112, 3, 1, Buffer.from([0, orientation, 0, 0]))] : []),
+    ...(hasGps ? [entry(0x8825, 4, 1, u32(gpsOffset))] : []),
+    ...(takenAt ? [entry(0x8769, 4, 1, u32(exifOffset))] : []),
+    u32(0),
+  ]);
+  const gps = hasGps
+    ? Buffer.concat([
+        Buffer.from([0, 4]),
+        entry(0x0001, 2, 2, Buffer.from([latitude < 0 ? 0x53 : 0x4e, 0, 0, 0])),
+        entry(0x0002, 5, 3, u32(latOffset)),
+        entry(0x0003, 2, 2, Buffer.from([longitude < 0 ? 0x57 : 0x45, 0, 0, 0])),
+        entry(0x0004, 5, 3, u32(lonOffset)),
+        u32(0),
+        degreesMinutesSeconds(latitude),
+        degreesMinutesSeconds(longitude),
+      ])
+    : Buffer.alloc(0);
+  const exif = takenAt
+    ? Buffer.concat([
+        Buffer.from([0, exifEntries]),
+        entry(0x9003, 2, date.length, u32(dateOffset)),
+        ...(takenAtOffset ? [entry(0x9011, 2, offset.length, u32(dateOffset + date.length))] : []),
+        u32(0),
+        date,
+        ...(takenAtOffset ? [offset] : []),
+      ])
+    : Buffer.alloc(0);
+
+  const tiff = Buffer.concat([Buffer.from([0x4d, 0x4d, 0x00, 0x2a]), u32(8), ifd0, gps, exif]);
+  const payload = Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), tiff]);
+  const header = Buffer.from([0xff, 0xe1, 0, 0]);
+  header.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([jpeg.subarray(0, 2), header, payload, jpeg.subarray(2)]);
+}
@@ -0,0 +1,46 @@
+import * as jpeg from 'jpeg-js';
+import { readExif } from '../src/exif';
+import { withExif } from './exif-fixtures';
+
+const JPEG = jpeg.encode({ width: 2, height: 2, data: Buffer.alloc(16, 128) }, 90).data;
+
+describe('readExif', () => {
+  it('returns defaults for images without EXIF', () => {
+    expect(readExif(JPEG)).toEqual({ orientation: 1, gps: null, takenAt: null });
+  });
+
+  it('returns defaults for non-JPEG data', () => {
+    expect(readExif(Buffer.from('not an image'))).toEqual({ orientation: 1, gps: null, takenAt: null });
+  });
+
+  it('reads the GPS position with hemisphere references', () => {
+    const { gps } = readExif(withExif(JPEG, { latitude: -33.8688, longitude: 151.2093 }));
+    expect(gps?.latitude).toBeCloseTo(-33.8688, 4);
+    expect(gps?.longitude).toBeCloseTo(151.2093, 4);
+  });
+
+  it('reads western longitudes as negative', () => {
+    const { gps } = readExif(withExif(JPEG, { latitude: 40.7128, longitude: -74.006 }));
+    expect(gps?.latitude).toBeCloseTo(40.7128, 4);
+    expect(gps?.longitude).toBeCloseTo(-74.006, 4);
+  });
+
+  it('reads orientation alongside GPS', () => {
+    const exif = readExif(withExif(JPEG, { latitude: 48.85, longitude: 2.35, orientation: 6 }));
+    expect(exif.orientation).toBe(6);
+    expect(exif.gps).not.toBeNull();
+  });
+
+  it('reads the capture time as ISO 8601, with its offset when recorded', () => {
+    expect(readExif(withExif(JPEG, { takenAt: '2026:05:01 14:03:22' })).takenAt).toBe('2026-05-01T14:03:22');
+    expect(
+      readExif(withExif(JPEG, { latitude: 48.85, longitude: 2.35, takenAt: '2026:05:01 14:03:22', takenAtOffset: '+02:00' }))
+        .takenAt
+    ).toBe('2026-05-01T14:03:22+02:00');
+  });
+
+  it('ignores unset and malformed capture times', () => {
+    expect(readExif(withExif(JPEG, { takenAt: '0000:00:00 00:00:00' })).takenAt).toBeNull();
+    expect(readExif(withExif(JPEG, { takenAt: '2026:13:45 99:00:00' })).takenAt).toBeNull();
+  });
+});
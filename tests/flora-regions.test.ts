@@ -0,0 +1,30 @@
+import { FLORA_REGIONS, selectFloraProject } from '../src/flora-regions';
+
+const ALL_PROJECTS = [...new Set(['all', ...FLORA_REGIONS.flatMap((region) => region.projects)])];
+
+describe('selectFloraProject', () => {
+  it('picks the most specific region containing the position', () => {
+    // Paris lies in both the Western and Middle Europe boxes; Western Europe is smaller
+    const selection = selectFloraProject({ latitude: 48.8566, longitude: 2.3522 }, ALL_PROJECTS);
+    expect(selection.project).toBe('k-western-europe');
+    expect(selection.region).toBe('Western Europe');
+    expect(selection.reason).toContain('48.8566, 2.3522');
+  });
+
+  it('falls back to an older project ID when the preferred one is unavailable', () => {
+    const selection = selectFloraProject({ latitude: 48.8566, longitude: 2.3522 }, ['all', 'weurope']);
+    expect(selection.project).toBe('weurope');
+  });
+
+  it('uses the global flora when no region covers the position', () => {
+    const selection = selectFloraProject({ latitude: -75, longitude: 0 }, ALL_PROJECTS);
+    expect(selection).toMatchObject({ project: 'all', region: null });
+    expect(selection.reason).toContain('no regional flora covers');
+  });
+
+  it('uses the global flora when no candidate project is offered', () => {
+    const selection = selectFloraProject({ latitude: -33.8688, longitude: 151.2093 }, ['all']);
+    expect(selection.project).toBe('all');
+    expect(selection.reason).toContain('Australia');
+  });
+});
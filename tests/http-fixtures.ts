@@ -0,0 +1,165 @@
+// Record/replay harness for Pl@ntNet HTTP traffic, shared by the replay test files.
+//
+// Replay (default): fetch is served from tests/fixtures/http/<name>.json and every
+// request must match the next recorded one (method and URL, API key redacted).
+// Record: PLANTNET_RECORD=1 with PLANTNET_API_KEY set calls the real API and
+// rewrites the fixture when the scenario finishes.
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+export const HTTP_FIXTURES_DIR = path.join(__dirname, 'fixtures', 'http');
+
+/** Written in place of the API key in URLs and bodies. */
+export const REDACTED = '<redacted>';
+
+/** Key used while replaying; any non-empty value works since keys are redacted before matching. */
+export const REPLAY_API_KEY = 'replay-api-key';
+
+// Captured before test files replace global.fetch with mocks
+const ORIGINAL_FETCH = globalThis.fetch;
+
+// Response headers worth keeping; the rest (cookies, tracing, dates) only add noise
+const KEPT_HEADERS = ['content-type', 'retry-after'];
+
+export interface RecordedExchange {
+  request: { method: string; url: string };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    /** Parsed JSON, or text when the body is not JSON. */
+    body: unknown;
+  };
+}
+
+export interface HttpFixture {
+  /** When the exchanges were recorded from the live API; null for hand-written fixtures. */
+  recordedAt: string | null;
+  /** Set on hand-written fixtures to say what they model; recording drops it. */
+  synthetic?: string;
+  exchanges: RecordedExchange[];
+}
+
+export interface HttpHarness {
+  readonly mode: 'record' | 'replay';
+  /** API key to hand to the client under test. */
+  readonly apiKey: string;
+  /** Drop-in replacement for global fetch. */
+  readonly fetch: typeof fetch;
+  /** Save the recording, or check that every recorded exchange was replayed. */
+  finish(): Promise<void>;
+}
+
+/** Record when PLANTNET_RECORD is set and a real key is available. */
+export function isRecording(env: NodeJS.ProcessEnv = process.env): boolean {
+  return Boolean(env.PLANTNET_RECORD && env.PLANTNET_RECORD !== '0' && env.PLANTNET_API_KEY);
+}
+
+/** Replace the API key in a URL (query parameter) or any other text. */
+export function redact(text: string, apiKey: string): string {
+  const withoutParam = text.replace(/([?&]api-key=)[^&#]*/g, `$1${encodeURIComponent(REDACTED)}`);
+  return apiKey ? withoutParam.split(apiKey).join(REDACTED) : withoutParam;
+}
+
+function requestUrl(input: Parameters<typeof fetch>[0]): string {
+  if (typeof input === 'string') return input;
+  return input instanceof URL ? input.toString() : input.url;
+}
+
+async function readFixture(name: string): Promise<HttpFixture> {
+  const file = path.join(HTTP_FIXTURES_DIR, `${name}.json`);
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as HttpFixture;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err;
+    throw new Error(`No HTTP fixture ${file}; record it with PLANTNET_RECORD=1 PLANTNET_API_KEY=...`);
+  }
+}
+
+function toResponse({ response }: RecordedExchange): Response {
+  const { body, status, statusText, headers } = response;
+  const text = typeof body === 'string' ? body : JSON.stringify(body);
+  // Response forbids a body on these statuses
+  const empty = status === 204 || status === 304;
+  return new Response(empty ? null : text, { status, statusText, headers });
+}
+
+/**
+ * Open the named fixture for a scenario. In record mode `realFetch` performs the
+ * requests; it defaults to the fetch present when this module was loaded.
+ */
+export async function openHttpFixture(
+  name: string,
+  options: { env?: NodeJS.ProcessEnv; realFetch?: typeof fetch } = {}
+): Promise<HttpHarness> {
+  const env = options.env ?? process.env;
+  return isRecording(env)
+    ? recorder(name, env.PLANTNET_API_KEY as string, options.realFetch ?? ORIGINAL_FETCH)
+    : replayer(name, await readFixture(name));
+}
+
+function recorder(name: string, apiKey: string, realFetch: typeof fetch): HttpHarness {
+  const exchanges: RecordedExchange[] = [];
+  return {
+    mode: 'record',
+    apiKey,
+    fetch: async (input, init) => {
+      const response = await realFetch(input, init);
+      const text = await response.clone().text();
+      let body: unknown = redact(text, apiKey);
+      try {
+        body = JSON.parse(body as string);
+      } catch {
+        // Keep non-JSON bodies as text
+      }
+      const headers: Record<string, string> = {};
+      for (const header of KEPT_HEADERS) {
+        const value = response.headers.get(header);
+        if (value !== null) headers[header] = value;
+      }
+      exchanges.push({
+        request: { method: init?.method ?? 'GET', url: redact(requestUrl(input), apiKey) },
+        response: { status: response.status, statusText: response.statusText, headers, body },
+      });
+      return response;
+    },
+    finish: async () => {
+      const fixture: HttpFixture = { recordedAt: new Date().toISOString(), exchanges };
+      await fs.mkdir(HTTP_FIXTURES_DIR, { recursive: true });
+      await fs.writeFile(path.join(HTTP_FIXTURES_DIR, `${name}.json`), JSON.stringify(fixture, null, 2) + '\n');
+    },
+  };
+}
+
+function replayer(name: string, fixture: HttpFixture): HttpHarness {
+  let next = 0;
+  return {
+    mode: 'replay',
+    apiKey: REPLAY_API_KEY,
+    fetch: async (input, init) => {
+      const method = init?.method ?? 'GET';
+      const url = redact(requestUrl(input), REPLAY_API_KEY);
+      const exchange = fixture.exchanges[next];
+      if (!exchange) {
+        throw new Error(`HTTP fixture "${name}" has no recorded response for ${method} ${url}`);
+      }
+      if (exchange.request.method !== method || exchange.request.url !== url) {
+        throw new Error(
+          `HTTP fixture "${name}" expected ${exchange.request.method} ${exchange.request.url} ` +
+            `as request #${next + 1}, got ${method} ${url}`
+        );
+      }
+      next++;
+      return toResponse(exchange);
+    },
+    finish: async () => {
+      if (next < fixture.exchanges.length) {
+        throw new Error(
+          `HTTP fixture "${name}" has ${fixture.exchanges.length - next} unused exchange(s); ` +
+            'the client made fewer requests than were recorded'
+        );
+      }
+    },
+  };
+}
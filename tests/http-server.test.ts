@@ -0,0 +1,181 @@
+import type { AddressInfo } from 'net';
+import * as http from 'http';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { dnsRebindingProtection, httpServerOptionsFromEnv, startHttpServer } from '../src/http-server';
+import { createPlantNetContext, createPlantNetServer } from '../src/server';
+
+const TOKEN = 'team-secret';
+
+describe('HTTP transport', () => {
+  const savedEnv = { ...process.env };
+  let httpServer: http.Server;
+  let baseUrl: string;
+  let sessionsCreated = 0;
+
+  beforeAll(async () => {
+    process.env.PLANTNET_API_KEY = 'test-key';
+    process.env.PLANTNET_CACHE = 'off';
+    const context = createPlantNetContext();
+    httpServer = await startHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      authToken: TOKEN,
+      sessionIdleTimeoutMs: 300,
+      createServer: () => {
+        sessionsCreated++;
+        return createPlantNetServer(context);
+      },
+    });
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    process.env = { ...savedEnv };
+    httpServer.closeAllConnections();
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  it('serves an unauthenticated health endpoint', async () => {
+    const response = await fetch(`${baseUrl}/health`);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ status: 'ok' });
+  });
+
+  it('rejects MCP requests without the bearer token', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer wrong' },
+      body: '{}',
+    });
+    expect(response.status).toBe(401);
+    expect(response.headers.get('www-authenticate')).toBe('Bearer');
+  });
+
+  it('rejects non-initialize requests without a session', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Authorization: `Bearer ${TOKEN}`,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(response.status).toBe(400);
+  });
+
+  it('creates a server per session over Streamable HTTP', async () => {
+    const before = sessionsCreated;
+    const connect = async () => {
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      await client.connect(
+        new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+          requestInit: { headers: { Authorization: `Bearer ${TOKEN}` } },
+        })
+      );
+      return client;
+    };
+
+    const first = await connect();
+    const second = await connect();
+    const { tools } = await first.listTools();
+
+    expect(tools.map((t) => t.name)).toContain('identify_plant');
+    expect(sessionsCreated - before).toBe(2);
+
+    await first.close();
+    await second.close();
+  });
+
+  it('refuses requests naming a host other than the server (DNS rebinding)', async () => {
+    const { port } = httpServer.address() as AddressInfo;
+    const body = JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'page', version: '1' } },
+    });
+    // fetch() does not let a caller set Host, which is the point of the check
+    const status = await new Promise<number>((resolve, reject) => {
+      const req = http.request(
+        {
+          host: '127.0.0.1',
+          port,
+          path: '/mcp',
+          method: 'POST',
+          headers: {
+            Host: `rebound.example:${port}`,
+            'Content-Type': 'application/json',
+            Accept: 'application/json, text/event-stream',
+            Authorization: `Bearer ${TOKEN}`,
+          },
+        },
+        (res) => {
+          res.resume();
+          resolve(res.statusCode ?? 0);
+        }
+      );
+      req.on('error', reject);
+      req.end(body);
+    });
+
+    expect(status).toBe(403);
+  });
+
+  it('closes Streamable HTTP sessions that stay idle', async () => {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(
+      new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+        requestInit: { headers: { Authorization: `Bearer ${TOKEN}` } },
+      })
+    );
+    const sessions = async () => ((await (await fetch(`${baseUrl}/health`)).json()) as { sessions: { streamableHttp: number } }).sessions.streamableHttp;
+    expect(await sessions()).toBeGreaterThan(0);
+
+    await new Promise((resolve) => setTimeout(resolve, 600));
+
+    expect(await sessions()).toBe(0);
+    await client.close();
+  });
+});
+
+describe('dnsRebindingProtection', () => {
+  it('allows the loopback names on the listening port by default', () => {
+    const { allowedHosts, allowedOrigins } = dnsRebindingProtection({ host: '127.0.0.1' }, 3000);
+
+    expect(allowedHosts).toEqual(['localhost', 'localhost:3000', '127.0.0.1', '127.0.0.1:3000', '[::1]', '[::1]:3000']);
+    expect(allowedOrigins).toContain('http://localhost:3000');
+  });
+
+  it('adds the bound address and takes configured hosts and origins as given', () => {
+    expect(dnsRebindingProtection({ host: '10.0.0.5' }, 80).allowedHosts).toContain('10.0.0.5:80');
+    expect(
+      dnsRebindingProtection(
+        { host: '0.0.0.0', allowedHosts: ['mcp.example.org', 'mcp.example.org:8443'], allowedOrigins: ['https://app.example.org'] },
+        3000
+      )
+    ).toEqual({
+      enableDnsRebindingProtection: true,
+      allowedHosts: ['mcp.example.org', 'mcp.example.org:3000', 'mcp.example.org:8443'],
+      allowedOrigins: ['https://app.example.org'],
+    });
+  });
+});
+
+describe('httpServerOptionsFromEnv', () => {
+  it('reads host lists and the idle timeout', () => {
+    expect(
+      httpServerOptionsFromEnv({
+        PLANTNET_MCP_ALLOWED_HOSTS: 'mcp.example.org, [::1]:3000',
+        PLANTNET_MCP_ALLOWED_ORIGINS: 'https://app.example.org',
+        PLANTNET_MCP_SESSION_IDLE_MINUTES: '5',
+      })
+    ).toEqual({
+      allowedHosts: ['mcp.example.org', '[::1]:3000'],
+      allowedOrigins: ['https://app.example.org'],
+      sessionIdleTimeoutMs: 5 * 60 * 1000,
+    });
+    expect(httpServerOptionsFromEnv({ PLANTNET_MCP_SESSION_IDLE_MINUTES: 'never' })).toEqual({});
+  });
+});
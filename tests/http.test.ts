@@ -0,0 +1,162 @@
+import {
+  DEFAULT_RETRY_POLICY,
+  backoffDelay,
+  fetchWithRetry,
+  parseRetryAfter,
+  retryPolicyFromEnv,
+  type RetryPolicy,
+} from '../src/http';
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch as typeof fetch;
+
+const FAST_POLICY: RetryPolicy = {
+  timeoutMs: 200,
+  maxRetries: 2,
+  baseDelayMs: 1,
+  maxDelayMs: 5,
+  maxRetryAfterMs: 1_000,
+};
+
+function makeResponse(status: number, headers: Record<string, string> = {}) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: String(status),
+    headers: { get: (h: string) => headers[h.toLowerCase()] ?? null },
+    json: async () => ({ status }),
+  } as unknown as Response;
+}
+
+const readJson = (res: Response) => res.json();
+
+describe('retryPolicyFromEnv', () => {
+  it('reads numeric overrides and ignores invalid values', () => {
+    expect(
+      retryPolicyFromEnv({
+        PLANTNET_HTTP_TIMEOUT_MS: '5000',
+        PLANTNET_HTTP_MAX_RETRIES: '0',
+        PLANTNET_HTTP_RETRY_BASE_MS: 'abc',
+        PLANTNET_HTTP_RETRY_MAX_MS: '-1',
+      })
+    ).toEqual({ timeoutMs: 5000, maxRetries: 0 });
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('parses delta-seconds and HTTP dates', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    const now = Date.parse('2026-03-01T00:00:00Z');
+    expect(parseRetryAfter('Sun, 01 Mar 2026 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
+
+describe('backoffDelay', () => {
+  it('grows exponentially up to the cap, scaled by jitter', () => {
+    expect(backoffDelay(0, DEFAULT_RETRY_POLICY, () => 0.999)).toBe(499);
+    expect(backoffDelay(2, DEFAULT_RETRY_POLICY, () => 0.5)).toBe(1000);
+    expect(backoffDelay(10, DEFAULT_RETRY_POLICY, () => 1)).toBe(DEFAULT_RETRY_POLICY.maxDelayMs);
+    expect(backoffDelay(3, DEFAULT_RETRY_POLICY, () => 0)).toBe(0);
+  });
+});
+
+describe('fetchWithRetry', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('retries 5xx responses and returns the eventual success', async () => {
+    mockFetch
+      .mockResolvedValueOnce(makeResponse(502))
+      .mockResolvedValueOnce(makeResponse(503))
+      .mockResolvedValueOnce(makeResponse(200));
+
+    const { response } = await fetchWithRetry('https://example.com', {}, FAST_POLICY, readJson);
+    expect(response.status).toBe(200);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('returns the last failing response once retries are exhausted', async () => {
+    mockFetch.mockResolvedValue(makeResponse(500));
+
+    const { response, body } = await fetchWithRetry('https://example.com', {}, FAST_POLICY, readJson);
+    expect(response.status).toBe(500);
+    expect(body).toEqual({ status: 500 });
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    mockFetch.mockReset();
+  });
+
+  it('does not retry 4xx validation errors', async () => {
+    mockFetch.mockResolvedValueOnce(makeResponse(400));
+
+    const { response } = await fetchWithRetry('https://example.com', {}, FAST_POLICY, readJson);
+    expect(response.status).toBe(400);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('honors Retry-After on 429', async () => {
+    mockFetch
+      .mockResolvedValueOnce(makeResponse(429, { 'retry-after': '0' }))
+      .mockResolvedValueOnce(makeResponse(200));
+
+    const { response } = await fetchWithRetry('https://example.com', {}, FAST_POLICY, readJson);
+    expect(response.status).toBe(200);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry 429 without Retry-After or with an excessive wait', async () => {
+    mockFetch
+      .mockResolvedValueOnce(makeResponse(429))
+      .mockResolvedValueOnce(makeResponse(429, { 'retry-after': '3600' }));
+
+    expect(
+      (await fetchWithRetry('https://example.com', {}, FAST_POLICY, readJson)).response.status
+    ).toBe(429);
+    expect(
+      (await fetchWithRetry('https://example.com', {}, FAST_POLICY, readJson)).response.status
+    ).toBe(429);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('retries network errors', async () => {
+    mockFetch
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(makeResponse(200));
+
+    const { response } = await fetchWithRetry('https://example.com', {}, FAST_POLICY, readJson);
+    expect(response.status).toBe(200);
+  });
+
+  it('aborts hung requests after the timeout and reports it without query parameters', async () => {
+    mockFetch.mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        })
+    );
+
+    await expect(
+      fetchWithRetry(
+        'https://example.com/slow?api-key=secret',
+        {},
+        { ...FAST_POLICY, timeoutMs: 20, maxRetries: 1 },
+        readJson
+      )
+    ).rejects.toThrow('Request to https://example.com/slow timed out after 20 ms');
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    mockFetch.mockReset();
+  });
+
+  it('does not retry errors raised while reading the body', async () => {
+    mockFetch.mockResolvedValueOnce(makeResponse(200));
+
+    await expect(
+      fetchWithRetry('https://example.com', {}, FAST_POLICY, async () => {
+        throw new SyntaxError('Unexpected token');
+      })
+    ).rejects.toThrow('Unexpected token');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
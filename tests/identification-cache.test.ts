@@ -0,0 +1,146 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  IdentificationCache,
+  computeCacheKey,
+  hashImage,
+} from '../src/identification-cache';
+import type { PlantNetIdentifyResponse } from '../src/types';
+
+const PARAMS = { organs: ['leaf'], project: 'all', lang: 'en', nb_results: 5 };
+
+function makeResponse(bestMatch: string): PlantNetIdentifyResponse {
+  return {
+    query: { project: 'all', images: ['img1'], organs: ['leaf'], includeRelatedImages: false },
+    language: 'en',
+    preferedReferential: 'all',
+    bestMatch,
+    results: [],
+    remainingIdentificationRequests: 450,
+    version: '2.1',
+  };
+}
+
+describe('computeCacheKey', () => {
+  const hashes = [hashImage(Buffer.from('image-a'))];
+
+  it('is stable for identical inputs', () => {
+    expect(computeCacheKey(hashes, PARAMS)).toBe(computeCacheKey(hashes, { ...PARAMS }));
+  });
+
+  it('changes when image bytes or any parameter changes', () => {
+    const base = computeCacheKey(hashes, PARAMS);
+    expect(computeCacheKey([hashImage(Buffer.from('image-b'))], PARAMS)).not.toBe(base);
+    expect(computeCacheKey(hashes, { ...PARAMS, organs: ['flower'] })).not.toBe(base);
+    expect(computeCacheKey(hashes, { ...PARAMS, project: 'weurope' })).not.toBe(base);
+    expect(computeCacheKey(hashes, { ...PARAMS, lang: 'fr' })).not.toBe(base);
+    expect(computeCacheKey(hashes, { ...PARAMS, nb_results: 3 })).not.toBe(base);
+    expect(computeCacheKey(hashes, { ...PARAMS, include_related_images: true })).not.toBe(base);
+    expect(computeCacheKey(hashes, { ...PARAMS, include_related_images: false })).toBe(base);
+  });
+});
+
+describe('IdentificationCache', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plantnet-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stores and retrieves entries', async () => {
+    const cache = new IdentificationCache({ directory: dir });
+    await cache.set('abc', PARAMS, ['h1'], makeResponse('Quercus robur L.'));
+
+    const entry = await cache.get('abc');
+    expect(entry?.response.bestMatch).toBe('Quercus robur L.');
+    expect(entry?.imageHashes).toEqual(['h1']);
+    expect(await cache.get('missing')).toBeNull();
+  });
+
+  it('treats entries past their TTL as misses', async () => {
+    const cache = new IdentificationCache({ directory: dir, ttlMs: -1 });
+    await cache.set('abc', PARAMS, ['h1'], makeResponse('Quercus robur L.'));
+    expect(await cache.get('abc')).toBeNull();
+  });
+
+  it('evicts least recently used entries beyond maxEntries', async () => {
+    const cache = new IdentificationCache({ directory: dir, maxEntries: 2 });
+    const now = Date.now();
+    await cache.set('one', PARAMS, [], makeResponse('One'));
+    fs.utimesSync(path.join(dir, 'one.json'), new Date(now - 2000), new Date(now - 2000));
+    await cache.set('two', PARAMS, [], makeResponse('Two'));
+    fs.utimesSync(path.join(dir, 'two.json'), new Date(now - 1000), new Date(now - 1000));
+    await cache.set('three', PARAMS, [], makeResponse('Three'));
+
+    expect(await cache.get('one')).toBeNull();
+    expect(await cache.get('two')).not.toBeNull();
+    expect(await cache.get('three')).not.toBeNull();
+  });
+
+  it('evicts entries beyond maxBytes', async () => {
+    const cache = new IdentificationCache({ directory: dir, maxBytes: 1 });
+    await cache.set('one', PARAMS, [], makeResponse('One'));
+    expect((await cache.stats()).entries).toBe(0);
+  });
+
+  it('prunes entries untouched for longer than the TTL without reading them', async () => {
+    const cache = new IdentificationCache({ directory: dir, ttlMs: 60_000 });
+    fs.writeFileSync(path.join(dir, 'stale.json'), 'not json');
+    fs.utimesSync(path.join(dir, 'stale.json'), new Date(1000), new Date(1000));
+    fs.writeFileSync(path.join(dir, 'recent.json'), 'not json');
+
+    await cache.set('fresh', PARAMS, [], makeResponse('Fresh'));
+
+    expect(fs.readdirSync(dir).sort()).toEqual(['fresh.json', 'recent.json']);
+  });
+
+  it('lists, reports stats and clears entries', async () => {
+    const cache = new IdentificationCache({ directory: dir });
+    await cache.set('one', PARAMS, [], makeResponse('One'));
+    await cache.set('two', { ...PARAMS, project: 'weurope' }, [], makeResponse('Two'));
+
+    const entries = await cache.list();
+    expect(entries.map((e) => e.key).sort()).toEqual(['one', 'two']);
+    expect(entries.find((e) => e.key === 'two')?.project).toBe('weurope');
+
+    const stats = await cache.stats();
+    expect(stats.entries).toBe(2);
+    expect(stats.totalBytes).toBeGreaterThan(0);
+
+    expect(await cache.clear(true)).toBe(0);
+    expect(await cache.clear()).toBe(2);
+    expect(await cache.list()).toEqual([]);
+  });
+
+  it('returns empty results when the directory does not exist yet', async () => {
+    const cache = new IdentificationCache({ directory: path.join(dir, 'missing') });
+    expect(await cache.list()).toEqual([]);
+    expect(await cache.clear()).toBe(0);
+  });
+
+  describe('fromEnv', () => {
+    it('returns null when disabled', () => {
+      expect(IdentificationCache.fromEnv({ PLANTNET_CACHE: 'off' })).toBeNull();
+    });
+
+    it('reads directory, TTL and size limits', () => {
+      const cache = IdentificationCache.fromEnv({
+        PLANTNET_CACHE_DIR: dir,
+        PLANTNET_CACHE_TTL_HOURS: '2',
+        PLANTNET_CACHE_MAX_ENTRIES: '10',
+        PLANTNET_CACHE_MAX_MB: '1',
+      });
+      expect(cache?.options).toEqual({
+        directory: dir,
+        ttlMs: 2 * 60 * 60 * 1000,
+        maxEntries: 10,
+        maxBytes: 1024 * 1024,
+      });
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { PlantNetBadImageError, PlantNetValidationError } from '../src/errors';
+import type { HttpRequestInit } from '../src/http';
+import {
+  DEFAULT_IMAGE_FETCH_POLICY,
+  HostList,
+  checkImageContentType,
+  checkImageUrl,
+  createImageDispatcher,
+  guardedLookup,
+  imageFetchPolicyFromEnv,
+  isInternalAddress,
+  readLimitedBody,
+  type ImageFetchPolicy,
+} from '../src/image-fetch-guard';
+
+function policy(overrides: Partial<ImageFetchPolicy> = {}): ImageFetchPolicy {
+  return { ...DEFAULT_IMAGE_FETCH_POLICY, ...overrides };
+}
+
+const resolvesTo = (...addresses: string[]) => async () => addresses;
+
+describe('isInternalAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '172.20.0.1',
+    '192.168.1.10',
+    '169.254.169.254',
+    '100.64.0.1',
+    '0.0.0.0',
+    '::1',
+    'fe80::1',
+    'fd00::abcd',
+    '::ffff:10.0.0.1',
+    '::ffff:a00:1',
+    '::a00:1',
+    '2002:a00:1::1',
+    '64:ff9b::a9fe:a9fe',
+    '2001:0:4136:e378:8000:63bf:3fff:fdd2',
+  ])('blocks %s', (address) => {
+    expect(isInternalAddress(address)).toBe(true);
+  });
+
+  it.each(['93.184.215.14', '8.8.8.8', '172.32.0.1', '2606:4700::1111', '::ffff:8.8.8.8'])(
+    'allows %s',
+    (address) => {
+      expect(isInternalAddress(address)).toBe(false);
+    }
+  );
+});
+
+describe('HostList', () => {
+  it('matches exact names, subdomain wildcards, IPs and CIDRs', () => {
+    const list = new HostList(['photos.example.org', '*.cdn.example.net', '10.0.0.0/8', '192.168.1.5']);
+
+    expect(list.matchesName('PHOTOS.example.org')).toBe(true);
+    expect(list.matchesName('img.photos.example.org')).toBe(false);
+    expect(list.matchesName('eu.cdn.example.net')).toBe(true);
+    expect(list.matchesName('cdn.example.net')).toBe(false);
+    expect(list.matchesAddress('10.9.8.7')).toBe(true);
+    expect(list.matchesAddress('192.168.1.5')).toBe(true);
+    expect(list.matchesAddress('192.168.1.6')).toBe(false);
+  });
+});
+
+describe('imageFetchPolicyFromEnv', () => {
+  it('reads schemes, limits and host lists', () => {
+    expect(
+      imageFetchPolicyFromEnv({
+        PLANTNET_IMAGE_ALLOWED_SCHEMES: 'HTTPS:',
+        PLANTNET_IMAGE_MAX_REDIRECTS: '0',
+        PLANTNET_IMAGE_MAX_MB: '2',
+        PLANTNET_IMAGE_ALLOW_PRIVATE: 'true',
+        PLANTNET_IMAGE_ALLOW_HOSTS: 'photos.internal, 10.0.0.0/8',
+        PLANTNET_IMAGE_DENY_HOSTS: '*.evil.test',
+      })
+    ).toEqual({
+      allowedSchemes: ['https'],
+      maxRedirects: 0,
+      maxBytes: 2 * 1024 * 1024,
+      blockPrivateAddresses: false,
+      allowHosts: ['photos.internal', '10.0.0.0/8'],
+      denyHosts: ['*.evil.test'],
+    });
+  });
+
+  it('ignores invalid values', () => {
+    expect(imageFetchPolicyFromEnv({ PLANTNET_IMAGE_MAX_REDIRECTS: '-1', PLANTNET_IMAGE_MAX_MB: 'lots' })).toEqual({});
+  });
+});
+
+describe('checkImageUrl', () => {
+  const check = (url: string, overrides: Partial<ImageFetchPolicy> = {}, ...addresses: string[]) =>
+    checkImageUrl(new URL(url), policy(overrides), resolvesTo(...(addresses.length ? addresses : ['93.184.215.14'])));
+
+  it('accepts public hosts', async () => {
+    await expect(check('https://images.example.com/oak.jpg')).resolves.toBeUndefined();
+  });
+
+  it('rejects disallowed schemes and embedded credentials', async () => {
+    await expect(check('http://example.com/a.jpg', { allowedSchemes: ['https'] })).rejects.toThrow(
+      'scheme "http" is not allowed'
+    );
+    await expect(check('https://user:pw@example.com/a.jpg')).rejects.toThrow('must not contain credentials');
+  });
+
+  it('rejects hosts resolving to internal addresses, naming the address', async () => {
+    const err = await check('http://metadata.example/latest', {}, '169.254.169.254').catch((e) => e);
+
+    expect(err).toBeInstanceOf(PlantNetValidationError);
+    expect(err.message).toContain('resolves to 169.254.169.254, a private, loopback or link-local address');
+    // One internal address among several is enough to refuse
+    await expect(check('http://mixed.example/a.jpg', {}, '93.184.215.14', '10.0.0.7')).rejects.toThrow('10.0.0.7');
+    await expect(check('http://127.0.0.1:8080/a.jpg')).rejects.toThrow('127.0.0.1');
+    await expect(check('http://[::1]/a.jpg')).rejects.toThrow('::1');
+  });
+
+  it('lets allow-listed hosts and networks through the private-address block', async () => {
+    await expect(check('http://photos.lan/a.jpg', { allowHosts: ['photos.lan'] }, '192.168.1.5')).resolves.toBeUndefined();
+    await expect(check('http://nas/a.jpg', { allowHosts: ['192.168.1.0/24'] }, '192.168.1.5')).resolves.toBeUndefined();
+    await expect(check('http://nas/a.jpg', { blockPrivateAddresses: false }, '192.168.1.5')).resolves.toBeUndefined();
+  });
+
+  it('rejects deny-listed names and networks even when allowed', async () => {
+    await expect(
+      check('https://cdn.evil.test/a.jpg', { denyHosts: ['*.evil.test'], allowHosts: ['cdn.evil.test'] })
+    ).rejects.toThrow('blocked by PLANTNET_IMAGE_DENY_HOSTS');
+    await expect(check('https://example.com/a.jpg', { denyHosts: ['93.184.0.0/16'] })).rejects.toThrow(
+      'resolves to 93.184.215.14, which is blocked'
+    );
+  });
+
+  it('reports hosts that do not resolve', async () => {
+    const failing = async () => {
+      throw Object.assign(new Error('getaddrinfo ENOTFOUND nowhere.invalid'), { code: 'ENOTFOUND' });
+    };
+
+    await expect(checkImageUrl(new URL('https://nowhere.invalid/a.jpg'), policy(), failing)).rejects.toThrow(
+      new PlantNetBadImageError('Could not resolve image host nowhere.invalid: ENOTFOUND')
+    );
+  });
+});
+
+describe('guardedLookup', () => {
+  const lookup = (hostname: string, options: { all?: boolean; family?: number }, ...addresses: string[]) =>
+    new Promise<{ err: Error | null; address: unknown; family?: number }>((done) =>
+      guardedLookup(policy(), resolvesTo(...addresses))(hostname, options, (err, address, family) =>
+        done({ err, address, family })
+      )
+    );
+
+  it('answers with the checked addresses, filtered by family', async () => {
+    expect(await lookup('images.example.com', {}, '93.184.215.14')).toEqual({
+      err: null,
+      address: '93.184.215.14',
+      family: 4,
+    });
+    const both = await lookup('images.example.com', { all: true, family: 6 }, '93.184.215.14', '2606:4700::1111');
+    expect(both.address).toEqual([{ address: '2606:4700::1111', family: 6 }]);
+  });
+
+  it('fails the lookup when the host now resolves to an internal address', async () => {
+    const { err } = await lookup('rebind.example', { all: true }, '93.184.215.14', '127.0.0.1');
+
+    expect(err).toBeInstanceOf(PlantNetValidationError);
+    expect(err?.message).toContain('resolves to 127.0.0.1');
+  });
+});
+
+describe('createImageDispatcher', () => {
+  let server: http.Server;
+  let port: number;
+
+  beforeAll(async () => {
+    server = http.createServer((_req, res) => res.end('ok'));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  // Public when checked, loopback when the socket resolves it: a DNS-rebinding host
+  function rebinding() {
+    let calls = 0;
+    return async () => (calls++ === 0 ? ['93.184.215.14'] : ['127.0.0.1']);
+  }
+
+  it('refuses a connection to a host that re-resolves to an internal address after the check', async () => {
+    const resolve = rebinding();
+    const url = new URL(`http://rebind.test:${port}/a.jpg`);
+    await checkImageUrl(url, policy(), resolve);
+    const dispatcher = createImageDispatcher(policy(), resolve);
+    const init: HttpRequestInit = { dispatcher };
+
+    const err = await fetch(url, init).catch((e) => e);
+    await dispatcher.destroy();
+
+    expect(err.message).toBe('fetch failed');
+    expect(String(err.cause)).toContain('Image host rebind.test resolves to 127.0.0.1');
+  });
+
+  it('connects to allow-listed internal addresses', async () => {
+    const dispatcher = createImageDispatcher(policy({ allowHosts: ['127.0.0.0/8'] }), resolvesTo('127.0.0.1'));
+    const init: HttpRequestInit = { dispatcher };
+
+    const response = await fetch(`http://photos.test:${port}/a.jpg`, init);
+    expect(await response.text()).toBe('ok');
+    await dispatcher.destroy();
+  });
+});
+
+describe('checkImageContentType', () => {
+  it('accepts image types and a missing header, and rejects everything else', () => {
+    expect(() => checkImageContentType('image/webp', 'u')).not.toThrow();
+    expect(() => checkImageContentType(null, 'u')).not.toThrow();
+    expect(() => checkImageContentType('text/html; charset=utf-8', 'https://x.test/')).toThrow(
+      'URL did not return an image (content type text/html): https://x.test/'
+    );
+  });
+});
+
+describe('readLimitedBody', () => {
+  function streamOf(chunks: number[]): Response {
+    return new Response(
+      new ReadableStream({
+        start(controller) {
+          for (const size of chunks) controller.enqueue(new Uint8Array(size));
+          controller.close();
+        },
+      })
+    );
+  }
+
+  it('returns bodies within the limit', async () => {
+    expect((await readLimitedBody(streamOf([400, 600]), 1000, 'u')).length).toBe(1000);
+  });
+
+  it('aborts a stream once it passes the limit', async () => {
+    await expect(readLimitedBody(streamOf([600, 600, 600]), 1000, 'https://x.test/big.jpg')).rejects.toThrow(
+      'Image at https://x.test/big.jpg is larger than'
+    );
+  });
+
+  it('rejects an oversized Content-Length before reading', async () => {
+    const response = new Response('small', { headers: { 'content-length': '5000000' } });
+
+    await expect(readLimitedBody(response, 1000, 'u')).rejects.toBeInstanceOf(PlantNetBadImageError);
+  });
+});
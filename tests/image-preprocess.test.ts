@@ -0,0 +1,158 @@
+import * as jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import {
+  DEFAULT_PREPROCESS_OPTIONS,
+  applyOrientation,
+  downscale,
+  preprocessImage,
+  preprocessOptionsFromEnv,
+} from '../src/image-preprocess';
+import type { LoadedImage } from '../src/image-source';
+
+function makeJpeg(width: number, height: number): Buffer {
+  return jpeg.encode({ width, height, data: Buffer.alloc(width * height * 4, 200) }, 90).data;
+}
+
+function makePng(width: number, height: number): Buffer {
+  const png = new PNG({ width, height });
+  png.data.fill(100);
+  return PNG.sync.write(png);
+}
+
+/** Insert an EXIF APP1 segment carrying the given orientation right after SOI. */
+function withOrientation(buffer: Buffer, orientation: number): Buffer {
+  const tiff = Buffer.from([
+    0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08, // big-endian header, IFD at 8
+    0x00, 0x01, // one entry
+    0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, orientation, 0x00, 0x00,
+    0x00, 0x00, 0x00, 0x00, // no next IFD
+  ]);
+  const payload = Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), tiff]);
+  const header = Buffer.from([0xff, 0xe1, 0, 0]);
+  header.writeUInt16BE(payload.length + 2, 2);
+  return Buffer.concat([buffer.subarray(0, 2), header, payload, buffer.subarray(2)]);
+}
+
+function loaded(buffer: Buffer, contentType = 'image/jpeg'): LoadedImage {
+  return { buffer, contentType, extension: contentType === 'image/png' ? 'png' : 'jpg' };
+}
+
+const OPTIONS = { ...DEFAULT_PREPROCESS_OPTIONS, maxEdge: 16 };
+
+describe('preprocessImage', () => {
+  it('passes small upright images through untouched', () => {
+    const buffer = makeJpeg(8, 4);
+    expect(preprocessImage(loaded(buffer), OPTIONS).buffer).toBe(buffer);
+  });
+
+  it('detects the format from magic bytes rather than the declared type', () => {
+    const result = preprocessImage(loaded(makePng(4, 4), 'image/jpeg'), OPTIONS);
+    expect(result.contentType).toBe('image/png');
+    expect(result.extension).toBe('png');
+  });
+
+  it('downscales large images to maxEdge and re-encodes them as JPEG', () => {
+    const result = preprocessImage(loaded(makePng(64, 32), 'image/png'), OPTIONS);
+    const decoded = jpeg.decode(result.buffer);
+    expect(result.contentType).toBe('image/jpeg');
+    expect([decoded.width, decoded.height]).toEqual([16, 8]);
+  });
+
+  it('applies EXIF orientation', () => {
+    const result = preprocessImage(loaded(withOrientation(makeJpeg(8, 4), 6)), OPTIONS);
+    const decoded = jpeg.decode(result.buffer);
+    expect([decoded.width, decoded.height]).toEqual([4, 8]);
+  });
+
+  it('rejects unrecognised formats', () => {
+    expect(() => preprocessImage(loaded(Buffer.from('GIF89a...')), OPTIONS)).toThrow(
+      'Unsupported image format'
+    );
+  });
+
+  it('rejects images above the input size limit', () => {
+    expect(() =>
+      preprocessImage(loaded(makeJpeg(8, 8)), { ...OPTIONS, maxInputBytes: 10 })
+    ).toThrow('above the 0.0 MB limit');
+  });
+
+  it('rejects images declaring more pixels than the limit before decoding them', () => {
+    // Headers claiming 30000×30000 pixels on a few hundred bytes of data
+    const png = makePng(32, 32);
+    png.writeUInt32BE(30000, 16);
+    png.writeUInt32BE(30000, 20);
+    const jpg = makeJpeg(32, 32);
+    const sof = jpg.indexOf(Buffer.from([0xff, 0xc0]));
+    jpg.writeUInt16BE(30000, sof + 5);
+    jpg.writeUInt16BE(30000, sof + 7);
+
+    expect(() => preprocessImage(loaded(png, 'image/png'), OPTIONS)).toThrow(
+      'Image is 30000×30000 (900.0 MP), above the 64 MP limit'
+    );
+    expect(() => preprocessImage(loaded(jpg), OPTIONS)).toThrow('above the 64 MP limit');
+    expect(() => preprocessImage(loaded(makeJpeg(64, 64)), { ...OPTIONS, maxMegapixels: 0.001 })).toThrow(
+      'Image is 64×64 (0.0 MP), above the 0.001 MP limit'
+    );
+  });
+
+  it('rejects truncated images that need decoding', () => {
+    const truncated = makeJpeg(64, 64).subarray(0, 200);
+    expect(() => preprocessImage(loaded(truncated), OPTIONS)).toThrow('could not be decoded');
+  });
+
+  it('does nothing when disabled', () => {
+    const image = loaded(Buffer.from('anything'));
+    expect(preprocessImage(image, { ...OPTIONS, enabled: false })).toBe(image);
+  });
+});
+
+describe('applyOrientation', () => {
+  // 2x1 image: red pixel then blue pixel
+  const image = {
+    width: 2,
+    height: 1,
+    data: new Uint8Array([255, 0, 0, 255, 0, 0, 255, 255]),
+  };
+
+  it('mirrors horizontally for orientation 2', () => {
+    expect(Array.from(applyOrientation(image, 2).data)).toEqual([0, 0, 255, 255, 255, 0, 0, 255]);
+  });
+
+  it('rotates 90° clockwise for orientation 6', () => {
+    const rotated = applyOrientation(image, 6);
+    expect([rotated.width, rotated.height]).toEqual([1, 2]);
+    expect(Array.from(rotated.data)).toEqual([255, 0, 0, 255, 0, 0, 255, 255]);
+  });
+
+  it('rotates 90° counter-clockwise for orientation 8', () => {
+    const rotated = applyOrientation(image, 8);
+    expect(Array.from(rotated.data)).toEqual([0, 0, 255, 255, 255, 0, 0, 255]);
+  });
+});
+
+describe('downscale', () => {
+  it('averages source pixels', () => {
+    const image = { width: 2, height: 1, data: new Uint8Array([0, 0, 0, 255, 200, 100, 50, 255]) };
+    expect(Array.from(downscale(image, 1).data)).toEqual([100, 50, 25, 255]);
+  });
+});
+
+describe('preprocessOptionsFromEnv', () => {
+  it('reads overrides', () => {
+    expect(
+      preprocessOptionsFromEnv({
+        PLANTNET_IMAGE_PREPROCESS: 'off',
+        PLANTNET_IMAGE_MAX_EDGE: '1024',
+        PLANTNET_IMAGE_JPEG_QUALITY: '70',
+        PLANTNET_IMAGE_MAX_INPUT_MB: '10',
+        PLANTNET_IMAGE_MAX_MEGAPIXELS: '24',
+      })
+    ).toEqual({
+      enabled: false,
+      maxEdge: 1024,
+      jpegQuality: 70,
+      maxInputBytes: 10 * 1024 * 1024,
+      maxMegapixels: 24,
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { PlantNetBadImageError } from '../src/errors';
+import { DEFAULT_IMAGE_FETCH_POLICY } from '../src/image-fetch-guard';
+import {
+  classifyImageSource,
+  loadImage,
+  parseAllowedRoots,
+  sniffImageType,
+} from '../src/image-source';
+
+const JPEG_BYTES = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46]);
+const PNG_BYTES = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch as typeof fetch;
+
+describe('classifyImageSource', () => {
+  it('recognises http(s) URLs, file URLs, absolute paths and data URIs', () => {
+    expect(classifyImageSource('https://example.com/a.jpg')).toBe('url');
+    expect(classifyImageSource('http://example.com/a.jpg')).toBe('url');
+    expect(classifyImageSource('file:///tmp/a.jpg')).toBe('file');
+    expect(classifyImageSource(path.resolve('/tmp/a.jpg'))).toBe('file');
+    expect(classifyImageSource('data:image/png;base64,iVBORw0KGgo=')).toBe('data');
+  });
+
+  it('rejects relative paths, other schemes and non-base64 data URIs', () => {
+    expect(classifyImageSource('photos/a.jpg')).toBeNull();
+    expect(classifyImageSource('ftp://example.com/a.jpg')).toBeNull();
+    expect(classifyImageSource('data:text/plain,hello')).toBeNull();
+  });
+});
+
+describe('sniffImageType', () => {
+  it('detects JPEG and PNG from magic bytes', () => {
+    expect(sniffImageType(JPEG_BYTES)).toBe('image/jpeg');
+    expect(sniffImageType(PNG_BYTES)).toBe('image/png');
+  });
+
+  it('returns null for unknown bytes', () => {
+    expect(sniffImageType(Buffer.from('GIF89a'))).toBeNull();
+    expect(sniffImageType(Buffer.alloc(0))).toBeNull();
+  });
+});
+
+describe('parseAllowedRoots', () => {
+  it('splits on commas and resolves each directory', () => {
+    expect(parseAllowedRoots(' /a , /b ')).toEqual([path.resolve('/a'), path.resolve('/b')]);
+    expect(parseAllowedRoots(undefined)).toEqual([]);
+  });
+});
+
+describe('loadImage', () => {
+  let root: string;
+  let outside: string;
+
+  beforeAll(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'plantnet-img-'));
+    outside = fs.mkdtempSync(path.join(os.tmpdir(), 'plantnet-out-'));
+    fs.writeFileSync(path.join(root, 'leaf.png'), PNG_BYTES);
+    fs.writeFileSync(path.join(root, 'notes.txt'), 'not an image');
+    fs.writeFileSync(path.join(outside, 'secret.jpg'), JPEG_BYTES);
+  });
+
+  afterAll(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+    fs.rmSync(outside, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('sniffs the content type of downloaded images instead of trusting the header', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      headers: { get: () => 'image/jpeg' },
+      arrayBuffer: async () => PNG_BYTES,
+    });
+    const image = await loadImage('https://example.com/mislabelled.jpg');
+    expect(image.contentType).toBe('image/png');
+    expect(image.extension).toBe('png');
+  });
+
+  it('checks every redirect hop against the fetch policy', async () => {
+    const resolveHost = async (host: string) => (host === 'metadata.internal' ? ['169.254.169.254'] : ['93.184.215.14']);
+    mockFetch
+      .mockResolvedValueOnce(new Response(null, { status: 302, headers: { location: '/moved.jpg' } }))
+      .mockResolvedValueOnce(new Response(JPEG_BYTES, { headers: { 'content-type': 'image/jpeg' } }))
+      .mockResolvedValueOnce(
+        new Response(null, { status: 301, headers: { location: 'http://metadata.internal/latest' } })
+      );
+
+    const image = await loadImage('https://example.com/a.jpg', { resolveHost });
+    expect(image.buffer.equals(JPEG_BYTES)).toBe(true);
+    expect(mockFetch.mock.calls[1][0]).toBe('https://example.com/moved.jpg');
+    expect(mockFetch.mock.calls[0][1]).toMatchObject({ redirect: 'manual' });
+
+    await expect(loadImage('https://example.com/b.jpg', { resolveHost })).rejects.toThrow(
+      'Image host metadata.internal resolves to 169.254.169.254'
+    );
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('stops after the configured number of redirects', async () => {
+    mockFetch.mockImplementation(
+      async () => new Response(null, { status: 302, headers: { location: 'https://example.com/again.jpg' } })
+    );
+    const fetchPolicy = { ...DEFAULT_IMAGE_FETCH_POLICY, maxRedirects: 2 };
+
+    await expect(loadImage('https://example.com/loop.jpg', { fetchPolicy })).rejects.toThrow(
+      'Too many redirects fetching image at https://example.com/loop.jpg (limit 2'
+    );
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    mockFetch.mockReset();
+  });
+
+  it('rejects non-image responses and oversized downloads', async () => {
+    mockFetch
+      .mockResolvedValueOnce(new Response('<html>login</html>', { headers: { 'content-type': 'text/html' } }))
+      .mockResolvedValueOnce(new Response(new Uint8Array(2048), { headers: { 'content-type': 'image/jpeg' } }));
+
+    await expect(loadImage('https://example.com/page')).rejects.toThrow('did not return an image');
+    await expect(
+      loadImage('https://example.com/huge.jpg', { fetchPolicy: { ...DEFAULT_IMAGE_FETCH_POLICY, maxBytes: 1024 } })
+    ).rejects.toThrow('is larger than');
+  });
+
+  it('rejects downloads that are not JPEG or PNG whatever the content type says', async () => {
+    mockFetch
+      .mockResolvedValueOnce(new Response('#!/bin/sh', { headers: { 'content-type': 'application/octet-stream' } }))
+      .mockResolvedValueOnce(new Response(new Uint8Array([0x00, 0x01, 0x02])))
+      .mockResolvedValueOnce(new Response('GIF89a', { headers: { 'content-type': 'image/jpeg' } }));
+
+    for (const url of ['https://example.com/blob', 'https://example.com/untyped', 'https://example.com/a.gif']) {
+      await expect(loadImage(url)).rejects.toThrow(PlantNetBadImageError);
+    }
+  });
+
+  it('reads absolute paths and file:// URLs inside an allowed root', async () => {
+    const file = path.join(root, 'leaf.png');
+    const byPath = await loadImage(file, { allowedRoots: [root] });
+    const byUrl = await loadImage(pathToFileURL(file).href, { allowedRoots: [root] });
+    expect(byPath.contentType).toBe('image/png');
+    expect(byUrl.buffer.equals(PNG_BYTES)).toBe(true);
+  });
+
+  it('rejects local paths when no roots are configured', async () => {
+    await expect(loadImage(path.join(root, 'leaf.png'))).rejects.toThrow(
+      'Local image paths are disabled'
+    );
+  });
+
+  it('rejects local paths outside the allowed roots, including traversal', async () => {
+    await expect(
+      loadImage(path.join(outside, 'secret.jpg'), { allowedRoots: [root] })
+    ).rejects.toThrow('outside the allowed directories');
+    await expect(
+      loadImage(path.join(root, '..', path.basename(outside), 'secret.jpg'), {
+        allowedRoots: [root],
+      })
+    ).rejects.toThrow('outside the allowed directories');
+  });
+
+  it('rejects local files that are not JPEG or PNG', async () => {
+    await expect(
+      loadImage(path.join(root, 'notes.txt'), { allowedRoots: [root] })
+    ).rejects.toThrow('Unsupported image format');
+  });
+
+  it('decodes base64 data URIs', async () => {
+    const image = await loadImage(`data:image/jpeg;base64,${JPEG_BYTES.toString('base64')}`);
+    expect(image.contentType).toBe('image/jpeg');
+    expect(image.buffer.equals(JPEG_BYTES)).toBe(true);
+  });
+
+  it('rejects data URIs that do not contain an image', async () => {
+    await expect(
+      loadImage(`data:image/png;base64,${Buffer.from('hello').toString('base64')}`)
+    ).rejects.toThrow('Unsupported image format in data URI');
+  });
+});
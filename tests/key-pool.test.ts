@@ -0,0 +1,233 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as jpeg from 'jpeg-js';
+import { PlantNetAuthError, PlantNetQuotaError } from '../src/errors';
+import { ApiKeyPool, KeyPoolProvider, apiKeysFromEnv } from '../src/key-pool';
+import { QuotaTracker } from '../src/quota-tracker';
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch as typeof fetch;
+
+const JPEG_BYTES = new Uint8Array(
+  jpeg.encode({ width: 2, height: 2, data: Buffer.alloc(16, 128) }, 90).data
+);
+
+const KEY_A = '2b10aaaaaaaaaaaaaaaaaaaaaa';
+const KEY_B = '2b10bbbbbbbbbbbbbbbbbbbbbb';
+
+function identifyBody(remaining: number) {
+  return {
+    query: { project: 'all', images: ['img1'], organs: ['leaf'], includeRelatedImages: false },
+    language: 'en',
+    preferedReferential: 'all',
+    bestMatch: 'Quercus robur L.',
+    results: [],
+    remainingIdentificationRequests: remaining,
+    version: '2.1',
+  };
+}
+
+function respond(body: unknown, status = 200) {
+  return {
+    ok: status < 400,
+    status,
+    statusText: status < 400 ? 'OK' : 'Error',
+    headers: { get: () => 'image/jpeg' },
+    arrayBuffer: async () => JPEG_BYTES.buffer,
+    json: async () => body,
+  } as unknown as Response;
+}
+
+/** Answer image downloads with a JPEG and identifications per API key. */
+function routeByKey(answers: Record<string, () => Response>) {
+  mockFetch.mockImplementation(async (url: string) => {
+    if (!url.includes('/v2/')) return respond(null);
+    const key = new URL(url).searchParams.get('api-key')!;
+    return answers[key]();
+  });
+}
+
+describe('apiKeysFromEnv', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plantnet-keys-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('merges the key list, key file and single key without duplicates', () => {
+    const file = path.join(dir, 'keys.txt');
+    fs.writeFileSync(file, `# team keys\n${KEY_B}\n\nkey-c  # spare\n`);
+
+    expect(
+      apiKeysFromEnv({
+        PLANTNET_API_KEYS: ` ${KEY_A}, ${KEY_B} `,
+        PLANTNET_API_KEYS_FILE: file,
+        PLANTNET_API_KEY: KEY_A,
+      })
+    ).toEqual([KEY_A, KEY_B, 'key-c']);
+    expect(apiKeysFromEnv({ PLANTNET_API: 'fallback' })).toEqual(['fallback']);
+    expect(apiKeysFromEnv({})).toEqual([]);
+  });
+});
+
+describe('ApiKeyPool', () => {
+  let dir: string;
+  let pool: ApiKeyPool;
+  let ids: string[];
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plantnet-pool-'));
+    const file = path.join(dir, 'quota.json');
+    pool = new ApiKeyPool([KEY_A, KEY_B], (key) => new QuotaTracker(key, { file }));
+    ids = pool.keys().map((k) => k.id);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('requires at least one key', () => {
+    expect(() => new ApiKeyPool([])).toThrow('at least one key');
+    expect(() => ApiKeyPool.fromEnv({})).toThrow('PLANTNET_API_KEY');
+  });
+
+  it('routes to the key with the most remaining quota, unknown counting as full', async () => {
+    expect(await pool.select()).toBe(ids[0]);
+
+    await pool.record(120, ids[0]);
+    expect(await pool.select()).toBe(ids[1]);
+
+    await pool.record(80, ids[1]);
+    expect(await pool.select()).toBe(ids[0]);
+    expect(await pool.select(new Set([ids[0]]))).toBe(ids[1]);
+  });
+
+  it('skips exhausted and rejected keys', async () => {
+    await pool.markExhausted(ids[0]);
+    expect(await pool.select()).toBe(ids[1]);
+
+    pool.markRejected(ids[1], 'PlantNet API error 401: Invalid API key');
+    expect(await pool.select()).toBeNull();
+  });
+
+  it('selects exhausted keys but not rejected ones for unmetered calls', async () => {
+    await pool.markExhausted(ids[0]);
+    await pool.markExhausted(ids[1]);
+    expect(await pool.select()).toBeNull();
+    expect(pool.selectUnmetered()).toBe(ids[0]);
+    expect(pool.selectUnmetered(new Set([ids[0]]))).toBe(ids[1]);
+
+    pool.markRejected(ids[0], 'revoked');
+    expect(pool.selectUnmetered()).toBe(ids[1]);
+  });
+
+  it('reports per-key status with masked keys and pool totals', async () => {
+    await pool.record(300, ids[0]);
+    await pool.record(200, ids[1]);
+    pool.recordCacheHit();
+
+    const status = await pool.status();
+
+    expect(status.keys.map((k) => [k.key, k.state, k.estimatedRemaining])).toEqual([
+      ['2b10…aaaa', 'available', 300],
+      ['2b10…bbbb', 'available', 200],
+    ]);
+    expect(status.estimatedRemaining).toBe(500);
+    expect(status.dailyLimit).toBe(1000);
+    expect(status.sessionCalls).toBe(2);
+    expect(status.sessionCacheHits).toBe(1);
+    expect(JSON.stringify(status)).not.toContain(KEY_A);
+
+    pool.markRejected(ids[1], 'revoked');
+    const afterReject = await pool.status();
+    expect(afterReject.keys[1]).toMatchObject({ state: 'rejected', rejectedReason: 'revoked' });
+    expect(afterReject.estimatedRemaining).toBe(300);
+  });
+
+  it('warns when the combined remaining quota is low', async () => {
+    await pool.record(20, ids[0]);
+    await pool.record(20, ids[1]);
+
+    expect(await pool.lowQuotaWarning()).toContain('about 40 identification requests remain today across 2 API keys');
+  });
+});
+
+describe('KeyPoolProvider', () => {
+  let dir: string;
+  let pool: ApiKeyPool;
+  let ids: string[];
+  const args = { image_urls: ['https://example.com/oak.jpg'], organs: ['leaf'] };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plantnet-pool-'));
+    const file = path.join(dir, 'quota.json');
+    pool = new ApiKeyPool([KEY_A, KEY_B], (key) => new QuotaTracker(key, { file }));
+    ids = pool.keys().map((k) => k.id);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('tags results with the fingerprint of the key that answered', async () => {
+    routeByKey({ [KEY_A]: () => respond(identifyBody(400)) });
+
+    const result = await new KeyPoolProvider(pool).identifyPlant(args);
+
+    expect(result.apiKeyId).toBe(ids[0]);
+    expect(JSON.stringify(result)).not.toContain(KEY_A);
+  });
+
+  it('fails over to the next key on 429 and 401', async () => {
+    routeByKey({
+      [KEY_A]: () => respond({ message: 'Too many requests' }, 429),
+      [KEY_B]: () => respond(identifyBody(250)),
+    });
+    const provider = new KeyPoolProvider(pool);
+
+    expect((await provider.identifyPlant(args)).apiKeyId).toBe(ids[1]);
+    expect((await pool.status()).keys[0].state).toBe('exhausted');
+
+    routeByKey({ [KEY_B]: () => respond({ message: 'Invalid API key' }, 401) });
+    await expect(provider.identifyPlant(args)).rejects.toBeInstanceOf(PlantNetAuthError);
+    expect((await pool.status()).keys[1].state).toBe('rejected');
+
+    // Nothing left to try: no request is sent
+    mockFetch.mockClear();
+    await expect(provider.identifyPlant(args)).rejects.toBeInstanceOf(PlantNetQuotaError);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('lists projects once every key is out of quota and shares the catalog with its clients', async () => {
+    await pool.markExhausted(ids[0]);
+    await pool.markExhausted(ids[1]);
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url.includes('/v2/projects')) return respond([{ id: 'weurope', title: 'Western Europe' }]);
+      return url.includes('/v2/') ? respond(identifyBody(99)) : respond(null);
+    });
+    const provider = new KeyPoolProvider(pool);
+
+    expect(await provider.projects.get()).toMatchObject({ weurope: { id: 'weurope', name: 'Western Europe' } });
+
+    // Project "auto" reads the pool's catalog, so the project list is not fetched again
+    await pool.record(100, ids[1]);
+    const result = await provider.identifyPlant({ ...args, latitude: 48.85, longitude: 2.35 });
+    expect(result.projectSelection?.project).toBe('weurope');
+    expect(mockFetch.mock.calls.filter(([url]) => String(url).includes('/v2/projects'))).toHaveLength(1);
+  });
+
+  it('does not fail over on other errors', async () => {
+    routeByKey({ [KEY_A]: () => respond({ message: 'Service unavailable' }, 503) });
+
+    await expect(
+      new KeyPoolProvider(pool, { retry: { maxRetries: 0 } }).identifyPlant(args)
+    ).rejects.toThrow('503');
+    expect((await pool.status()).keys.map((k) => k.state)).toEqual(['available', 'available']);
+  });
+});
@@ -0,0 +1,140 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as jpeg from 'jpeg-js';
+import { PlantNetAuthError, PlantNetNotFoundError } from '../src/errors';
+import { DEFAULT_BASE_URL, PlantNetClient } from '../src/plantnet-client';
+import {
+  HTTP_FIXTURES_DIR,
+  REDACTED,
+  isRecording,
+  openHttpFixture,
+  redact,
+  type HttpFixture,
+  type HttpHarness,
+} from './http-fixtures';
+
+// The scenarios of test-live.ts, replayed from tests/fixtures/http. The checked-in fixtures are
+// hand-written (marked `synthetic`); to record them from the real API:
+// PLANTNET_RECORD=1 PLANTNET_API_KEY=... PLANTNET_RECORD_IMAGE=leaf.jpg npx jest live-scenarios
+
+const RECORDING = isRecording();
+jest.setTimeout(RECORDING ? 60_000 : 5_000);
+
+const realFetch = global.fetch;
+let dir: string;
+let imagePath: string;
+
+beforeAll(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plantnet-live-'));
+  imagePath = path.join(dir, 'leaf.jpg');
+  if (RECORDING && process.env.PLANTNET_RECORD_IMAGE) {
+    fs.copyFileSync(path.resolve(process.env.PLANTNET_RECORD_IMAGE), imagePath);
+  } else {
+    // Replay never sends the image anywhere, so any valid JPEG will do
+    const image = jpeg.encode({ width: 8, height: 8, data: Buffer.alloc(256, 96) }, 90).data;
+    fs.writeFileSync(imagePath, image);
+  }
+});
+
+afterAll(() => {
+  global.fetch = realFetch;
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+/** Run a scenario with fetch served (or recorded) by the named fixture. */
+async function withFixture(name: string, scenario: (harness: HttpHarness) => Promise<void>) {
+  const harness = await openHttpFixture(name, { realFetch });
+  global.fetch = harness.fetch;
+  try {
+    await scenario(harness);
+  } finally {
+    global.fetch = realFetch;
+  }
+  await harness.finish();
+}
+
+function makeClient(apiKey: string): PlantNetClient {
+  return new PlantNetClient(apiKey, {
+    baseUrl: DEFAULT_BASE_URL,
+    allowedImageRoots: [dir],
+    // One request per call keeps recordings one-to-one with the scenario
+    retry: { maxRetries: 0 },
+  });
+}
+
+describe('recorded Pl@ntNet scenarios', () => {
+  it('identifies a plant from a local leaf photo', () =>
+    withFixture('identify', async ({ apiKey }) => {
+      const result = await makeClient(apiKey).identifyPlant({
+        image_urls: [imagePath],
+        organs: ['leaf'],
+        project: 'all',
+        nb_results: 3,
+      });
+
+      expect(result.query.project).toBe('all');
+      expect(result.bestMatch).toEqual(expect.any(String));
+      expect(result.results.length).toBeGreaterThan(0);
+      expect(result.results.length).toBeLessThanOrEqual(3);
+      for (const match of result.results) {
+        expect(match.score).toBeGreaterThan(0);
+        expect(match.species.family.scientificNameWithoutAuthor).toEqual(expect.any(String));
+      }
+      expect(result.remainingIdentificationRequests).toEqual(expect.any(Number));
+    }));
+
+  it('lists the flora projects', () =>
+    withFixture('projects', async ({ apiKey }) => {
+      const projects = Object.values(await makeClient(apiKey).listProjects('en'));
+
+      expect(projects.length).toBeGreaterThan(10);
+      for (const project of projects) {
+        expect(project.id).toEqual(expect.any(String));
+      }
+      expect(projects.map((p) => p.id)).toContain('k-western-europe');
+    }));
+
+  it('maps API error responses to typed errors', () =>
+    withFixture('errors', async ({ apiKey }) => {
+      await expect(makeClient('not-a-valid-key').listProjects()).rejects.toBeInstanceOf(
+        PlantNetAuthError
+      );
+      await expect(
+        makeClient(apiKey).identifyPlant({
+          image_urls: [imagePath],
+          organs: ['leaf'],
+          project: 'no-such-flora',
+        })
+      ).rejects.toBeInstanceOf(PlantNetNotFoundError);
+    }));
+});
+
+describe('HTTP fixture harness', () => {
+  it('keeps API keys out of the recorded files', () => {
+    for (const file of fs.readdirSync(HTTP_FIXTURES_DIR)) {
+      const text = fs.readFileSync(path.join(HTTP_FIXTURES_DIR, file), 'utf8');
+      expect(text).not.toMatch(/api-key=(?!%3Credacted%3E)/);
+    }
+    expect(redact('https://x/v2/projects?api-key=secret&lang=en', 'secret')).toBe(
+      `https://x/v2/projects?api-key=${encodeURIComponent(REDACTED)}&lang=en`
+    );
+    expect(redact('{"message":"bad key secret"}', 'secret')).toBe(`{"message":"bad key ${REDACTED}"}`);
+  });
+
+  it('marks every fixture as either recorded or synthetic', () => {
+    for (const file of fs.readdirSync(HTTP_FIXTURES_DIR)) {
+      const fixture = JSON.parse(fs.readFileSync(path.join(HTTP_FIXTURES_DIR, file), 'utf8')) as HttpFixture;
+      expect(fixture.recordedAt !== null || Boolean(fixture.synthetic)).toBe(true);
+    }
+  });
+
+  it('fails when the client sends a request that was not recorded', async () => {
+    const harness = await openHttpFixture('projects', { env: {} });
+
+    await expect(
+      harness.fetch('https://my-api.plantnet.org/v2/identify/all', { method: 'POST' })
+    ).rejects.toThrow('expected GET');
+    await expect(harness.finish()).rejects.toThrow('unused exchange');
+  });
+});
@@ -0,0 +1,111 @@
+import { MESSAGE_LANGUAGES, defaultLanguageFromEnv, messagesFor, resolveCommonNames } from '../src/messages';
+import type { PlantNetResult, ResultAnalysis, SpeciesInfo } from '../src/types';
+
+function keysOf(value: object, prefix = ''): string[] {
+  return Object.entries(value).flatMap(([key, child]) =>
+    child && typeof child === 'object' && !Array.isArray(child)
+      ? keysOf(child, `${prefix}${key}.`)
+      : [`${prefix}${key}`]
+  );
+}
+
+function match(commonNames: string[], vernacularNames?: Record<string, string[]>): PlantNetResult {
+  return {
+    score: 0.9,
+    species: {
+      scientificNameWithoutAuthor: 'Quercus robur',
+      scientificNameAuthorship: 'L.',
+      scientificName: 'Quercus robur L.',
+      genus: { scientificNameWithoutAuthor: 'Quercus' },
+      family: { scientificNameWithoutAuthor: 'Fagaceae' },
+      commonNames,
+    },
+    taxonomy: vernacularNames ? ({ vernacularNames } as SpeciesInfo) : undefined,
+  };
+}
+
+describe('messagesFor', () => {
+  it('picks a catalog by primary language subtag and falls back to English', () => {
+    expect(messagesFor('fr-CA').language).toBe('fr');
+    expect(messagesFor('HE').language).toBe('he');
+    expect(messagesFor('pt-BR').language).toBe('en');
+  });
+
+  it('translates every message in every catalog', () => {
+    const english = keysOf(messagesFor('en')).sort();
+    for (const lang of MESSAGE_LANGUAGES) {
+      expect(keysOf(messagesFor(lang)).sort()).toEqual(english);
+    }
+  });
+
+  it('builds analysis text from structured fields outside English', () => {
+    const analysis: ResultAnalysis = {
+      outcome: 'ambiguous',
+      summary: 'Ambiguous between 2 candidates',
+      candidates: [
+        { rank: 1, scientificName: 'Quercus robur', score: 0.4, genus: 'Quercus', family: 'Fagaceae' },
+        { rank: 2, scientificName: 'Quercus petraea', score: 0.35, genus: 'Quercus', family: 'Fagaceae' },
+      ],
+      sharedTaxon: { rank: 'genus', name: 'Quercus' },
+      taxonGroups: [
+        { rank: 'genus', name: 'Quercus', members: ['Quercus robur', 'Quercus petraea'], combinedScore: 0.75 },
+      ],
+      recommendedOrgan: 'flower',
+      recommendation: 'Add a photo of the flower: flowers carry the most distinguishing characters.',
+    };
+
+    expect(messagesFor('en').analysis.summary(analysis)).toBe(analysis.summary);
+    expect(messagesFor('de').analysis.summary(analysis)).toBe(
+      'Mehrdeutig zwischen 2 Kandidaten (Quercus robur 40.0%, Quercus petraea 35.0%), alle aus der Gattung Quercus (zusammen 75.0%).'
+    );
+    expect(
+      messagesFor('fr').analysis.summary({
+        ...analysis,
+        candidates: [
+          ...analysis.candidates,
+          { rank: 3, scientificName: 'Acer campestre', score: 0.3, genus: 'Acer', family: 'Sapindaceae' },
+        ],
+        sharedTaxon: null,
+      })
+    ).toBe(
+      'Hésitation entre 3 candidats (Quercus robur 40.0%, Quercus petraea 35.0%, Acer campestre 30.0%) ; ' +
+        'regroupements : genre Quercus 75.0% (Quercus robur, Quercus petraea).'
+    );
+    expect(messagesFor('fr').analysis.recommendation(analysis)).toMatch(/^Ajoutez une photo des fleurs/);
+    expect(messagesFor('es').analysis.recommendation({ ...analysis, recommendation: null })).toBeNull();
+  });
+
+  it('joins lists with the conjunction of each language', () => {
+    expect(messagesFor('en').list(['a', 'b', 'c'])).toBe('a, b and c');
+    expect(messagesFor('es').list(['a'])).toBe('a');
+    expect(messagesFor('he').list(['כלבים', 'חתולים'])).toBe('כלבים וחתולים');
+  });
+});
+
+describe('resolveCommonNames', () => {
+  const vernacular = { en: ['English oak'], fr: ['Chêne pédonculé'] };
+
+  it('prefers Pl@ntNet names, then snapshot names in the requested language', () => {
+    expect(resolveCommonNames(match(['Stieleiche'], vernacular), 'de')).toEqual({
+      names: ['Stieleiche'],
+      language: 'de',
+    });
+    expect(resolveCommonNames(match([], vernacular), 'fr-BE')).toEqual({
+      names: ['Chêne pédonculé'],
+      language: 'fr',
+    });
+  });
+
+  it('falls back to English, then to the scientific name', () => {
+    expect(resolveCommonNames(match([], vernacular), 'he')).toEqual({ names: ['English oak'], language: 'en' });
+    expect(resolveCommonNames(match([]), 'he')).toEqual({ names: ['Quercus robur'], language: null });
+  });
+});
+
+describe('defaultLanguageFromEnv', () => {
+  it('reads PLANTNET_DEFAULT_LANG and defaults to English', () => {
+    expect(defaultLanguageFromEnv({ PLANTNET_DEFAULT_LANG: 'es' })).toBe('es');
+    expect(defaultLanguageFromEnv({ PLANTNET_DEFAULT_LANG: ' ' })).toBe('en');
+    expect(defaultLanguageFromEnv({})).toBe('en');
+  });
+});
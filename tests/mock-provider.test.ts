@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PlantNetNotFoundError, PlantNetValidationError } from '../src/errors';
+import { DEFAULT_MOCK_FIXTURES_DIR, MockProvider } from '../src/mock-provider';
+import { providerNameFromEnv } from '../src/provider';
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch as typeof fetch;
+
+describe('MockProvider', () => {
+  const provider = new MockProvider();
+
+  beforeEach(() => jest.clearAllMocks());
+
+  it('answers with the fixture named after the image file', async () => {
+    const result = await provider.identifyPlant({
+      image_urls: ['https://example.com/photos/quercus-robur.jpg'],
+      organs: ['leaf'],
+    });
+
+    expect(result.bestMatch).toBe('Quercus robur L.');
+    expect(result.query).toMatchObject({ project: 'all', organs: ['leaf'] });
+    expect(result.identificationId).toMatch(/^[0-9a-f]{64}$/);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('picks the same fixture for the same request', async () => {
+    const args = { image_urls: ['/tmp/unnamed-photo.jpg'], organs: ['flower'] };
+
+    const first = await provider.identifyPlant(args);
+    const second = await provider.identifyPlant(args);
+
+    expect(second.bestMatch).toBe(first.bestMatch);
+    expect(second.identificationId).toBe(first.identificationId);
+  });
+
+  it('trims results and strips related images unless requested', async () => {
+    const args = { image_urls: ['quercus-robur.jpg'], organs: ['leaf'], nb_results: 1 };
+
+    const plain = await provider.identifyPlant(args);
+    const withImages = await provider.identifyPlant({ ...args, include_related_images: true });
+
+    expect(plain.results).toHaveLength(1);
+    expect(plain.results[0].images).toBeUndefined();
+    expect(withImages.results[0].images?.length).toBeGreaterThan(0);
+  });
+
+  it('raises the error recorded in an error fixture', async () => {
+    await expect(
+      provider.identifyPlant({ image_urls: ['not-found.jpg'], organs: ['leaf'] })
+    ).rejects.toBeInstanceOf(PlantNetNotFoundError);
+  });
+
+  it('selects the regional flora from coordinates', async () => {
+    const result = await provider.identifyPlant({
+      image_urls: ['quercus-robur.jpg'],
+      organs: ['leaf'],
+      latitude: 48.85,
+      longitude: 2.35,
+    });
+
+    expect(result.projectSelection).toMatchObject({
+      project: 'k-western-europe',
+      source: 'coordinates',
+    });
+    expect(result.query.project).toBe('k-western-europe');
+  });
+
+  it('validates arguments like the real client', async () => {
+    await expect(
+      provider.identifyPlant({ image_urls: ['a.jpg', 'b.jpg'], organs: ['leaf'] })
+    ).rejects.toBeInstanceOf(PlantNetValidationError);
+  });
+
+  it('identifies diseases and lists projects and species from fixtures', async () => {
+    const disease = await provider.identifyDisease({ image_urls: ['leaf-spots.jpg'] });
+    const projects = await provider.listProjects();
+    const species = await provider.listSpecies('k-western-europe');
+
+    expect(disease.results.length).toBeGreaterThan(0);
+    expect(projects.all.id).toBe('all');
+    expect(species.map((s) => s.scientificNameWithoutAuthor)).toContain('Quercus robur');
+    await expect(provider.listSpecies('atlantis')).rejects.toBeInstanceOf(PlantNetNotFoundError);
+  });
+
+  it('reads fixtures from PLANTNET_MOCK_FIXTURES', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plantnet-mock-'));
+    try {
+      fs.writeFileSync(path.join(dir, 'projects.json'), JSON.stringify({ test: { id: 'test' } }));
+      const custom = MockProvider.fromEnv({ PLANTNET_MOCK_FIXTURES: dir });
+
+      expect(custom.fixturesDir).toBe(dir);
+      expect(await custom.listProjects()).toEqual({ test: { id: 'test' } });
+      expect(MockProvider.fromEnv({}).fixturesDir).toBe(DEFAULT_MOCK_FIXTURES_DIR);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('providerNameFromEnv', () => {
+  it('defaults to the Pl@ntNet API and rejects unknown providers', () => {
+    expect(providerNameFromEnv({})).toBe('plantnet');
+    expect(providerNameFromEnv({ PLANTNET_PROVIDER: 'Mock' })).toBe('mock');
+    expect(() => providerNameFromEnv({ PLANTNET_PROVIDER: 'inaturalist' })).toThrow('PLANTNET_PROVIDER');
+  });
+});
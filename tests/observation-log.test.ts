@@ -0,0 +1,205 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PlantNetValidationError } from '../src/errors';
+import { ObservationLog, toObservation } from '../src/observation-log';
+import type { IdentifyPlantArgs, PlantNetIdentifyResponse } from '../src/types';
+
+function makeResult(
+  matches: [name: string, family: string, score: number, common?: string[]][],
+  extra: Partial<PlantNetIdentifyResponse> = {}
+): PlantNetIdentifyResponse {
+  return {
+    query: { project: 'weurope', images: ['img'], organs: ['leaf'], includeRelatedImages: false },
+    language: 'en',
+    preferedReferential: 'weurope',
+    bestMatch: matches[0] ? `${matches[0][0]} L.` : '',
+    results: matches.map(([name, family, score, common = []]) => ({
+      score,
+      species: {
+        scientificNameWithoutAuthor: name,
+        scientificNameAuthorship: 'L.',
+        scientificName: `${name} L.`,
+        genus: { scientificNameWithoutAuthor: name.split(' ')[0] },
+        family: { scientificNameWithoutAuthor: family },
+        commonNames: common,
+      },
+      gbif: { id: '123' },
+    })),
+    remainingIdentificationRequests: 400,
+    version: '2.1',
+    ...extra,
+  };
+}
+
+const ARGS: IdentifyPlantArgs = { image_urls: ['https://example.com/a.jpg'], organs: ['leaf'] };
+
+describe('toObservation', () => {
+  it('keeps images, organs, project, top results, notes and location', () => {
+    const obs = toObservation(
+      {
+        image_urls: ['/photos/oak.jpg', 'data:image/png;base64,iVBORw0KGgo='],
+        organs: ['leaf', 'bark'],
+        notes: '  Hedge by the gate ',
+        location: 'site B',
+        latitude: 48.1,
+        longitude: 11.6,
+      },
+      makeResult([['Quercus robur', 'Fagaceae', 0.8, ['English oak']]], {
+        identificationId: 'abc',
+        imageHashes: ['h1', 'h2'],
+      }),
+      5,
+      new Date('2026-10-12T08:30:00Z')
+    );
+
+    expect(obs).toMatchObject({
+      recordedAt: '2026-10-12T08:30:00.000Z',
+      identificationId: 'abc',
+      images: [
+        { source: '/photos/oak.jpg', organ: 'leaf', sha256: 'h1' },
+        { source: 'data:image/png;base64,…', organ: 'bark', sha256: 'h2' },
+      ],
+      project: 'weurope',
+      bestMatch: 'Quercus robur L.',
+      results: [{ scientificName: 'Quercus robur', family: 'Fagaceae', score: 0.8, gbifId: '123' }],
+      notes: 'Hedge by the gate',
+      location: 'site B',
+      coordinates: { latitude: 48.1, longitude: 11.6 },
+      fromCache: false,
+    });
+  });
+
+  it('falls back to coordinates found in EXIF and limits stored results', () => {
+    const obs = toObservation(
+      ARGS,
+      makeResult(
+        [
+          ['Quercus robur', 'Fagaceae', 0.5],
+          ['Quercus petraea', 'Fagaceae', 0.3],
+          ['Fagus sylvatica', 'Fagaceae', 0.1],
+        ],
+        {
+          projectSelection: {
+            project: 'weurope',
+            reason: 'GPS',
+            source: 'exif-gps',
+            coordinates: { latitude: 50, longitude: 4 },
+          },
+        }
+      ),
+      2
+    );
+
+    expect(obs.coordinates).toEqual({ latitude: 50, longitude: 4 });
+    expect(obs.results).toHaveLength(2);
+    expect(obs.notes).toBeNull();
+  });
+
+  it('takes the observation time from observed_at, then from the EXIF capture time', () => {
+    const result = makeResult([['Quercus robur', 'Fagaceae', 0.8]], { photoTakenAt: '2026-05-01T14:03:22' });
+
+    expect(toObservation({ ...ARGS, observed_at: '2026-04-30' }, result).observedAt).toBe('2026-04-30');
+    expect(toObservation(ARGS, result).observedAt).toBe('2026-05-01T14:03:22');
+    expect(toObservation(ARGS, makeResult([['Quercus robur', 'Fagaceae', 0.8]])).observedAt).toBeNull();
+  });
+});
+
+describe('ObservationLog', () => {
+  let dir: string;
+  let log: ObservationLog;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plantnet-observations-'));
+    log = new ObservationLog({ file: path.join(dir, 'nested', 'observations.jsonl') });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function seed() {
+    jest.useFakeTimers({ now: new Date('2026-10-05T10:00:00Z'), doNotFake: ['nextTick', 'setImmediate'] });
+    await log.record(
+      { ...ARGS, location: 'site A' },
+      makeResult([['Taraxacum officinale', 'Asteraceae', 0.3, ['Dandelion']]])
+    );
+    jest.setSystemTime(new Date('2026-10-12T09:00:00Z'));
+    await log.record(
+      { ...ARGS, location: 'site B', notes: 'north hedge' },
+      makeResult([
+        ['Quercus robur', 'Fagaceae', 0.9, ['English oak']],
+        ['Taraxacum officinale', 'Asteraceae', 0.05],
+      ])
+    );
+    jest.setSystemTime(new Date('2026-10-13T18:00:00Z'));
+    await log.record({ ...ARGS, location: 'site B' }, makeResult([['Fagus sylvatica', 'Fagaceae', 0.6]]));
+    jest.useRealTimers();
+  }
+
+  it('returns an empty result before anything is logged', async () => {
+    expect(await log.search()).toEqual({ total: 0, observations: [] });
+  });
+
+  it('appends one JSON line per identification and lists them newest first', async () => {
+    await seed();
+
+    const lines = fs.readFileSync(log.options.file, 'utf8').trim().split('\n');
+    const { observations } = await log.search();
+
+    expect(lines).toHaveLength(3);
+    expect(observations.map((o) => o.bestMatch)).toEqual([
+      'Fagus sylvatica L.',
+      'Quercus robur L.',
+      'Taraxacum officinale L.',
+    ]);
+  });
+
+  it('filters the top match by species, family and minimum score', async () => {
+    await seed();
+
+    const names = async (query: Parameters<ObservationLog['search']>[0]) =>
+      (await log.search(query)).observations.map((o) => o.results[0].scientificName);
+
+    // Taraxacum appears as a runner-up for the oak, but only top matches count
+    expect(await names({ species: 'taraxacum' })).toEqual(['Taraxacum officinale']);
+    expect(await names({ species: 'english oak' })).toEqual(['Quercus robur']);
+    expect(await names({ family: 'fagaceae' })).toEqual(['Fagus sylvatica', 'Quercus robur']);
+    expect(await names({ minScore: 0.7 })).toEqual(['Quercus robur']);
+  });
+
+  it('filters by date range, with bare dates covering whole days', async () => {
+    await seed();
+
+    const { observations } = await log.search({ from: '2026-10-06', to: '2026-10-12' });
+
+    expect(observations.map((o) => o.bestMatch)).toEqual(['Quercus robur L.']);
+    await expect(log.search({ from: 'last week' })).rejects.toBeInstanceOf(PlantNetValidationError);
+  });
+
+  it('matches every free-text word against notes, location and candidate names', async () => {
+    await seed();
+
+    expect((await log.search({ text: 'site b' })).total).toBe(2);
+    expect((await log.search({ text: 'SITE b hedge' })).observations[0].notes).toBe('north hedge');
+    expect((await log.search({ text: 'dandelion' })).total).toBe(1);
+    expect((await log.search({ text: 'site b meadow' })).total).toBe(0);
+  });
+
+  it('applies the limit after counting matches and skips unreadable lines', async () => {
+    await seed();
+    fs.appendFileSync(log.options.file, '{"truncated\n');
+
+    const search = await log.search({ limit: 1 });
+
+    expect(search.total).toBe(3);
+    expect(search.observations).toHaveLength(1);
+  });
+
+  it('is configured from the environment', () => {
+    expect(ObservationLog.fromEnv({ PLANTNET_OBSERVATIONS: 'off' })).toBeNull();
+    expect(
+      ObservationLog.fromEnv({ PLANTNET_OBSERVATIONS_FILE: path.join(dir, 'log.jsonl') })?.options.file
+    ).toBe(path.join(dir, 'log.jsonl'));
+  });
+});
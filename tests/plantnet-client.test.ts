@@ -1,4 +1,19 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import {
+  PlantNetAuthError,
+  PlantNetBadImageError,
+  PlantNetNotFoundError,
+  PlantNetQuotaError,
+  PlantNetUpstreamError,
+  PlantNetValidationError,
+} from '../src/errors';
+import { IdentificationCache } from '../src/identification-cache';
 import { PlantNetClient } from '../src/plantnet-client';
+import { withExif } from './exif-fixtures';
 
 const FAKE_KEY = 'test-api-key';
 
@@ -35,13 +50,18 @@ const MOCK_IDENTIFY_RESPONSE = {
   version: '2.1',
 };
 
+// Tiny real images so downloads pass magic-byte validation
+const FAKE_JPEG = jpeg.encode({ width: 2, height: 2, data: Buffer.alloc(16, 128) }, 90).data;
+const FAKE_PNG = PNG.sync.write(Object.assign(new PNG({ width: 2, height: 2 }), { data: Buffer.alloc(16, 128) }));
+
 function makeFetchResponse(body: unknown, ok = true, status = 200, contentType = 'image/jpeg') {
+  const image = contentType.includes('png') ? FAKE_PNG : FAKE_JPEG;
   return {
     ok,
     status,
     statusText: ok ? 'OK' : 'Error',
     headers: { get: (h: string) => (h === 'content-type' ? contentType : null) },
-    arrayBuffer: async () => Buffer.from('fake-image-data').buffer,
+    arrayBuffer: async () => new Uint8Array(image).buffer,
     json: async () => body,
   } as unknown as Response;
 }
@@ -187,6 +207,395 @@ describe('PlantNetClient', () => {
       // Verify form data was sent (POST call was made)
       expect(mockFetch.mock.calls[1][1]?.method).toBe('POST');
     });
+    it('accepts base64 data URIs without fetching', async () => {
+      mockFetch.mockResolvedValueOnce(makeFetchResponse(MOCK_IDENTIFY_RESPONSE));
+
+      const client = new PlantNetClient(FAKE_KEY);
+      const result = await client.identifyPlant({
+        image_urls: [`data:image/jpeg;base64,${FAKE_JPEG.toString('base64')}`],
+        organs: ['leaf'],
+      });
+
+      expect(result.bestMatch).toBe('Quercus robur L.');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][0]).toContain('/v2/identify/all');
+    });
+
+    it('rejects local paths when no allowed image roots are configured', async () => {
+      const client = new PlantNetClient(FAKE_KEY, { allowedImageRoots: [] });
+      await expect(
+        client.identifyPlant({ image_urls: ['/etc/passwd'], organs: ['leaf'] })
+      ).rejects.toThrow('Local image paths are disabled');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('typed errors', () => {
+    const args = { image_urls: ['http://example.com/oak.jpg'], organs: ['leaf'] };
+
+    it('throws PlantNetValidationError for invalid arguments', async () => {
+      const client = new PlantNetClient(FAKE_KEY);
+      await expect(client.identifyPlant({ image_urls: [], organs: [] })).rejects.toBeInstanceOf(
+        PlantNetValidationError
+      );
+    });
+
+    it('throws PlantNetBadImageError when an image cannot be fetched', async () => {
+      mockFetch.mockResolvedValueOnce(makeFetchResponse(null, false, 404));
+      const client = new PlantNetClient(FAKE_KEY);
+      await expect(client.identifyPlant(args)).rejects.toBeInstanceOf(PlantNetBadImageError);
+    });
+
+    it.each([
+      [401, PlantNetAuthError],
+      [404, PlantNetNotFoundError],
+      [429, PlantNetQuotaError],
+    ])('maps API status %i to %p', async (status, ErrorClass) => {
+      mockFetch
+        .mockResolvedValueOnce(makeFetchResponse(null))
+        .mockResolvedValueOnce(makeFetchResponse({ message: 'error' }, false, status));
+      const client = new PlantNetClient(FAKE_KEY);
+      await expect(client.identifyPlant(args)).rejects.toBeInstanceOf(ErrorClass);
+    });
+
+    it('throws PlantNetUpstreamError when the API is unreachable', async () => {
+      mockFetch
+        .mockResolvedValueOnce(makeFetchResponse(null))
+        .mockRejectedValueOnce(new TypeError('fetch failed'));
+      const client = new PlantNetClient(FAKE_KEY, { retry: { maxRetries: 0 } });
+      await expect(client.identifyPlant(args)).rejects.toThrow(
+        new PlantNetUpstreamError('PlantNet API request failed: fetch failed')
+      );
+    });
+  });
+
+  describe('retry policy', () => {
+    const retry = { baseDelayMs: 1, maxDelayMs: 2 };
+
+    it('retries transient 5xx responses from the identify endpoint', async () => {
+      mockFetch
+        .mockResolvedValueOnce(makeFetchResponse(null))
+        .mockResolvedValueOnce(makeFetchResponse({ message: 'Bad gateway' }, false, 502))
+        .mockResolvedValueOnce(makeFetchResponse(MOCK_IDENTIFY_RESPONSE));
+
+      const client = new PlantNetClient(FAKE_KEY, { retry });
+      const result = await client.identifyPlant({
+        image_urls: ['http://example.com/oak.jpg'],
+        organs: ['leaf'],
+      });
+
+      expect(result.bestMatch).toBe('Quercus robur L.');
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('retries failed image downloads', async () => {
+      mockFetch
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValueOnce(makeFetchResponse(null))
+        .mockResolvedValueOnce(makeFetchResponse(MOCK_IDENTIFY_RESPONSE));
+
+      const client = new PlantNetClient(FAKE_KEY, { retry });
+      await client.identifyPlant({
+        image_urls: ['http://example.com/oak.jpg'],
+        organs: ['leaf'],
+      });
+
+      expect(mockFetch.mock.calls[0][0]).toBe('http://example.com/oak.jpg');
+      expect(mockFetch.mock.calls[1][0]).toBe('http://example.com/oak.jpg');
+    });
+
+    it('respects maxRetries: 0', async () => {
+      mockFetch
+        .mockResolvedValueOnce(makeFetchResponse(null))
+        .mockResolvedValueOnce(makeFetchResponse({ message: 'Unavailable' }, false, 503));
+
+      const client = new PlantNetClient(FAKE_KEY, { retry: { maxRetries: 0 } });
+      await expect(
+        client.identifyPlant({ image_urls: ['http://example.com/oak.jpg'], organs: ['leaf'] })
+      ).rejects.toThrow('PlantNet API error 503');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('identifyPlant caching', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plantnet-client-cache-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('serves repeated identical requests from the cache', async () => {
+      mockFetch
+        .mockResolvedValueOnce(makeFetchResponse(null))
+        .mockResolvedValueOnce(makeFetchResponse(MOCK_IDENTIFY_RESPONSE))
+        .mockResolvedValueOnce(makeFetchResponse(null));
+
+      const cache = new IdentificationCache({ directory: dir });
+      const client = new PlantNetClient(FAKE_KEY, { cache });
+      const args = { image_urls: ['http://example.com/oak.jpg'], organs: ['leaf'] };
+
+      const first = await client.identifyPlant(args);
+      const second = await client.identifyPlant(args);
+
+      expect(first.cache).toBeUndefined();
+      expect(second.cache?.hit).toBe(true);
+      expect(second.bestMatch).toBe('Quercus robur L.');
+      // Image downloaded twice, identify endpoint called once
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('misses the cache when request parameters differ', async () => {
+      mockFetch
+        .mockResolvedValueOnce(makeFetchResponse(null))
+        .mockResolvedValueOnce(makeFetchResponse(MOCK_IDENTIFY_RESPONSE))
+        .mockResolvedValueOnce(makeFetchResponse(null))
+        .mockResolvedValueOnce(makeFetchResponse(MOCK_IDENTIFY_RESPONSE));
+
+      const cache = new IdentificationCache({ directory: dir });
+      const client = new PlantNetClient(FAKE_KEY, { cache });
+
+      await client.identifyPlant({ image_urls: ['http://example.com/oak.jpg'], organs: ['leaf'] });
+      const result = await client.identifyPlant({
+        image_urls: ['http://example.com/oak.jpg'],
+        organs: ['leaf'],
+        lang: 'fr',
+      });
+
+      expect(result.cache).toBeUndefined();
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+
+    it('returns the result and logs a debug line when the cache write fails', async () => {
+      mockFetch
+        .mockResolvedValueOnce(makeFetchResponse(null))
+        .mockResolvedValueOnce(makeFetchResponse(MOCK_IDENTIFY_RESPONSE));
+      const savedDebug = process.env.PLANTNET_DEBUG;
+      process.env.PLANTNET_DEBUG = '1';
+      const stderr = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+
+      const cache = new IdentificationCache({ directory: dir });
+      jest.spyOn(cache, 'set').mockRejectedValueOnce(new Error('ENOSPC: no space left on device'));
+      const client = new PlantNetClient(FAKE_KEY, { cache });
+
+      try {
+        const result = await client.identifyPlant({ image_urls: ['http://example.com/oak.jpg'], organs: ['leaf'] });
+
+        expect(result.bestMatch).toBe('Quercus robur L.');
+        const logged = stderr.mock.calls.map(([chunk]) => String(chunk)).join('');
+        expect(logged).toContain('[plantnet-mcp] cache.error');
+        expect(logged).toContain('ENOSPC: no space left on device');
+      } finally {
+        stderr.mockRestore();
+        savedDebug === undefined ? delete process.env.PLANTNET_DEBUG : (process.env.PLANTNET_DEBUG = savedDebug);
+      }
+    });
+  });
+
+  describe('automatic project selection', () => {
+    const PROJECTS = {
+      all: { id: 'all', name: 'World Flora' },
+      'k-western-europe': { id: 'k-western-europe', name: 'Western Europe' },
+      'k-australia': { id: 'k-australia', name: 'Australia' },
+    };
+    const gpsDataUri = (latitude: number, longitude: number) =>
+      `data:image/jpeg;base64,${withExif(FAKE_JPEG, { latitude, longitude }).toString('base64')}`;
+
+    it('chooses the regional project from EXIF GPS', async () => {
+      mockFetch
+        .mockResolvedValueOnce(makeFetchResponse(PROJECTS))
+        .mockResolvedValueOnce(makeFetchResponse(MOCK_IDENTIFY_RESPONSE));
+
+      const client = new PlantNetClient(FAKE_KEY);
+      const result = await client.identifyPlant({
+        image_urls: [gpsDataUri(48.8566, 2.3522)],
+        organs: ['leaf'],
+        project: 'auto',
+      });
+
+      expect(mockFetch.mock.calls[1][0]).toContain('/v2/identify/k-western-europe');
+      expect(result.projectSelection).toMatchObject({ project: 'k-western-europe', source: 'exif-gps' });
+      expect(result.projectSelection?.reason).toContain('Western Europe');
+    });
+
+    it('reports the EXIF capture time of the photos', async () => {
+      mockFetch.mockResolvedValueOnce(makeFetchResponse(MOCK_IDENTIFY_RESPONSE));
+      const dated = withExif(FAKE_JPEG, { takenAt: '2026:05:01 14:03:22' });
+
+      const client = new PlantNetClient(FAKE_KEY);
+      const result = await client.identifyPlant({
+        image_urls: [`data:image/jpeg;base64,${FAKE_JPEG.toString('base64')}`, `data:image/jpeg;base64,${dated.toString('base64')}`],
+        organs: ['leaf', 'flower'],
+      });
+
+      expect(result.photoTakenAt).toBe('2026-05-01T14:03:22');
+    });
+
+    it('prefers explicit coordinates and treats them as project "auto"', async () => {
+      mockFetch
+        .mockResolvedValueOnce(makeFetchResponse(PROJECTS))
+        .mockResolvedValueOnce(makeFetchResponse(MOCK_IDENTIFY_RESPONSE));
+
+      const client = new PlantNetClient(FAKE_KEY);
+      const result = await client.identifyPlant({
+        image_urls: [gpsDataUri(48.8566, 2.3522)],
+        organs: ['leaf'],
+        latitude: -33.8688,
+        longitude: 151.2093,
+      });
+
+      expect(mockFetch.mock.calls[1][0]).toContain('/v2/identify/k-australia');
+      expect(result.projectSelection).toMatchObject({
+        source: 'coordinates',
+        coordinates: { latitude: -33.8688, longitude: 151.2093 },
+      });
+    });
+
+    it('falls back to "all" without a position and skips the project lookup', async () => {
+      mockFetch.mockResolvedValueOnce(makeFetchResponse(MOCK_IDENTIFY_RESPONSE));
+
+      const client = new PlantNetClient(FAKE_KEY);
+      const result = await client.identifyPlant({
+        image_urls: [`data:image/jpeg;base64,${FAKE_JPEG.toString('base64')}`],
+        organs: ['leaf'],
+        project: 'auto',
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][0]).toContain('/v2/identify/all');
+      expect(result.projectSelection).toMatchObject({ project: 'all', source: 'default' });
+    });
+
+    it('fetches the project list once per client', async () => {
+      mockFetch
+        .mockResolvedValueOnce(makeFetchResponse(PROJECTS))
+        .mockResolvedValue(makeFetchResponse(MOCK_IDENTIFY_RESPONSE));
+
+      const client = new PlantNetClient(FAKE_KEY);
+      const args = { image_urls: [gpsDataUri(48.8566, 2.3522)], organs: ['leaf'], project: 'auto' };
+      await client.identifyPlant(args);
+      await client.identifyPlant(args);
+
+      const projectCalls = mockFetch.mock.calls.filter(([url]) => String(url).includes('/v2/projects'));
+      expect(projectCalls).toHaveLength(1);
+    });
+
+    it('does not override an explicit project', async () => {
+      mockFetch.mockResolvedValueOnce(makeFetchResponse(MOCK_IDENTIFY_RESPONSE));
+
+      const client = new PlantNetClient(FAKE_KEY);
+      const result = await client.identifyPlant({
+        image_urls: [gpsDataUri(48.8566, 2.3522)],
+        organs: ['leaf'],
+        project: 'weurope',
+        latitude: -33.8688,
+        longitude: 151.2093,
+      });
+
+      expect(mockFetch.mock.calls[0][0]).toContain('/v2/identify/weurope');
+      expect(result.projectSelection).toBeUndefined();
+    });
+
+    it('rejects a latitude without a longitude', async () => {
+      const client = new PlantNetClient(FAKE_KEY);
+      await expect(
+        client.identifyPlant({ image_urls: ['http://example.com/a.jpg'], organs: ['leaf'], latitude: 10 })
+      ).rejects.toThrow(PlantNetValidationError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('related images', () => {
+    it('requests related images when asked and keys the cache on it', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plantnet-client-related-'));
+      try {
+        mockFetch.mockResolvedValue(makeFetchResponse(MOCK_IDENTIFY_RESPONSE));
+        const client = new PlantNetClient(FAKE_KEY, { cache: new IdentificationCache({ directory: dir }) });
+        const args = { image_urls: ['http://example.com/oak.jpg'], organs: ['leaf'] };
+
+        await client.identifyPlant(args);
+        await client.identifyPlant({ ...args, include_related_images: true });
+
+        const identifyUrls = mockFetch.mock.calls
+          .map(([url]) => String(url))
+          .filter((url) => url.includes('/v2/identify/'));
+        expect(identifyUrls).toHaveLength(2);
+        expect(identifyUrls[0]).toContain('include-related-images=false');
+        expect(identifyUrls[1]).toContain('include-related-images=true');
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('identifyDisease', () => {
+    const DISEASE_RESPONSE = {
+      query: { images: ['img1'], includeRelatedImages: false },
+      language: 'en',
+      results: [{ name: 'PHYTIN', description: 'Phytophthora infestans', score: 0.81 }],
+      remainingIdentificationRequests: 449,
+      version: 'diseases-2.0',
+    };
+
+    it('posts images to the disease endpoint without organs when none are given', async () => {
+      mockFetch
+        .mockResolvedValueOnce(makeFetchResponse(null))
+        .mockResolvedValueOnce(makeFetchResponse(DISEASE_RESPONSE));
+
+      const client = new PlantNetClient(FAKE_KEY);
+      const result = await client.identifyDisease({ image_urls: ['http://example.com/blight.jpg'] });
+
+      expect(result.results[0].name).toBe('PHYTIN');
+      const [url, init] = mockFetch.mock.calls[1];
+      expect(url).toContain('/v2/diseases/identify');
+      expect(url).toContain('nb-results=5');
+      expect(Buffer.from(init.body).toString('latin1')).not.toContain('name="organs"');
+    });
+
+    it('rejects organ counts that do not match the images', async () => {
+      const client = new PlantNetClient(FAKE_KEY);
+      await expect(
+        client.identifyDisease({ image_urls: ['http://example.com/a.jpg'], organs: ['leaf', 'fruit'] })
+      ).rejects.toThrow(PlantNetValidationError);
+    });
+
+    it('maps API errors to typed errors', async () => {
+      mockFetch
+        .mockResolvedValueOnce(makeFetchResponse(null))
+        .mockResolvedValueOnce(makeFetchResponse({ message: 'Too many requests' }, false, 429));
+
+      const client = new PlantNetClient(FAKE_KEY, { retry: { maxRetries: 0 } });
+      await expect(
+        client.identifyDisease({ image_urls: ['http://example.com/blight.jpg'] })
+      ).rejects.toThrow(PlantNetQuotaError);
+    });
+  });
+
+  describe('listSpecies', () => {
+    it('fetches the species of a project', async () => {
+      const species = [
+        { scientificNameWithoutAuthor: 'Quercus robur', scientificNameAuthorship: 'L.', gbifId: 2878688 },
+      ];
+      mockFetch.mockResolvedValueOnce(makeFetchResponse(species));
+
+      const client = new PlantNetClient(FAKE_KEY);
+      const result = await client.listSpecies('weurope', 'fr');
+
+      expect(result).toEqual(species);
+      const calledUrl = mockFetch.mock.calls[0][0] as string;
+      expect(calledUrl).toContain('/v2/projects/weurope/species');
+      expect(calledUrl).toContain('lang=fr');
+    });
+
+    it('throws a typed error for unknown projects', async () => {
+      mockFetch.mockResolvedValueOnce(makeFetchResponse(null, false, 404));
+
+      const client = new PlantNetClient(FAKE_KEY);
+      await expect(client.listSpecies('nowhere')).rejects.toThrow(PlantNetNotFoundError);
+    });
   });
 
   describe('listProjects', () => {
@@ -212,5 +621,14 @@ describe('PlantNetClient', () => {
       const client = new PlantNetClient(FAKE_KEY);
       await expect(client.listProjects()).rejects.toThrow('PlantNet API error 403');
     });
+
+    it('sends requests to a configured base URL, keeping its path', async () => {
+      mockFetch.mockResolvedValueOnce(makeFetchResponse({}));
+
+      const client = new PlantNetClient(FAKE_KEY, { baseUrl: 'http://localhost:8080/plantnet/' });
+      await client.listProjects();
+
+      expect(mockFetch.mock.calls[0][0]).toMatch(/^http:\/\/localhost:8080\/plantnet\/v2\/projects\?/);
+    });
   });
 });
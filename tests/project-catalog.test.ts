@@ -0,0 +1,100 @@
+import { ProjectCatalog, normalizeProjectList, projectCatalogOptionsFromEnv } from '../src/project-catalog';
+
+const PROJECTS = {
+  all: { id: 'all', name: 'World Flora' },
+  weurope: { id: 'weurope', name: 'Western Europe' },
+};
+
+describe('ProjectCatalog', () => {
+  it('fetches each language once within the TTL', async () => {
+    const fetchProjects = jest.fn().mockResolvedValue(PROJECTS);
+    const catalog = new ProjectCatalog(fetchProjects);
+
+    await catalog.get('en');
+    await catalog.get('en');
+    await catalog.get('fr');
+
+    expect(fetchProjects.mock.calls).toEqual([['en'], ['fr']]);
+  });
+
+  it('shares one request between concurrent lookups', async () => {
+    const fetchProjects = jest.fn().mockResolvedValue(PROJECTS);
+    const catalog = new ProjectCatalog(fetchProjects);
+
+    await Promise.all([catalog.get(), catalog.get(), catalog.find('weurope')]);
+
+    expect(fetchProjects).toHaveBeenCalledTimes(1);
+  });
+
+  it('refetches stale lists and reports each refresh', async () => {
+    const fetchProjects = jest.fn().mockResolvedValue(PROJECTS);
+    const onRefresh = jest.fn();
+    const catalog = new ProjectCatalog(fetchProjects, { ttlMs: 1000 });
+    catalog.onRefresh(onRefresh);
+
+    await catalog.get('en');
+    await catalog.get('en', Date.now() + 2000);
+
+    expect(fetchProjects).toHaveBeenCalledTimes(2);
+    expect(onRefresh).toHaveBeenCalledTimes(2);
+    expect(onRefresh).toHaveBeenCalledWith('en');
+  });
+
+  it('retries after a failed fetch', async () => {
+    const fetchProjects = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('network down'))
+      .mockResolvedValueOnce(PROJECTS);
+    const catalog = new ProjectCatalog(fetchProjects);
+
+    await expect(catalog.get()).rejects.toThrow('network down');
+    await expect(catalog.get()).resolves.toEqual(PROJECTS);
+    expect(catalog.cached()).toHaveLength(1);
+  });
+
+  it('finds projects by ID', async () => {
+    const catalog = new ProjectCatalog(jest.fn().mockResolvedValue(PROJECTS));
+
+    expect(await catalog.find('weurope')).toEqual({ id: 'weurope', name: 'Western Europe' });
+    expect(await catalog.find('nowhere')).toBeNull();
+  });
+
+  it('accepts the project list as an array of entries with titles', async () => {
+    const catalog = new ProjectCatalog(
+      jest.fn().mockResolvedValue([
+        { id: 'all', title: 'World Flora', speciesCount: 51431 },
+        { id: 'weurope', title: 'Western Europe' },
+      ])
+    );
+
+    expect(Object.keys(await catalog.get())).toEqual(['all', 'weurope']);
+    expect(await catalog.find('weurope')).toEqual({ id: 'weurope', title: 'Western Europe', name: 'Western Europe' });
+  });
+});
+
+describe('normalizeProjectList', () => {
+  it('keys entries by their ID and fills in missing IDs from the key', () => {
+    expect(
+      normalizeProjectList({
+        world: { id: 'all', name: 'World Flora' },
+        weurope: { title: 'Western Europe' },
+      })
+    ).toEqual({
+      all: { id: 'all', name: 'World Flora' },
+      weurope: { id: 'weurope', title: 'Western Europe', name: 'Western Europe' },
+    });
+  });
+
+  it('drops array entries without an ID', () => {
+    expect(normalizeProjectList([{ title: 'Nameless' }, { id: 'all' }, null])).toEqual({ all: { id: 'all' } });
+  });
+});
+
+describe('projectCatalogOptionsFromEnv', () => {
+  it('reads the TTL in hours', () => {
+    expect(projectCatalogOptionsFromEnv({ PLANTNET_PROJECTS_TTL_HOURS: '2' })).toEqual({
+      ttlMs: 2 * 60 * 60 * 1000,
+    });
+    expect(projectCatalogOptionsFromEnv({ PLANTNET_PROJECTS_TTL_HOURS: 'soon' })).toEqual({});
+  });
+});
@@ -0,0 +1,101 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { registerPrompts } from '../src/prompts';
+
+async function connectClient(): Promise<Client> {
+  const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { prompts: {} } });
+  registerPrompts(server);
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+async function promptText(client: Client, name: string, args: Record<string, string>): Promise<string> {
+  const result = await client.getPrompt({ name, arguments: args });
+  return (result.messages[0].content as { text: string }).text;
+}
+
+describe('prompts', () => {
+  it('lists the guided workflows with their arguments', async () => {
+    const client = await connectClient();
+    const { prompts } = await client.listPrompts();
+
+    expect(prompts.map((p) => p.name)).toEqual([
+      'identify-unknown-plant',
+      'confirm-species-with-more-photos',
+      'regional-survey-identification',
+    ]);
+    expect(prompts[0].arguments?.map((a) => a.name)).toEqual([
+      'location',
+      'organs_available',
+      'image_sources',
+    ]);
+  });
+
+  it('turns coordinates into latitude/longitude arguments', async () => {
+    const client = await connectClient();
+    const text = await promptText(client, 'identify-unknown-plant', { location: '48.85, 2.35' });
+
+    expect(text).toContain('`latitude: 48.85`');
+    expect(text).toContain('`longitude: 2.35`');
+  });
+
+  it('points named places at list_projects and orders organs by usefulness', async () => {
+    const client = await connectClient();
+    const text = await promptText(client, 'identify-unknown-plant', {
+      location: 'Provence',
+      organs_available: 'leaf, flower, stem',
+      image_sources: 'http://example.com/a.jpg,http://example.com/b.jpg',
+    });
+
+    expect(text).toContain('call `list_projects`');
+    expect(text).toContain('"Provence"');
+    expect(text.indexOf('`flower`')).toBeLessThan(text.indexOf('`leaf`'));
+    expect(text).toContain('Not recognized as organs: stem');
+    expect(text).toContain('once with all 2 image(s)');
+  });
+
+  it('falls back to project "auto" without a location', async () => {
+    const client = await connectClient();
+    const text = await promptText(client, 'identify-unknown-plant', {});
+
+    expect(text).toContain('`project: "auto"`');
+  });
+
+  it('references the earlier identification when confirming a species', async () => {
+    const client = await connectClient();
+    const text = await promptText(client, 'confirm-species-with-more-photos', {
+      candidate_species: 'Quercus robur, Quercus petraea',
+      identification_id: 'abc123',
+    });
+
+    expect(text).toContain('Confirm whether the plant is Quercus robur or Quercus petraea');
+    expect(text).toContain('plantnet://identifications/abc123');
+  });
+
+  it('plans surveys around check_quota and batch_identify', async () => {
+    const client = await connectClient();
+    const text = await promptText(client, 'regional-survey-identification', {
+      region: 'Camargue',
+      observation_count: '250',
+    });
+
+    expect(text).toContain('`check_quota`');
+    expect(text).toContain('for 250 observations');
+    expect(text).toContain('`batch_identify` with the observations in chunks of at most 100');
+  });
+
+  it('rejects missing required arguments and unknown prompts', async () => {
+    const client = await connectClient();
+
+    await expect(
+      client.getPrompt({ name: 'confirm-species-with-more-photos', arguments: {} })
+    ).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+    await expect(client.getPrompt({ name: 'nope' })).rejects.toMatchObject({
+      code: ErrorCode.InvalidParams,
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { QuotaTracker, nextResetAfter } from '../src/quota-tracker';
+
+describe('nextResetAfter', () => {
+  it('returns the same day when the reset hour is still ahead', () => {
+    expect(nextResetAfter(new Date('2026-03-01T05:00:00Z'), 8).toISOString()).toBe(
+      '2026-03-01T08:00:00.000Z'
+    );
+  });
+
+  it('returns the next day once the reset hour has passed', () => {
+    expect(nextResetAfter(new Date('2026-03-01T00:00:00Z'), 0).toISOString()).toBe(
+      '2026-03-02T00:00:00.000Z'
+    );
+  });
+});
+
+describe('QuotaTracker', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plantnet-quota-'));
+    file = path.join(dir, 'quota.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reports unknown quota before any observation', async () => {
+    const tracker = new QuotaTracker('key', { file });
+    const status = await tracker.status();
+    expect(status.last).toBeNull();
+    expect(status.estimatedRemaining).toBeNull();
+    expect(status.sessionCalls).toBe(0);
+  });
+
+  it('records observations and persists them without the raw key', async () => {
+    const tracker = new QuotaTracker('secret-key', { file });
+    await tracker.record(420, new Date('2026-03-01T10:00:00Z'));
+
+    const status = await tracker.status(new Date('2026-03-01T11:00:00Z'));
+    expect(status.last?.remaining).toBe(420);
+    expect(status.last?.resetAt).toBe('2026-03-02T00:00:00.000Z');
+    expect(status.sessionCalls).toBe(1);
+    expect(fs.readFileSync(file, 'utf8')).not.toContain('secret-key');
+
+    const restarted = new QuotaTracker('secret-key', { file });
+    expect((await restarted.status(new Date('2026-03-01T11:00:00Z'))).last?.remaining).toBe(420);
+    expect((await new QuotaTracker('other-key', { file }).status()).last).toBeNull();
+  });
+
+  it('assumes the full daily limit once the reset boundary has passed', async () => {
+    const tracker = new QuotaTracker('key', { file, dailyLimit: 500 });
+    await tracker.record(3, new Date('2026-03-01T23:00:00Z'));
+    const status = await tracker.status(new Date('2026-03-02T01:00:00Z'));
+    expect(status.stale).toBe(true);
+    expect(status.estimatedRemaining).toBe(500);
+  });
+
+  it('projects exhaustion from the rate observed this session', async () => {
+    const tracker = new QuotaTracker('key', { file });
+    await tracker.record(100, new Date('2026-03-01T10:00:00Z'));
+    expect((await tracker.status(new Date('2026-03-01T10:00:00Z'))).projectedExhaustionAt).toBeNull();
+
+    // 10 requests per hour → 90 remaining lasts 9 hours
+    await tracker.record(90, new Date('2026-03-01T11:00:00Z'));
+    const status = await tracker.status(new Date('2026-03-01T11:00:00Z'));
+    expect(status.projectedExhaustionAt).toBe('2026-03-01T20:00:00.000Z');
+  });
+
+  it('keeps observations in memory when no file is configured', async () => {
+    const tracker = new QuotaTracker('key', { file: null });
+    await tracker.record(42);
+
+    expect((await tracker.status()).estimatedRemaining).toBe(42);
+    // Nothing persisted for a new tracker to load
+    expect((await new QuotaTracker('key', { file: null }).status()).last).toBeNull();
+  });
+
+  it('reads its configuration from the environment', () => {
+    const tracker = QuotaTracker.fromEnv('key', {
+      PLANTNET_QUOTA_FILE: file,
+      PLANTNET_DAILY_QUOTA: '2000',
+      PLANTNET_QUOTA_RESET_HOUR_UTC: '6',
+      PLANTNET_QUOTA_WARN_THRESHOLD: '0',
+    });
+    expect(tracker.options).toEqual({
+      file,
+      dailyLimit: 2000,
+      resetHourUtc: 6,
+      warnThreshold: 0,
+    });
+  });
+});
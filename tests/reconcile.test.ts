@@ -0,0 +1,143 @@
+import { PlantNetValidationError } from '../src/errors';
+import { messagesFor } from '../src/messages';
+import { parseIdentifyResponse, reconcileIdentifications } from '../src/reconcile';
+import type { PlantNetIdentifyResponse, SpeciesInfo } from '../src/types';
+
+const FAMILIES: Record<string, string> = { Quercus: 'Fagaceae', Fagus: 'Fagaceae', Hedera: 'Araliaceae' };
+
+function response(organ: string, ...matches: [string, number][]): PlantNetIdentifyResponse {
+  return {
+    query: { project: 'weurope', images: ['img'], organs: [organ], includeRelatedImages: false },
+    language: 'en',
+    preferedReferential: 'weurope',
+    bestMatch: matches[0][0],
+    results: matches.map(([name, score]) => ({
+      score,
+      species: {
+        scientificNameWithoutAuthor: name,
+        scientificNameAuthorship: '',
+        scientificName: name,
+        genus: { scientificNameWithoutAuthor: name.split(' ')[0] },
+        family: { scientificNameWithoutAuthor: FAMILIES[name.split(' ')[0]] },
+        commonNames: [],
+      },
+    })),
+    remainingIdentificationRequests: 100,
+    version: 'test',
+  };
+}
+
+describe('reconcileIdentifications', () => {
+  it('fuses scores by geometric mean, standing in half the lowest score for unlisted species', () => {
+    const leaf = response('leaf', ['Quercus robur', 0.4], ['Quercus petraea', 0.36], ['Fagus sylvatica', 0.1]);
+    const flower = response('flower', ['Quercus robur', 0.9], ['Quercus pubescens', 0.05]);
+
+    const { candidates, consensus } = reconcileIdentifications([
+      { label: '#1', result: leaf },
+      { label: '#2', result: flower },
+    ]);
+
+    expect(consensus).toEqual({ rank: 'species', name: 'Quercus robur' });
+    expect(candidates.map((c) => c.scientificName).slice(0, 2)).toEqual(['Quercus robur', 'Quercus petraea']);
+    expect(candidates[0]).toMatchObject({ scores: [0.4, 0.9], support: 2, genus: 'Quercus', family: 'Fagaceae' });
+    expect(candidates[0].fusedScore).toBeCloseTo(0.6);
+    // Unlisted in the flower result: half its lowest score, 0.025
+    expect(candidates[1].fusedScore).toBeCloseTo(Math.sqrt(0.36 * 0.025));
+    const pubescens = candidates.find((c) => c.scientificName === 'Quercus pubescens')!;
+    expect(pubescens).toMatchObject({ scores: [null, 0.05], support: 1 });
+    expect(pubescens.fusedScore).toBeCloseTo(Math.sqrt(0.05 * 0.05));
+  });
+
+  it('reports contradictions by rank and the lowest rank that agrees', () => {
+    const reconciliation = reconcileIdentifications([
+      { label: '#1', result: response('leaf', ['Quercus robur', 0.5]) },
+      { label: '#2', result: response('fruit', ['Quercus petraea', 0.6]) },
+      { label: '#3', result: response('bark', ['Quercus robur', 0.3]) },
+    ]);
+
+    expect(reconciliation.levels).toEqual([
+      {
+        rank: 'species',
+        agreement: 'contradict',
+        taxa: [
+          { name: 'Quercus robur', identifications: ['#1', '#3'] },
+          { name: 'Quercus petraea', identifications: ['#2'] },
+        ],
+      },
+      { rank: 'genus', agreement: 'agree', taxa: [{ name: 'Quercus', identifications: ['#1', '#2', '#3'] }] },
+      { rank: 'family', agreement: 'agree', taxa: [{ name: 'Fagaceae', identifications: ['#1', '#2', '#3'] }] },
+    ]);
+    expect(reconciliation.consensus).toEqual({ rank: 'genus', name: 'Quercus' });
+    expect(messagesFor('en').reconcile.summary(reconciliation)).toMatch(
+      /^The identifications disagree on the species \(Quercus robur in #1, #3; Quercus petraea in #2\) but agree on genus Quercus;/
+    );
+  });
+
+  it('warns when even the families differ', () => {
+    const reconciliation = reconcileIdentifications([
+      { label: '#1', result: response('leaf', ['Hedera helix', 0.7]) },
+      { label: '#2', result: response('leaf', ['Quercus robur', 0.6]) },
+    ]);
+    const summary = messagesFor('en').reconcile.summary(reconciliation);
+
+    expect(reconciliation.consensus).toBeNull();
+    expect(summary).toContain('disagree even at family level (Araliaceae in #1; Fagaceae in #2)');
+    expect(summary).toContain('Check that the photos show the same plant.');
+  });
+
+  it('merges synonyms into their accepted species', () => {
+    const synonym = response('flower', ['Quercus pedunculata', 0.8]);
+    synonym.results[0].taxonomy = {
+      status: 'synonym',
+      acceptedName: 'Quercus robur L.',
+      classification: { genus: 'Quercus', family: 'Fagaceae' },
+    } as SpeciesInfo;
+
+    const { candidates, consensus } = reconcileIdentifications([
+      { label: '#1', result: response('leaf', ['Quercus robur', 0.5]) },
+      { label: '#2', result: synonym },
+    ]);
+
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0]).toMatchObject({ scientificName: 'Quercus robur', synonyms: ['Quercus pedunculata'] });
+    expect(consensus?.rank).toBe('species');
+  });
+
+  it('needs at least two identifications', () => {
+    expect(() => reconcileIdentifications([{ label: '#1', result: response('leaf', ['Quercus robur', 0.5]) }])).toThrow(
+      PlantNetValidationError
+    );
+  });
+});
+
+describe('parseIdentifyResponse', () => {
+  it('accepts raw responses as objects or JSON text, filling optional fields', () => {
+    const raw = {
+      results: [
+        {
+          score: 0.7,
+          species: {
+            scientificNameWithoutAuthor: 'Hedera helix',
+            genus: { scientificNameWithoutAuthor: 'Hedera' },
+            family: { scientificNameWithoutAuthor: 'Araliaceae' },
+          },
+          gbif: { id: 8351737 },
+        },
+      ],
+    };
+
+    const parsed = parseIdentifyResponse(JSON.stringify(raw), '#2');
+
+    expect(parsed.query).toEqual({ project: 'unknown', images: [], organs: [], includeRelatedImages: false });
+    expect(parsed.results[0].species).toMatchObject({ scientificName: 'Hedera helix', commonNames: [] });
+    expect(parsed.results[0].gbif).toEqual({ id: '8351737' });
+  });
+
+  it('names the input and field of an invalid response', () => {
+    expect(() => parseIdentifyResponse('{', '#3')).toThrow('Identification #3 is not valid JSON');
+    expect(() => parseIdentifyResponse({ results: [{ score: 2 }] }, '#1')).toThrow(
+      /^Identification #1 is not a Pl@ntNet identify response: results\.0\.score: .*; results\.0\.species: Required$/
+    );
+    expect(() => parseIdentifyResponse({ results: [] }, '#1')).toThrow('results: No candidate species');
+  });
+});
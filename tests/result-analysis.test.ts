@@ -0,0 +1,140 @@
+import { analyzeResult } from '../src/result-analysis';
+import type { PlantNetIdentifyResponse, PlantNetResult } from '../src/types';
+
+function match(name: string, score: number, family = 'Fagaceae'): PlantNetResult {
+  const genus = name.split(' ')[0];
+  return {
+    score,
+    species: {
+      scientificNameWithoutAuthor: name,
+      scientificNameAuthorship: '',
+      scientificName: name,
+      genus: { scientificNameWithoutAuthor: genus },
+      family: { scientificNameWithoutAuthor: family },
+      commonNames: [],
+    },
+  };
+}
+
+function response(results: PlantNetResult[], organs = ['leaf']): PlantNetIdentifyResponse {
+  return {
+    query: { project: 'all', images: [], organs, includeRelatedImages: false },
+    language: 'en',
+    preferedReferential: 'all',
+    bestMatch: results[0]?.species.scientificName ?? '',
+    results,
+    remainingIdentificationRequests: 400,
+    version: '2.1',
+  };
+}
+
+describe('analyzeResult', () => {
+  it('reports a clear leader as confident without a recommendation', () => {
+    const analysis = analyzeResult(response([match('Quercus robur', 0.91), match('Quercus petraea', 0.04)]));
+
+    expect(analysis.outcome).toBe('confident');
+    expect(analysis.candidates).toHaveLength(1);
+    expect(analysis.recommendedOrgan).toBeNull();
+  });
+
+  it('groups near-tied candidates of one genus and asks for a flower', () => {
+    const analysis = analyzeResult(
+      response([match('Quercus robur', 0.45), match('Quercus petraea', 0.4), match('Fagus sylvatica', 0.05)])
+    );
+
+    expect(analysis.outcome).toBe('ambiguous');
+    expect(analysis.candidates.map((c) => c.scientificName)).toEqual(['Quercus robur', 'Quercus petraea']);
+    expect(analysis.sharedTaxon).toEqual({ rank: 'genus', name: 'Quercus' });
+    expect(analysis.recommendedOrgan).toBe('flower');
+    expect(analysis.summary).toContain('Ambiguous between 2 candidates');
+    expect(analysis.summary).toContain('all in genus Quercus (together 85.0%).');
+  });
+
+  it('falls back to the family when near-tied candidates differ in genus', () => {
+    const analysis = analyzeResult(
+      response([match('Quercus robur', 0.4), match('Fagus sylvatica', 0.35)], ['leaf', 'flower'])
+    );
+
+    expect(analysis.sharedTaxon).toEqual({ rank: 'family', name: 'Fagaceae' });
+    // The flower is already submitted, so the next organ is recommended
+    expect(analysis.recommendedOrgan).toBe('fruit');
+  });
+
+  it('reports genus and family subgroups of the contenders with their combined score', () => {
+    const analysis = analyzeResult(
+      response([
+        match('Quercus robur', 0.3),
+        match('Acer campestre', 0.28, 'Sapindaceae'),
+        match('Quercus petraea', 0.25),
+        match('Fagus sylvatica', 0.2),
+      ])
+    );
+
+    expect(analysis.sharedTaxon).toBeNull();
+    expect(analysis.taxonGroups).toEqual([
+      { rank: 'genus', name: 'Quercus', members: ['Quercus robur', 'Quercus petraea'], combinedScore: 0.55 },
+      {
+        rank: 'family',
+        name: 'Fagaceae',
+        members: ['Quercus robur', 'Quercus petraea', 'Fagus sylvatica'],
+        combinedScore: expect.closeTo(0.75) as number,
+      },
+    ]);
+    expect(analysis.summary).toContain(
+      '; groups: genus Quercus 55.0% (Quercus robur, Quercus petraea), ' +
+        'family Fagaceae 75.0% (Quercus robur, Quercus petraea, Fagus sylvatica).'
+    );
+    expect(analysis.summary).not.toContain('different families');
+  });
+
+  it('names genus subgroups inside a shared family', () => {
+    const analysis = analyzeResult(
+      response([match('Quercus robur', 0.4), match('Quercus petraea', 0.3), match('Fagus sylvatica', 0.25)])
+    );
+
+    expect(analysis.sharedTaxon).toEqual({ rank: 'family', name: 'Fagaceae' });
+    expect(analysis.summary).toContain(
+      'all in family Fagaceae (together 95.0%); groups: genus Quercus 70.0% (Quercus robur, Quercus petraea).'
+    );
+  });
+
+  it('recommends a leaf for unrelated candidates', () => {
+    const analysis = analyzeResult(
+      response([match('Quercus robur', 0.3, 'Fagaceae'), match('Acer campestre', 0.28, 'Sapindaceae')], ['flower'])
+    );
+
+    expect(analysis.sharedTaxon).toBeNull();
+    expect(analysis.recommendedOrgan).toBe('leaf');
+    expect(analysis.summary).toContain('from different families');
+  });
+
+  it('is inconclusive when every score is low', () => {
+    const analysis = analyzeResult(response([match('Quercus robur', 0.1), match('Acer campestre', 0.08, 'Sapindaceae')]));
+
+    expect(analysis.outcome).toBe('inconclusive');
+    expect(analysis.candidates).toHaveLength(2);
+  });
+
+  it('is inconclusive when a lone leader is below the confidence threshold', () => {
+    const analysis = analyzeResult(response([match('Quercus robur', 0.35), match('Acer campestre', 0.05)]));
+
+    expect(analysis.outcome).toBe('inconclusive');
+    expect(analysis.summary).toContain('below the 50.0%');
+  });
+
+  it('is inconclusive without results', () => {
+    expect(analyzeResult(response([])).outcome).toBe('inconclusive');
+  });
+
+  it('suggests retaking a photo once every organ was submitted', () => {
+    const analysis = analyzeResult(
+      response(
+        [match('Quercus robur', 0.1), match('Acer campestre', 0.09, 'Sapindaceae')],
+        ['leaf', 'flower', 'fruit', 'habit', 'bark']
+      )
+    );
+
+    expect(analysis.recommendedOrgan).toBeNull();
+    expect(analysis.recommendation).toContain('retake');
+  });
+});
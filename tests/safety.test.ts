@@ -0,0 +1,160 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  DEFAULT_SAFETY_DIR,
+  SafetyDatasets,
+  SafetyIndex,
+  conservationLabel,
+  safetyWarning,
+  toxicityTargets,
+} from '../src/safety';
+import type { PlantNetResult, SafetyAnnotations } from '../src/types';
+
+const SOURCE = { name: 'Test Red List', url: 'https://redlist.test' };
+
+function match(name: string, safety?: SafetyAnnotations): PlantNetResult {
+  return {
+    score: 0.9,
+    species: {
+      scientificNameWithoutAuthor: name,
+      scientificNameAuthorship: '',
+      scientificName: name,
+      genus: { scientificNameWithoutAuthor: name.split(' ')[0] },
+      family: { scientificNameWithoutAuthor: '' },
+      commonNames: [],
+    },
+    safety,
+  };
+}
+
+describe('SafetyDatasets', () => {
+  let datasets: SafetyDatasets;
+
+  beforeAll(async () => {
+    datasets = await SafetyDatasets.load(DEFAULT_SAFETY_DIR);
+  });
+
+  it('merges flags found by GBIF ID and name without duplicates, keeping each source', () => {
+    const safety = datasets.lookup({ gbifId: '8351737', name: 'Hedera helix L.' });
+
+    expect(safety.toxicity).toHaveLength(1);
+    expect(safety.toxicity[0]).toMatchObject({
+      humans: 'mild',
+      pets: { dogs: 'toxic', cats: 'toxic', horses: 'toxic' },
+    });
+    expect(safety.invasive.map((flag) => [flag.region, flag.status, flag.source.name])).toEqual([
+      ['Washington, USA', 'regulated', 'Washington State Noxious Weed Control Board'],
+      ['Oregon, USA', 'regulated', 'Oregon Department of Agriculture Noxious Weed Policy and Classification System'],
+    ]);
+    expect(safety.conservation).toEqual([
+      {
+        scope: 'global',
+        category: 'LC',
+        legallyProtected: false,
+        notes: null,
+        source: {
+          name: 'The IUCN Red List of Threatened Species',
+          url: 'https://www.iucnredlist.org',
+          license: 'IUCN Red List Terms of Use',
+        },
+      },
+    ]);
+  });
+
+  it('matches synonyms through the accepted name from the taxonomy snapshot', () => {
+    const synonym = match('Quercus pedunculata');
+    synonym.taxonomy = { acceptedName: 'Quercus robur L.' } as PlantNetResult['taxonomy'];
+
+    expect(datasets.lookupResult(synonym).toxicity).toHaveLength(1);
+    expect(datasets.lookupResult(match('Bellis perennis'))).toEqual({
+      toxicity: [],
+      invasive: [],
+      conservation: [],
+    });
+  });
+
+  describe('load', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plantnet-safety-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('names the file and field of a malformed dataset', async () => {
+      fs.writeFileSync(
+        path.join(dir, 'bad.json'),
+        JSON.stringify({ type: 'invasive', source: SOURCE, entries: [{ scientificName: 'Rosa rugosa', region: 'Sylt' }] })
+      );
+
+      await expect(SafetyDatasets.load(dir)).rejects.toThrow(
+        `Invalid safety dataset ${path.join(dir, 'bad.json')}: entries.0.status: Required`
+      );
+    });
+
+    it('fails when the directory has no datasets', async () => {
+      await expect(SafetyDatasets.load(dir)).rejects.toThrow(`No safety datasets (*.json) in ${dir}`);
+    });
+  });
+});
+
+describe('safetyWarning', () => {
+  const datasets = new SafetyDatasets([
+    {
+      type: 'conservation',
+      source: SOURCE,
+      entries: [
+        { scientificName: 'Cypripedium calceolus', category: 'EN', scope: 'Germany', legallyProtected: true },
+        { scientificName: 'Bellis perennis', category: 'LC' },
+      ],
+    },
+    {
+      type: 'toxicity',
+      source: SOURCE,
+      entries: [{ scientificName: 'Bellis perennis', humans: 'non-toxic', pets: { dogs: 'non-toxic' } }],
+    },
+  ]);
+
+  it('cautions about toxic, invasive, threatened and protected species', () => {
+    const orchid = match('Cypripedium calceolus', datasets.lookup({ name: 'Cypripedium calceolus' }));
+
+    expect(safetyWarning(orchid)).toBe(
+      'Cypripedium calceolus is Endangered (EN) in Germany; legally protected in Germany. ' +
+        'Confirm the identification and check the cited sources before handling, planting or removing it.'
+    );
+  });
+
+  it('stays silent for non-toxic, least-concern and unannotated species', () => {
+    const daisy = datasets.lookup({ name: 'Bellis perennis' });
+
+    expect(toxicityTargets(daisy)).toBeNull();
+    expect(safetyWarning(match('Bellis perennis', daisy))).toBeNull();
+    expect(safetyWarning(match('Bellis perennis'))).toBeNull();
+  });
+
+  it('lists who a plant is toxic to, with graded severities', async () => {
+    const ivy = (await SafetyDatasets.load(DEFAULT_SAFETY_DIR)).lookup({ name: 'Hedera helix' });
+
+    expect(toxicityTargets(ivy)).toBe('humans (mild), dogs, cats and horses');
+    expect(safetyWarning(match('Hedera helix', ivy))).toMatch(
+      /^Hedera helix is toxic to humans \(mild\), dogs, cats and horses; a regulated weed in Washington, USA; Oregon, USA\./
+    );
+  });
+
+  it('labels IUCN codes and leaves other categories as given', () => {
+    expect(conservationLabel('vu')).toBe('Vulnerable (VU)');
+    expect(conservationLabel('Stark gefährdet')).toBe('Stark gefährdet');
+  });
+});
+
+describe('SafetyIndex', () => {
+  it('reads its directory from the environment and can be disabled', () => {
+    expect(SafetyIndex.fromEnv({})?.dir).toBe(DEFAULT_SAFETY_DIR);
+    expect(SafetyIndex.fromEnv({ PLANTNET_SAFETY_DIR: '/srv/safety' })?.dir).toBe(path.resolve('/srv/safety'));
+    expect(SafetyIndex.fromEnv({ PLANTNET_SAFETY: 'off' })).toBeNull();
+  });
+});
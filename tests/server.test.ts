@@ -1,4 +1,67 @@
-import { createPlantNetServer } from '../src/server';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as jpeg from 'jpeg-js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ErrorCode, ResourceListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { PlantNetClient } from '../src/plantnet-client';
+import { createPlantNetContext, createPlantNetServer, type PlantNetContext } from '../src/server';
+
+const mockFetch = jest.fn();
+global.fetch = mockFetch as typeof fetch;
+
+const JPEG_BYTES = new Uint8Array(
+  jpeg.encode({ width: 2, height: 2, data: Buffer.alloc(16, 128) }, 90).data
+);
+
+function makeIdentifyResponse(remaining: number) {
+  return {
+    query: { project: 'all', images: ['img1'], organs: ['leaf'], includeRelatedImages: false },
+    language: 'en',
+    preferedReferential: 'all',
+    bestMatch: 'Quercus robur L.',
+    results: [
+      {
+        score: 0.92,
+        species: {
+          scientificNameWithoutAuthor: 'Quercus robur',
+          scientificNameAuthorship: 'L.',
+          scientificName: 'Quercus robur L.',
+          genus: { scientificNameWithoutAuthor: 'Quercus' },
+          family: { scientificNameWithoutAuthor: 'Fagaceae' },
+          commonNames: ['English oak'],
+        },
+        gbif: { id: '2878688' },
+      },
+    ],
+    remainingIdentificationRequests: remaining,
+    version: '2.1',
+  };
+}
+
+function makeFetchResponse(body: unknown, ok = true, status = 200) {
+  return {
+    ok,
+    status,
+    statusText: ok ? 'OK' : 'Error',
+    headers: { get: () => 'image/jpeg' },
+    arrayBuffer: async () => JPEG_BYTES.buffer,
+    json: async () => body,
+  } as unknown as Response;
+}
+
+async function connectClient(context?: PlantNetContext): Promise<Client> {
+  const server = createPlantNetServer(context);
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+function textOf(result: Awaited<ReturnType<Client['callTool']>>): string {
+  return (result.content as { type: string; text: string }[]).map((c) => c.text).join('\n');
+}
 
 describe('createPlantNetServer', () => {
   const savedKey = process.env.PLANTNET_API_KEY;
@@ -32,3 +95,847 @@ describe('createPlantNetServer', () => {
     expect(server).toBeDefined();
   });
 });
+
+describe('tool calls', () => {
+  const savedEnv = { ...process.env };
+  let dir: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plantnet-server-'));
+    process.env.PLANTNET_API_KEY = 'test-key';
+    process.env.PLANTNET_CACHE_DIR = path.join(dir, 'cache');
+    process.env.PLANTNET_QUOTA_FILE = path.join(dir, 'quota.json');
+    process.env.PLANTNET_OBSERVATIONS_FILE = path.join(dir, 'observations.jsonl');
+  });
+
+  afterEach(() => {
+    process.env = { ...savedEnv };
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reports unknown quota before any identification', async () => {
+    const client = await connectClient();
+    const text = textOf(await client.callTool({ name: 'check_quota', arguments: {} }));
+    expect(text).toContain('**Last known remaining:** unknown');
+    expect(text).toContain('0 API identification call(s)');
+  });
+
+  it('tracks quota from identify_plant responses', async () => {
+    mockFetch
+      .mockResolvedValueOnce(makeFetchResponse(null))
+      .mockResolvedValueOnce(makeFetchResponse(makeIdentifyResponse(321)));
+
+    const client = await connectClient();
+    await client.callTool({
+      name: 'identify_plant',
+      arguments: { image_urls: ['http://example.com/oak.jpg'], organs: ['leaf'] },
+    });
+    const text = textOf(await client.callTool({ name: 'check_quota', arguments: {} }));
+
+    expect(text).toContain('**Last known remaining:** 321 requests');
+    expect(text).toContain('1 API identification call(s)');
+  });
+
+  it('shares quota state between servers built on one context', async () => {
+    mockFetch
+      .mockResolvedValueOnce(makeFetchResponse(null))
+      .mockResolvedValueOnce(makeFetchResponse(makeIdentifyResponse(321)));
+
+    const context = createPlantNetContext();
+    await (await connectClient(context)).callTool({
+      name: 'identify_plant',
+      arguments: { image_urls: ['http://example.com/oak.jpg'], organs: ['leaf'] },
+    });
+    const text = textOf(await (await connectClient(context)).callTool({ name: 'check_quota', arguments: {} }));
+
+    expect(text).toContain('**Last known remaining:** 321 requests');
+    expect(text).toContain('1 API identification call(s)');
+  });
+
+  it('warns on identify_plant when quota is below the threshold', async () => {
+    process.env.PLANTNET_QUOTA_WARN_THRESHOLD = '10';
+    mockFetch
+      .mockResolvedValueOnce(makeFetchResponse(null))
+      .mockResolvedValueOnce(makeFetchResponse(makeIdentifyResponse(4)));
+
+    const client = await connectClient();
+    const text = textOf(
+      await client.callTool({
+        name: 'identify_plant',
+        arguments: { image_urls: ['http://example.com/oak.jpg'], organs: ['leaf'] },
+      })
+    );
+
+    expect(text).toContain('**Warning:** Low quota: about 4 identification requests remain');
+    expect(text).toContain('Quercus robur');
+  });
+
+  it('marks cache hits and leaves quota untouched', async () => {
+    mockFetch
+      .mockResolvedValueOnce(makeFetchResponse(null))
+      .mockResolvedValueOnce(makeFetchResponse(makeIdentifyResponse(321)))
+      .mockResolvedValueOnce(makeFetchResponse(null));
+
+    const client = await connectClient();
+    const args = { image_urls: ['http://example.com/oak.jpg'], organs: ['leaf'] };
+    await client.callTool({ name: 'identify_plant', arguments: args });
+    const second = textOf(await client.callTool({ name: 'identify_plant', arguments: args }));
+    const cacheText = textOf(await client.callTool({ name: 'manage_cache', arguments: {} }));
+
+    expect(second).toContain('**Cached result:**');
+    expect(cacheText).toContain('**Entries:** 1');
+    expect(textOf(await client.callTool({ name: 'check_quota', arguments: {} }))).toContain(
+      '1 API identification call(s), 1 served from cache'
+    );
+    expect(
+      textOf(await client.callTool({ name: 'manage_cache', arguments: { action: 'clear' } }))
+    ).toBe('Removed 1 cache entry.');
+  });
+
+  it('returns an isError result with guidance for quota exhaustion', async () => {
+    mockFetch
+      .mockResolvedValueOnce(makeFetchResponse(null))
+      .mockResolvedValueOnce(makeFetchResponse({ message: 'Too many requests' }, false, 429));
+
+    const client = await connectClient();
+    const result = await client.callTool({
+      name: 'identify_plant',
+      arguments: { image_urls: ['http://example.com/oak.jpg'], organs: ['leaf'] },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain('**Error (quota):** PlantNet API error 429');
+    expect(textOf(result)).toContain('Do not retry today');
+  });
+
+  it('fails over to the next pooled key and reports quota per masked key', async () => {
+    process.env.PLANTNET_API_KEYS = '2b10firstkey0000000000, 2b10secondkey000000000';
+    mockFetch
+      .mockResolvedValueOnce(makeFetchResponse(null))
+      .mockResolvedValueOnce(makeFetchResponse({ message: 'Too many requests' }, false, 429))
+      .mockResolvedValueOnce(makeFetchResponse(null))
+      .mockResolvedValueOnce(makeFetchResponse(makeIdentifyResponse(321)));
+
+    const client = await connectClient();
+    const result = await client.callTool({
+      name: 'identify_plant',
+      arguments: { image_urls: ['http://example.com/oak.jpg'], organs: ['leaf'] },
+    });
+    const quota = textOf(await client.callTool({ name: 'check_quota', arguments: {} }));
+
+    expect(result.isError).toBeFalsy();
+    expect(mockFetch.mock.calls[3][0]).toContain('api-key=2b10secondkey');
+    expect(quota).toContain('**API keys:** 3 pooled');
+    expect(quota).toContain('| `2b10…0000` | exhausted | 0 |');
+    expect(quota).toContain('| `2b10…0000` | available | 321 |');
+    expect(quota).not.toMatch(/firstkey|secondkey|test-key/);
+  });
+
+  it('never exposes the API key in tool output or debug logs', async () => {
+    const key = '2b10ServerSecretKey0001';
+    process.env.PLANTNET_API_KEY = key;
+    process.env.PLANTNET_HTTP_MAX_RETRIES = '0';
+    process.env.PLANTNET_DEBUG = '1';
+    const stderr = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    const echoedUrl = `https://my-api.plantnet.org/v2/identify/all?api-key=${key}`;
+    mockFetch
+      .mockRejectedValueOnce(new Error(`request to ${echoedUrl} failed, reason: ECONNRESET`))
+      .mockResolvedValueOnce(makeFetchResponse(null))
+      .mockResolvedValueOnce(
+        makeFetchResponse({ message: `Invalid API key ${key}`, url: echoedUrl }, false, 401)
+      );
+
+    try {
+      const client = await connectClient();
+      const projects = await client.callTool({ name: 'list_projects', arguments: {} });
+      const identify = await client.callTool({
+        name: 'identify_plant',
+        arguments: { image_urls: ['http://example.com/oak.jpg'], organs: ['leaf'] },
+      });
+      const quota = await client.callTool({ name: 'check_quota', arguments: {} });
+      const logged = stderr.mock.calls.map(([chunk]) => String(chunk)).join('');
+
+      expect(textOf(identify)).toContain('**Error (auth):**');
+      expect(textOf(projects)).toContain('ECONNRESET');
+      expect(logged).toContain('[plantnet-mcp] http.response');
+      expect(logged).toContain('api-key=<redacted>');
+      for (const output of [JSON.stringify([identify, projects, quota]), logged]) {
+        expect(output).not.toContain(key);
+      }
+    } finally {
+      stderr.mockRestore();
+    }
+  });
+
+  it('returns an isError result with guidance when no species is found', async () => {
+    mockFetch
+      .mockResolvedValueOnce(makeFetchResponse(null))
+      .mockResolvedValueOnce(makeFetchResponse({ message: 'Species not found' }, false, 404));
+
+    const client = await connectClient();
+    const result = await client.callTool({
+      name: 'identify_plant',
+      arguments: { image_urls: ['http://example.com/oak.jpg'], organs: ['leaf'] },
+    });
+
+    expect(result.isError).toBe(true);
+    expect(textOf(result)).toContain('No species matched these images');
+  });
+
+  it('rejects invalid arguments with InvalidParams', async () => {
+    const client = await connectClient();
+    await expect(
+      client.callTool({
+        name: 'identify_plant',
+        arguments: { image_urls: ['not a url'], organs: ['leaf'] },
+      })
+    ).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+  });
+
+  it('refuses image URLs pointing at internal addresses without fetching them', async () => {
+    const client = await connectClient();
+    await expect(
+      client.callTool({
+        name: 'identify_plant',
+        arguments: { image_urls: ['http://169.254.169.254/latest/meta-data/'], organs: ['leaf'] },
+      })
+    ).rejects.toMatchObject({
+      code: ErrorCode.InvalidParams,
+      message: expect.stringContaining('a private, loopback or link-local address'),
+    });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('returns structured content validated against the declared outputSchema', async () => {
+    mockFetch
+      .mockResolvedValueOnce(makeFetchResponse(null))
+      .mockResolvedValueOnce(makeFetchResponse(makeIdentifyResponse(300)));
+
+    const client = await connectClient();
+    // Listing tools makes the client validate structured content against outputSchema
+    const { tools } = await client.listTools();
+    expect(tools.find((t) => t.name === 'identify_plant')?.outputSchema).toBeDefined();
+
+    const result = await client.callTool({
+      name: 'identify_plant',
+      arguments: { image_urls: ['http://example.com/oak.jpg'], organs: ['leaf'] },
+    });
+
+    expect(result.content).toHaveLength(1);
+    expect(textOf(result)).toContain('## Plant Identification Results');
+    expect(textOf(result)).toContain('**Outcome:** Confident — Quercus robur is a clear match at 92.0%.');
+    expect(result.structuredContent).toMatchObject({
+      schemaVersion: '1.0',
+      matches: [{ rank: 1, family: 'Fagaceae', externalIds: { gbif: '2878688', powo: null } }],
+      analysis: { outcome: 'confident', recommendedOrgan: null },
+      quota: { remainingDailyRequests: 300 },
+    });
+  });
+
+  it('adds order, class, name status and native range from the taxonomy snapshot', async () => {
+    mockFetch
+      .mockResolvedValueOnce(makeFetchResponse(null))
+      .mockResolvedValueOnce(makeFetchResponse(makeIdentifyResponse(300)));
+
+    const client = await connectClient();
+    await client.listTools();
+    const result = await client.callTool({
+      name: 'identify_plant',
+      arguments: { image_urls: ['http://example.com/oak.jpg'], organs: ['leaf'] },
+    });
+
+    expect(textOf(result)).toContain('   - Order / class: Fagales / Magnoliopsida');
+    expect(textOf(result)).toContain('   - Name status: accepted');
+    expect(textOf(result)).toContain('   - Native range: Europe to Caucasus');
+    expect(result.structuredContent).toMatchObject({
+      matches: [{ taxonomy: { status: 'accepted', classification: { order: 'Fagales' }, sources: ['gbif', 'wcvp'] } }],
+    });
+  });
+
+  it('flags toxic best matches with a caution and cites the safety datasets', async () => {
+    mockFetch
+      .mockResolvedValueOnce(makeFetchResponse(null))
+      .mockResolvedValueOnce(makeFetchResponse(makeIdentifyResponse(300)));
+
+    const client = await connectClient();
+    await client.listTools();
+    const result = await client.callTool({
+      name: 'identify_plant',
+      arguments: { image_urls: ['http://example.com/oak.jpg'], organs: ['leaf'], output_format: 'both' },
+    });
+    const caution = 'Quercus robur is toxic to humans (mild), dogs, cats and horses.';
+
+    expect(textOf(result).startsWith(`> **Caution:** ${caution}`)).toBe(true);
+    expect(textOf(result)).toContain('   - Conservation status: Least Concern (LC), global');
+    expect(textOf(result)).toContain(
+      '   - Safety sources: [ASPCA Toxic and Non-Toxic Plant List](https://www.aspca.org/pet-care/animal-poison-control/toxic-and-non-toxic-plants); ' +
+        '[The IUCN Red List of Threatened Species](https://www.iucnredlist.org)'
+    );
+    expect((result.structuredContent as { warnings: string[] }).warnings[0]).toContain(caution);
+    expect(result.structuredContent).toMatchObject({
+      matches: [
+        {
+          safety: {
+            toxicity: [{ pets: { dogs: 'toxic' }, source: { name: 'ASPCA Toxic and Non-Toxic Plant List' } }],
+            invasive: [],
+            conservation: [{ category: 'LC' }],
+          },
+        },
+      ],
+    });
+
+    process.env.PLANTNET_SAFETY = 'off';
+    mockFetch.mockResolvedValueOnce(makeFetchResponse(makeIdentifyResponse(299)));
+    const plain = await (await connectClient()).callTool({
+      name: 'identify_plant',
+      arguments: { image_urls: ['http://example.com/oak2.jpg'], organs: ['leaf'] },
+    });
+    expect(textOf(plain)).not.toContain('Caution');
+    expect(plain.structuredContent).toMatchObject({ matches: [{ safety: null }], warnings: [] });
+  });
+
+  it('localizes the Markdown output and falls back to English common names', async () => {
+    const response = makeIdentifyResponse(300);
+    response.language = 'he';
+    response.results[0].species.commonNames = [];
+    mockFetch.mockResolvedValueOnce(makeFetchResponse(null)).mockResolvedValueOnce(makeFetchResponse(response));
+
+    const client = await connectClient();
+    await client.listTools();
+    const result = await client.callTool({
+      name: 'identify_plant',
+      arguments: { image_urls: ['http://example.com/oak.jpg'], organs: ['leaf'], lang: 'he' },
+    });
+    const text = textOf(result);
+
+    expect(String(mockFetch.mock.calls[1][0])).toContain('lang=he');
+    expect(text.startsWith('> **זהירות:** Quercus robur: רעיל לבני אדם (רעילות קלה), כלבים, חתולים וסוסים.')).toBe(true);
+    expect(text).toContain('## תוצאות זיהוי הצמח');
+    expect(text).toContain('   - שמות עממיים: English oak, Pedunculate oak (באנגלית)');
+    expect(text).toContain('   - מצב שימור: ללא חשש (LC), עולמי');
+    expect(result.structuredContent).toMatchObject({
+      matches: [{ commonName: { name: 'English oak', language: 'en' } }],
+      warnings: [expect.stringContaining('Quercus robur is toxic to humans')],
+    });
+  });
+
+  it('uses PLANTNET_DEFAULT_LANG unless a tool call asks for another language', async () => {
+    process.env.PLANTNET_DEFAULT_LANG = 'fr';
+    const client = await connectClient();
+
+    expect(textOf(await client.callTool({ name: 'check_quota', arguments: {} }))).toContain(
+      "## État du quota de l'API Pl@ntNet"
+    );
+    expect(textOf(await client.callTool({ name: 'check_quota', arguments: { lang: 'de-AT' } }))).toContain(
+      '**Zuletzt bekannter Rest:** unbekannt'
+    );
+  });
+
+  it('identifies without taxonomy notes when the snapshot is missing or disabled', async () => {
+    process.env.PLANTNET_TAXONOMY_DIR = path.join(dir, 'no-snapshot');
+    mockFetch
+      .mockResolvedValueOnce(makeFetchResponse(null))
+      .mockResolvedValueOnce(makeFetchResponse(makeIdentifyResponse(300)));
+
+    const client = await connectClient();
+    const result = await client.callTool({
+      name: 'identify_plant',
+      arguments: { image_urls: ['http://example.com/oak.jpg'], organs: ['leaf'] },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(textOf(result)).not.toContain('Name status');
+    expect(result.structuredContent).toMatchObject({ matches: [{ taxonomy: null }] });
+
+    process.env.PLANTNET_TAXONOMY = 'off';
+    const disabled = await (await connectClient()).callTool({
+      name: 'get_species_info',
+      arguments: { name: 'Quercus robur' },
+    });
+    expect(textOf(disabled)).toContain('PLANTNET_TAXONOMY=off');
+  });
+
+  it('reports the automatically chosen project', async () => {
+    mockFetch
+      .mockResolvedValueOnce(makeFetchResponse(null))
+      .mockResolvedValueOnce(
+        makeFetchResponse({ 'k-western-europe': { id: 'k-western-europe', name: 'Western Europe' } })
+      )
+      .mockResolvedValueOnce(makeFetchResponse(makeIdentifyResponse(300)));
+
+    const client = await connectClient();
+    await client.listTools();
+    const result = await client.callTool({
+      name: 'identify_plant',
+      arguments: {
+        image_urls: ['http://example.com/oak.jpg'],
+        organs: ['leaf'],
+        latitude: 48.8566,
+        longitude: 2.3522,
+      },
+    });
+
+    expect(textOf(result)).toContain('**Project:** `k-western-europe` (chosen automatically');
+    expect(result.structuredContent).toMatchObject({
+      projectSelection: { project: 'k-western-europe', source: 'coordinates' },
+    });
+  });
+
+  it('renders related images with their license when requested', async () => {
+    const response = makeIdentifyResponse(300);
+    Object.assign(response.results[0], {
+      images: [
+        {
+          organ: 'leaf',
+          author: 'Jane Doe',
+          license: 'cc-by-sa',
+          date: { timestamp: 1700000000000, string: 'November 14, 2023' },
+          citation: 'Jane Doe / Pl@ntNet, cc-by-sa',
+          url: { o: 'https://img/o.jpg', m: 'https://img/m.jpg', s: 'https://img/s.jpg' },
+        },
+      ],
+    });
+    mockFetch
+      .mockResolvedValueOnce(makeFetchResponse(null))
+      .mockResolvedValueOnce(makeFetchResponse(response));
+
+    const client = await connectClient();
+    await client.listTools();
+    const result = await client.callTool({
+      name: 'identify_plant',
+      arguments: { image_urls: ['http://example.com/oak.jpg'], organs: ['leaf'], include_related_images: true },
+    });
+
+    expect(textOf(result)).toContain('[leaf](https://img/m.jpg) — Jane Doe, cc-by-sa');
+    expect(result.structuredContent).toMatchObject({
+      matches: [{ relatedImages: [{ url: 'https://img/o.jpg', license: 'cc-by-sa' }] }],
+    });
+  });
+
+  it('identifies diseases and records quota', async () => {
+    mockFetch.mockResolvedValueOnce(makeFetchResponse(null)).mockResolvedValueOnce(
+      makeFetchResponse({
+        query: { images: ['img1'], includeRelatedImages: false },
+        language: 'en',
+        results: [{ name: 'PHYTIN', description: 'Phytophthora infestans', score: 0.81 }],
+        remainingIdentificationRequests: 222,
+        version: 'diseases-2.0',
+      })
+    );
+
+    const client = await connectClient();
+    const result = await client.callTool({
+      name: 'identify_disease',
+      arguments: { image_urls: ['http://example.com/blight.jpg'] },
+    });
+    const quota = textOf(await client.callTool({ name: 'check_quota', arguments: {} }));
+
+    expect(textOf(result)).toContain('**1. Phytophthora infestans** (EPPO `PHYTIN`) — 81.0% confidence');
+    expect(result.structuredContent).toMatchObject({ results: [{ eppoCode: 'PHYTIN', score: 0.81 }] });
+    expect(quota).toContain('**Last known remaining:** 222 requests');
+  });
+
+  it('lists and filters the species of a project', async () => {
+    mockFetch.mockResolvedValueOnce(
+      makeFetchResponse([
+        { scientificNameWithoutAuthor: 'Quercus robur', scientificNameAuthorship: 'L.', gbifId: 2878688, commonNames: ['English oak'] },
+        { scientificNameWithoutAuthor: 'Fagus sylvatica', scientificNameAuthorship: 'L.', commonNames: ['Beech'] },
+      ])
+    );
+
+    const client = await connectClient();
+    const text = textOf(
+      await client.callTool({ name: 'list_species', arguments: { project: 'weurope', filter: 'oak' } })
+    );
+
+    expect(text).toContain('**Species:** 2 (1 matching "oak")');
+    expect(text).toContain('| *Quercus robur* L. | English oak | 2878688 | — |');
+    expect(text).not.toContain('Fagus');
+  });
+
+  it.each([
+    ['json', 1],
+    ['both', 2],
+  ])('renders JSON text for output_format %s', async (outputFormat, parts) => {
+    mockFetch
+      .mockResolvedValueOnce(makeFetchResponse(null))
+      .mockResolvedValueOnce(makeFetchResponse(makeIdentifyResponse(300)));
+
+    const client = await connectClient();
+    const result = await client.callTool({
+      name: 'identify_plant',
+      arguments: {
+        image_urls: ['http://example.com/oak.jpg'],
+        organs: ['leaf'],
+        output_format: outputFormat,
+      },
+    });
+
+    const content = result.content as { text: string }[];
+    expect(content).toHaveLength(parts);
+    expect(JSON.parse(content[parts - 1].text)).toEqual(result.structuredContent);
+  });
+
+  it('runs batch_identify and reports a summary table', async () => {
+    // Every mocked download returns the same bytes, which would otherwise be cache hits
+    process.env.PLANTNET_CACHE = 'off';
+    mockFetch
+      .mockResolvedValueOnce(makeFetchResponse(null))
+      .mockResolvedValueOnce(makeFetchResponse(makeIdentifyResponse(200)))
+      .mockResolvedValueOnce(makeFetchResponse(null))
+      .mockResolvedValueOnce(makeFetchResponse(makeIdentifyResponse(199)));
+
+    const client = await connectClient();
+    const result = await client.callTool({
+      name: 'batch_identify',
+      arguments: {
+        observations: [
+          { id: 'plot-a', image_urls: ['http://example.com/a.jpg'], organs: ['leaf'] },
+          { id: 'plot-b', image_urls: ['http://example.com/b.jpg'], organs: ['leaf'] },
+          { id: 'plot-c', image_urls: ['http://example.com/c.jpg'], organs: ['leaf'] },
+        ],
+        concurrency: 1,
+        quota_budget: 2,
+      },
+    });
+
+    const text = textOf(result);
+    expect(text).toContain('**Observations:** 3 — 2 identified, 0 failed, 1 skipped');
+    expect(text).toContain('| plot-a | ok | Quercus robur | 92.0% | Fagaceae |');
+    expect(text).toContain('| plot-c | skipped |');
+    expect(result.structuredContent).toMatchObject({ succeeded: 2, skipped: 1, apiCalls: 2 });
+  });
+
+  it('redacts unexpected batch errors in the table and structured content', async () => {
+    // PlantNetErrors are redacted when built; anything else reaches the batch as thrown
+    const identify = jest
+      .spyOn(PlantNetClient.prototype, 'identifyPlant')
+      .mockRejectedValueOnce(new TypeError('Invalid URL: https://my-api.plantnet.org/v2/identify/all?api-key=test-key'));
+
+    const client = await connectClient();
+    const result = await client.callTool({
+      name: 'batch_identify',
+      arguments: { observations: [{ id: 'plot-a', image_urls: ['http://example.com/a.jpg'], organs: ['leaf'] }] },
+    });
+
+    expect(textOf(result)).toContain('| plot-a | error |');
+    expect(JSON.stringify(result)).not.toContain('test-key');
+    expect(result.structuredContent).toMatchObject({
+      observations: [{ status: 'error', error: { kind: 'internal', message: expect.stringContaining('api-key=<redacted>') } }],
+    });
+    identify.mockRestore();
+  });
+
+  it('logs identifications and finds them with search_observations', async () => {
+    mockFetch
+      .mockResolvedValueOnce(makeFetchResponse(null))
+      .mockResolvedValueOnce(makeFetchResponse(makeIdentifyResponse(300)));
+    const client = await connectClient();
+
+    await client.callTool({
+      name: 'identify_plant',
+      arguments: {
+        image_urls: ['http://example.com/oak.jpg'],
+        organs: ['leaf'],
+        notes: 'Old hedgerow | pollarded',
+        location: 'site B',
+      },
+    });
+    const found = await client.callTool({
+      name: 'search_observations',
+      arguments: { family: 'fagaceae', text: 'site b', min_score: 0.5 },
+    });
+    const missed = await client.callTool({
+      name: 'search_observations',
+      arguments: { species: 'Fagus' },
+    });
+
+    expect(textOf(found)).toContain('| *Quercus robur* | 92.0% | Fagaceae | `all` | site B | Old hedgerow \\| pollarded |');
+    expect(found.structuredContent).toMatchObject({
+      total: 1,
+      observations: [{ images: [{ source: 'http://example.com/oak.jpg', organ: 'leaf' }] }],
+    });
+    expect(
+      (found.structuredContent as { observations: { images: { sha256: string }[] }[] }).observations[0]
+        .images[0].sha256
+    ).toMatch(/^[0-9a-f]{64}$/);
+    expect(textOf(missed)).toContain('No logged observations match');
+    await expect(
+      client.callTool({ name: 'search_observations', arguments: { from: 'yesterday' } })
+    ).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+  });
+
+  it('accepts observed_at only as an ISO 8601 date or timestamp and logs it normalized', async () => {
+    mockFetch
+      .mockResolvedValueOnce(makeFetchResponse(null))
+      .mockResolvedValueOnce(makeFetchResponse(makeIdentifyResponse(300)));
+    const client = await connectClient();
+    const identify = (observed_at: string) =>
+      client.callTool({
+        name: 'identify_plant',
+        arguments: { image_urls: ['http://example.com/oak.jpg'], organs: ['leaf'], observed_at },
+      });
+
+    for (const invalid of ['March 3', '3/4/2025', '2025-02-30', '2025-03-04 10:15']) {
+      await expect(identify(invalid)).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+    }
+    expect(mockFetch).not.toHaveBeenCalled();
+
+    await identify('2025-03-04T10:15+02:00');
+    const found = await client.callTool({ name: 'search_observations', arguments: {} });
+    expect(found.structuredContent).toMatchObject({
+      observations: [{ observedAt: '2025-03-04T10:15:00+02:00' }],
+    });
+  });
+
+  it('exports logged identifications as Darwin Core and GeoJSON', async () => {
+    mockFetch
+      .mockResolvedValueOnce(makeFetchResponse(null))
+      .mockResolvedValueOnce(makeFetchResponse(makeIdentifyResponse(300)));
+    process.env.PLANTNET_EXPORT_DIR = path.join(dir, 'exports');
+    const client = await connectClient();
+    await client.callTool({
+      name: 'identify_plant',
+      arguments: {
+        image_urls: ['http://example.com/oak.jpg'],
+        organs: ['leaf'],
+        latitude: 48.85,
+        longitude: 2.35,
+        project: 'all',
+      },
+    });
+
+    const result = await client.callTool({
+      name: 'export_observations',
+      arguments: { species: 'quercus', format: 'both' },
+    });
+    const structured = result.structuredContent as {
+      exported: number;
+      directory: string;
+      files: { name: string; content: string }[];
+    };
+
+    expect(textOf(result)).toContain('**Occurrences:** 1');
+    expect(structured.exported).toBe(1);
+    expect(structured.files.find((f) => f.name === 'occurrence.txt')?.content).toContain(
+      'Quercus robur L.'
+    );
+    expect(fs.readdirSync(structured.directory).sort()).toEqual([
+      'meta.xml',
+      'observations.geojson',
+      'occurrence.txt',
+    ]);
+  });
+
+  it('looks up species by name or GBIF ID with get_species_info', async () => {
+    const client = await connectClient();
+
+    const synonym = await client.callTool({ name: 'get_species_info', arguments: { name: 'Leontodon taraxacum L.' } });
+    const byId = await client.callTool({ name: 'get_species_info', arguments: { gbif_id: 8351737 } });
+    const missing = await client.callTool({ name: 'get_species_info', arguments: { name: 'Bellis perennis' } });
+
+    expect(textOf(synonym)).toContain('**Name status:** synonym of *Taraxacum officinale F.H.Wigg.*');
+    expect(textOf(synonym)).toContain('| Plantae | Tracheophyta | Magnoliopsida | Asterales | Asteraceae | Taraxacum |');
+    expect(textOf(synonym)).toContain('**Introduced in:** New York, New Zealand North');
+    expect(byId.structuredContent).toMatchObject({
+      found: true,
+      species: { scientificName: 'Hedera helix', nativeRange: 'Europe to Ukraine', ids: { powo: '90426-1' } },
+    });
+    expect(missing.isError).toBeFalsy();
+    expect(missing.structuredContent).toEqual({ found: false, species: null });
+    await expect(client.callTool({ name: 'get_species_info', arguments: {} })).rejects.toThrow(
+      'Provide a name or a gbif_id'
+    );
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('reconciles earlier identifications by ID with raw responses', async () => {
+    const petraea = makeIdentifyResponse(299);
+    petraea.results[0] = {
+      ...petraea.results[0],
+      score: 0.6,
+      species: {
+        ...petraea.results[0].species,
+        scientificNameWithoutAuthor: 'Quercus petraea',
+        scientificName: 'Quercus petraea (Matt.) Liebl.',
+      },
+      gbif: { id: '2880580' },
+    };
+    mockFetch
+      .mockResolvedValueOnce(makeFetchResponse(null))
+      .mockResolvedValueOnce(makeFetchResponse(makeIdentifyResponse(300)))
+      .mockResolvedValueOnce(makeFetchResponse(null))
+      .mockResolvedValueOnce(makeFetchResponse(petraea));
+
+    const client = await connectClient();
+    const ids: string[] = [];
+    for (const organ of ['leaf', 'flower']) {
+      const result = await client.callTool({
+        name: 'identify_plant',
+        arguments: { image_urls: [`http://example.com/${organ}.jpg`], organs: [organ] },
+      });
+      ids.push((result.structuredContent as { identificationId: string }).identificationId);
+    }
+    const result = await client.callTool({
+      name: 'reconcile_identifications',
+      arguments: { identification_ids: ids, results: [JSON.stringify(makeIdentifyResponse(298))] },
+    });
+
+    expect(textOf(result)).toContain('| species | **contradict** | Quercus robur (#1, #3); Quercus petraea (#2) |');
+    expect(textOf(result)).toContain('| genus | agree | Quercus (#1, #2, #3) |');
+    expect((result.structuredContent as { summary: string }).summary).toMatch(/^The identifications disagree on the species/);
+
+    const german = await client.callTool({
+      name: 'reconcile_identifications',
+      arguments: { identification_ids: ids, lang: 'de' },
+    });
+    expect(textOf(german)).toContain('## Zusammengeführte Bestimmungen');
+    expect(textOf(german)).toContain('| Art | **widersprüchlich** | Quercus robur (#1); Quercus petraea (#2) |');
+    expect(textOf(german)).toContain('stimmen aber in der Gattung Quercus überein');
+    expect(textOf(german)).toContain('*Score-Kombination: Kombinierter Score = geometrisches Mittel');
+    expect((german.structuredContent as { summary: string }).summary).toMatch(/^The identifications disagree/);
+    expect(result.structuredContent).toMatchObject({
+      consensus: { rank: 'genus', name: 'Quercus' },
+      candidates: [
+        { scientificName: 'Quercus robur', scores: [0.92, null, 0.92], support: 2 },
+        { scientificName: 'Quercus petraea', scores: [null, 0.6, null], support: 1 },
+      ],
+    });
+
+    await expect(
+      client.callTool({ name: 'reconcile_identifications', arguments: { identification_ids: [ids[0], 'f'.repeat(64)] } })
+    ).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+    await expect(
+      client.callTool({ name: 'reconcile_identifications', arguments: { identification_ids: [ids[0]] } })
+    ).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+  });
+
+  it('runs offline on the mock provider without an API key', async () => {
+    delete process.env.PLANTNET_API_KEY;
+    delete process.env.PLANTNET_API;
+    process.env.PLANTNET_PROVIDER = 'mock';
+    const client = await connectClient();
+
+    const result = await client.callTool({
+      name: 'identify_plant',
+      arguments: { image_urls: ['https://example.com/quercus-robur.jpg'], organs: ['leaf'] },
+    });
+    const projects = textOf(await client.callTool({ name: 'list_projects', arguments: {} }));
+
+    expect(textOf(result)).toContain('Quercus robur');
+    expect(result.structuredContent).toMatchObject({ bestMatch: 'Quercus robur L.' });
+    expect(projects).toContain('k-western-europe');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  describe('resources', () => {
+    const PROJECTS = {
+      all: { id: 'all', name: 'World Flora' },
+      'k-western-europe': { id: 'k-western-europe', name: 'Western Europe' },
+    };
+
+    function textOfResource(result: Awaited<ReturnType<Client['readResource']>>) {
+      return JSON.parse((result.contents[0] as { text: string }).text);
+    }
+
+    it('serves the cached project list and notifies when it is fetched', async () => {
+      mockFetch.mockResolvedValueOnce(makeFetchResponse(PROJECTS));
+      const client = await connectClient();
+      const changed = jest.fn();
+      client.setNotificationHandler(ResourceListChangedNotificationSchema, changed);
+
+      const first = textOfResource(await client.readResource({ uri: 'plantnet://projects' }));
+      await client.readResource({ uri: 'plantnet://projects' });
+      const { resources } = await client.listResources();
+
+      expect(first.projects).toEqual([
+        { id: 'all', name: 'World Flora' },
+        { id: 'k-western-europe', name: 'Western Europe' },
+      ]);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(changed).toHaveBeenCalledTimes(1);
+      expect(resources.map((r) => r.uri)).toContain('plantnet://projects/k-western-europe');
+    });
+
+    it('fetches the project list per language', async () => {
+      mockFetch.mockResolvedValue(makeFetchResponse(PROJECTS));
+      const client = await connectClient();
+
+      await client.readResource({ uri: 'plantnet://projects' });
+      const french = textOfResource(await client.readResource({ uri: 'plantnet://projects?lang=fr' }));
+
+      expect(french.language).toBe('fr');
+      expect(mockFetch.mock.calls[1][0]).toContain('lang=fr');
+    });
+
+    it('serves project resources in PLANTNET_DEFAULT_LANG when the URI names no language', async () => {
+      process.env.PLANTNET_DEFAULT_LANG = 'fr';
+      mockFetch.mockResolvedValue(makeFetchResponse(PROJECTS));
+      const client = await connectClient();
+
+      const list = textOfResource(await client.readResource({ uri: 'plantnet://projects' }));
+      const project = textOfResource(await client.readResource({ uri: 'plantnet://projects/all' }));
+
+      expect(list.language).toBe('fr');
+      expect(project.language).toBe('fr');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][0]).toContain('lang=fr');
+    });
+
+    it('describes a single project with the regions it covers', async () => {
+      mockFetch.mockResolvedValueOnce(makeFetchResponse(PROJECTS));
+      const client = await connectClient();
+
+      const project = textOfResource(
+        await client.readResource({ uri: 'plantnet://projects/k-western-europe' })
+      );
+
+      expect(project).toMatchObject({ id: 'k-western-europe', name: 'Western Europe' });
+      expect(project.regions).toEqual([{ name: 'Western Europe', bbox: [42, 55, -11, 8] }]);
+      await expect(client.readResource({ uri: 'plantnet://projects/nowhere' })).rejects.toMatchObject({
+        code: ErrorCode.InvalidParams,
+      });
+    });
+
+    it('serves past identifications by ID', async () => {
+      mockFetch
+        .mockResolvedValueOnce(makeFetchResponse(null))
+        .mockResolvedValueOnce(makeFetchResponse(makeIdentifyResponse(300)));
+      const client = await connectClient();
+
+      const result = await client.callTool({
+        name: 'identify_plant',
+        arguments: { image_urls: ['http://example.com/oak.jpg'], organs: ['leaf'] },
+      });
+      const id = (result.structuredContent as { identificationId: string }).identificationId;
+      const uri = `plantnet://identifications/${id}`;
+      const { resources } = await client.listResources();
+      const stored = textOfResource(await client.readResource({ uri }));
+
+      expect(textOf(result)).toContain(uri);
+      expect(resources.find((r) => r.uri === uri)?.name).toContain('Quercus robur L.');
+      expect(stored).toMatchObject({ identificationId: id, bestMatch: 'Quercus robur L.' });
+    });
+
+    it('reads identifications from the disk cache across server instances', async () => {
+      mockFetch
+        .mockResolvedValueOnce(makeFetchResponse(null))
+        .mockResolvedValueOnce(makeFetchResponse(makeIdentifyResponse(300)));
+      const first = await connectClient();
+      const result = await first.callTool({
+        name: 'identify_plant',
+        arguments: { image_urls: ['http://example.com/oak.jpg'], organs: ['leaf'] },
+      });
+      const id = (result.structuredContent as { identificationId: string }).identificationId;
+
+      const second = await connectClient();
+      const stored = textOfResource(await second.readResource({ uri: `plantnet://identifications/${id}` }));
+
+      expect(stored.cache.hit).toBe(true);
+      await expect(
+        second.readResource({ uri: 'plantnet://identifications/../../etc/passwd' })
+      ).rejects.toMatchObject({ code: ErrorCode.InvalidParams });
+    });
+  });
+});
@@ -0,0 +1,8 @@
+import * as imageFetchGuard from '../src/image-fetch-guard';
+
+// The image fetch guard resolves every download host. Tests must not depend on DNS,
+// so hostnames resolve to a public documentation address unless a test injects its
+// own resolver; recording live fixtures uses the real resolver.
+if (!process.env.PLANTNET_RECORD) {
+  jest.spyOn(imageFetchGuard, 'resolveHost').mockImplementation(async () => ['203.0.113.10']);
+}
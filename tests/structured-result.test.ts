@@ -0,0 +1,116 @@
+import { STRUCTURED_RESULT_VERSION, toStructuredResult } from '../src/structured-result';
+import type { PlantNetIdentifyResponse } from '../src/types';
+
+const RESPONSE: PlantNetIdentifyResponse = {
+  query: { project: 'weurope', images: ['img1'], organs: ['leaf'], includeRelatedImages: false },
+  language: 'fr',
+  preferedReferential: 'weurope',
+  bestMatch: 'Quercus robur L.',
+  results: [
+    {
+      score: 0.92,
+      species: {
+        scientificNameWithoutAuthor: 'Quercus robur',
+        scientificNameAuthorship: 'L.',
+        scientificName: 'Quercus robur L.',
+        genus: { scientificNameWithoutAuthor: 'Quercus' },
+        family: { scientificNameWithoutAuthor: 'Fagaceae' },
+        commonNames: ['Chêne pédonculé'],
+      },
+      gbif: { id: '2878688' },
+      powo: { id: '490509-1' },
+    },
+    {
+      score: 0.03,
+      species: {
+        scientificNameWithoutAuthor: 'Quercus petraea',
+        scientificNameAuthorship: '',
+        scientificName: 'Quercus petraea',
+        genus: { scientificNameWithoutAuthor: 'Quercus' },
+        family: { scientificNameWithoutAuthor: 'Fagaceae' },
+        commonNames: [],
+      },
+    },
+  ],
+  remainingIdentificationRequests: 450,
+  version: '2024-01-01 (7.1)',
+};
+
+describe('toStructuredResult', () => {
+  it('normalizes species, taxonomy, external IDs, quota and engine version', () => {
+    const result = toStructuredResult(RESPONSE);
+
+    expect(result.schemaVersion).toBe(STRUCTURED_RESULT_VERSION);
+    expect(result.query).toEqual({ project: 'weurope', organs: ['leaf'], language: 'fr' });
+    expect(result.matches[0]).toEqual({
+      rank: 1,
+      score: 0.92,
+      scientificName: 'Quercus robur L.',
+      scientificNameWithoutAuthor: 'Quercus robur',
+      author: 'L.',
+      genus: 'Quercus',
+      family: 'Fagaceae',
+      commonNames: ['Chêne pédonculé'],
+      commonName: { name: 'Chêne pédonculé', language: 'fr' },
+      externalIds: { gbif: '2878688', powo: '490509-1' },
+      relatedImages: [],
+      taxonomy: null,
+      safety: null,
+    });
+    expect(result.matches[1].author).toBeNull();
+    expect(result.matches[1].externalIds).toEqual({ gbif: null, powo: null });
+    expect(result.matches[1].commonName).toEqual({ name: 'Quercus petraea', language: null });
+    expect(result.quota).toEqual({ remainingDailyRequests: 450, fromCache: false });
+    expect(result.engineVersion).toBe('2024-01-01 (7.1)');
+    expect(result.cache).toEqual({ hit: false, storedAt: null });
+    expect(result.identificationId).toBeNull();
+    expect(result.projectSelection).toBeNull();
+  });
+
+  it('carries the identification ID and automatic project selection', () => {
+    const projectSelection = {
+      project: 'weurope',
+      reason: '48.8566, 2.3522 lies in Western Europe',
+      source: 'exif-gps' as const,
+      coordinates: { latitude: 48.8566, longitude: 2.3522 },
+    };
+    const result = toStructuredResult({ ...RESPONSE, identificationId: 'f'.repeat(64), projectSelection });
+    expect(result.identificationId).toBe('f'.repeat(64));
+    expect(result.projectSelection).toEqual(projectSelection);
+  });
+
+  it('flattens related images for display and attribution', () => {
+    const image = {
+      organ: 'leaf',
+      author: 'Jane Doe',
+      license: 'cc-by-sa',
+      date: { timestamp: 1700000000000, string: 'November 14, 2023' },
+      citation: 'Jane Doe / Pl@ntNet, cc-by-sa',
+      url: { o: 'https://img/o.jpg', m: 'https://img/m.jpg', s: 'https://img/s.jpg' },
+    };
+    const result = toStructuredResult({
+      ...RESPONSE,
+      results: [{ ...RESPONSE.results[0], images: [image] }],
+    });
+    expect(result.matches[0].relatedImages).toEqual([
+      {
+        organ: 'leaf',
+        url: 'https://img/o.jpg',
+        thumbnailUrl: 'https://img/s.jpg',
+        author: 'Jane Doe',
+        license: 'cc-by-sa',
+        citation: 'Jane Doe / Pl@ntNet, cc-by-sa',
+      },
+    ]);
+  });
+
+  it('reports cache hits and warnings', () => {
+    const result = toStructuredResult(
+      { ...RESPONSE, cache: { hit: true, key: 'abc', storedAt: '2026-03-01T00:00:00.000Z' } },
+      ['Low quota']
+    );
+    expect(result.cache).toEqual({ hit: true, storedAt: '2026-03-01T00:00:00.000Z' });
+    expect(result.quota.fromCache).toBe(true);
+    expect(result.warnings).toEqual(['Low quota']);
+  });
+});
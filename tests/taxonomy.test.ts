@@ -0,0 +1,163 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_TAXONOMY_DIR, TaxonomyIndex, TaxonomySnapshot } from '../src/taxonomy';
+import type { PlantNetIdentifyResponse } from '../src/types';
+
+function response(...species: [string, string | undefined][]): PlantNetIdentifyResponse {
+  return {
+    query: { project: 'all', images: [], organs: ['leaf'], includeRelatedImages: false },
+    language: 'en',
+    preferedReferential: 'the-plant-list',
+    bestMatch: species[0][0],
+    results: species.map(([name, gbifId]) => ({
+      score: 0.5,
+      species: {
+        scientificNameWithoutAuthor: name,
+        scientificNameAuthorship: '',
+        scientificName: name,
+        genus: { scientificNameWithoutAuthor: name.split(' ')[0] },
+        family: { scientificNameWithoutAuthor: '' },
+        commonNames: [],
+      },
+      ...(gbifId ? { gbif: { id: gbifId } } : {}),
+    })),
+    remainingIdentificationRequests: 100,
+    version: 'test',
+  };
+}
+
+describe('TaxonomySnapshot', () => {
+  let snapshot: TaxonomySnapshot;
+
+  beforeAll(async () => {
+    snapshot = await TaxonomySnapshot.load(DEFAULT_TAXONOMY_DIR);
+  });
+
+  it('merges GBIF classification with WCVP status and native range', () => {
+    expect(snapshot.lookup({ name: 'Quercus robur L.' })).toEqual({
+      scientificName: 'Quercus robur',
+      authorship: 'L.',
+      rank: 'species',
+      status: 'accepted',
+      acceptedName: null,
+      classification: {
+        kingdom: 'Plantae',
+        phylum: 'Tracheophyta',
+        class: 'Magnoliopsida',
+        order: 'Fagales',
+        family: 'Fagaceae',
+        genus: 'Quercus',
+      },
+      nativeRange: 'Europe to Caucasus',
+      distribution: {
+        native: ['Great Britain', 'France', 'Germany', 'North Caucasus'],
+        introduced: ['Ontario'],
+      },
+      vernacularNames: {
+        en: ['English oak', 'Pedunculate oak'],
+        fr: ['Chêne pédonculé'],
+        de: ['Stieleiche'],
+        es: ['Roble común'],
+      },
+      ids: { gbif: '2878688', powo: '296284-1' },
+      sources: ['gbif', 'wcvp'],
+    });
+  });
+
+  it('reports synonyms with their accepted name and its classification and range', () => {
+    const info = snapshot.lookup({ name: 'quercus  pedunculata' })!;
+
+    expect(info.scientificName).toBe('Quercus pedunculata');
+    expect(info.status).toBe('synonym');
+    expect(info.acceptedName).toBe('Quercus robur L.');
+    expect(info.classification.order).toBe('Fagales');
+    expect(info.nativeRange).toBe('Europe to Caucasus');
+    expect(info.ids).toEqual({ gbif: '2878688', powo: '296284-1' });
+    expect(info.vernacularNames.en).toEqual(['English oak', 'Pedunculate oak']);
+  });
+
+  it('looks up by GBIF key and POWO ID', () => {
+    expect(snapshot.lookup({ gbifId: '5394567' })?.distribution.introduced).toEqual([
+      'New York',
+      'New Zealand North',
+    ]);
+    expect(snapshot.lookup({ powoId: '90433-1' })?.scientificName).toBe('Hedera hibernica');
+  });
+
+  it('returns GBIF-only species without a native range, and null for unknown names', () => {
+    const info = snapshot.lookup({ name: 'Quercus pubescens' })!;
+
+    expect(info.sources).toEqual(['gbif']);
+    expect(info.nativeRange).toBeNull();
+    expect(info.classification.class).toBe('Magnoliopsida');
+    expect(snapshot.lookup({ name: 'Bellis perennis' })).toBeNull();
+    expect(snapshot.lookup({ gbifId: '1' })).toBeNull();
+  });
+
+  describe('load', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plantnet-taxonomy-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('reads a WCVP export on its own, skipping extinct and doubtful occurrences', async () => {
+      fs.writeFileSync(
+        path.join(dir, 'wcvp_names.csv'),
+        'plant_name_id|taxon_rank|taxon_status|family|genus|taxon_name|taxon_authors|accepted_plant_name_id|powo_id|geographic_area\n' +
+          '7|Species|Accepted|Rosaceae|Rosa|Rosa canina|L.|7|731014-1|Europe to Iran\n'
+      );
+      fs.writeFileSync(
+        path.join(dir, 'wcvp_distribution.csv'),
+        'plant_locality_id|plant_name_id|continent|region|area|introduced|extinct|location_doubtful\n' +
+          '1|7|EUROPE|Middle Europe|France|0|0|0\n' +
+          '2|7|EUROPE|Middle Europe|Austria|0|1|0\n' +
+          '3|7|AFRICA|Northern Africa|Algeria|0|0|1\n'
+      );
+      const info = (await TaxonomySnapshot.load(dir)).lookup({ name: 'Rosa canina' })!;
+
+      expect(info.sources).toEqual(['wcvp']);
+      expect(info.classification).toMatchObject({ order: null, family: 'Rosaceae', genus: 'Rosa' });
+      expect(info.distribution.native).toEqual(['France']);
+    });
+
+    it('fails when the directory has no snapshot files', async () => {
+      await expect(TaxonomySnapshot.load(dir)).rejects.toThrow(`No taxonomy snapshot in ${dir}`);
+    });
+  });
+});
+
+describe('TaxonomyIndex', () => {
+  it('reads its directory from the environment and can be disabled', () => {
+    expect(TaxonomyIndex.fromEnv({})?.dir).toBe(DEFAULT_TAXONOMY_DIR);
+    expect(TaxonomyIndex.fromEnv({ PLANTNET_TAXONOMY_DIR: '/srv/wcvp' })?.dir).toBe(path.resolve('/srv/wcvp'));
+    expect(TaxonomyIndex.fromEnv({ PLANTNET_TAXONOMY: 'off' })).toBeNull();
+  });
+
+  it('enriches matches by GBIF ID or name and marks unknown species', async () => {
+    const enriched = await new TaxonomyIndex().enrich(
+      response(['Hedera helix', '8351737'], ['Hypochaeris radicata', undefined], ['Bellis perennis', '3117424'])
+    );
+
+    expect(enriched.results[0].taxonomy?.classification.order).toBe('Apiales');
+    expect(enriched.results[1].taxonomy?.nativeRange).toBe('Macaronesia, Europe to Mediterranean');
+    expect(enriched.results[2].taxonomy).toBeNull();
+  });
+
+  it('retries after a failed load', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plantnet-taxonomy-'));
+    const index = new TaxonomyIndex(dir);
+    try {
+      await expect(index.get()).rejects.toThrow('No taxonomy snapshot');
+      fs.copyFileSync(path.join(DEFAULT_TAXONOMY_DIR, 'Taxon.tsv'), path.join(dir, 'Taxon.tsv'));
+      expect((await index.get()).size).toBe(8);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});